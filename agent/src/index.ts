@@ -37,11 +37,13 @@ import {
     DbCacheAdapter,
     defaultCharacter,
     elizaLogger,
+    exportAgentBundle,
     FsCacheAdapter,
     type IAgentRuntime,
     type ICacheManager,
     type IDatabaseAdapter,
     type IDatabaseCacheAdapter,
+    importAgentBundle,
     ModelProviderName,
     parseBooleanFromText,
     settings,
@@ -180,6 +182,10 @@ const logFetch = async (url: string, options: any) => {
 export function parseArguments(): {
     character?: string;
     characters?: string;
+    export?: string;
+    import?: string;
+    migrate?: boolean;
+    dryRun?: boolean;
 } {
     try {
         return yargs(process.argv.slice(3))
@@ -192,6 +198,26 @@ export function parseArguments(): {
                 description:
                     "Comma separated list of paths to character JSON files",
             })
+            .option("export", {
+                type: "string",
+                description:
+                    "Export the state of the character's agent to a bundle directory and exit",
+            })
+            .option("import", {
+                type: "string",
+                description:
+                    "Import a bundle directory into the character's agent and exit",
+            })
+            .option("migrate", {
+                type: "boolean",
+                description:
+                    "Apply the pending schema migrations of the database and exit",
+            })
+            .option("dry-run", {
+                type: "boolean",
+                description:
+                    "Report what --import or --migrate would change without writing",
+            })
             .parseSync();
     } catch (error) {
         elizaLogger.error("Error parsing arguments:", error);
@@ -1449,6 +1475,77 @@ async function startAgent(
     }
 }
 
+/**
+ * Exports or imports the state of agents with bundles, without starting them
+ */
+async function runBundleCommand(
+    characters: Character[],
+    args: ReturnType<typeof parseArguments>
+) {
+    const dataDir = path.join(__dirname, "../data");
+    const db = initializeDatabase(dataDir) as IDatabaseAdapter &
+        IDatabaseCacheAdapter;
+    await db.init();
+
+    try {
+        if (args.import) {
+            if (characters.length > 1) {
+                throw new Error("--import takes a single character");
+            }
+            const [character] = characters;
+            const report = await importAgentBundle(db, args.import, {
+                agentId: character.id ?? stringToUuid(character.name),
+                dryRun: args.dryRun,
+            });
+            elizaLogger.success(
+                `${args.dryRun ? "Would import" : "Imported"} ${args.import} into ${character.name}`,
+                { imported: report.imported, failed: report.failed }
+            );
+            return;
+        }
+
+        for (const character of characters) {
+            // several agents are exported to a directory each
+            const directory =
+                characters.length > 1
+                    ? path.join(args.export, character.name)
+                    : args.export;
+            await exportAgentBundle(
+                db,
+                character.id ?? stringToUuid(character.name),
+                directory,
+                { agentName: character.name }
+            );
+            elizaLogger.success(`Exported ${character.name} to ${directory}`);
+        }
+    } finally {
+        await db.close();
+    }
+}
+
+/**
+ * Applies or, with --dry-run, lists the pending schema migrations of the database
+ */
+async function runMigrateCommand(args: ReturnType<typeof parseArguments>) {
+    const dataDir = path.join(__dirname, "../data");
+    const db = initializeDatabase(dataDir) as IDatabaseAdapter;
+
+    try {
+        if (!db.migrate) {
+            elizaLogger.warn("The database adapter has no schema migrations");
+            return;
+        }
+        const result = await db.migrate({ dryRun: args.dryRun });
+        elizaLogger.success(
+            result.migrations.length === 0
+                ? `The ${result.adapter} database is up to date at schema version ${result.fromVersion}`
+                : `${result.dryRun ? "Would migrate" : "Migrated"} the ${result.adapter} database from schema version ${result.fromVersion} to ${result.toVersion}`
+        );
+    } finally {
+        await db.close();
+    }
+}
+
 const checkPortAvailable = (port: number): Promise<boolean> => {
     return new Promise((resolve) => {
         const server = net.createServer();
@@ -1493,6 +1590,16 @@ const startAgents = async () => {
     // Normalize characters for injectable plugins
     characters = await Promise.all(characters.map(normalizeCharacter));
 
+    if (args.migrate) {
+        await runMigrateCommand(args);
+        return;
+    }
+
+    if (args.export || args.import) {
+        await runBundleCommand(characters, args);
+        return;
+    }
+
     try {
         for (const character of characters) {
             await startAgent(character, directClient);
@@ -8,6 +8,7 @@ import { BrowserRouter, Route, Routes } from "react-router";
 import Chat from "./routes/chat";
 import Overview from "./routes/overview";
 import Home from "./routes/home";
+import Approvals from "./routes/approvals";
 import useVersion from "./hooks/use-version";
 
 const queryClient = new QueryClient({
@@ -44,6 +45,10 @@ function App() {
                                             path="settings/:agentId"
                                             element={<Overview />}
                                         />
+                                        <Route
+                                            path="approvals/:agentId"
+                                            element={<Approvals />}
+                                        />
                                     </Routes>
                                 </div>
                             </SidebarInset>
@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ApprovalRequest, UUID } from "@elizaos/core";
+import { Check, X } from "lucide-react";
+import PageTitle from "@/components/page-title";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Card,
+    CardContent,
+    CardFooter,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api";
+import { moment } from "@/lib/utils";
+
+export default function Approvals({ agentId }: { agentId: UUID }) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const query = useQuery({
+        queryKey: ["approvals", agentId],
+        queryFn: () => apiClient.getApprovals(agentId),
+        refetchInterval: 5_000,
+    });
+
+    const decideMutation = useMutation({
+        mutationKey: ["decide_approval", agentId],
+        mutationFn: ({
+            requestId,
+            status,
+        }: {
+            requestId: UUID;
+            status: "approved" | "rejected";
+        }) => apiClient.decideApproval(agentId, requestId, status),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["approvals", agentId],
+            });
+        },
+        onError: (e) => {
+            toast({
+                variant: "destructive",
+                title: "Unable to record the decision",
+                description: e.message,
+            });
+        },
+    });
+
+    const approvals: ApprovalRequest[] = query?.data?.approvals ?? [];
+
+    return (
+        <div className="flex flex-col gap-4 p-4">
+            <PageTitle
+                title="Approvals"
+                subtitle="Outbound content and actions waiting for a review."
+            />
+            {approvals.length === 0 ? (
+                <p className="text-muted-foreground">Nothing to review.</p>
+            ) : null}
+            {approvals.map((approval) => (
+                <Card key={approval.id}>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            {approval.title}
+                            <Badge variant="outline">{approval.kind}</Badge>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="whitespace-pre-wrap">
+                        {approval.content.text}
+                    </CardContent>
+                    <CardFooter className="flex items-center gap-2">
+                        <Button
+                            disabled={decideMutation.isPending}
+                            onClick={() =>
+                                decideMutation.mutate({
+                                    requestId: approval.id,
+                                    status: "approved",
+                                })
+                            }
+                        >
+                            <Check /> Approve
+                        </Button>
+                        <Button
+                            variant="outline"
+                            disabled={decideMutation.isPending}
+                            onClick={() =>
+                                decideMutation.mutate({
+                                    requestId: approval.id,
+                                    status: "rejected",
+                                })
+                            }
+                        >
+                            <X /> Reject
+                        </Button>
+                        <span className="text-sm text-muted-foreground">
+                            Expires {moment(approval.expiresAt).format("LLL")}
+                        </span>
+                    </CardFooter>
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -9,7 +9,7 @@ import { ChatMessageList } from "@/components/ui/chat/chat-message-list";
 import { useTransition, animated, type AnimatedProps } from "@react-spring/web";
 import { Paperclip, Send, X } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
-import type { Content, UUID } from "@elizaos/core";
+import type { Content, KnowledgeCitation, UUID } from "@elizaos/core";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiClient } from "@/lib/api";
 import { cn, moment } from "@/lib/utils";
@@ -28,10 +28,23 @@ type ExtraContentFields = {
     user: string;
     createdAt: number;
     isLoading?: boolean;
+    isStreaming?: boolean;
 };
 
 type ContentWithUser = Content & ExtraContentFields;
 
+// e.g. "docs/guide.md > Install (page 2)", the snippet when the source is unknown
+const formatCitation = (citation: KnowledgeCitation) => {
+    const location = [citation.source, citation.section]
+        .filter(Boolean)
+        .join(" > ");
+    const page = citation.page ? `page ${citation.page}` : "";
+    if (location && page) {
+        return `${location} (${page})`;
+    }
+    return location || page || citation.snippet;
+};
+
 type AnimatedDivProps = AnimatedProps<{ style: React.CSSProperties }> & {
     children?: React.ReactNode;
 };
@@ -119,6 +132,24 @@ export default function Page({ agentId }: { agentId: UUID }) {
         }
     }, []);
 
+    // Replaces the loading placeholder with the partial reply as it streams in
+    const appendStreamedText = (text: string) => {
+        queryClient.setQueryData(
+            ["messages", agentId],
+            (old: ContentWithUser[] = []) =>
+                old.map((msg) =>
+                    msg.isLoading || msg.isStreaming
+                        ? {
+                              ...msg,
+                              text: (msg.isStreaming ? msg.text : "") + text,
+                              isLoading: false,
+                              isStreaming: true,
+                          }
+                        : msg
+                )
+        );
+    };
+
     const sendMessageMutation = useMutation({
         mutationKey: ["send_message", agentId],
         mutationFn: ({
@@ -127,12 +158,18 @@ export default function Page({ agentId }: { agentId: UUID }) {
         }: {
             message: string;
             selectedFile?: File | null;
-        }) => apiClient.sendMessage(agentId, message, selectedFile),
-        onSuccess: (newMessages: ContentWithUser[]) => {
+        }) =>
+            apiClient.streamMessage(
+                agentId,
+                message,
+                appendStreamedText,
+                selectedFile
+            ),
+        onSuccess: (newMessages: Content[]) => {
             queryClient.setQueryData(
                 ["messages", agentId],
                 (old: ContentWithUser[] = []) => [
-                    ...old.filter((msg) => !msg.isLoading),
+                    ...old.filter((msg) => !msg.isLoading && !msg.isStreaming),
                     ...newMessages.map((msg) => ({
                         ...msg,
                         createdAt: Date.now(),
@@ -141,6 +178,11 @@ export default function Page({ agentId }: { agentId: UUID }) {
             );
         },
         onError: (e) => {
+            queryClient.setQueryData(
+                ["messages", agentId],
+                (old: ContentWithUser[] = []) =>
+                    old.filter((msg) => !msg.isLoading && !msg.isStreaming)
+            );
             toast({
                 variant: "destructive",
                 title: "Unable to send message",
@@ -161,8 +203,11 @@ export default function Page({ agentId }: { agentId: UUID }) {
         [];
 
     const transitions = useTransition(messages, {
+        // keep the pending reply's key stable while its text streams in
         keys: (message) =>
-            `${message.createdAt}-${message.user}-${message.text}`,
+            message.isLoading || message.isStreaming
+                ? `${message.createdAt}-${message.user}-pending`
+                : `${message.createdAt}-${message.user}-${message.text}`,
         from: { opacity: 0, transform: "translateY(50px)" },
         enter: { opacity: 1, transform: "translateY(0px)" },
         leave: { opacity: 0, transform: "translateY(10px)" },
@@ -204,7 +249,8 @@ export default function Page({ agentId }: { agentId: UUID }) {
                                         <ChatBubbleMessage
                                             isLoading={message?.isLoading}
                                         >
-                                            {message?.user !== "user" ? (
+                                            {message?.user !== "user" &&
+                                            !message?.isStreaming ? (
                                                 <AIWriter>
                                                     {message?.text}
                                                 </AIWriter>
@@ -234,10 +280,30 @@ export default function Page({ agentId }: { agentId: UUID }) {
                                                     )
                                                 )}
                                             </div>
+                                            {/* Knowledge sources */}
+                                            {message?.citations?.length ? (
+                                                <div className="flex flex-col gap-1 mt-2 pt-2 border-t text-xs text-muted-foreground">
+                                                    {message.citations.map(
+                                                        (citation) => (
+                                                            <span
+                                                                key={
+                                                                    citation.key
+                                                                }
+                                                                title={
+                                                                    citation.snippet
+                                                                }
+                                                            >
+                                                                {`[${citation.index}] ${formatCitation(citation)}`}
+                                                            </span>
+                                                        )
+                                                    )}
+                                                </div>
+                                            ) : null}
                                         </ChatBubbleMessage>
                                         <div className="flex items-center gap-4 justify-between w-full mt-1">
                                             {message?.text &&
-                                            !message?.isLoading ? (
+                                            !message?.isLoading &&
+                                            !message?.isStreaming ? (
                                                 <div className="flex items-center gap-1">
                                                     <CopyButton
                                                         text={message?.text}
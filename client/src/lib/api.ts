@@ -1,4 +1,9 @@
-import type { UUID, Character } from "@elizaos/core";
+import type {
+    UUID,
+    Character,
+    Content,
+    ApprovalRequest,
+} from "@elizaos/core";
 
 const BASE_URL = `http://localhost:${import.meta.env.VITE_SERVER_PORT}`;
 
@@ -63,6 +68,69 @@ const fetcher = async ({
     });
 };
 
+/**
+ * Reads the Server-Sent Events of a streamed message reply.
+ * Calls `onChunk` with each piece of reply text and resolves with the final messages.
+ */
+const streamFetcher = async ({
+    url,
+    body,
+    onChunk,
+}: {
+    url: string;
+    body: FormData;
+    onChunk: (text: string) => void;
+}): Promise<Content[]> => {
+    const resp = await fetch(`${BASE_URL}${url}`, {
+        method: "POST",
+        headers: { Accept: "text/event-stream" },
+        body,
+    });
+
+    if (!resp.ok || !resp.body) {
+        const errorText = await resp.text();
+        console.error("Error: ", errorText);
+        throw new Error(errorText || "An error occurred.");
+    }
+
+    const messages: Content[] = [];
+    const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const events = buffer.split("\n\n");
+        buffer = events.pop() ?? "";
+
+        for (const rawEvent of events) {
+            let event = "message";
+            let data = "";
+            for (const line of rawEvent.split("\n")) {
+                if (line.startsWith("event: ")) event = line.slice(7);
+                else if (line.startsWith("data: ")) data += line.slice(6);
+            }
+            if (!data) continue;
+
+            const payload = JSON.parse(data);
+            switch (event) {
+                case "chunk":
+                    onChunk(payload.text);
+                    break;
+                case "message":
+                    messages.push(payload);
+                    break;
+                case "error":
+                    throw new Error(payload.message);
+            }
+        }
+    }
+
+    return messages;
+};
+
 export const apiClient = {
     sendMessage: (
         agentId: string,
@@ -82,9 +150,42 @@ export const apiClient = {
             body: formData,
         });
     },
+    streamMessage: (
+        agentId: string,
+        message: string,
+        onChunk: (text: string) => void,
+        selectedFile?: File | null
+    ) => {
+        const formData = new FormData();
+        formData.append("text", message);
+        formData.append("user", "user");
+
+        if (selectedFile) {
+            formData.append("file", selectedFile);
+        }
+        return streamFetcher({
+            url: `/${agentId}/message/stream`,
+            body: formData,
+            onChunk,
+        });
+    },
     getAgents: () => fetcher({ url: "/agents" }),
     getAgent: (agentId: string): Promise<{ id: UUID; character: Character }> =>
         fetcher({ url: `/agents/${agentId}` }),
+    getApprovals: (
+        agentId: string
+    ): Promise<{ approvals: ApprovalRequest[] }> =>
+        fetcher({ url: `/agents/${agentId}/approvals?status=pending` }),
+    decideApproval: (
+        agentId: string,
+        requestId: string,
+        status: "approved" | "rejected"
+    ): Promise<{ approval: ApprovalRequest }> =>
+        fetcher({
+            url: `/agents/${agentId}/approvals/${requestId}`,
+            method: "POST",
+            body: { status, decidedBy: "web" },
+        }),
     tts: (agentId: string, text: string) =>
         fetcher({
             url: `/${agentId}/tts`,
@@ -0,0 +1,11 @@
+import { useParams } from "react-router";
+import Approvals from "@/components/approvals";
+import type { UUID } from "@elizaos/core";
+
+export default function ApprovalsRoute() {
+    const { agentId } = useParams<{ agentId: UUID }>();
+
+    if (!agentId) return <div>No data.</div>;
+
+    return <Approvals agentId={agentId} />;
+}
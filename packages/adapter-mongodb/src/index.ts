@@ -1,6 +1,7 @@
 import { MongoClient } from 'mongodb';
 import {
     DatabaseAdapter,
+    ERASED_MEMORY_TEXT,
     RAGKnowledgeItem,
     IDatabaseCacheAdapter,
     Account,
@@ -10,6 +11,8 @@ import {
     type Goal,
     type Memory,
     type Relationship,
+    type UserErasureOptions,
+    type UserErasureReport,
     type UUID, elizaLogger,
 } from "@elizaos/core";
 import { v4 } from "uuid";
@@ -359,6 +362,8 @@ export class MongoDBDatabaseAdapter
         agentId: UUID;
         roomIds: UUID[];
         tableName: string;
+        limit?: number;
+        offset?: number;
     }): Promise<Memory[]> {
         await this.ensureConnection();
         if (!params.tableName) {
@@ -371,6 +376,9 @@ export class MongoDBDatabaseAdapter
                 agentId: params.agentId,
                 roomId: { $in: params.roomIds }
             })
+            .sort({ createdAt: -1, id: 1 })
+            .skip(params.offset || 0)
+            .limit(params.limit || 0)
             .toArray();
 
         return memories.map(memory => ({
@@ -972,6 +980,120 @@ export class MongoDBDatabaseAdapter
         }
     }
 
+    async eraseUser(
+        userId: UUID,
+        options: UserErasureOptions = {}
+    ): Promise<UserErasureReport> {
+        await this.ensureConnection();
+        const report: UserErasureReport = {
+            userId,
+            dryRun: !!options.dryRun,
+            deleted: {},
+            anonymized: {},
+            unsupported: [],
+            directRoomIds: []
+        };
+        const memories = this.database.collection('memories');
+
+        // direct conversations, rooms of the user and the agent its memories are stored for that
+        // nobody else wrote in, are erased entirely
+        for (const roomId of await this.getRoomsForParticipant(userId)) {
+            const others = new Set(
+                (await this.getParticipantsForRoom(roomId)).filter(id => id !== userId)
+            );
+            if (others.size !== 1) {
+                continue;
+            }
+            const [agentId] = others;
+            const fromAgent = await memories.countDocuments({ roomId, agentId });
+            const fromOthers = await memories.countDocuments({
+                roomId,
+                userId: { $nin: [userId, agentId, null] }
+            });
+            if (fromAgent > 0 && fromOthers === 0) {
+                report.directRoomIds.push(roomId);
+            }
+        }
+        const directRooms = report.directRoomIds;
+        const ownedOrDirect = {
+            $or: [{ userId }, { roomId: { $in: directRooms } }]
+        };
+        const shared = { userId, roomId: { $nin: directRooms } };
+
+        const countMemories = async (filter: object, counts: Record<string, number>) => {
+            const rows = await memories
+                .aggregate([
+                    { $match: filter },
+                    { $group: { _id: '$type', count: { $sum: 1 } } }
+                ])
+                .toArray();
+            for (const row of rows) {
+                counts[row._id] = (counts[row._id] ?? 0) + row.count;
+            }
+        };
+        const erase = async (collection: string, filter: object) => {
+            const count = await this.database.collection(collection).countDocuments(filter);
+            if (count > 0) {
+                report.deleted[collection] = count;
+            }
+            if (!options.dryRun) {
+                await this.database.collection(collection).deleteMany(filter);
+            }
+        };
+
+        await countMemories({ roomId: { $in: directRooms } }, report.deleted);
+        if (options.sharedRoomMessages === 'anonymize') {
+            await countMemories(shared, report.anonymized);
+            if (!options.dryRun) {
+                const anonymized = await memories
+                    .find(shared)
+                    .project({ id: 1, content: 1, embedding: 1 })
+                    .toArray();
+                const updates = anonymized.map(memory => {
+                    const content = typeof memory.content === 'string' ?
+                        JSON.parse(memory.content) : memory.content;
+                    return {
+                        updateOne: {
+                            filter: { id: memory.id },
+                            update: {
+                                $set: {
+                                    content: JSON.stringify({
+                                        text: ERASED_MEMORY_TEXT,
+                                        inReplyTo: content?.inReplyTo
+                                    }),
+                                    embedding: memory.embedding ?
+                                        new Array(memory.embedding.length).fill(0) : null,
+                                    userId: null
+                                }
+                            }
+                        }
+                    };
+                });
+                if (updates.length > 0) {
+                    await memories.bulkWrite(updates);
+                }
+            }
+        } else {
+            await countMemories(shared, report.deleted);
+        }
+        if (!options.dryRun) {
+            await memories.deleteMany(ownedOrDirect);
+        }
+
+        await erase('goals', ownedOrDirect);
+        await erase('logs', ownedOrDirect);
+        await erase('participants', ownedOrDirect);
+        await erase('relationships', {
+            $or: [{ userA: userId }, { userB: userId }, { userId }]
+        });
+        await erase('rooms', { id: { $in: directRooms } });
+        // cache entries keyed by the user, e.g. per-user rate limits or state
+        await erase('cache', { key: { $regex: userId } });
+        await erase('accounts', { id: userId });
+
+        return report;
+    }
+
     async getRoomsForParticipant(userId: UUID): Promise<UUID[]> {
         await this.ensureConnection();
         const rooms = await this.database.collection('participants')
@@ -1021,6 +1143,8 @@ export class MongoDBDatabaseAdapter
     async createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean> {
         await this.ensureConnection();
         if (!params.userA || !params.userB) {
@@ -1032,7 +1156,8 @@ export class MongoDBDatabaseAdapter
                 id: v4(),
                 userA: params.userA,
                 userB: params.userB,
-                userId: params.userA,
+                userId: params.userId ?? params.userA,
+                status: params.status ?? null,
                 createdAt: new Date()
             });
             return true;
@@ -1127,6 +1252,7 @@ export class MongoDBDatabaseAdapter
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
     }): Promise<RAGKnowledgeItem[]> {
         await this.ensureConnection();
@@ -1144,6 +1270,8 @@ export class MongoDBDatabaseAdapter
 
         const knowledge = await this.database.collection('knowledge')
             .find(query)
+            .sort({ createdAt: 1, id: 1 })
+            .skip(params.offset || 0)
             .limit(params.limit || 0)
             .toArray();
 
@@ -1397,11 +1525,29 @@ export class MongoDBDatabaseAdapter
         }
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        await this.ensureConnection();
+        await this.database.collection('knowledge').updateOne(
+            { id: knowledge.id },
+            {
+                $set: {
+                    content: JSON.stringify(knowledge.content),
+                    embedding: knowledge.embedding ? Array.from(knowledge.embedding) : null
+                }
+            }
+        );
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         await this.ensureConnection();
         await this.database.collection('knowledge').deleteOne({ id });
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        await this.ensureConnection();
+        await this.database.collection('knowledge').deleteMany({ originalId });
+    }
+
     async clearKnowledge(agentId: UUID, shared?: boolean): Promise<void> {
         await this.ensureConnection();
         const query = shared ?
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    type AdapterConformanceReport,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "@elizaos/core";
+import { PGLiteDatabaseAdapter, pgliteMigrations } from "../src";
+
+describe("PGLiteDatabaseAdapter conformance", () => {
+    let adapter: PGLiteDatabaseAdapter;
+    let report: AdapterConformanceReport;
+
+    beforeAll(async () => {
+        // in-memory database
+        adapter = new PGLiteDatabaseAdapter({});
+        await adapter.init();
+        report = await runAdapterConformance("pglite", adapter);
+        await writeConformanceReport(report);
+    }, 60_000);
+
+    afterAll(async () => {
+        await adapter.close();
+    });
+
+    it("should be at the latest schema version after init", async () => {
+        const result = await adapter.migrate({ dryRun: true });
+
+        expect(result.fromVersion).toBe(pgliteMigrations.length);
+        expect(result.migrations).toEqual([]);
+    });
+
+    it("should only deviate from the adapter contract where known", () => {
+        const deviations = Object.fromEntries(
+            report.results
+                .filter((result) => result.status !== "supported")
+                .map((result) => [result.capability, result.status])
+        );
+
+        // remove entries once the adapter is fixed
+        expect(deviations).toEqual({
+            // createMemory ignores createdAt and stores the insertion time
+            memories: "failed",
+            "memories.ordering": "failed",
+            "memories.timeRange": "failed",
+            // createKnowledge stores an empty embedding as a vector without dimensions
+            knowledge: "failed",
+            "cache.entries": "unsupported",
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    type Memory,
+    type UUID,
+    getEmbeddingConfig,
+    settings,
+} from "@elizaos/core";
+import { PGLiteDatabaseAdapter } from "../src";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const roomId = "00000000-0000-0000-0000-000000000002" as UUID;
+
+const createMemory = (id: string, dimensions: number): Memory => ({
+    id: `00000000-0000-0000-0000-00000000001${id}` as UUID,
+    userId: agentId,
+    agentId,
+    roomId,
+    content: { text: `memory ${id}` },
+    embedding: new Array(dimensions).fill(0.1),
+});
+
+describe("PGLiteDatabaseAdapter resizeEmbeddings", () => {
+    let adapter: PGLiteDatabaseAdapter;
+    const useOpenAIEmbedding = settings.USE_OPENAI_EMBEDDING;
+
+    const getDimensions = async (id: UUID) => {
+        const { rows } = await adapter.query<{ dimensions: number | null }>(
+            "SELECT vector_dims(embedding) AS dimensions FROM memories WHERE id = $1",
+            [id]
+        );
+        return rows[0]?.dimensions;
+    };
+
+    beforeAll(async () => {
+        // the tables are created with the dimension of the BGE model
+        settings.USE_OPENAI_EMBEDDING = "false";
+        adapter = new PGLiteDatabaseAdapter({});
+        await adapter.init();
+        await adapter.createAccount({
+            id: agentId,
+            name: "agent",
+            username: "agent",
+        });
+        await adapter.createRoom(roomId);
+    }, 60_000);
+
+    afterAll(async () => {
+        settings.USE_OPENAI_EMBEDDING = useOpenAIEmbedding;
+        await adapter.close();
+    });
+
+    it("should store vectors of a new dimension once resized", async () => {
+        const previous = getEmbeddingConfig().dimensions;
+        const kept = createMemory("1", previous);
+        const reembedded = createMemory("2", previous);
+        await adapter.createMemory(kept, "messages");
+        await adapter.createMemory(reembedded, "messages");
+
+        settings.USE_OPENAI_EMBEDDING = "true";
+        const { dimensions } = getEmbeddingConfig();
+        expect(dimensions).not.toBe(previous);
+        const update = {
+            ...reembedded,
+            embedding: new Array(dimensions).fill(0.2),
+        };
+
+        // the column only accepts vectors of the old dimension
+        await expect(
+            adapter.updateMemoryEmbedding(update, "messages")
+        ).rejects.toThrow();
+
+        await adapter.resizeEmbeddings(dimensions);
+        await adapter.updateMemoryEmbedding(update, "messages");
+
+        expect(await getDimensions(reembedded.id)).toBe(dimensions);
+        // vectors of the old dimension are cleared to be embedded again
+        expect(await getDimensions(kept.id)).toBeNull();
+        expect(await adapter.getMemoryById(kept.id)).toEqual(
+            expect.objectContaining({ content: kept.content })
+        );
+
+        // resizing to the current dimension keeps the vectors
+        await adapter.resizeEmbeddings(dimensions);
+        expect(await getDimensions(reembedded.id)).toBe(dimensions);
+    });
+});
@@ -1,3 +1,5 @@
+export * from "./migrations.ts";
+
 import { v4 } from "uuid";
 
 import {
@@ -10,15 +12,20 @@ import {
     type UUID,
     type IDatabaseCacheAdapter,
     type Participant,
+    ERASED_MEMORY_TEXT,
     elizaLogger,
     getEmbeddingConfig,
     DatabaseAdapter,
     EmbeddingProvider,
     type RAGKnowledgeItem,
+    type RetentionPolicy,
+    type SchemaMigrationOptions,
+    type SchemaMigrationResult,
+    type SchemaMigrationStore,
+    type UserErasureOptions,
+    type UserErasureReport,
+    runSchemaMigrations,
 } from "@elizaos/core";
-import fs from "fs";
-import { fileURLToPath } from "url";
-import path from "path";
 import {
     PGlite,
     type PGliteOptions,
@@ -27,9 +34,7 @@ import {
 } from "@electric-sql/pglite";
 import { vector } from "@electric-sql/pglite/vector";
 import { fuzzystrmatch } from "@electric-sql/pglite/contrib/fuzzystrmatch";
-
-const __filename = fileURLToPath(import.meta.url); // get the resolved path to the file
-const __dirname = path.dirname(__filename); // get the name of the directory
+import { pgliteMigrations, schemaVersionTable } from "./migrations.ts";
 
 export class PGLiteDatabaseAdapter
     extends DatabaseAdapter<PGlite>
@@ -50,8 +55,13 @@ export class PGLiteDatabaseAdapter
 
     async init() {
         await this.db.waitReady;
+        await this.migrate();
+    }
 
-        await this.withTransaction(async (tx) => {
+    async migrate(
+        options: SchemaMigrationOptions = {}
+    ): Promise<SchemaMigrationResult> {
+        const result = await this.withTransaction(async (tx) => {
             // Set application settings for embedding dimension
             const embeddingConfig = getEmbeddingConfig();
             if (embeddingConfig.provider === EmbeddingProvider.OpenAI) {
@@ -72,12 +82,43 @@ export class PGLiteDatabaseAdapter
                 await tx.query("SET app.use_gaianet_embedding = 'false'");
             }
 
-            const schema = fs.readFileSync(
-                path.resolve(__dirname, "../schema.sql"),
-                "utf8"
+            return runSchemaMigrations(
+                this.createMigrationStore(tx),
+                pgliteMigrations,
+                { ...options, adapter: "pglite" }
             );
-            await tx.exec(schema);
-        }, "init");
+        }, "migrate");
+        // PGlite only resolves undefined after an explicit rollback, which migrate never does
+        return result as SchemaMigrationResult;
+    }
+
+    private createMigrationStore(tx: Transaction): SchemaMigrationStore {
+        return {
+            getSchemaVersion: async () => {
+                const { rows } = await tx.query<{ exists: boolean }>(`
+                    SELECT EXISTS (
+                        SELECT FROM information_schema.tables
+                        WHERE table_name = 'schema_version'
+                    );
+                `);
+                if (!rows[0].exists) {
+                    return 0;
+                }
+                const { rows: versions } = await tx.query<{
+                    version: number | null;
+                }>("SELECT MAX(version) AS version FROM schema_version");
+                return versions[0].version ?? 0;
+            },
+            // Runs in the transaction of migrate, so a failed migration leaves no trace
+            applyMigration: async (migration) => {
+                await tx.exec(schemaVersionTable);
+                await tx.exec(migration.up);
+                await tx.query(
+                    "INSERT INTO schema_version (version, name) VALUES ($1, $2)",
+                    [migration.version, migration.name]
+                );
+            },
+        };
     }
 
     async close() {
@@ -153,6 +194,7 @@ export class PGLiteDatabaseAdapter
         agentId?: UUID;
         tableName: string;
         limit?: number;
+        offset?: number;
     }): Promise<Memory[]> {
         return this.withDatabase(async () => {
             if (params.roomIds.length === 0) return [];
@@ -169,11 +211,15 @@ export class PGLiteDatabaseAdapter
             }
 
             // Add ordering and limit
-            query += ` ORDER BY "createdAt" DESC`;
+            query += ` ORDER BY "createdAt" DESC, id`;
             if (params.limit) {
                 query += ` LIMIT $${queryParams.length + 1}`;
                 queryParams.push(params.limit.toString());
             }
+            if (params.offset) {
+                query += ` OFFSET $${queryParams.length + 1}`;
+                queryParams.push(params.offset.toString());
+            }
 
             const { rows } = await this.query<Memory>(query, queryParams);
             return rows.map((row) => ({
@@ -670,6 +716,8 @@ export class PGLiteDatabaseAdapter
     async createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean> {
         // Input validation
         if (!params.userA || !params.userB) {
@@ -680,10 +728,16 @@ export class PGLiteDatabaseAdapter
             try {
                 const relationshipId = v4();
                 await this.query(
-                    `INSERT INTO relationships (id, "userA", "userB", "userId")
-                    VALUES ($1, $2, $3, $4)
+                    `INSERT INTO relationships (id, "userA", "userB", "userId", "status")
+                    VALUES ($1, $2, $3, $4, $5)
                     RETURNING id`,
-                    [relationshipId, params.userA, params.userB, params.userA]
+                    [
+                        relationshipId,
+                        params.userA,
+                        params.userB,
+                        params.userId ?? params.userA,
+                        params.status ?? null,
+                    ]
                 );
 
                 elizaLogger.debug("Relationship created successfully:", {
@@ -1144,6 +1198,210 @@ export class PGLiteDatabaseAdapter
         }, "countMemories");
     }
 
+    async applyRetention(
+        params: RetentionPolicy & { agentId: UUID; dryRun?: boolean }
+    ): Promise<number> {
+        return this.withDatabase(async () => {
+            const cutoff = params.maxAge
+                ? new Date(Date.now() - params.maxAge)
+                : undefined;
+
+            if (params.tableName === "cache") {
+                if (!cutoff) {
+                    return 0;
+                }
+                const where = `"agentId" = $1 AND "createdAt" < $2`;
+                const args = [params.agentId, cutoff];
+                if (params.dryRun) {
+                    const { rows } = await this.query<{ count: string }>(
+                        `SELECT COUNT(*) AS count FROM cache WHERE ${where}`,
+                        args
+                    );
+                    return Number(rows[0].count);
+                }
+                const result = await this.query(
+                    `DELETE FROM cache WHERE ${where}`,
+                    args
+                );
+                return result.affectedRows ?? 0;
+            }
+
+            const isMemoryTable = !["logs", "goals"].includes(
+                params.tableName
+            );
+            const table = isMemoryTable ? "memories" : params.tableName;
+            const scope = isMemoryTable
+                ? `type = $1 AND "agentId" = $2`
+                : `"roomId" IN (SELECT "roomId" FROM participants WHERE "userId" = $1)`;
+            const args: unknown[] = isMemoryTable
+                ? [params.tableName, params.agentId]
+                : [params.agentId];
+
+            const conditions: string[] = [];
+            if (params.maxCountPerRoom !== undefined) {
+                args.push(params.maxCountPerRoom);
+                conditions.push(`position > $${args.length}`);
+            }
+            if (cutoff) {
+                args.push(cutoff);
+                conditions.push(`"createdAt" < $${args.length}`);
+            }
+            if (conditions.length === 0) {
+                return 0;
+            }
+
+            const expired = `SELECT id FROM (
+                SELECT id, "createdAt", ROW_NUMBER() OVER (PARTITION BY "roomId" ORDER BY "createdAt" DESC) AS position
+                FROM ${table} WHERE ${scope}
+            ) ranked WHERE ${conditions.join(" OR ")}`;
+
+            if (params.dryRun) {
+                const { rows } = await this.query<{ count: string }>(
+                    `SELECT COUNT(*) AS count FROM (${expired}) expired`,
+                    args
+                );
+                return Number(rows[0].count);
+            }
+            const result = await this.query(
+                `DELETE FROM ${table} WHERE id IN (${expired})`,
+                args
+            );
+            return result.affectedRows ?? 0;
+        }, "applyRetention");
+    }
+
+    async eraseUser(
+        userId: UUID,
+        options: UserErasureOptions = {}
+    ): Promise<UserErasureReport> {
+        const report = await this.withTransaction(async (tx) => {
+            const erased: UserErasureReport = {
+                userId,
+                dryRun: !!options.dryRun,
+                deleted: {},
+                anonymized: {},
+                unsupported: [],
+                directRoomIds: [],
+            };
+
+            // direct conversations, rooms of the user and the agent its memories are stored for
+            // that nobody else wrote in, are erased entirely
+            const directRooms = (
+                await tx.query<{ roomId: UUID }>(
+                    `SELECT "roomId" FROM participants
+                    WHERE "roomId" IN (SELECT "roomId" FROM participants WHERE "userId" = $1)
+                    GROUP BY "roomId" HAVING COUNT(DISTINCT "userId") = 2
+                    AND "roomId" IN (
+                        SELECT m."roomId" FROM memories m
+                        JOIN participants a ON a."roomId" = m."roomId" AND a."userId" = m."agentId"
+                        WHERE m."agentId" <> $1
+                    )
+                    AND "roomId" NOT IN (
+                        SELECT "roomId" FROM memories
+                        WHERE "roomId" IS NOT NULL AND "userId" NOT IN ($1, "agentId")
+                    )`,
+                    [userId]
+                )
+            ).rows.map((row) => row.roomId);
+            report.directRoomIds = directRooms;
+
+            const countMemories = async (
+                where: string,
+                args: unknown[],
+                counts: Record<string, number>
+            ) => {
+                const { rows } = await tx.query<{
+                    type: string;
+                    count: string;
+                }>(
+                    `SELECT type, COUNT(*) AS count FROM memories WHERE ${where} GROUP BY type`,
+                    args
+                );
+                for (const row of rows) {
+                    counts[row.type] =
+                        (counts[row.type] ?? 0) + Number(row.count);
+                }
+            };
+            const erase = async (
+                table: string,
+                where: string,
+                args: unknown[]
+            ) => {
+                const { rows } = await tx.query<{ count: string }>(
+                    `SELECT COUNT(*) AS count FROM ${table} WHERE ${where}`,
+                    args
+                );
+                const count = Number(rows[0].count);
+                if (count > 0) {
+                    erased.deleted[table] = count;
+                }
+                if (!options.dryRun && count > 0) {
+                    await tx.query(`DELETE FROM ${table} WHERE ${where}`, args);
+                }
+            };
+
+            const inDirectRooms = `"roomId" = ANY($1::uuid[])`;
+            await countMemories(inDirectRooms, [directRooms], erased.deleted);
+            if (!options.dryRun) {
+                await tx.query(`DELETE FROM memories WHERE ${inDirectRooms}`, [
+                    directRooms,
+                ]);
+            }
+
+            const sharedMemories = `"userId" = $1 AND NOT ("roomId" = ANY($2::uuid[]))`;
+            const sharedArgs = [userId, directRooms];
+            if (options.sharedRoomMessages === "anonymize") {
+                await countMemories(
+                    sharedMemories,
+                    sharedArgs,
+                    erased.anonymized
+                );
+                if (!options.dryRun) {
+                    // the account is deleted below and would cascade to the memories it owns
+                    await tx.query(
+                        `UPDATE memories SET
+                            content = jsonb_strip_nulls(jsonb_build_object('text', $3::text, 'inReplyTo', content->'inReplyTo')),
+                            embedding = CASE WHEN embedding IS NULL THEN NULL
+                                ELSE array_fill(0, ARRAY[vector_dims(embedding)])::vector END,
+                            "userId" = NULL
+                        WHERE ${sharedMemories}`,
+                        [...sharedArgs, ERASED_MEMORY_TEXT]
+                    );
+                }
+            } else {
+                await countMemories(
+                    sharedMemories,
+                    sharedArgs,
+                    erased.deleted
+                );
+                if (!options.dryRun) {
+                    await tx.query(
+                        `DELETE FROM memories WHERE ${sharedMemories}`,
+                        sharedArgs
+                    );
+                }
+            }
+
+            const ownedOrDirect = `"userId" = $1 OR "roomId" = ANY($2::uuid[])`;
+            await erase("goals", ownedOrDirect, [userId, directRooms]);
+            await erase("logs", ownedOrDirect, [userId, directRooms]);
+            await erase("participants", ownedOrDirect, [userId, directRooms]);
+            await erase(
+                "relationships",
+                `"userA" = $1 OR "userB" = $1 OR "userId" = $1`,
+                [userId]
+            );
+            await erase("rooms", "id = ANY($1::uuid[])", [directRooms]);
+            // cache entries keyed by the user, e.g. per-user rate limits or state
+            await erase("cache", "strpos(key, $1) > 0", [userId]);
+            await erase("accounts", "id = $1", [userId]);
+
+            return erased;
+        }, "eraseUser");
+        // PGlite only resolves undefined after an explicit rollback, which eraseUser never does
+        return report as UserErasureReport;
+    }
+
     async removeAllGoals(roomId: UUID): Promise<void> {
         return this.withDatabase(async () => {
             await this.query(`DELETE FROM goals WHERE "roomId" = $1`, [roomId]);
@@ -1290,6 +1548,18 @@ export class PGLiteDatabaseAdapter
         );
     }
 
+    async getCacheEntries(params: {
+        agentId: UUID;
+    }): Promise<{ key: string; value: string }[]> {
+        return this.withDatabase(async () => {
+            const { rows } = await this.query<{ key: string; value: string }>(
+                `SELECT "key", "value"::TEXT FROM cache WHERE "agentId" = $1`,
+                [params.agentId]
+            );
+            return rows;
+        }, "getCacheEntries");
+    }
+
     async deleteCache(params: {
         key: string;
         agentId: UUID;
@@ -1322,6 +1592,7 @@ export class PGLiteDatabaseAdapter
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
     }): Promise<RAGKnowledgeItem[]> {
         return this.withDatabase(async () => {
@@ -1336,11 +1607,17 @@ export class PGLiteDatabaseAdapter
                     queryParams.push(params.id);
                 }
 
+                sql += ` ORDER BY "createdAt", id`;
                 if (params.limit) {
                     paramCount++;
                     sql += ` LIMIT $${paramCount}`;
                     queryParams.push(params.limit);
                 }
+                if (params.offset) {
+                    paramCount++;
+                    sql += ` OFFSET $${paramCount}`;
+                    queryParams.push(params.offset);
+                }
 
                 const { rows } = await this.query<RAGKnowledgeItem>(
                     sql,
@@ -1526,6 +1803,43 @@ export class PGLiteDatabaseAdapter
         }, "createKnowledge");
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        return this.withDatabase(async () => {
+            const vectorStr = knowledge.embedding
+                ? `[${Array.from(knowledge.embedding).join(",")}]`
+                : null;
+            await this.query(
+                "UPDATE knowledge SET embedding = $1, content = $2 WHERE id = $3",
+                [vectorStr, knowledge.content, knowledge.id]
+            );
+        }, "updateKnowledgeEmbedding");
+    }
+
+    async resizeEmbeddings(dimensions: number): Promise<void> {
+        if (!Number.isInteger(dimensions) || dimensions <= 0) {
+            throw new Error(`Invalid embedding dimension: ${dimensions}`);
+        }
+        await this.withTransaction(async (tx) => {
+            for (const table of ["memories", "knowledge"]) {
+                // the type modifier of a vector column is its dimension
+                const { rows } = await tx.query<{ dimensions: number }>(
+                    `SELECT atttypmod AS dimensions FROM pg_attribute
+                    WHERE attrelid = '${table}'::regclass AND attname = 'embedding'`
+                );
+                if (rows[0]?.dimensions === dimensions) {
+                    continue;
+                }
+                elizaLogger.info(
+                    `Resizing the embeddings of ${table} to ${dimensions} dimensions`
+                );
+                await tx.query(
+                    `ALTER TABLE ${table} ALTER COLUMN "embedding" TYPE vector(${dimensions})
+                    USING CASE WHEN vector_dims("embedding") = ${dimensions} THEN "embedding"::vector(${dimensions}) END`
+                );
+            }
+        }, "resizeEmbeddings");
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         return await this.withTransaction(async (tx) => {
             try {
@@ -1541,6 +1855,14 @@ export class PGLiteDatabaseAdapter
         }, "removeKnowledge");
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        return this.withDatabase(async () => {
+            await this.query('DELETE FROM knowledge WHERE "originalId" = $1', [
+                originalId,
+            ]);
+        }, "removeKnowledgeChunks");
+    }
+
     async clearKnowledge(agentId: UUID, shared?: boolean): Promise<void> {
         return await this.withTransaction(async (tx) => {
             try {
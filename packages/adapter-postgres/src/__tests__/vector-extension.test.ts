@@ -9,33 +9,38 @@ import { elizaLogger, type Memory, type Content } from '@elizaos/core';
 vi.setConfig({ testTimeout: 15000 });
 
 // Mock the @elizaos/core module
-vi.mock('@elizaos/core', () => ({
-    elizaLogger: {
-        error: vi.fn().mockImplementation(console.error),
-        info: vi.fn().mockImplementation(console.log),
-        success: vi.fn().mockImplementation(console.log),
-        debug: vi.fn().mockImplementation(console.log),
-        warn: vi.fn().mockImplementation(console.warn),
-    },
-    getEmbeddingConfig: () => ({
-        provider: 'OpenAI',
-        dimensions: 1536,
-        model: 'text-embedding-3-small'
-    }),
-    DatabaseAdapter: class {
-        protected circuitBreaker = {
-            execute: async <T>(operation: () => Promise<T>) => operation()
-        };
-        protected async withCircuitBreaker<T>(operation: () => Promise<T>) {
-            return this.circuitBreaker.execute(operation);
-        }
-    },
-    EmbeddingProvider: {
-        OpenAI: 'OpenAI',
-        Ollama: 'Ollama',
-        BGE: 'BGE'
-    }
-}));
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const { runSchemaMigrations, SCHEMA_VERSION_TABLE } = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        elizaLogger: {
+            error: vi.fn().mockImplementation(console.error),
+            info: vi.fn().mockImplementation(console.log),
+            success: vi.fn().mockImplementation(console.log),
+            debug: vi.fn().mockImplementation(console.log),
+            warn: vi.fn().mockImplementation(console.warn),
+        },
+        getEmbeddingConfig: () => ({
+            provider: 'OpenAI',
+            dimensions: 1536,
+            model: 'text-embedding-3-small'
+        }),
+        DatabaseAdapter: class {
+            protected circuitBreaker = {
+                execute: async <T>(operation: () => Promise<T>) => operation()
+            };
+            protected async withCircuitBreaker<T>(operation: () => Promise<T>) {
+                return this.circuitBreaker.execute(operation);
+            }
+        },
+        EmbeddingProvider: {
+            OpenAI: 'OpenAI',
+            Ollama: 'Ollama',
+            BGE: 'BGE'
+        },
+        runSchemaMigrations,
+        SCHEMA_VERSION_TABLE
+    };
+});
 
 // Helper function to parse vector string from PostgreSQL
 const parseVectorString = (vectorStr: string): number[] => {
@@ -1,3 +1,5 @@
+export * from "./migrations.ts";
+
 import { v4 } from "uuid";
 
 // Import the entire module as default
@@ -12,26 +14,33 @@ import {
     type GoalStatus,
     type Participant,
     type RAGKnowledgeItem,
+    type RetentionPolicy,
+    ERASED_MEMORY_TEXT,
     elizaLogger,
     getEmbeddingConfig,
     type Goal,
     type IDatabaseCacheAdapter,
     type Memory,
     type Relationship,
+    type SchemaMigrationOptions,
+    type SchemaMigrationResult,
+    type SchemaMigrationStore,
+    type UserErasureOptions,
+    type UserErasureReport,
     type UUID,
+    runSchemaMigrations,
 } from "@elizaos/core";
-import fs from "fs";
-import path from "path";
 import type {
     QueryConfig,
     QueryConfigValues,
     QueryResult,
     QueryResultRow,
 } from "pg";
-import { fileURLToPath } from "url";
-
-const __filename = fileURLToPath(import.meta.url); // get the resolved path to the file
-const __dirname = path.dirname(__filename); // get the name of the directory
+import {
+    postgresMigrations,
+    readSchemaFile,
+    schemaVersionTable,
+} from "./migrations.ts";
 
 export class PostgresDatabaseAdapter
     extends DatabaseAdapter<Pool>
@@ -205,52 +214,88 @@ export class PostgresDatabaseAdapter
         }
     }
 
+    private async applyEmbeddingSettings(client: pg.PoolClient) {
+        // Set application settings for embedding dimension
+        const embeddingConfig = getEmbeddingConfig();
+        if (embeddingConfig.provider === EmbeddingProvider.OpenAI) {
+            await client.query("SET app.use_openai_embedding = 'true'");
+            await client.query("SET app.use_ollama_embedding = 'false'");
+            await client.query("SET app.use_gaianet_embedding = 'false'");
+        } else if (embeddingConfig.provider === EmbeddingProvider.Ollama) {
+            await client.query("SET app.use_openai_embedding = 'false'");
+            await client.query("SET app.use_ollama_embedding = 'true'");
+            await client.query("SET app.use_gaianet_embedding = 'false'");
+        } else if (embeddingConfig.provider === EmbeddingProvider.GaiaNet) {
+            await client.query("SET app.use_openai_embedding = 'false'");
+            await client.query("SET app.use_ollama_embedding = 'false'");
+            await client.query("SET app.use_gaianet_embedding = 'true'");
+        } else {
+            await client.query("SET app.use_openai_embedding = 'false'");
+            await client.query("SET app.use_ollama_embedding = 'false'");
+        }
+    }
+
+    private createMigrationStore(client: pg.PoolClient): SchemaMigrationStore {
+        return {
+            getSchemaVersion: async () => {
+                const { rows } = await client.query(`
+                    SELECT EXISTS (
+                        SELECT FROM information_schema.tables
+                        WHERE table_name = 'schema_version'
+                    );
+                `);
+                if (!rows[0].exists) {
+                    return 0;
+                }
+                const { rows: versions } = await client.query(
+                    "SELECT MAX(version) AS version FROM schema_version"
+                );
+                return versions[0].version ?? 0;
+            },
+            // Runs in the transaction of migrate, so a failed migration leaves no trace
+            applyMigration: async (migration) => {
+                await client.query(schemaVersionTable);
+                await client.query(migration.up);
+                await client.query(
+                    "INSERT INTO schema_version (version, name) VALUES ($1, $2)",
+                    [migration.version, migration.name]
+                );
+            },
+        };
+    }
+
     async init() {
         await this.testConnection();
+        await this.migrate();
+    }
 
+    async migrate(
+        options: SchemaMigrationOptions = {}
+    ): Promise<SchemaMigrationResult> {
         const client = await this.pool.connect();
         try {
             await client.query("BEGIN");
+            await this.applyEmbeddingSettings(client);
 
-            // Set application settings for embedding dimension
-            const embeddingConfig = getEmbeddingConfig();
-            if (embeddingConfig.provider === EmbeddingProvider.OpenAI) {
-                await client.query("SET app.use_openai_embedding = 'true'");
-                await client.query("SET app.use_ollama_embedding = 'false'");
-                await client.query("SET app.use_gaianet_embedding = 'false'");
-            } else if (embeddingConfig.provider === EmbeddingProvider.Ollama) {
-                await client.query("SET app.use_openai_embedding = 'false'");
-                await client.query("SET app.use_ollama_embedding = 'true'");
-                await client.query("SET app.use_gaianet_embedding = 'false'");
-            } else if (embeddingConfig.provider === EmbeddingProvider.GaiaNet) {
-                await client.query("SET app.use_openai_embedding = 'false'");
-                await client.query("SET app.use_ollama_embedding = 'false'");
-                await client.query("SET app.use_gaianet_embedding = 'true'");
-            } else {
-                await client.query("SET app.use_openai_embedding = 'false'");
-                await client.query("SET app.use_ollama_embedding = 'false'");
-            }
-
-            // Check if schema already exists (check for a core table)
-            const { rows } = await client.query(`
-                SELECT EXISTS (
-                    SELECT FROM information_schema.tables
-                    WHERE table_name = 'rooms'
-                );
-            `);
+            const result = await runSchemaMigrations(
+                this.createMigrationStore(client),
+                postgresMigrations,
+                { ...options, adapter: "postgres" }
+            );
 
-            if (!rows[0].exists || !(await this.validateVectorSetup())) {
+            if (
+                !options.dryRun &&
+                result.migrations.length === 0 &&
+                !(await this.validateVectorSetup())
+            ) {
                 elizaLogger.info(
-                    "Applying database schema - tables or vector extension missing"
-                );
-                const schema = fs.readFileSync(
-                    path.resolve(__dirname, "../schema.sql"),
-                    "utf8"
+                    "Applying database schema - vector extension missing"
                 );
-                await client.query(schema);
+                await client.query(readSchemaFile());
             }
 
             await client.query("COMMIT");
+            return result;
         } catch (error) {
             await client.query("ROLLBACK");
             throw error;
@@ -332,6 +377,7 @@ export class PostgresDatabaseAdapter
         agentId?: UUID;
         tableName: string;
         limit?: number;
+        offset?: number;
     }): Promise<Memory[]> {
         return this.withDatabase(async () => {
             if (params.roomIds.length === 0) return [];
@@ -348,11 +394,15 @@ export class PostgresDatabaseAdapter
             }
 
             // Add sorting, and conditionally add LIMIT if provided
-            query += ` ORDER BY "createdAt" DESC`;
+            query += ` ORDER BY "createdAt" DESC, id`;
             if (params.limit) {
                 query += ` LIMIT $${queryParams.length + 1}`;
                 queryParams.push(params.limit.toString());
             }
+            if (params.offset) {
+                query += ` OFFSET $${queryParams.length + 1}`;
+                queryParams.push(params.offset.toString());
+            }
 
             const { rows } = await this.pool.query(query, queryParams);
             return rows.map((row) => ({
@@ -858,6 +908,8 @@ export class PostgresDatabaseAdapter
     async createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean> {
         // Input validation
         if (!params.userA || !params.userB) {
@@ -868,10 +920,16 @@ export class PostgresDatabaseAdapter
             try {
                 const relationshipId = v4();
                 await this.pool.query(
-                    `INSERT INTO relationships (id, "userA", "userB", "userId")
-                    VALUES ($1, $2, $3, $4)
+                    `INSERT INTO relationships (id, "userA", "userB", "userId", "status")
+                    VALUES ($1, $2, $3, $4, $5)
                     RETURNING id`,
-                    [relationshipId, params.userA, params.userB, params.userA]
+                    [
+                        relationshipId,
+                        params.userA,
+                        params.userB,
+                        params.userId ?? params.userA,
+                        params.status ?? null,
+                    ]
                 );
 
                 elizaLogger.debug("Relationship created successfully:", {
@@ -1326,6 +1384,229 @@ export class PostgresDatabaseAdapter
         }, "countMemories");
     }
 
+    async applyRetention(
+        params: RetentionPolicy & { agentId: UUID; dryRun?: boolean }
+    ): Promise<number> {
+        return this.withDatabase(async () => {
+            const cutoff = params.maxAge
+                ? new Date(Date.now() - params.maxAge)
+                : undefined;
+
+            if (params.tableName === "cache") {
+                if (!cutoff) {
+                    return 0;
+                }
+                const where = `"agentId" = $1 AND "createdAt" < $2`;
+                const args = [params.agentId, cutoff];
+                if (params.dryRun) {
+                    const { rows } = await this.pool.query<{ count: string }>(
+                        `SELECT COUNT(*) AS count FROM cache WHERE ${where}`,
+                        args
+                    );
+                    return Number(rows[0].count);
+                }
+                const result = await this.pool.query(
+                    `DELETE FROM cache WHERE ${where}`,
+                    args
+                );
+                return result.rowCount ?? 0;
+            }
+
+            const isMemoryTable = !["logs", "goals"].includes(
+                params.tableName
+            );
+            const table = isMemoryTable ? "memories" : params.tableName;
+            const scope = isMemoryTable
+                ? `type = $1 AND "agentId" = $2`
+                : `"roomId" IN (SELECT "roomId" FROM participants WHERE "userId" = $1)`;
+            const args: unknown[] = isMemoryTable
+                ? [params.tableName, params.agentId]
+                : [params.agentId];
+
+            const conditions: string[] = [];
+            if (params.maxCountPerRoom !== undefined) {
+                args.push(params.maxCountPerRoom);
+                conditions.push(`position > $${args.length}`);
+            }
+            if (cutoff) {
+                args.push(cutoff);
+                conditions.push(`"createdAt" < $${args.length}`);
+            }
+            if (conditions.length === 0) {
+                return 0;
+            }
+
+            const expired = `SELECT id FROM (
+                SELECT id, "createdAt", ROW_NUMBER() OVER (PARTITION BY "roomId" ORDER BY "createdAt" DESC) AS position
+                FROM ${table} WHERE ${scope}
+            ) ranked WHERE ${conditions.join(" OR ")}`;
+
+            if (params.dryRun) {
+                const { rows } = await this.pool.query<{ count: string }>(
+                    `SELECT COUNT(*) AS count FROM (${expired}) expired`,
+                    args
+                );
+                return Number(rows[0].count);
+            }
+            const result = await this.pool.query(
+                `DELETE FROM ${table} WHERE id IN (${expired})`,
+                args
+            );
+            return result.rowCount ?? 0;
+        }, "applyRetention");
+    }
+
+    async eraseUser(
+        userId: UUID,
+        options: UserErasureOptions = {}
+    ): Promise<UserErasureReport> {
+        return this.withDatabase(async () => {
+            const client = await this.pool.connect();
+            try {
+                await client.query("BEGIN");
+                const report: UserErasureReport = {
+                    userId,
+                    dryRun: !!options.dryRun,
+                    deleted: {},
+                    anonymized: {},
+                    unsupported: [],
+                    directRoomIds: [],
+                };
+
+                // direct conversations, rooms of the user and the agent its memories are stored
+                // for that nobody else wrote in, are erased entirely
+                const directRooms = (
+                    await client.query<{ roomId: UUID }>(
+                        `SELECT "roomId" FROM participants
+                        WHERE "roomId" IN (SELECT "roomId" FROM participants WHERE "userId" = $1)
+                        GROUP BY "roomId" HAVING COUNT(DISTINCT "userId") = 2
+                        AND "roomId" IN (
+                            SELECT m."roomId" FROM memories m
+                            JOIN participants a ON a."roomId" = m."roomId" AND a."userId" = m."agentId"
+                            WHERE m."agentId" <> $1
+                        )
+                        AND "roomId" NOT IN (
+                            SELECT "roomId" FROM memories
+                            WHERE "roomId" IS NOT NULL AND "userId" NOT IN ($1, "agentId")
+                        )`,
+                        [userId]
+                    )
+                ).rows.map((row) => row.roomId);
+                report.directRoomIds = directRooms;
+
+                const countMemories = async (
+                    where: string,
+                    args: unknown[],
+                    counts: Record<string, number>
+                ) => {
+                    const { rows } = await client.query<{
+                        type: string;
+                        count: string;
+                    }>(
+                        `SELECT type, COUNT(*) AS count FROM memories WHERE ${where} GROUP BY type`,
+                        args
+                    );
+                    for (const row of rows) {
+                        counts[row.type] =
+                            (counts[row.type] ?? 0) + Number(row.count);
+                    }
+                };
+                const erase = async (
+                    table: string,
+                    where: string,
+                    args: unknown[]
+                ) => {
+                    const { rows } = await client.query<{ count: string }>(
+                        `SELECT COUNT(*) AS count FROM ${table} WHERE ${where}`,
+                        args
+                    );
+                    const count = Number(rows[0].count);
+                    if (count > 0) {
+                        report.deleted[table] = count;
+                    }
+                    if (!options.dryRun && count > 0) {
+                        await client.query(
+                            `DELETE FROM ${table} WHERE ${where}`,
+                            args
+                        );
+                    }
+                };
+
+                const inDirectRooms = `"roomId" = ANY($1::uuid[])`;
+                await countMemories(
+                    inDirectRooms,
+                    [directRooms],
+                    report.deleted
+                );
+                if (!options.dryRun) {
+                    await client.query(
+                        `DELETE FROM memories WHERE ${inDirectRooms}`,
+                        [directRooms]
+                    );
+                }
+
+                const sharedMemories = `"userId" = $1 AND NOT ("roomId" = ANY($2::uuid[]))`;
+                const sharedArgs = [userId, directRooms];
+                if (options.sharedRoomMessages === "anonymize") {
+                    await countMemories(
+                        sharedMemories,
+                        sharedArgs,
+                        report.anonymized
+                    );
+                    if (!options.dryRun) {
+                        // the account is deleted below and would cascade to the memories it owns
+                        await client.query(
+                            `UPDATE memories SET
+                                content = jsonb_strip_nulls(jsonb_build_object('text', $3::text, 'inReplyTo', content->'inReplyTo')),
+                                embedding = CASE WHEN embedding IS NULL THEN NULL
+                                    ELSE array_fill(0, ARRAY[vector_dims(embedding)])::vector END,
+                                "userId" = NULL
+                            WHERE ${sharedMemories}`,
+                            [...sharedArgs, ERASED_MEMORY_TEXT]
+                        );
+                    }
+                } else {
+                    await countMemories(
+                        sharedMemories,
+                        sharedArgs,
+                        report.deleted
+                    );
+                    if (!options.dryRun) {
+                        await client.query(
+                            `DELETE FROM memories WHERE ${sharedMemories}`,
+                            sharedArgs
+                        );
+                    }
+                }
+
+                const ownedOrDirect = `"userId" = $1 OR "roomId" = ANY($2::uuid[])`;
+                await erase("goals", ownedOrDirect, [userId, directRooms]);
+                await erase("logs", ownedOrDirect, [userId, directRooms]);
+                await erase("participants", ownedOrDirect, [
+                    userId,
+                    directRooms,
+                ]);
+                await erase(
+                    "relationships",
+                    `"userA" = $1 OR "userB" = $1 OR "userId" = $1`,
+                    [userId]
+                );
+                await erase("rooms", "id = ANY($1::uuid[])", [directRooms]);
+                // cache entries keyed by the user, e.g. per-user rate limits or state
+                await erase("cache", "strpos(key, $1) > 0", [userId]);
+                await erase("accounts", "id = $1", [userId]);
+
+                await client.query("COMMIT");
+                return report;
+            } catch (error) {
+                await client.query("ROLLBACK");
+                throw error;
+            } finally {
+                client.release();
+            }
+        }, "eraseUser");
+    }
+
     async removeAllGoals(roomId: UUID): Promise<void> {
         return this.withDatabase(async () => {
             await this.pool.query(`DELETE FROM goals WHERE "roomId" = $1`, [
@@ -1487,6 +1768,18 @@ export class PostgresDatabaseAdapter
         }, "setCache");
     }
 
+    async getCacheEntries(params: {
+        agentId: UUID;
+    }): Promise<{ key: string; value: string }[]> {
+        return this.withDatabase(async () => {
+            const { rows } = await this.query<{ key: string; value: string }>(
+                `SELECT "key", "value"::TEXT FROM cache WHERE "agentId" = $1`,
+                [params.agentId]
+            );
+            return rows;
+        }, "getCacheEntries");
+    }
+
     async deleteCache(params: {
         key: string;
         agentId: UUID;
@@ -1530,6 +1823,7 @@ export class PostgresDatabaseAdapter
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
     }): Promise<RAGKnowledgeItem[]> {
         return this.withDatabase(async () => {
@@ -1543,11 +1837,17 @@ export class PostgresDatabaseAdapter
                 queryParams.push(params.id);
             }
 
+            sql += ` ORDER BY "createdAt", id`;
             if (params.limit) {
                 paramCount++;
                 sql += ` LIMIT $${paramCount}`;
                 queryParams.push(params.limit);
             }
+            if (params.offset) {
+                paramCount++;
+                sql += ` OFFSET $${paramCount}`;
+                queryParams.push(params.offset);
+            }
 
             const { rows } = await this.pool.query(sql, queryParams);
 
@@ -1713,6 +2013,55 @@ export class PostgresDatabaseAdapter
         }, "createKnowledge");
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        return this.withDatabase(async () => {
+            const vectorStr = knowledge.embedding
+                ? `[${Array.from(knowledge.embedding).join(",")}]`
+                : null;
+            await this.pool.query(
+                "UPDATE knowledge SET embedding = $1, content = $2 WHERE id = $3",
+                [vectorStr, knowledge.content, knowledge.id]
+            );
+        }, "updateKnowledgeEmbedding");
+    }
+
+    async resizeEmbeddings(dimensions: number): Promise<void> {
+        if (!Number.isInteger(dimensions) || dimensions <= 0) {
+            throw new Error(`Invalid embedding dimension: ${dimensions}`);
+        }
+        return this.withDatabase(async () => {
+            const client = await this.pool.connect();
+            try {
+                await client.query("BEGIN");
+                for (const table of ["memories", "knowledge"]) {
+                    // the type modifier of a vector column is its dimension
+                    const { rows } = await client.query<{
+                        dimensions: number;
+                    }>(
+                        `SELECT atttypmod AS dimensions FROM pg_attribute
+                        WHERE attrelid = '${table}'::regclass AND attname = 'embedding'`
+                    );
+                    if (rows[0]?.dimensions === dimensions) {
+                        continue;
+                    }
+                    elizaLogger.info(
+                        `Resizing the embeddings of ${table} to ${dimensions} dimensions`
+                    );
+                    await client.query(
+                        `ALTER TABLE ${table} ALTER COLUMN "embedding" TYPE vector(${dimensions})
+                        USING CASE WHEN vector_dims("embedding") = ${dimensions} THEN "embedding"::vector(${dimensions}) END`
+                    );
+                }
+                await client.query("COMMIT");
+            } catch (error) {
+                await client.query("ROLLBACK");
+                throw error;
+            } finally {
+                client.release();
+            }
+        }, "resizeEmbeddings");
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         return this.withDatabase(async () => {
             const client = await this.pool.connect();
@@ -1754,6 +2103,15 @@ export class PostgresDatabaseAdapter
         }, "removeKnowledge");
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        return this.withDatabase(async () => {
+            await this.pool.query(
+                'DELETE FROM knowledge WHERE "originalId" = $1',
+                [originalId]
+            );
+        }, "removeKnowledgeChunks");
+    }
+
     async clearKnowledge(agentId: UUID, shared?: boolean): Promise<void> {
         return this.withDatabase(async () => {
             const sql = shared
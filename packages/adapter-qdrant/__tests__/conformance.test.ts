@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+    type AdapterConformanceReport,
+    getEmbeddingConfig,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "@elizaos/core";
+import { QdrantDatabaseAdapter } from "../src";
+
+// opt-in, e.g. QDRANT_TEST_URL=http://localhost QDRANT_TEST_PORT=6333
+const url = process.env.QDRANT_TEST_URL;
+
+describe.skipIf(!url)("QdrantDatabaseAdapter conformance", () => {
+    let report: AdapterConformanceReport;
+
+    beforeAll(async () => {
+        const { dimensions } = getEmbeddingConfig();
+        const adapter = new QdrantDatabaseAdapter(
+            url,
+            process.env.QDRANT_TEST_KEY,
+            Number(process.env.QDRANT_TEST_PORT ?? 6333),
+            dimensions
+        );
+        await adapter.init();
+        // qdrant only stores knowledge, the cache lives in memory
+        report = await runAdapterConformance("qdrant", adapter, {
+            capabilities: [
+                "knowledge",
+                "knowledge.chunks",
+                "knowledge.search",
+                "knowledge.updateEmbedding",
+                "cache",
+            ],
+            dimensions,
+            accounts: false,
+        });
+        await writeConformanceReport(report);
+    }, 60_000);
+
+    it("should not fail any capability it implements", () => {
+        const failures = Object.fromEntries(
+            report.results
+                .filter((result) => result.status === "failed")
+                .map((result) => [result.capability, result.error])
+        );
+
+        expect(failures).toEqual({});
+    });
+});
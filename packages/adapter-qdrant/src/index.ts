@@ -132,10 +132,24 @@ export class QdrantDatabaseAdapter  extends DatabaseAdapter<QdrantClient>  imple
         return Promise.resolve(undefined);
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        // points are upserted by id, the payload and vector are replaced in place
+        await this.createKnowledge(knowledge);
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         return Promise.resolve(undefined);
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        await this.db.delete(this.collectionName, {
+            wait: true,
+            filter: {
+                must: [{ key: "originalId", match: { value: originalId } }],
+            },
+        });
+    }
+
     async searchKnowledge(params: {
         agentId: UUID;
         embedding: Float32Array | number[];
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    type AdapterConformanceReport,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "@elizaos/core";
+import { RedisClient } from "../src";
+
+// opt-in, e.g. REDIS_TEST_URL=redis://localhost:6379
+const redisUrl = process.env.REDIS_TEST_URL;
+
+describe.skipIf(!redisUrl)("RedisClient conformance", () => {
+    let client: RedisClient;
+    let report: AdapterConformanceReport;
+
+    beforeAll(async () => {
+        client = new RedisClient(redisUrl);
+        report = await runAdapterConformance("redis", client, {
+            capabilities: ["cache", "cache.entries"],
+            accounts: false,
+        });
+        await writeConformanceReport(report);
+    });
+
+    afterAll(async () => {
+        await client?.disconnect();
+    });
+
+    it("should not fail any capability it implements", () => {
+        const failures = Object.fromEntries(
+            report.results
+                .filter((result) => result.status === "failed")
+                .map((result) => [result.capability, result.error])
+        );
+
+        expect(failures).toEqual({});
+    });
+});
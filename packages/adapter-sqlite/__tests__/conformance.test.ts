@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import Database from "better-sqlite3";
+import {
+    type AdapterConformanceReport,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "@elizaos/core";
+import { SqliteDatabaseAdapter, sqliteMigrations } from "../src";
+
+describe("SqliteDatabaseAdapter conformance", () => {
+    let adapter: SqliteDatabaseAdapter;
+    let report: AdapterConformanceReport;
+
+    beforeAll(async () => {
+        adapter = new SqliteDatabaseAdapter(new Database(":memory:"));
+        await adapter.init();
+        report = await runAdapterConformance("sqlite", adapter);
+        await writeConformanceReport(report);
+    });
+
+    afterAll(async () => {
+        await adapter.close();
+    });
+
+    it("should be at the latest schema version after init", async () => {
+        const result = await adapter.migrate({ dryRun: true });
+
+        expect(result.fromVersion).toBe(sqliteMigrations.length);
+        expect(result.migrations).toEqual([]);
+    });
+
+    it("should only deviate from the adapter contract where known", () => {
+        const deviations = Object.fromEntries(
+            report.results
+                .filter((result) => result.status !== "supported")
+                .map((result) => [result.capability, result.status])
+        );
+
+        // remove entries once the adapter is fixed
+        expect(deviations).toEqual({
+            // accounts.email is NOT NULL although it is optional
+            accounts: "failed",
+            // results are sorted by descending distance and the threshold is ignored
+            "memories.searchThreshold": "failed",
+        });
+    });
+});
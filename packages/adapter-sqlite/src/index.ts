@@ -1,10 +1,13 @@
+export * from "./migrations.ts";
 export * from "./sqliteTables.ts";
 export * from "./sqlite_vec.ts";
 
 import {
     DatabaseAdapter,
     elizaLogger,
+    ERASED_MEMORY_TEXT,
     type IDatabaseCacheAdapter,
+    runSchemaMigrations,
 } from "@elizaos/core";
 import type {
     Account,
@@ -17,11 +20,17 @@ import type {
     UUID,
     RAGKnowledgeItem,
     ChunkRow,
+    RetentionPolicy,
+    UserErasureOptions,
+    UserErasureReport,
+    SchemaMigrationOptions,
+    SchemaMigrationResult,
+    SchemaMigrationStore,
 } from "@elizaos/core";
 import type { Database } from "better-sqlite3";
 import { v4 } from "uuid";
 import { load } from "./sqlite_vec.ts";
-import { sqliteTables } from "./sqliteTables.ts";
+import { schemaVersionTable, sqliteMigrations } from "./migrations.ts";
 
 export class SqliteDatabaseAdapter
     extends DatabaseAdapter<Database>
@@ -82,7 +91,52 @@ export class SqliteDatabaseAdapter
     }
 
     async init() {
-        this.db.exec(sqliteTables);
+        // A connection setting, so it is not part of the migrations: PRAGMA foreign_keys has
+        // no effect inside the transaction of a migration.
+        this.db.exec("PRAGMA foreign_keys=OFF;");
+        await this.migrate();
+    }
+
+    async migrate(
+        options: SchemaMigrationOptions = {}
+    ): Promise<SchemaMigrationResult> {
+        return runSchemaMigrations(
+            this.createMigrationStore(),
+            sqliteMigrations,
+            { ...options, adapter: "sqlite" }
+        );
+    }
+
+    private createMigrationStore(): SchemaMigrationStore {
+        return {
+            getSchemaVersion: async () => {
+                const table = this.db
+                    .prepare(
+                        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
+                    )
+                    .get();
+                if (!table) {
+                    return 0;
+                }
+                const row = this.db
+                    .prepare(
+                        "SELECT MAX(version) AS version FROM schema_version"
+                    )
+                    .get() as { version: number | null };
+                return row.version ?? 0;
+            },
+            applyMigration: async (migration) => {
+                this.db.transaction(() => {
+                    this.db.exec(schemaVersionTable);
+                    this.db.exec(migration.up);
+                    this.db
+                        .prepare(
+                            "INSERT INTO schema_version (version, name) VALUES (?, ?)"
+                        )
+                        .run(migration.version, migration.name);
+                })();
+            },
+        };
     }
 
     async close() {
@@ -156,6 +210,7 @@ export class SqliteDatabaseAdapter
         roomIds: UUID[];
         tableName: string;
         limit?: number;
+        offset?: number;
     }): Promise<Memory[]> {
         if (!params.tableName) {
             // default to messages
@@ -172,10 +227,14 @@ export class SqliteDatabaseAdapter
         ];
 
         // Add ordering and limit
-        sql += ` ORDER BY createdAt DESC`;
+        sql += ` ORDER BY createdAt DESC, id`;
         if (params.limit) {
             sql += ` LIMIT ?`;
             queryParams.push(params.limit.toString());
+            if (params.offset) {
+                sql += ` OFFSET ?`;
+                queryParams.push(params.offset.toString());
+            }
         }
 
         const stmt = this.db.prepare(sql);
@@ -281,6 +340,213 @@ export class SqliteDatabaseAdapter
             );
     }
 
+    async updateMemoryEmbedding(
+        memory: Memory,
+        tableName: string
+    ): Promise<void> {
+        const sql = `UPDATE memories SET embedding = ?, content = ? WHERE id = ? AND type = ?`;
+        this.db
+            .prepare(sql)
+            .run(
+                new Float32Array(memory.embedding),
+                JSON.stringify(memory.content),
+                memory.id,
+                tableName
+            );
+    }
+
+    async applyRetention(
+        params: RetentionPolicy & { agentId: UUID; dryRun?: boolean }
+    ): Promise<number> {
+        const cutoff = params.maxAge ? Date.now() - params.maxAge : undefined;
+
+        if (params.tableName === "cache") {
+            if (cutoff === undefined) {
+                return 0;
+            }
+            const where =
+                "agentId = ? AND createdAt < datetime(?, 'unixepoch')";
+            const args = [params.agentId, Math.floor(cutoff / 1000)];
+            const { count } = this.db
+                .prepare(`SELECT COUNT(*) AS count FROM cache WHERE ${where}`)
+                .get(...args) as { count: number };
+            if (!params.dryRun) {
+                this.db
+                    .prepare(`DELETE FROM cache WHERE ${where}`)
+                    .run(...args);
+            }
+            return count;
+        }
+
+        // memories store their creation time in milliseconds, logs and goals as SQL timestamps
+        const isMemoryTable = !["logs", "goals"].includes(params.tableName);
+        const table = isMemoryTable ? "memories" : params.tableName;
+        const scope = isMemoryTable
+            ? "type = ? AND agentId = ?"
+            : "roomId IN (SELECT roomId FROM participants WHERE userId = ?)";
+        const args: unknown[] = isMemoryTable
+            ? [params.tableName, params.agentId]
+            : [params.agentId];
+
+        const conditions: string[] = [];
+        if (params.maxCountPerRoom !== undefined) {
+            conditions.push("position > ?");
+            args.push(params.maxCountPerRoom);
+        }
+        if (cutoff !== undefined) {
+            conditions.push(
+                isMemoryTable
+                    ? "createdAt < ?"
+                    : "createdAt < datetime(?, 'unixepoch')"
+            );
+            args.push(isMemoryTable ? cutoff : Math.floor(cutoff / 1000));
+        }
+        if (conditions.length === 0) {
+            return 0;
+        }
+
+        const expired = `SELECT rowid FROM (
+            SELECT rowid, createdAt, ROW_NUMBER() OVER (PARTITION BY roomId ORDER BY createdAt DESC) AS position
+            FROM ${table} WHERE ${scope}
+        ) WHERE ${conditions.join(" OR ")}`;
+
+        const { count } = this.db
+            .prepare(`SELECT COUNT(*) AS count FROM (${expired})`)
+            .get(...args) as { count: number };
+        if (!params.dryRun && count > 0) {
+            this.db
+                .prepare(`DELETE FROM ${table} WHERE rowid IN (${expired})`)
+                .run(...args);
+        }
+        return count;
+    }
+
+    async eraseUser(
+        userId: UUID,
+        options: UserErasureOptions = {}
+    ): Promise<UserErasureReport> {
+        const report: UserErasureReport = {
+            userId,
+            dryRun: !!options.dryRun,
+            deleted: {},
+            anonymized: {},
+            unsupported: [],
+            directRoomIds: [],
+        };
+
+        // direct conversations, rooms of the user and the agent its memories are stored for that
+        // nobody else wrote in, are erased entirely
+        const directRooms = (
+            this.db
+                .prepare(
+                    `SELECT roomId FROM participants
+                    WHERE roomId IN (SELECT roomId FROM participants WHERE userId = ?)
+                    GROUP BY roomId HAVING COUNT(DISTINCT userId) = 2
+                    AND roomId IN (
+                        SELECT m.roomId FROM memories m
+                        JOIN participants a ON a.roomId = m.roomId AND a.userId = m.agentId
+                        WHERE m.agentId != ?
+                    )
+                    AND roomId NOT IN (
+                        SELECT roomId FROM memories
+                        WHERE roomId IS NOT NULL AND userId NOT IN (?, agentId)
+                    )`
+                )
+                .all(userId, userId, userId) as { roomId: UUID }[]
+        ).map((row) => row.roomId);
+        report.directRoomIds = directRooms;
+        const inDirectRooms = `roomId IN (${directRooms.map(() => "?").join(", ")})`;
+
+        const countMemories = (
+            where: string,
+            args: unknown[],
+            counts: Record<string, number>
+        ) => {
+            const rows = this.db
+                .prepare(
+                    `SELECT type, COUNT(*) AS count FROM memories WHERE ${where} GROUP BY type`
+                )
+                .all(...args) as { type: string; count: number }[];
+            for (const row of rows) {
+                counts[row.type] = (counts[row.type] ?? 0) + row.count;
+            }
+        };
+        const erase = (table: string, where: string, args: unknown[]) => {
+            const { count } = this.db
+                .prepare(
+                    `SELECT COUNT(*) AS count FROM ${table} WHERE ${where}`
+                )
+                .get(...args) as { count: number };
+            if (count > 0) {
+                report.deleted[table] = count;
+            }
+            if (!options.dryRun) {
+                this.db
+                    .prepare(`DELETE FROM ${table} WHERE ${where}`)
+                    .run(...args);
+            }
+        };
+
+        this.db.transaction(() => {
+            if (directRooms.length > 0) {
+                countMemories(inDirectRooms, directRooms, report.deleted);
+                if (!options.dryRun) {
+                    this.db
+                        .prepare(`DELETE FROM memories WHERE ${inDirectRooms}`)
+                        .run(...directRooms);
+                }
+            }
+
+            const sharedMemories = `userId = ?${directRooms.length > 0 ? ` AND NOT ${inDirectRooms}` : ""}`;
+            const sharedArgs = [userId, ...directRooms];
+            if (options.sharedRoomMessages === "anonymize") {
+                countMemories(sharedMemories, sharedArgs, report.anonymized);
+                if (!options.dryRun) {
+                    this.db
+                        .prepare(
+                            `UPDATE memories SET
+                                content = json_object('text', ?, 'inReplyTo', json_extract(content, '$.inReplyTo')),
+                                embedding = zeroblob(length(embedding))
+                            WHERE ${sharedMemories}`
+                        )
+                        .run(ERASED_MEMORY_TEXT, ...sharedArgs);
+                }
+            } else {
+                countMemories(sharedMemories, sharedArgs, report.deleted);
+                if (!options.dryRun) {
+                    this.db
+                        .prepare(`DELETE FROM memories WHERE ${sharedMemories}`)
+                        .run(...sharedArgs);
+                }
+            }
+
+            const ownedOrDirect =
+                directRooms.length > 0
+                    ? `userId = ? OR ${inDirectRooms}`
+                    : "userId = ?";
+            erase("goals", ownedOrDirect, [userId, ...directRooms]);
+            erase("logs", ownedOrDirect, [userId, ...directRooms]);
+            erase("participants", ownedOrDirect, [userId, ...directRooms]);
+            erase("relationships", "userA = ? OR userB = ? OR userId = ?", [
+                userId,
+                userId,
+                userId,
+            ]);
+            if (directRooms.length > 0) {
+                erase(
+                    "rooms",
+                    `id IN (${directRooms.map(() => "?").join(", ")})`,
+                    directRooms
+                );
+            }
+            // cache entries keyed by the user, e.g. per-user rate limits or state
+            erase("cache", "instr(key, ?) > 0", [userId]);
+            erase("accounts", "id = ?", [userId]);
+        })();
+
+        return report;
+    }
+
     async searchMemories(params: {
         tableName: string;
         roomId: UUID;
@@ -684,15 +950,23 @@ export class SqliteDatabaseAdapter
     async createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean> {
         if (!params.userA || !params.userB) {
             throw new Error("userA and userB are required");
         }
         const sql =
-            "INSERT INTO relationships (id, userA, userB, userId) VALUES (?, ?, ?, ?)";
+            "INSERT INTO relationships (id, userA, userB, userId, status) VALUES (?, ?, ?, ?, ?)";
         this.db
             .prepare(sql)
-            .run(v4(), params.userA, params.userB, params.userA);
+            .run(
+                v4(),
+                params.userA,
+                params.userB,
+                params.userId ?? params.userA,
+                params.status ?? null
+            );
         return true;
     }
 
@@ -745,6 +1019,16 @@ export class SqliteDatabaseAdapter
         return true;
     }
 
+    async getCacheEntries(params: {
+        agentId: UUID;
+    }): Promise<{ key: string; value: string }[]> {
+        const sql = "SELECT key, value FROM cache WHERE agentId = ?";
+        return this.db.prepare(sql).all(params.agentId) as {
+            key: string;
+            value: string;
+        }[];
+    }
+
     async deleteCache(params: {
         key: string;
         agentId: UUID;
@@ -763,6 +1047,7 @@ export class SqliteDatabaseAdapter
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
     }): Promise<RAGKnowledgeItem[]> {
         let sql = `SELECT * FROM knowledge WHERE (agentId = ? OR isShared = 1)`;
@@ -773,9 +1058,14 @@ export class SqliteDatabaseAdapter
             queryParams.push(params.id);
         }
 
+        sql += ` ORDER BY createdAt, id`;
         if (params.limit) {
             sql += ` LIMIT ?`;
             queryParams.push(params.limit);
+            if (params.offset) {
+                sql += ` OFFSET ?`;
+                queryParams.push(params.offset);
+            }
         }
 
         interface KnowledgeRow {
@@ -966,6 +1256,17 @@ export class SqliteDatabaseAdapter
         }
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        const sql = `UPDATE knowledge SET embedding = ?, content = ? WHERE id = ?`;
+        this.db
+            .prepare(sql)
+            .run(
+                knowledge.embedding,
+                JSON.stringify(knowledge.content),
+                knowledge.id
+            );
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         if (typeof id !== "string") {
             throw new Error("Knowledge ID must be a string");
@@ -1069,6 +1370,12 @@ export class SqliteDatabaseAdapter
         }
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        this.db
+            .prepare("DELETE FROM knowledge WHERE originalId = ?")
+            .run(originalId);
+    }
+
     async clearKnowledge(agentId: UUID, shared?: boolean): Promise<void> {
         const sql = shared
             ? `DELETE FROM knowledge WHERE (agentId = ? OR isShared = 1)`
@@ -0,0 +1,17 @@
+import { SCHEMA_VERSION_TABLE, type SchemaMigration } from "@elizaos/core";
+import { sqliteTables } from "./sqliteTables.ts";
+
+export const schemaVersionTable = `
+CREATE TABLE IF NOT EXISTS "${SCHEMA_VERSION_TABLE}" (
+    "version" INTEGER PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "appliedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);`;
+
+/**
+ * Schema migrations of the SQLite adapter, ordered by version.
+ * Append new migrations at the end and never change one that was released.
+ */
+export const sqliteMigrations: SchemaMigration[] = [
+    { version: 1, name: "initial schema", up: sqliteTables },
+];
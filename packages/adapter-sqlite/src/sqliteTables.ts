@@ -1,6 +1,4 @@
 export const sqliteTables = `
-PRAGMA foreign_keys=OFF;
-BEGIN TRANSACTION;
 
 -- Table: accounts
 CREATE TABLE IF NOT EXISTS "accounts" (
@@ -126,5 +124,4 @@ CREATE INDEX IF NOT EXISTS "knowledge_content_key" ON "knowledge"
     WHERE json_extract(content, '$.text') IS NOT NULL;
 CREATE INDEX IF NOT EXISTS "knowledge_created_key" ON "knowledge" ("agentId", "createdAt");
 CREATE INDEX IF NOT EXISTS "knowledge_shared_key" ON "knowledge" ("isShared");
-
-COMMIT;`;
\ No newline at end of file
+`;
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import initSqlJs from "sql.js";
+import {
+    type AdapterConformanceReport,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "@elizaos/core";
+import { SqlJsDatabaseAdapter, sqliteMigrations } from "../src";
+import type { Database } from "../src/types";
+
+describe("SqlJsDatabaseAdapter conformance", () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let report: AdapterConformanceReport;
+
+    beforeAll(async () => {
+        const SQL = await initSqlJs();
+        adapter = new SqlJsDatabaseAdapter(
+            new SQL.Database() as unknown as Database
+        );
+        await adapter.init();
+        report = await runAdapterConformance("sqljs", adapter);
+        await writeConformanceReport(report);
+    });
+
+    afterAll(async () => {
+        await adapter.close();
+    });
+
+    it("should be at the latest schema version after init", async () => {
+        const result = await adapter.migrate({ dryRun: true });
+
+        expect(result.fromVersion).toBe(sqliteMigrations.length);
+        expect(result.migrations).toEqual([]);
+    });
+
+    it("should only deviate from the adapter contract where known", () => {
+        const deviations = Object.fromEntries(
+            report.results
+                .filter((result) => result.status !== "supported")
+                .map((result) => [result.capability, result.status])
+        );
+
+        // remove entries once the adapter is fixed
+        expect(deviations).toEqual({
+            // undefined optional fields cannot be bound, rows are read without stepping
+            accounts: "failed",
+            rooms: "failed",
+            "participants.userState": "failed",
+            // the similarity search run before every insert binds the wrong parameters
+            memories: "failed",
+            "memories.ordering": "failed",
+            "memories.timeRange": "failed",
+            "memories.rooms": "failed",
+            "memories.unique": "failed",
+            "memories.count": "failed",
+            "memories.remove": "failed",
+            "memories.search": "failed",
+            "memories.searchThreshold": "failed",
+            "memories.updateEmbedding": "failed",
+            retention: "failed",
+            // the default implementation refuses to erase users partially
+            eraseUser: "unsupported",
+            // sql.js is not compiled with sqlite-vec
+            "knowledge.search": "failed",
+            "cache.entries": "unsupported",
+        });
+    });
+});
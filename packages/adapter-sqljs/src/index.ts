@@ -1,3 +1,4 @@
+export * from "./migrations.ts";
 export * from "./sqliteTables.ts";
 export * from "./types.ts";
 
@@ -13,10 +14,14 @@ import {
     type Relationship,
     type UUID,
     type RAGKnowledgeItem,
+    type SchemaMigrationOptions,
+    type SchemaMigrationResult,
+    type SchemaMigrationStore,
     elizaLogger,
+    runSchemaMigrations,
 } from "@elizaos/core";
 import { v4 } from "uuid";
-import { sqliteTables } from "./sqliteTables.ts";
+import { schemaVersionTable, sqliteMigrations } from "./migrations.ts";
 import type { Database } from "./types.ts";
 
 export class SqlJsDatabaseAdapter
@@ -29,7 +34,52 @@ export class SqlJsDatabaseAdapter
     }
 
     async init() {
-        this.db.exec(sqliteTables);
+        // A connection setting, so it is not part of the migrations: PRAGMA foreign_keys has
+        // no effect inside the transaction of a migration.
+        this.db.exec("PRAGMA foreign_keys=OFF;");
+        await this.migrate();
+    }
+
+    async migrate(
+        options: SchemaMigrationOptions = {}
+    ): Promise<SchemaMigrationResult> {
+        return runSchemaMigrations(
+            this.createMigrationStore(),
+            sqliteMigrations,
+            { ...options, adapter: "sqljs" }
+        );
+    }
+
+    private createMigrationStore(): SchemaMigrationStore {
+        return {
+            getSchemaVersion: async () => {
+                const [table] = this.db.exec(
+                    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
+                );
+                if (!table) {
+                    return 0;
+                }
+                const [result] = this.db.exec(
+                    "SELECT MAX(version) FROM schema_version"
+                );
+                return Number(result?.values[0]?.[0] ?? 0);
+            },
+            applyMigration: async (migration) => {
+                this.db.exec("BEGIN TRANSACTION");
+                try {
+                    this.db.exec(schemaVersionTable);
+                    this.db.exec(migration.up);
+                    this.db.run(
+                        "INSERT INTO schema_version (version, name) VALUES (?, ?)",
+                        [migration.version, migration.name]
+                    );
+                    this.db.exec("COMMIT");
+                } catch (error) {
+                    this.db.exec("ROLLBACK");
+                    throw error;
+                }
+            },
+        };
     }
 
     async close() {
@@ -82,6 +132,7 @@ export class SqlJsDatabaseAdapter
         roomIds: UUID[];
         tableName: string;
         limit?: number;
+        offset?: number;
     }): Promise<Memory[]> {
         const placeholders = params.roomIds.map(() => "?").join(", ");
         let sql = `SELECT * FROM memories WHERE 'type' = ? AND agentId = ? AND roomId IN (${placeholders})`;
@@ -93,10 +144,14 @@ export class SqlJsDatabaseAdapter
         ];
 
         // Add ordering and limit
-        sql += ` ORDER BY createdAt DESC`;
+        sql += ` ORDER BY createdAt DESC, id`;
         if (params.limit) {
             sql += ` LIMIT ?`;
             queryParams.push(params.limit.toString());
+            if (params.offset) {
+                sql += ` OFFSET ?`;
+                queryParams.push(params.offset.toString());
+            }
         }
 
         const stmt = this.db.prepare(sql);
@@ -749,14 +804,22 @@ export class SqlJsDatabaseAdapter
     async createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean> {
         if (!params.userA || !params.userB) {
             throw new Error("userA and userB are required");
         }
         const sql =
-            "INSERT INTO relationships (id, userA, userB, userId) VALUES (?, ?, ?, ?)";
+            "INSERT INTO relationships (id, userA, userB, userId, status) VALUES (?, ?, ?, ?, ?)";
         const stmt = this.db.prepare(sql);
-        stmt.run([v4(), params.userA, params.userB, params.userA]);
+        stmt.run([
+            v4(),
+            params.userA,
+            params.userB,
+            params.userId ?? params.userA,
+            params.status ?? null,
+        ]);
         stmt.free();
         return true;
     }
@@ -849,6 +912,7 @@ export class SqlJsDatabaseAdapter
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
     }): Promise<RAGKnowledgeItem[]> {
         let sql = `SELECT * FROM knowledge WHERE ("agentId" = ? OR "isShared" = 1)`;
@@ -859,9 +923,14 @@ export class SqlJsDatabaseAdapter
             queryParams.push(params.id);
         }
 
+        sql += ` ORDER BY "createdAt", id`;
         if (params.limit) {
             sql += ` LIMIT ?`;
             queryParams.push(params.limit);
+            if (params.offset) {
+                sql += ` OFFSET ?`;
+                queryParams.push(params.offset);
+            }
         }
 
         const stmt = this.db.prepare(sql);
@@ -1029,6 +1098,19 @@ export class SqlJsDatabaseAdapter
         }
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        const sql = `UPDATE knowledge SET embedding = ?, content = ? WHERE id = ?`;
+        const stmt = this.db.prepare(sql);
+        stmt.run([
+            knowledge.embedding
+                ? new Uint8Array(knowledge.embedding.buffer)
+                : null,
+            JSON.stringify(knowledge.content),
+            knowledge.id,
+        ]);
+        stmt.free();
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         const sql = `DELETE FROM knowledge WHERE id = ?`;
         const stmt = this.db.prepare(sql);
@@ -1036,6 +1118,13 @@ export class SqlJsDatabaseAdapter
         stmt.free();
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        const sql = `DELETE FROM knowledge WHERE "originalId" = ?`;
+        const stmt = this.db.prepare(sql);
+        stmt.run([originalId]);
+        stmt.free();
+    }
+
     async clearKnowledge(agentId: UUID, shared?: boolean): Promise<void> {
         const sql = shared
             ? `DELETE FROM knowledge WHERE ("agentId" = ? OR "isShared" = 1)`
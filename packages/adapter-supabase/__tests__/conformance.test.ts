@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+    type AdapterConformanceReport,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "@elizaos/core";
+import { SupabaseDatabaseAdapter } from "../src";
+
+// opt-in, against a project with the schema of schema.sql
+const url = process.env.SUPABASE_TEST_URL;
+const key = process.env.SUPABASE_TEST_ANON_KEY;
+
+describe.skipIf(!url || !key)("SupabaseDatabaseAdapter conformance", () => {
+    let report: AdapterConformanceReport;
+
+    beforeAll(async () => {
+        const adapter = new SupabaseDatabaseAdapter(url, key);
+        await adapter.init();
+        report = await runAdapterConformance("supabase", adapter);
+        await writeConformanceReport(report);
+    }, 60_000);
+
+    it("should not fail any capability it implements", () => {
+        const failures = Object.fromEntries(
+            report.results
+                .filter((result) => result.status === "failed")
+                .map((result) => [result.capability, result.error])
+        );
+
+        expect(failures).toEqual({});
+    });
+});
@@ -10,6 +10,9 @@ import {
     type Participant,
     type Room,
     type RAGKnowledgeItem,
+    type UserErasureOptions,
+    type UserErasureReport,
+    ERASED_MEMORY_TEXT,
     elizaLogger,
 } from "@elizaos/core";
 import { DatabaseAdapter } from "@elizaos/core";
@@ -115,19 +118,23 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
         agentId?: UUID;
         tableName: string;
         limit?: number;
+        offset?: number;
     }): Promise<Memory[]> {
         let query = this.supabase
             .from(params.tableName)
             .select("*")
             .in("roomId", params.roomIds)
-            .order("createdAt", { ascending: false });
+            .order("createdAt", { ascending: false })
+            .order("id");
 
         if (params.agentId) {
             query = query.eq("agentId", params.agentId);
         }
 
         if (params.limit) {
-            query = query.limit(params.limit);
+            query = params.offset
+                ? query.range(params.offset, params.offset + params.limit - 1)
+                : query.limit(params.limit);
         }
 
         const { data, error } = await query;
@@ -537,6 +544,143 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
         }
     }
 
+    async eraseUser(
+        userId: UUID,
+        options: UserErasureOptions = {}
+    ): Promise<UserErasureReport> {
+        const report: UserErasureReport = {
+            userId,
+            dryRun: !!options.dryRun,
+            deleted: {},
+            anonymized: {},
+            unsupported: [],
+            directRoomIds: [],
+        };
+
+        // direct conversations, rooms of the user and the agent its memories are stored for that
+        // nobody else wrote in, are erased entirely
+        for (const roomId of await this.getRoomsForParticipant(userId)) {
+            const others = new Set(
+                (await this.getParticipantsForRoom(roomId)).filter(
+                    (id) => id !== userId
+                )
+            );
+            if (others.size !== 1) {
+                continue;
+            }
+            const [agentId] = others;
+            const agentMemories = await this.supabase
+                .from("memories")
+                .select("id", { count: "exact", head: true })
+                .eq("roomId", roomId)
+                .eq("agentId", agentId);
+            const otherMemories = await this.supabase
+                .from("memories")
+                .select("id", { count: "exact", head: true })
+                .eq("roomId", roomId)
+                .not("userId", "in", `(${userId},${agentId})`);
+            const error = agentMemories.error ?? otherMemories.error;
+            if (error) {
+                throw new Error(`Error erasing user: ${error.message}`);
+            }
+            if (agentMemories.count > 0 && otherMemories.count === 0) {
+                report.directRoomIds.push(roomId);
+            }
+        }
+        const directRooms = report.directRoomIds;
+        const inDirectRooms = `roomId.in.(${directRooms.join(",")})`;
+        const ownedOrDirect =
+            directRooms.length > 0
+                ? `userId.eq.${userId},${inDirectRooms}`
+                : `userId.eq.${userId}`;
+
+        const { data: memories, error: memoriesError } = await this.supabase
+            .from("memories")
+            .select("id, type, roomId, content")
+            .or(ownedOrDirect);
+        if (memoriesError) {
+            throw new Error(`Error erasing user: ${memoriesError.message}`);
+        }
+        const sharedMemories = memories.filter(
+            (memory) => !directRooms.includes(memory.roomId)
+        );
+        const anonymize = options.sharedRoomMessages === "anonymize";
+        for (const memory of memories) {
+            const counts =
+                anonymize && sharedMemories.includes(memory)
+                    ? report.anonymized
+                    : report.deleted;
+            counts[memory.type] = (counts[memory.type] ?? 0) + 1;
+        }
+
+        const erase = async (table: string, filter: string) => {
+            const { count, error } = await this.supabase
+                .from(table)
+                .select("*", { count: "exact", head: true })
+                .or(filter);
+            if (error) {
+                throw new Error(`Error erasing user: ${error.message}`);
+            }
+            if (count > 0) {
+                report.deleted[table] = count;
+            }
+            if (!options.dryRun) {
+                const { error } = await this.supabase
+                    .from(table)
+                    .delete()
+                    .or(filter);
+                if (error) {
+                    throw new Error(`Error erasing user: ${error.message}`);
+                }
+            }
+        };
+
+        if (!options.dryRun) {
+            if (anonymize) {
+                // the account is deleted below and would cascade to the memories it owns
+                for (const memory of sharedMemories) {
+                    const { error } = await this.supabase
+                        .from("memories")
+                        .update({
+                            content: {
+                                text: ERASED_MEMORY_TEXT,
+                                inReplyTo: memory.content?.inReplyTo,
+                            },
+                            embedding: null,
+                            userId: null,
+                        })
+                        .eq("id", memory.id);
+                    if (error) {
+                        throw new Error(`Error erasing user: ${error.message}`);
+                    }
+                }
+            }
+            const { error } = await this.supabase
+                .from("memories")
+                .delete()
+                .or(ownedOrDirect);
+            if (error) {
+                throw new Error(`Error erasing user: ${error.message}`);
+            }
+        }
+
+        await erase("goals", ownedOrDirect);
+        await erase("logs", ownedOrDirect);
+        await erase("participants", ownedOrDirect);
+        await erase(
+            "relationships",
+            `userA.eq.${userId},userB.eq.${userId},userId.eq.${userId}`
+        );
+        if (directRooms.length > 0) {
+            await erase("rooms", `id.in.(${directRooms.join(",")})`);
+        }
+        // cache entries keyed by the user, e.g. per-user rate limits or state
+        await erase("cache", `key.like.*${userId}*`);
+        await erase("accounts", `id.eq.${userId}`);
+
+        return report;
+    }
+
     async getRoomsForParticipant(userId: UUID): Promise<UUID[]> {
         const { data, error } = await this.supabase
             .from("participants")
@@ -624,6 +768,8 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
     async createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean> {
         const allRoomData = await this.getRoomsForParticipants([
             params.userA,
@@ -668,8 +814,8 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
             .upsert({
                 userA: params.userA,
                 userB: params.userB,
-                userId: params.userA,
-                status: "FRIENDS",
+                userId: params.userId ?? params.userA,
+                status: params.status ?? "FRIENDS",
             })
             .eq("userA", params.userA)
             .eq("userB", params.userB);
@@ -785,19 +931,24 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
     }): Promise<RAGKnowledgeItem[]> {
         let query = this.supabase
             .from("knowledge")
             .select("*")
-            .or(`agentId.eq.${params.agentId},isShared.eq.true`);
+            .or(`agentId.eq.${params.agentId},isShared.eq.true`)
+            .order("createdAt")
+            .order("id");
 
         if (params.id) {
             query = query.eq("id", params.id);
         }
 
         if (params.limit) {
-            query = query.limit(params.limit);
+            query = params.offset
+                ? query.range(params.offset, params.offset + params.limit - 1)
+                : query.limit(params.limit);
         }
 
         const { data, error } = await query;
@@ -913,6 +1064,24 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
         }
     }
 
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        const { error } = await this.supabase
+            .from("knowledge")
+            .update({
+                content: knowledge.content,
+                embedding: knowledge.embedding
+                    ? Array.from(knowledge.embedding)
+                    : null,
+            })
+            .eq("id", knowledge.id);
+
+        if (error) {
+            throw new Error(
+                `Error updating knowledge embedding: ${error.message}`
+            );
+        }
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         const { error } = await this.supabase
             .from("knowledge")
@@ -924,6 +1093,19 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
         }
     }
 
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        const { error } = await this.supabase
+            .from("knowledge")
+            .delete()
+            .eq("originalId", originalId);
+
+        if (error) {
+            throw new Error(
+                `Error removing knowledge chunks: ${error.message}`
+            );
+        }
+    }
+
     async clearKnowledge(agentId: UUID, shared?: boolean): Promise<void> {
         if (shared) {
             const { error } = await this.supabase
@@ -3,6 +3,7 @@ import bodyParser from "body-parser";
 import cors from "cors";
 import path from "path";
 import fs from "fs";
+import multer from "multer";
 
 import {
     type AgentRuntime,
@@ -12,6 +13,12 @@ import {
     validateCharacterConfig,
     ServiceType,
     type Character,
+    getKnowledgeFileTypes,
+    exportAgentBundle,
+    ApprovalError,
+    type ApprovalStatus,
+    type IDatabaseAdapter,
+    type IDatabaseCacheAdapter,
 } from "@elizaos/core";
 
 import type { TeeLogQuery, TeeLogService } from "@elizaos/plugin-tee-log";
@@ -19,6 +26,9 @@ import { REST, Routes } from "discord.js";
 import type { DirectClient } from ".";
 import { validateUuid } from "@elizaos/core";
 
+// knowledge uploads are written under the knowledge root by the agent
+const knowledgeUpload = multer({ storage: multer.memoryStorage() });
+
 interface UUIDParams {
     agentId: UUID;
     roomId?: UUID;
@@ -307,6 +317,345 @@ export function createApiRouter(
         }
     });
 
+    router.get("/agents/:agentId/usage", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        const date = req.query.date as string | undefined;
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            res.status(400).json({
+                error: "Invalid date format. Expected YYYY-MM-DD",
+            });
+            return;
+        }
+
+        const roomId = req.query.roomId
+            ? validateUuid(req.query.roomId)
+            : undefined;
+        if (roomId === null) {
+            res.status(400).json({
+                error: "Invalid RoomId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+            });
+            return;
+        }
+
+        try {
+            res.json({
+                id: runtime.agentId,
+                summary: await runtime.usageLedger.getSummary(date),
+                budget: runtime.character.settings?.usageBudget ?? null,
+                entries: runtime.usageLedger.getEntries({
+                    roomId,
+                    caller: req.query.caller as string | undefined,
+                    since: req.query.since
+                        ? Number(req.query.since)
+                        : undefined,
+                }),
+            });
+        } catch (error) {
+            console.error("Error fetching usage:", error);
+            res.status(500).json({ error: "Failed to fetch usage" });
+        }
+    });
+
+    router.get("/agents/:agentId/outbound", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        res.json({
+            id: runtime.agentId,
+            platforms:
+                runtime.outboundQueue?.getMetrics(
+                    req.query.platform as string | undefined
+                ) ?? [],
+        });
+    });
+
+    router.get("/agents/:agentId/knowledge", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        try {
+            const statuses = new Map(
+                runtime.knowledgeSync
+                    .getStatus()
+                    .map((status) => [status.id, status])
+            );
+            const stored = await runtime.ragKnowledgeManager.listAllKnowledge(
+                runtime.agentId
+            );
+            const documents = stored
+                .filter(
+                    (item) =>
+                        item.content.metadata?.source &&
+                        !item.content.metadata.isChunk
+                )
+                .map((item) => {
+                    const status = statuses.get(item.id);
+                    statuses.delete(item.id);
+                    return {
+                        id: item.id,
+                        path: item.content.metadata.source,
+                        type: item.content.metadata.type,
+                        shared: !!item.content.metadata.isShared,
+                        contentHash: item.content.metadata.contentHash,
+                        createdAt: item.createdAt,
+                        status: status?.status ?? "ready",
+                        error: status?.error,
+                        updatedAt: status?.updatedAt ?? item.createdAt,
+                    };
+                });
+
+            // files still being ingested, or that failed, have no stored entry
+            for (const status of statuses.values()) {
+                if (status.status !== "deleted") {
+                    documents.push({
+                        id: status.id,
+                        path: status.path,
+                        type: status.path.split(".").pop()?.toLowerCase(),
+                        shared: status.shared,
+                        contentHash: status.contentHash,
+                        createdAt: undefined,
+                        status: status.status,
+                        error: status.error,
+                        updatedAt: status.updatedAt,
+                    });
+                }
+            }
+
+            res.json({ id: runtime.agentId, documents });
+        } catch (error) {
+            console.error("Error fetching knowledge:", error);
+            res.status(500).json({ error: "Failed to fetch knowledge" });
+        }
+    });
+
+    router.post(
+        "/agents/:agentId/knowledge",
+        knowledgeUpload.single("file"),
+        async (req, res) => {
+            const { agentId } = validateUUIDParams(req.params, res) ?? {
+                agentId: null,
+            };
+            if (!agentId) return;
+
+            const runtime = agents.get(agentId);
+
+            if (!runtime) {
+                res.status(404).json({ error: "Runtime not found" });
+                return;
+            }
+
+            if (!req.file) {
+                res.status(400).json({ error: "No file uploaded" });
+                return;
+            }
+
+            const fileName = path.basename(req.file.originalname);
+            const type = fileName.split(".").pop()?.toLowerCase();
+            if (!type || !getKnowledgeFileTypes().includes(type)) {
+                res.status(400).json({
+                    error: `Unsupported file type. Expected one of: ${getKnowledgeFileTypes().join(", ")}`,
+                });
+                return;
+            }
+
+            const directory = (req.body.directory as string) || "uploads";
+            const shared = req.body.shared === "true";
+            const relativePath = path.join(directory, fileName);
+
+            try {
+                // ingestion runs in the background, its progress is listed by GET
+                runtime.knowledgeSync
+                    .addFile(relativePath, req.file.buffer, shared)
+                    .catch((error) =>
+                        elizaLogger.error(
+                            `Failed to ingest uploaded knowledge ${relativePath}:`,
+                            error
+                        )
+                    );
+                res.status(202).json({
+                    id: runtime.ragKnowledgeManager.generateScopedId(
+                        path.normalize(relativePath),
+                        shared
+                    ),
+                    path: relativePath,
+                    shared,
+                    status: "pending",
+                });
+            } catch (error) {
+                console.error("Error uploading knowledge:", error);
+                res.status(500).json({ error: "Failed to upload knowledge" });
+            }
+        }
+    );
+
+    router.delete("/agents/:agentId/knowledge/:documentId", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        try {
+            const [document] = await runtime.ragKnowledgeManager.getKnowledge({
+                id: req.params.documentId as UUID,
+                agentId: runtime.agentId,
+            });
+            if (!document?.content.metadata?.source) {
+                res.status(404).json({ error: "Knowledge document not found" });
+                return;
+            }
+
+            const result = await runtime.knowledgeSync.deleteFile(
+                document.content.metadata.source,
+                !!document.content.metadata.isShared
+            );
+            if (result.change === "failed") {
+                res.status(500).json({ error: result.error });
+                return;
+            }
+            res.status(204).send();
+        } catch (error) {
+            console.error("Error deleting knowledge:", error);
+            res.status(500).json({ error: "Failed to delete knowledge" });
+        }
+    });
+
+    router.post("/agents/:agentId/export", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        try {
+            const directory = path.join(
+                process.cwd(),
+                "data",
+                "exports",
+                `${runtime.character.name}-${new Date().toISOString().replace(/[:.]/g, "-")}`
+            );
+            const manifest = await exportAgentBundle(
+                runtime.databaseAdapter as IDatabaseAdapter &
+                    Partial<IDatabaseCacheAdapter>,
+                runtime.agentId,
+                directory,
+                { agentName: runtime.character.name }
+            );
+            res.json({ path: directory, manifest });
+        } catch (error) {
+            console.error("Error exporting agent:", error);
+            res.status(500).json({ error: "Failed to export agent" });
+        }
+    });
+
+    router.get("/agents/:agentId/approvals", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        try {
+            const approvals = await runtime.approvalQueue.list({
+                status: req.query.status as ApprovalStatus | undefined,
+            });
+            res.json({ approvals });
+        } catch (error) {
+            console.error("Error fetching approvals:", error);
+            res.status(500).json({ error: "Failed to fetch approvals" });
+        }
+    });
+
+    router.post("/agents/:agentId/approvals/:requestId", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        const { status, decidedBy, reason } = req.body ?? {};
+        if (status !== "approved" && status !== "rejected") {
+            res.status(400).json({
+                error: 'status must be "approved" or "rejected"',
+            });
+            return;
+        }
+
+        try {
+            const requestId = req.params.requestId as UUID;
+            if (!(await runtime.approvalQueue.get(requestId))) {
+                res.status(404).json({ error: "Approval request not found" });
+                return;
+            }
+            const approval = await runtime.approvalQueue.decide(requestId, {
+                status,
+                decidedBy: decidedBy ?? "rest",
+                reason,
+            });
+            res.json({ approval });
+        } catch (error) {
+            if (error instanceof ApprovalError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            console.error("Error deciding approval:", error);
+            res.status(500).json({ error: "Failed to decide approval" });
+        }
+    });
+
     router.get("/tee/agents", async (req, res) => {
         try {
             const allAgents = [];
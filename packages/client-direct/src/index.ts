@@ -14,6 +14,11 @@ import {
     composeContext,
     generateMessageResponse,
     generateObject,
+    getRequestedActions,
+    streamText,
+    extractPartialStringAttribute,
+    parseJSONObjectFromText,
+    resolveCitations,
     type Content,
     type Memory,
     ModelClass,
@@ -21,6 +26,10 @@ import {
     stringToUuid,
     settings,
     type IAgentRuntime,
+    TeamCoordinator,
+    type TeamMessage,
+    UsageBudgetExceededError,
+    type UUID,
 } from "@elizaos/core";
 import { createApiRouter } from "./api.ts";
 import * as fs from "fs";
@@ -69,6 +78,8 @@ Note that {{agentName}} is capable of reading/seeing/hearing various forms of me
 
 {{messageDirections}}
 
+{{conversationSummary}}
+
 {{recentMessages}}
 
 {{actions}}
@@ -111,6 +122,7 @@ Response format should be formatted in a JSON block like this:
 export class DirectClient {
     public app: express.Application;
     private agents: Map<string, AgentRuntime>; // container management
+    private teams = new Map<string, TeamCoordinator>(); // turn-taking of the agents in shared rooms
     private server: any; // Store server instance
     public startAgent: Function; // Store startAgent functor
     public loadCharacterTryPath: Function; // Store loadCharacterTryPath functor
@@ -194,10 +206,6 @@ export class DirectClient {
             upload.single("file"),
             async (req: express.Request, res: express.Response) => {
                 const agentId = req.params.agentId;
-                const roomId = stringToUuid(
-                    req.body.roomId ?? "default-room-" + agentId
-                );
-                const userId = stringToUuid(req.body.userId ?? "user");
 
                 let runtime = this.agents.get(agentId);
 
@@ -215,138 +223,148 @@ export class DirectClient {
                     return;
                 }
 
-                await runtime.ensureConnection(
-                    userId,
-                    roomId,
-                    req.body.userName,
-                    req.body.name,
-                    "direct"
-                );
-
-                const text = req.body.text;
                 // if empty text, directly return
-                if (!text) {
+                if (!req.body.text) {
                     res.json([]);
                     return;
                 }
 
-                const messageId = stringToUuid(Date.now().toString());
-
-                const attachments: Media[] = [];
-                if (req.file) {
-                    const filePath = path.join(
-                        process.cwd(),
-                        "data",
-                        "uploads",
-                        req.file.filename
+                const messages: Content[] = [];
+                try {
+                    const answered = await this.handleMessage(
+                        req,
+                        runtime,
+                        (context, roomId) =>
+                            generateMessageResponse({
+                                runtime,
+                                context,
+                                modelClass: ModelClass.LARGE,
+                                usageTags: { roomId },
+                            }),
+                        (message) => messages.push(message)
                     );
-                    attachments.push({
-                        id: Date.now().toString(),
-                        url: filePath,
-                        title: req.file.originalname,
-                        source: "direct",
-                        description: `Uploaded file: ${req.file.originalname}`,
-                        text: "",
-                        contentType: req.file.mimetype,
-                    });
+                    if (!answered) {
+                        res.status(500).send(
+                            "No response from generateMessageResponse"
+                        );
+                        return;
+                    }
+                } catch (error) {
+                    if (error instanceof UsageBudgetExceededError) {
+                        res.status(429).json({ error: error.message });
+                        return;
+                    }
+                    throw error;
                 }
 
-                const content: Content = {
-                    text,
-                    attachments,
-                    source: "direct",
-                    inReplyTo: undefined,
-                };
-
-                const userMessage = {
-                    content,
-                    userId,
-                    roomId,
-                    agentId: runtime.agentId,
-                };
-
-                const memory: Memory = {
-                    id: stringToUuid(messageId + "-" + userId),
-                    ...userMessage,
-                    agentId: runtime.agentId,
-                    userId,
-                    roomId,
-                    content,
-                    createdAt: Date.now(),
-                };
-
-                await runtime.messageManager.addEmbeddingToMemory(memory);
-                await runtime.messageManager.createMemory(memory);
-
-                let state = await runtime.composeState(userMessage, {
-                    agentName: runtime.character.name,
-                });
+                res.json(messages);
+            }
+        );
 
-                const context = composeContext({
-                    state,
-                    template: messageHandlerTemplate,
-                });
+        this.app.post(
+            "/:agentId/message/stream",
+            upload.single("file"),
+            async (req: express.Request, res: express.Response) => {
+                const agentId = req.params.agentId;
 
-                const response = await generateMessageResponse({
-                    runtime: runtime,
-                    context,
-                    modelClass: ModelClass.LARGE,
-                });
+                let runtime = this.agents.get(agentId);
 
-                if (!response) {
-                    res.status(500).send(
-                        "No response from generateMessageResponse"
+                // if runtime is null, look for runtime with the same name
+                if (!runtime) {
+                    runtime = Array.from(this.agents.values()).find(
+                        (a) =>
+                            a.character.name.toLowerCase() ===
+                            agentId.toLowerCase()
                     );
-                    return;
                 }
 
-                // save response to memory
-                const responseMessage: Memory = {
-                    id: stringToUuid(messageId + "-" + runtime.agentId),
-                    ...userMessage,
-                    userId: runtime.agentId,
-                    content: response,
-                    embedding: getEmbeddingZeroVector(),
-                    createdAt: Date.now(),
-                };
-
-                await runtime.messageManager.createMemory(responseMessage);
+                if (!runtime) {
+                    res.status(404).send("Agent not found");
+                    return;
+                }
 
-                state = await runtime.updateRecentMessageState(state);
+                if (!req.body.text) {
+                    res.status(400).send("No text provided");
+                    return;
+                }
 
-                let message = null as Content | null;
+                res.writeHead(200, {
+                    "Content-Type": "text/event-stream",
+                    "Cache-Control": "no-cache",
+                    Connection: "keep-alive",
+                });
+                const sendEvent = (event: string, data: unknown) =>
+                    res.write(
+                        `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+                    );
 
-                await runtime.processActions(
-                    memory,
-                    [responseMessage],
-                    state,
-                    async (newMessages) => {
-                        message = newMessages;
-                        return [memory];
+                // stop generating when the client goes away
+                const abortController = new AbortController();
+                res.on("close", () => {
+                    if (!res.writableEnded) {
+                        abortController.abort();
                     }
-                );
+                });
 
-                await runtime.evaluate(memory, state);
+                try {
+                    const answered = await this.handleMessage(
+                        req,
+                        runtime,
+                        async (context, roomId) => {
+                            // the model answers in JSON, so only the "text" attribute is streamed to the client
+                            let completion = "";
+                            let streamedText = "";
+                            for await (const chunk of streamText({
+                                runtime,
+                                context,
+                                modelClass: ModelClass.LARGE,
+                                abortSignal: abortController.signal,
+                                usageTags: { roomId },
+                            })) {
+                                completion += chunk;
+                                const partialText =
+                                    extractPartialStringAttribute(
+                                        completion,
+                                        "text"
+                                    ) ?? "";
+                                if (partialText.length > streamedText.length) {
+                                    sendEvent("chunk", {
+                                        text: partialText.slice(
+                                            streamedText.length
+                                        ),
+                                    });
+                                    streamedText = partialText;
+                                }
+                            }
 
-                // Check if we should suppress the initial message
-                const action = runtime.actions.find(
-                    (a) => a.name === response.action
-                );
-                const shouldSuppressInitialMessage =
-                    action?.suppressInitialMessage;
-
-                if (!shouldSuppressInitialMessage) {
-                    if (message) {
-                        res.json([response, message]);
-                    } else {
-                        res.json([response]);
-                    }
-                } else {
-                    if (message) {
-                        res.json([message]);
-                    } else {
-                        res.json([]);
+                            if (abortController.signal.aborted) {
+                                return null;
+                            }
+                            return (
+                                (parseJSONObjectFromText(
+                                    completion
+                                ) as Content) ??
+                                ({
+                                    text: streamedText || completion,
+                                } as Content)
+                            );
+                        },
+                        (message) => sendEvent("message", message)
+                    );
+
+                    if (answered) {
+                        sendEvent("done", {});
                     }
+                } catch (error) {
+                    elizaLogger.error("Error streaming message:", error);
+                    sendEvent("error", {
+                        message:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                    });
+                } finally {
+                    res.end();
                 }
             }
         );
@@ -504,6 +522,7 @@ export class DirectClient {
                     context,
                     modelClass: ModelClass.SMALL, // 1s processing time on openai small
                     schema: hyperfiOutSchema,
+                    usageTags: { roomId, caller: "hyperfi" },
                 });
 
                 if (!response) {
@@ -802,11 +821,15 @@ export class DirectClient {
                     template: messageHandlerTemplate,
                 });
 
-                const response = await generateMessageResponse({
-                    runtime: runtime,
-                    context,
-                    modelClass: ModelClass.LARGE,
-                });
+                const response = resolveCitations(
+                    await generateMessageResponse({
+                        runtime: runtime,
+                        context,
+                        modelClass: ModelClass.LARGE,
+                        usageTags: { roomId },
+                    }),
+                    state.knowledgeCitations
+                );
 
                 // save response to memory
                 const responseMessage = {
@@ -835,8 +858,10 @@ export class DirectClient {
                     }
                 );
 
-                // Get the text to convert to speech
-                const textToSpeak = response.text;
+                // Get the text to convert to speech, without citation markers
+                const textToSpeak = response.citations?.length
+                    ? response.text.replace(/\s*\[\d+\]/g, "")
+                    : response.text;
 
                 // Convert to speech using ElevenLabs
                 const elevenLabsApiUrl = `https://api.elevenlabs.io/v1/text-to-speech/${process.env.ELEVENLABS_VOICE_ID}`;
@@ -986,6 +1011,181 @@ export class DirectClient {
 
     public unregisterAgent(runtime: AgentRuntime) {
         this.agents.delete(runtime.agentId);
+        this.teams.delete(runtime.agentId);
+    }
+
+    /**
+     * Answers a message posted to the `/message` routes, which differ only in how the response is
+     * generated and delivered. The message is stored, `generate` writes the response from the
+     * composed context, then the response is saved and its actions and evaluators run. The
+     * response, unless its actions suppress it, and the messages of the actions go to `send`.
+     * @returns false when `generate` gave no response.
+     */
+    private async handleMessage(
+        req: express.Request,
+        runtime: AgentRuntime,
+        generate: (context: string, roomId: UUID) => Promise<Content | null>,
+        send: (message: Content) => void
+    ): Promise<boolean> {
+        const roomId = stringToUuid(
+            req.body.roomId ?? `default-room-${req.params.agentId}`
+        );
+        const userId = stringToUuid(req.body.userId ?? "user");
+        const text: string = req.body.text;
+
+        await runtime.ensureConnection(
+            userId,
+            roomId,
+            req.body.userName,
+            req.body.name,
+            "direct"
+        );
+
+        const messageId = stringToUuid(Date.now().toString());
+
+        const attachments: Media[] = [];
+        if (req.file) {
+            const filePath = path.join(
+                process.cwd(),
+                "data",
+                "uploads",
+                req.file.filename
+            );
+            attachments.push({
+                id: Date.now().toString(),
+                url: filePath,
+                title: req.file.originalname,
+                source: "direct",
+                description: `Uploaded file: ${req.file.originalname}`,
+                text: "",
+                contentType: req.file.mimetype,
+            });
+        }
+
+        const content: Content = {
+            text,
+            attachments,
+            source: "direct",
+            inReplyTo: undefined,
+        };
+
+        const userMessage = {
+            content,
+            userId,
+            roomId,
+            agentId: runtime.agentId,
+        };
+
+        const memory: Memory = {
+            id: stringToUuid(`${messageId}-${userId}`),
+            ...userMessage,
+            createdAt: Date.now(),
+        };
+
+        await runtime.messageManager.addEmbeddingToMemory(memory);
+        await runtime.messageManager.createMemory(memory);
+
+        // In a room shared by a team of agents, only answer on our turn
+        const team = this.getTeam(runtime);
+        if (team.isEnabled()) {
+            const teamMessage = this.toTeamMessage(roomId, userId, text);
+            team.observe(teamMessage);
+            if (!(await team.takeTurn(teamMessage))) {
+                return true;
+            }
+        }
+
+        let state = await runtime.composeState(userMessage, {
+            agentName: runtime.character.name,
+        });
+
+        const context = composeContext({
+            state,
+            template: messageHandlerTemplate,
+        });
+
+        const generated = await generate(context, roomId);
+        if (!generated) {
+            return false;
+        }
+        const response = resolveCitations(generated, state.knowledgeCitations);
+
+        // save response to memory
+        const responseMessage: Memory = {
+            id: stringToUuid(`${messageId}-${runtime.agentId}`),
+            ...userMessage,
+            userId: runtime.agentId,
+            content: response,
+            embedding: getEmbeddingZeroVector(),
+            createdAt: Date.now(),
+        };
+
+        await runtime.messageManager.createMemory(responseMessage);
+
+        // the other agents of the room see who answered
+        for (const other of this.teams.values()) {
+            other.observe(
+                this.toTeamMessage(roomId, runtime.agentId, response.text ?? "")
+            );
+        }
+
+        state = await runtime.updateRecentMessageState(state);
+
+        // Check if we should suppress the initial message
+        const shouldSuppressInitialMessage = getRequestedActions(
+            runtime.actions,
+            response,
+            runtime.character.settings?.actionResolution
+        ).some((action) => action.suppressInitialMessage);
+        if (!shouldSuppressInitialMessage) {
+            send(response);
+        }
+
+        await runtime.processActions(
+            memory,
+            [responseMessage],
+            state,
+            async (newMessages) => {
+                send(newMessages);
+                return [memory];
+            }
+        );
+
+        await runtime.evaluate(memory, state);
+
+        return true;
+    }
+
+    private getTeam(runtime: AgentRuntime): TeamCoordinator {
+        let team = this.teams.get(runtime.agentId);
+        if (!team) {
+            team = new TeamCoordinator(
+                runtime.agentId,
+                runtime.character.clientConfig?.direct
+            );
+            this.teams.set(runtime.agentId, team);
+        }
+        return team;
+    }
+
+    /** Agents named in a message count as mentioned */
+    private toTeamMessage(
+        roomId: string,
+        authorId: string,
+        text: string
+    ): TeamMessage {
+        const lowerText = text.toLowerCase();
+        return {
+            roomId,
+            authorId,
+            text,
+            mentionedIds: Array.from(this.agents.values())
+                .filter((agent) =>
+                    lowerText.includes(agent.character.name.toLowerCase())
+                )
+                .map((agent) => agent.agentId),
+            createdAt: Date.now(),
+        };
     }
 
     public start(port: number) {
@@ -53,6 +53,14 @@ vi.mock('discord.js', () => {
       User: 'user',
       Reaction: 'reaction',
     },
+    ApplicationCommandOptionType: {
+      Subcommand: 1,
+      String: 3,
+      Integer: 4,
+      Boolean: 5,
+      Channel: 7,
+      Number: 10,
+    },
     Collection: class Collection extends Map {},
   };
 });
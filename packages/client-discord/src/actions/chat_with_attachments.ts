@@ -56,6 +56,10 @@ const getAttachmentIds = async (
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: {
+                roomId: message.roomId,
+                caller: "CHAT_WITH_ATTACHMENTS",
+            },
         });
         console.log("response", response);
         // try parsing to a json object
@@ -208,6 +212,10 @@ const summarizeAction = {
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: {
+                roomId: message.roomId,
+                caller: "CHAT_WITH_ATTACHMENTS",
+            },
         });
 
         currentSummary = currentSummary + "\n" + summary;
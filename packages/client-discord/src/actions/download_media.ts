@@ -48,6 +48,7 @@ const getMediaUrl = async (
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId: message.roomId, caller: "DOWNLOAD_MEDIA" },
         });
 
         const parsedResponse = parseJSONObjectFromText(response) as {
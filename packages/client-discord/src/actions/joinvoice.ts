@@ -171,6 +171,7 @@ You should only respond with the name of the voice channel or none, no commentar
                 runtime,
                 context,
                 modelClass: ModelClass.SMALL,
+                usageTags: { roomId: message.roomId, caller: "JOIN_VOICE" },
             });
 
             runtime.databaseAdapter.log({
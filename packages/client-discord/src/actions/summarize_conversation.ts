@@ -59,6 +59,10 @@ const getDateRange = async (
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: {
+                roomId: message.roomId,
+                caller: "SUMMARIZE_CONVERSATION",
+            },
         });
         console.log("response", response);
         // try parsing to a json object
@@ -138,6 +142,7 @@ const summarizeAction = {
         "CONVERSATION_SUMMARY",
     ],
     description: "Summarizes the conversation and attachments.",
+    command: { name: "summarize" },
     validate: async (
         runtime: IAgentRuntime,
         message: Memory,
@@ -278,6 +283,10 @@ const summarizeAction = {
                 runtime,
                 context,
                 modelClass: ModelClass.SMALL,
+                usageTags: {
+                    roomId: message.roomId,
+                    caller: "SUMMARIZE_CONVERSATION",
+                },
             });
 
             currentSummary = currentSummary + "\n" + summary;
@@ -48,6 +48,7 @@ const getMediaAttachmentId = async (
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId: message.roomId, caller: "TRANSCRIBE_MEDIA" },
         });
         console.log("response", response);
 
@@ -0,0 +1,99 @@
+import type {
+    ApprovalDecision,
+    ApprovalRequest,
+    IApprovalChannel,
+} from "@elizaos/core";
+import { type Client, TextChannel } from "discord.js";
+
+const APPROVE_EMOJI = "👍";
+const REJECT_EMOJI = "❌";
+
+/**
+ * Reviewer channel posting approval requests to a Discord text channel.
+ * Reviewers react with 👍 to approve or ❌ to reject; reactions of bots, and of users outside
+ * `reviewers` when it is set, are ignored.
+ */
+export class DiscordApprovalChannel implements IApprovalChannel {
+    name = "discord";
+
+    constructor(
+        private client: Client,
+        private channelId: string,
+        private reviewers: string[] = []
+    ) {}
+
+    async notify(request: ApprovalRequest): Promise<string> {
+        const channel = await this.fetchChannel();
+        const message = await channel.send({
+            embeds: [
+                {
+                    title: request.title,
+                    description: request.content.text,
+                    fields: [
+                        { name: "Kind", value: request.kind, inline: true },
+                        { name: "Request", value: request.id, inline: true },
+                    ],
+                    footer: {
+                        text: `React with '${APPROVE_EMOJI}' to approve or '${REJECT_EMOJI}' to reject. Expires ${new Date(request.expiresAt).toUTCString()}`,
+                    },
+                    timestamp: new Date(request.createdAt).toISOString(),
+                },
+            ],
+        });
+        return message.id;
+    }
+
+    async poll(request: ApprovalRequest): Promise<ApprovalDecision | null> {
+        const message = await this.fetchMessage(request);
+        // a rejection wins over an approval
+        for (const [emoji, status] of [
+            [REJECT_EMOJI, "rejected"],
+            [APPROVE_EMOJI, "approved"],
+        ] as const) {
+            const reaction = message.reactions.cache.find(
+                (reaction) => reaction.emoji.name === emoji
+            );
+            if (!reaction?.count) {
+                continue;
+            }
+            const users = await reaction.users.fetch();
+            const reviewer = users.find(
+                (user) =>
+                    !user.bot &&
+                    (this.reviewers.length === 0 ||
+                        this.reviewers.includes(user.id))
+            );
+            if (reviewer) {
+                return { status, decidedBy: `discord:${reviewer.username}` };
+            }
+        }
+        return null;
+    }
+
+    async resolved(request: ApprovalRequest): Promise<void> {
+        const message = await this.fetchMessage(request);
+        const replies: Record<ApprovalRequest["status"], string> = {
+            pending: "",
+            approved: `Approved and sent! ${APPROVE_EMOJI}`,
+            rejected: `Rejected! ${REJECT_EMOJI}`,
+            expired: "This approval request has expired without a decision.",
+            failed: `Approved, but it could not be sent: ${request.error}`,
+        };
+        await message.reply(replies[request.status]);
+    }
+
+    private async fetchChannel(): Promise<TextChannel> {
+        const channel = await this.client.channels.fetch(this.channelId);
+        if (!(channel instanceof TextChannel)) {
+            throw new Error(
+                `Discord approval channel ${this.channelId} is not a text channel`
+            );
+        }
+        return channel;
+    }
+
+    private async fetchMessage(request: ApprovalRequest) {
+        const channel = await this.fetchChannel();
+        return channel.messages.fetch(request.channelRefs[this.name]);
+    }
+}
@@ -39,6 +39,7 @@ async function generateSummary(
         runtime,
         context: prompt,
         modelClass: ModelClass.SMALL,
+        usageTags: { caller: "generateSummary" },
     });
 
     const parsedResponse = parseJSONObjectFromText(response);
@@ -0,0 +1,434 @@
+import {
+    type ActionCommand,
+    ActionStepStatus,
+    type AgentRuntime,
+    type CommandOption,
+    type Content,
+    type HandlerCallback,
+    type IAgentRuntime,
+    CommandError,
+    type Memory,
+    SendPriority,
+    elizaLogger,
+    getActionCommands,
+    getCommandText,
+    getEmbeddingZeroVector,
+    knowledge,
+    runActionCommand,
+    sendOutbound,
+    stringToUuid,
+} from "@elizaos/core";
+import {
+    ActionRowBuilder,
+    type ApplicationCommandDataResolvable,
+    ApplicationCommandOptionType,
+    ButtonBuilder,
+    type ButtonInteraction,
+    ButtonStyle,
+    type ChatInputCommandInteraction,
+    type Client,
+    type Interaction,
+    type Message as DiscordMessage,
+} from "discord.js";
+import { splitMessage } from "./utils.ts";
+import type { VoiceManager } from "./voice.ts";
+
+// Discord allows 100 global commands per application
+const MAX_COMMANDS = 100;
+const MAX_CHOICES = 25;
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+const KNOWLEDGE_RESULTS = 5;
+
+const OPTION_TYPES: Record<
+    CommandOption["type"],
+    ApplicationCommandOptionType
+> = {
+    string: ApplicationCommandOptionType.String,
+    integer: ApplicationCommandOptionType.Integer,
+    number: ApplicationCommandOptionType.Number,
+    boolean: ApplicationCommandOptionType.Boolean,
+};
+
+const BUILTIN_COMMANDS = [
+    {
+        name: "joinchannel",
+        description: "Join a voice channel",
+        options: [
+            {
+                name: "channel",
+                type: ApplicationCommandOptionType.Channel,
+                description: "The voice channel to join",
+                required: true,
+                channel_types: [2], // GuildVoice type
+            },
+        ],
+    },
+    {
+        name: "leavechannel",
+        description: "Leave the current voice channel",
+    },
+    {
+        name: "knowledge",
+        description: "Look up what the agent knows",
+        options: [
+            {
+                name: "search",
+                type: ApplicationCommandOptionType.Subcommand,
+                description: "Search the knowledge of the agent",
+                options: [
+                    {
+                        name: "query",
+                        type: ApplicationCommandOptionType.String,
+                        description: "What to look for",
+                        required: true,
+                    },
+                ],
+            },
+        ],
+    },
+];
+
+interface PendingCommand {
+    command: ActionCommand;
+    args: { [key: string]: unknown };
+    memory: Memory;
+    userId: string;
+    createdAt: number;
+}
+
+function toApplicationCommand(
+    command: ActionCommand
+): ApplicationCommandDataResolvable {
+    return {
+        name: command.name,
+        description: command.description,
+        options: command.options.map((option) => ({
+            name: option.name,
+            description: option.description,
+            type: OPTION_TYPES[option.type],
+            required: option.required,
+            choices: option.choices?.slice(0, MAX_CHOICES).map((choice) => ({
+                name: choice,
+                value: choice,
+            })),
+        })),
+    } as ApplicationCommandDataResolvable;
+}
+
+/**
+ * Slash commands of the Discord client: the voice commands, `/knowledge search`, and one command
+ * per registered action, e.g. `/mute` or `/summarize`. Action commands are stored as messages and
+ * run through `processActions` like the actions of a response; commands of actions asking for a
+ * confirmation first show Confirm and Cancel buttons to the user who ran them.
+ */
+export class CommandManager {
+    private commands = new Map<string, ActionCommand>();
+    private pending = new Map<string, PendingCommand>();
+
+    constructor(
+        private client: Client,
+        private runtime: IAgentRuntime,
+        private voiceManager: VoiceManager
+    ) {}
+
+    async register(): Promise<void> {
+        const builtins = BUILTIN_COMMANDS.map((command) => command.name);
+        const actionCommands = getActionCommands(this.runtime.actions)
+            .filter((command) => !builtins.includes(command.name))
+            .slice(0, MAX_COMMANDS - builtins.length);
+        this.commands = new Map(
+            actionCommands.map((command) => [command.name, command])
+        );
+
+        await this.client.application?.commands.set([
+            ...BUILTIN_COMMANDS,
+            ...actionCommands.map(toApplicationCommand),
+        ]);
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        try {
+            if (interaction.isChatInputCommand()) {
+                switch (interaction.commandName) {
+                    case "joinchannel":
+                        await this.voiceManager.handleJoinChannelCommand(
+                            interaction
+                        );
+                        break;
+                    case "leavechannel":
+                        await this.voiceManager.handleLeaveChannelCommand(
+                            interaction
+                        );
+                        break;
+                    case "knowledge":
+                        await this.handleKnowledgeCommand(interaction);
+                        break;
+                    default:
+                        await this.handleActionCommand(interaction);
+                }
+            } else if (
+                interaction.isButton() &&
+                interaction.customId.startsWith("command:")
+            ) {
+                await this.handleConfirmation(interaction);
+            }
+        } catch (error) {
+            elizaLogger.error("Error handling Discord interaction:", error);
+        }
+    }
+
+    private isAllowed(channelId: string): boolean {
+        const allowedChannelIds =
+            this.runtime.character.clientConfig?.discord?.allowedChannelIds;
+        return !allowedChannelIds || allowedChannelIds.includes(channelId);
+    }
+
+    private async handleActionCommand(
+        interaction: ChatInputCommandInteraction
+    ): Promise<void> {
+        const command = this.commands.get(interaction.commandName);
+        if (!command || !this.isAllowed(interaction.channelId)) {
+            await interaction.reply({
+                content: "This command is not available here.",
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const args = Object.fromEntries(
+            interaction.options.data.map((option) => [
+                option.name,
+                option.value,
+            ])
+        );
+        const memory = await this.createMessage(
+            interaction,
+            getCommandText(command, args)
+        );
+
+        if (command.confirm) {
+            this.removeExpired();
+            this.pending.set(interaction.id, {
+                command,
+                args,
+                memory,
+                userId: interaction.user.id,
+                createdAt: Date.now(),
+            });
+            await interaction.reply({
+                content: `Run /${command.name}? ${command.description}`,
+                components: [
+                    new ActionRowBuilder<ButtonBuilder>().addComponents(
+                        new ButtonBuilder()
+                            .setCustomId(`command:${interaction.id}:confirm`)
+                            .setLabel("Confirm")
+                            .setStyle(ButtonStyle.Primary),
+                        new ButtonBuilder()
+                            .setCustomId(`command:${interaction.id}:cancel`)
+                            .setLabel("Cancel")
+                            .setStyle(ButtonStyle.Secondary)
+                    ),
+                ],
+                ephemeral: true,
+            });
+            return;
+        }
+
+        await interaction.deferReply();
+        await this.runCommand(interaction, command, args, memory, false);
+    }
+
+    private async handleConfirmation(
+        interaction: ButtonInteraction
+    ): Promise<void> {
+        const [, id, choice] = interaction.customId.split(":");
+        this.removeExpired();
+        const pending = this.pending.get(id);
+        if (!pending) {
+            await interaction.update({
+                content: "This confirmation has expired.",
+                components: [],
+            });
+            return;
+        }
+        if (interaction.user.id !== pending.userId) {
+            await interaction.reply({
+                content: "Only the user who ran the command can confirm it.",
+                ephemeral: true,
+            });
+            return;
+        }
+
+        this.pending.delete(id);
+        const { command, args, memory } = pending;
+        if (choice !== "confirm") {
+            await interaction.update({
+                content: `Cancelled /${command.name}.`,
+                components: [],
+            });
+            return;
+        }
+
+        await interaction.update({
+            content: `Running /${command.name}…`,
+            components: [],
+        });
+        await this.runCommand(interaction, command, args, memory, true);
+    }
+
+    /**
+     * Runs the action of a command, answering in the reply of the interaction and in follow-ups
+     * @param replied Whether the interaction already has a reply, follow-ups are sent then
+     */
+    private async runCommand(
+        interaction: ChatInputCommandInteraction | ButtonInteraction,
+        command: ActionCommand,
+        args: { [key: string]: unknown },
+        memory: Memory,
+        replied: boolean
+    ): Promise<void> {
+        let hasReply = replied;
+        let answered = false;
+        const reply = (content: string) => {
+            const send = hasReply
+                ? () => interaction.followUp({ content })
+                : () => interaction.editReply({ content });
+            hasReply = true;
+            return sendOutbound<DiscordMessage>(this.runtime, {
+                platform: "discord",
+                channelId: interaction.channelId,
+                priority: SendPriority.REPLY,
+                run: send,
+            });
+        };
+
+        const callback: HandlerCallback = async (content: Content) => {
+            answered = true;
+            const memories: Memory[] = [];
+            for (const chunk of splitMessage(content.text ?? "")) {
+                if (!chunk.trim()) {
+                    continue;
+                }
+                const message = await reply(chunk);
+                memories.push({
+                    id: stringToUuid(`${message.id}-${this.runtime.agentId}`),
+                    userId: this.runtime.agentId,
+                    agentId: this.runtime.agentId,
+                    content: {
+                        ...content,
+                        text: chunk,
+                        inReplyTo: memory.id,
+                        url: message.url,
+                    },
+                    roomId: memory.roomId,
+                    embedding: getEmbeddingZeroVector(),
+                    createdAt: message.createdTimestamp,
+                });
+            }
+            for (const m of memories) {
+                await this.runtime.messageManager.createMemory(m);
+            }
+            return memories;
+        };
+
+        try {
+            const [result] = await runActionCommand(
+                this.runtime,
+                memory,
+                command,
+                args,
+                {
+                    additionalKeys: {
+                        discordClient: this.client,
+                        agentName:
+                            this.runtime.character.name ||
+                            this.client.user?.displayName,
+                    },
+                    callback,
+                }
+            );
+            if (answered) {
+                return;
+            }
+            switch (result?.status) {
+                case ActionStepStatus.PENDING_APPROVAL:
+                    await reply(`/${command.name} is waiting for approval.`);
+                    break;
+                case ActionStepStatus.FAILED:
+                    await reply(
+                        `Could not run /${command.name}: ${result.error}`
+                    );
+                    break;
+                default:
+                    await reply(`Done with /${command.name}.`);
+            }
+        } catch (error) {
+            if (error instanceof CommandError) {
+                await reply(error.message);
+                return;
+            }
+            elizaLogger.error(`Error running /${command.name}:`, error);
+            await reply(`Could not run /${command.name}.`);
+        }
+    }
+
+    private async handleKnowledgeCommand(
+        interaction: ChatInputCommandInteraction
+    ): Promise<void> {
+        const query = interaction.options.getString("query", true);
+        await interaction.deferReply({ ephemeral: true });
+
+        const items = await knowledge.search(
+            this.runtime as AgentRuntime,
+            query,
+            KNOWLEDGE_RESULTS
+        );
+
+        const results = items.map(
+            (item, index) =>
+                `**${index + 1}.** ${item.content.text.replace(/\s+/g, " ").slice(0, 300)}`
+        );
+        await interaction.editReply(
+            results.length > 0
+                ? splitMessage(
+                      [`Knowledge about "${query}":`, ...results].join("\n")
+                  )[0]
+                : `Nothing found about "${query}".`
+        );
+    }
+
+    /** Message of the user running a command, in the room of its channel */
+    private async createMessage(
+        interaction: ChatInputCommandInteraction,
+        text: string
+    ): Promise<Memory> {
+        const roomId = stringToUuid(
+            `${interaction.channelId}-${this.runtime.agentId}`
+        );
+        const userId = stringToUuid(interaction.user.id);
+        await this.runtime.ensureConnection(
+            userId,
+            roomId,
+            interaction.user.username,
+            interaction.user.displayName,
+            "discord"
+        );
+        return {
+            id: stringToUuid(`${interaction.id}-${this.runtime.agentId}`),
+            userId,
+            agentId: this.runtime.agentId,
+            roomId,
+            content: { text, source: "discord" },
+            createdAt: interaction.createdTimestamp,
+        };
+    }
+
+    private removeExpired() {
+        const now = Date.now();
+        for (const [id, pending] of this.pending) {
+            if (now - pending.createdAt > CONFIRMATION_TIMEOUT_MS) {
+                this.pending.delete(id);
+            }
+        }
+    }
+}
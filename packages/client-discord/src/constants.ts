@@ -1,19 +1,3 @@
-export const TEAM_COORDINATION = {
-    KEYWORDS: [
-        "team",
-        "all agents",
-        "team update",
-        "gm team",
-        "hello team",
-        "hey team",
-        "hi team",
-        "morning team",
-        "evening team",
-        "night team",
-        "update team",
-    ],
-} as const;
-
 export const MESSAGE_CONSTANTS = {
     MAX_MESSAGES: 10,
     RECENT_MESSAGE_COUNT: 3,
@@ -33,18 +17,12 @@ export const MESSAGE_LENGTH_THRESHOLDS = {
 
 export const TIMING_CONSTANTS = {
     LEADER_RESPONSE_TIMEOUT: 3000,
-    TEAM_MEMBER_DELAY: 1500,
     LEADER_DELAY_MIN: 3000,
     LEADER_DELAY_MAX: 4000,
     TEAM_MEMBER_DELAY_MIN: 1000,
     TEAM_MEMBER_DELAY_MAX: 3000,
 } as const;
 
-export const RESPONSE_CHANCES = {
-    AFTER_LEADER: 0.5, // 50% chance
-    FREQUENT_CHATTER: 0.5, // Base chance for frequent responders
-} as const;
-
 export const LOSE_INTEREST_WORDS = [
     "shut up",
     "stop",
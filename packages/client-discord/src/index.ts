@@ -1,3 +1,5 @@
+export * from "./approval.ts";
+
 import {
     getEmbeddingZeroVector,
     stringToUuid,
@@ -11,17 +13,20 @@ import {
     Events,
     GatewayIntentBits,
     type Guild,
+    type Interaction,
     type MessageReaction,
     Partials,
     type User,
 } from "discord.js";
 import { EventEmitter } from "events";
+import { DiscordApprovalChannel } from "./approval.ts";
 import chat_with_attachments from "./actions/chat_with_attachments.ts";
 import download_media from "./actions/download_media.ts";
 import joinvoice from "./actions/joinvoice.ts";
 import leavevoice from "./actions/leavevoice.ts";
 import summarize from "./actions/summarize_conversation.ts";
 import transcribe_media from "./actions/transcribe_media.ts";
+import { CommandManager } from "./commands.ts";
 import { MessageManager } from "./messages.ts";
 import channelStateProvider from "./providers/channelState.ts";
 import voiceStateProvider from "./providers/voiceState.ts";
@@ -35,6 +40,7 @@ export class DiscordClient extends EventEmitter {
     character: Character;
     private messageManager: MessageManager;
     private voiceManager: VoiceManager;
+    private commandManager: CommandManager;
 
     constructor(runtime: IAgentRuntime) {
         super();
@@ -62,6 +68,11 @@ export class DiscordClient extends EventEmitter {
         this.runtime = runtime;
         this.voiceManager = new VoiceManager(this);
         this.messageManager = new MessageManager(this, this.voiceManager);
+        this.commandManager = new CommandManager(
+            this.client,
+            runtime,
+            this.voiceManager
+        );
 
         this.client.once(Events.ClientReady, this.onClientReady.bind(this));
         this.client.login(this.apiToken);
@@ -77,6 +88,22 @@ export class DiscordClient extends EventEmitter {
 
         this.runtime.providers.push(channelStateProvider);
         this.runtime.providers.push(voiceStateProvider);
+
+        const approvalChannelId = runtime.getSetting(
+            "DISCORD_APPROVAL_CHANNEL_ID"
+        );
+        if (approvalChannelId) {
+            this.runtime.approvalQueue?.registerChannel(
+                new DiscordApprovalChannel(
+                    this.client,
+                    approvalChannelId,
+                    (runtime.getSetting("DISCORD_APPROVAL_REVIEWERS") ?? "")
+                        .split(",")
+                        .map((id) => id.trim())
+                        .filter(Boolean)
+                )
+            );
+        }
     }
 
     private setupEventListeners() {
@@ -129,28 +156,8 @@ export class DiscordClient extends EventEmitter {
         elizaLogger.success(`Logged in as ${readyClient.user?.tag}`);
 
         // Register slash commands
-        const commands = [
-            {
-                name: "joinchannel",
-                description: "Join a voice channel",
-                options: [
-                    {
-                        name: "channel",
-                        type: 7, // CHANNEL type
-                        description: "The voice channel to join",
-                        required: true,
-                        channel_types: [2], // GuildVoice type
-                    },
-                ],
-            },
-            {
-                name: "leavechannel",
-                description: "Leave the current voice channel",
-            },
-        ];
-
         try {
-            await this.client.application?.commands.set(commands);
+            await this.commandManager.register();
             elizaLogger.success("Slash commands registered");
         } catch (error) {
             console.error("Error registering slash commands:", error);
@@ -374,17 +381,8 @@ export class DiscordClient extends EventEmitter {
         this.voiceManager.scanGuild(guild);
     }
 
-    private async handleInteractionCreate(interaction: any) {
-        if (!interaction.isCommand()) return;
-
-        switch (interaction.commandName) {
-            case "joinchannel":
-                await this.voiceManager.handleJoinChannelCommand(interaction);
-                break;
-            case "leavechannel":
-                await this.voiceManager.handleLeaveChannelCommand(interaction);
-                break;
-        }
+    private async handleInteractionCreate(interaction: Interaction) {
+        await this.commandManager.handleInteraction(interaction);
     }
 
     private async onReady() {
@@ -1,5 +1,9 @@
 import { composeContext, composeRandomUser } from "@elizaos/core";
-import { generateMessageResponse, generateShouldRespond } from "@elizaos/core";
+import {
+    generateMessageResponse,
+    generateShouldRespond,
+    getRequestedActions,
+} from "@elizaos/core";
 import {
     type Content,
     type HandlerCallback,
@@ -10,8 +14,11 @@ import {
     type Media,
     type Memory,
     ModelClass,
+    SendPriority,
     ServiceType,
     type State,
+    TeamCoordinator,
+    type TeamMessage,
     type UUID,
 } from "@elizaos/core";
 import { stringToUuid, getEmbeddingZeroVector } from "@elizaos/core";
@@ -35,15 +42,9 @@ import {
     LOSE_INTEREST_WORDS,
     MESSAGE_CONSTANTS,
     MESSAGE_LENGTH_THRESHOLDS,
-    RESPONSE_CHANCES,
-    TEAM_COORDINATION,
     TIMING_CONSTANTS,
 } from "./constants";
-import {
-    sendMessageInChunks,
-    canSendMessage,
-    cosineSimilarity,
-} from "./utils.ts";
+import { sendMessageInChunks, canSendMessage } from "./utils.ts";
 
 interface MessageContext {
     content: string;
@@ -81,6 +82,7 @@ export class MessageManager {
     private autoPostConfig: AutoPostConfig;
     private lastChannelActivity: { [channelId: string]: number } = {};
     private autoPostInterval: NodeJS.Timeout;
+    private _team?: TeamCoordinator;
 
     constructor(discordClient: any, voiceManager: VoiceManager) {
         this.client = discordClient.client;
@@ -113,6 +115,11 @@ export class MessageManager {
         // Update last activity time for the channel
         this.lastChannelActivity[message.channelId] = Date.now();
 
+        // Track who is talking in the channel, this agent and team members included
+        if (this.team.isEnabled()) {
+            this.team.observe(this.toTeamMessage(message));
+        }
+
         if (
             message.interaction ||
             message.author.id ===
@@ -151,133 +158,19 @@ export class MessageManager {
         const userName = message.author.username;
         const name = message.author.displayName;
         const channelId = message.channel.id;
-        const isDirectlyMentioned = this._isMessageForMe(message);
         const hasInterest = this._checkInterest(message.channelId);
 
-        // Team handling
-        if (
-            this.runtime.character.clientConfig?.discord?.isPartOfTeam &&
+        // Leave the message to another agent of the team when it is not our turn,
+        // agents answering mentions only are not part of the turn taking
+        const isTeamTurn =
+            this.team.isEnabled() &&
             !this.runtime.character.clientConfig?.discord
-                ?.shouldRespondOnlyToMentions
+                ?.shouldRespondOnlyToMentions;
+        if (
+            isTeamTurn &&
+            !(await this.team.takeTurn(this.toTeamMessage(message)))
         ) {
-            const authorId = this._getNormalizedUserId(message.author.id);
-
-            if (
-                !this._isTeamLeader() &&
-                this._isRelevantToTeamMember(message.content, channelId)
-            ) {
-                this.interestChannels[message.channelId] = {
-                    currentHandler: this.client.user?.id,
-                    lastMessageSent: Date.now(),
-                    messages: [],
-                };
-            }
-
-            const isTeamRequest = this._isTeamCoordinationRequest(
-                message.content
-            );
-            const isLeader = this._isTeamLeader();
-
-            // After team-wide responses, check if we should maintain interest
-            if (hasInterest && !isDirectlyMentioned) {
-                const lastSelfMemories =
-                    await this.runtime.messageManager.getMemories({
-                        roomId: stringToUuid(
-                            channelId + "-" + this.runtime.agentId
-                        ),
-                        unique: false,
-                        count: 5,
-                    });
-
-                const lastSelfSortedMemories = lastSelfMemories
-                    ?.filter((m) => m.userId === this.runtime.agentId)
-                    .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
-
-                const isRelevant = this._isRelevantToTeamMember(
-                    message.content,
-                    channelId,
-                    lastSelfSortedMemories?.[0]
-                );
-
-                if (!isRelevant) {
-                    // Clearing interest - conversation not relevant to team member
-                    delete this.interestChannels[message.channelId];
-                    return;
-                }
-            }
-
-            if (isTeamRequest) {
-                if (isLeader) {
-                    this.interestChannels[message.channelId] = {
-                        currentHandler: this.client.user?.id,
-                        lastMessageSent: Date.now(),
-                        messages: [],
-                    };
-                } else {
-                    // Set temporary interest for this response
-                    this.interestChannels[message.channelId] = {
-                        currentHandler: this.client.user?.id,
-                        lastMessageSent: Date.now(),
-                        messages: [],
-                    };
-
-                    // Clear interest after this cycle unless directly mentioned
-                    if (!isDirectlyMentioned) {
-                        // Use existing message cycle to clear interest
-                        this.interestChannels[
-                            message.channelId
-                        ].lastMessageSent = 0;
-                    }
-                }
-            }
-
-            // Check for other team member mentions
-            const otherTeamMembers =
-                this.runtime.character.clientConfig.discord.teamAgentIds.filter(
-                    (id) => id !== this.client.user?.id
-                );
-            const mentionedTeamMember = otherTeamMembers.find((id) =>
-                message.content.includes(`<@${id}>`)
-            );
-
-            // If another team member is mentioned, clear our interest
-            if (mentionedTeamMember) {
-                if (
-                    hasInterest ||
-                    this.interestChannels[message.channelId]?.currentHandler ===
-                        this.client.user?.id
-                ) {
-                    delete this.interestChannels[message.channelId];
-
-                    // Only return if we're not the mentioned member
-                    if (!isDirectlyMentioned) {
-                        return;
-                    }
-                }
-            }
-
-            // Set/maintain interest only if we're mentioned or already have interest
-            if (isDirectlyMentioned) {
-                this.interestChannels[message.channelId] = {
-                    currentHandler: this.client.user?.id,
-                    lastMessageSent: Date.now(),
-                    messages: [],
-                };
-            } else if (!isTeamRequest && !hasInterest) {
-                return;
-            }
-
-            // Bot-specific checks
-            if (message.author.bot) {
-                if (this._isTeamMember(authorId) && !isDirectlyMentioned) {
-                    return;
-                } else if (
-                    this.runtime.character.clientConfig.discord
-                        .shouldIgnoreBotMessages
-                ) {
-                    return;
-                }
-            }
+            return;
         }
 
         try {
@@ -385,7 +278,8 @@ export class MessageManager {
                 );
             }
 
-            if (!shouldIgnore) {
+            // the team coordinator already decided that it is our turn
+            if (!shouldIgnore && !isTeamTurn) {
                 shouldIgnore = await this._shouldIgnore(message);
             }
 
@@ -409,8 +303,8 @@ export class MessageManager {
                 return;
             }
 
-            if (agentUserState === "FOLLOWED") {
-                shouldRespond = true; // Always respond in followed rooms
+            if (agentUserState === "FOLLOWED" || isTeamTurn) {
+                shouldRespond = true; // Always respond in followed rooms and on our team turn
             } else if (
                 (!shouldRespond && hasInterest) ||
                 (shouldRespond && !hasInterest)
@@ -461,19 +355,22 @@ export class MessageManager {
                             message.channel as TextChannel,
                             content.text,
                             message.id,
-                            files
+                            files,
+                            this.runtime
                         );
 
                         const memories: Memory[] = [];
                         for (const m of messages) {
                             let action = content.action;
-                            // If there's only one message or it's the last message, keep the original action
-                            // For multiple messages, set all but the last to 'CONTINUE'
+                            let actions = content.actions;
+                            // If there's only one message or it's the last message, keep the original actions
+                            // For multiple messages, set all but the last to 'CONTINUE' so the chain runs once
                             if (
                                 messages.length > 1 &&
                                 m !== messages[messages.length - 1]
                             ) {
                                 action = "CONTINUE";
+                                actions = undefined;
                             }
 
                             const memory: Memory = {
@@ -485,6 +382,7 @@ export class MessageManager {
                                 content: {
                                     ...content,
                                     action,
+                                    actions,
                                     inReplyTo: messageId,
                                     url: m.url,
                                 },
@@ -504,8 +402,11 @@ export class MessageManager {
                     }
                 };
 
-                const action = this.runtime.actions.find((a) => a.name === responseContent.action);
-                const shouldSuppressInitialMessage = action?.suppressInitialMessage;
+                const shouldSuppressInitialMessage = getRequestedActions(
+                    this.runtime.actions,
+                    responseContent,
+                    this.runtime.character.settings?.actionResolution
+                ).some((action) => action.suppressInitialMessage);
 
                 let responseMessages = [];
 
@@ -650,7 +551,7 @@ export class MessageManager {
                     if (!responseContent?.text) return;
 
                     // Send message and update memory
-                    const messages = await sendMessageInChunks(channel, responseContent.text.trim(), null, []);
+                    const messages = await sendMessageInChunks(channel, responseContent.text.trim(), null, [], this.runtime, SendPriority.AUTOPOST);
 
                     // Create and store memories
                     const memories = messages.map(m => ({
@@ -743,7 +644,7 @@ export class MessageManager {
                                 if (!responseContent?.text) return;
 
                                 // Send message and update memory
-                                const messages = await sendMessageInChunks(mainChannel, responseContent.text.trim(), null, []);
+                                const messages = await sendMessageInChunks(mainChannel, responseContent.text.trim(), null, [], this.runtime, SendPriority.AUTOPOST);
 
                                 // Create and store memories
                                 const memories = messages.map(m => ({
@@ -918,93 +819,39 @@ export class MessageManager {
         return { processedContent, attachments };
     }
 
-    private _getNormalizedUserId(id: string): string {
-        return id.toString().replace(/[^0-9]/g, "");
-    }
-
-    private _isTeamMember(userId: string): boolean {
-        const teamConfig = this.runtime.character.clientConfig?.discord;
-        if (!teamConfig?.isPartOfTeam || !teamConfig.teamAgentIds) return false;
-
-        const normalizedUserId = this._getNormalizedUserId(userId);
-
-        const isTeamMember = teamConfig.teamAgentIds.some(
-            (teamId) => this._getNormalizedUserId(teamId) === normalizedUserId
-        );
-
-        return isTeamMember;
-    }
-
-    private _isTeamLeader(): boolean {
-        return (
-            this.client.user?.id ===
-            this.runtime.character.clientConfig?.discord?.teamLeaderId
-        );
-    }
-
-    private _isTeamCoordinationRequest(content: string): boolean {
-        const contentLower = content.toLowerCase();
-        return TEAM_COORDINATION.KEYWORDS?.some((keyword) =>
-            contentLower.includes(keyword.toLowerCase())
-        );
+    private toTeamMessage(message: DiscordMessage): TeamMessage {
+        return {
+            roomId: message.channelId,
+            authorId: message.author.id,
+            text: message.content,
+            mentionedIds: [...message.mentions.users.keys()],
+            isForMe:
+                message.channel.type === ChannelType.DM ||
+                this._isMessageForMe(message),
+            createdAt: message.createdTimestamp,
+        };
     }
 
-    private _isRelevantToTeamMember(
-        content: string,
-        channelId: string,
-        lastAgentMemory: Memory | null = null
-    ): boolean {
-        const teamConfig = this.runtime.character.clientConfig?.discord;
-
-        if (this._isTeamLeader() && lastAgentMemory?.content.text) {
-            const timeSinceLastMessage = Date.now() - lastAgentMemory.createdAt;
-            if (timeSinceLastMessage > MESSAGE_CONSTANTS.INTEREST_DECAY_TIME) {
-                return false; // Memory too old, not relevant
-            }
-
-            const similarity = cosineSimilarity(
-                content.toLowerCase(),
-                lastAgentMemory.content.text.toLowerCase()
-            );
-
-            return (
-                similarity >=
-                MESSAGE_CONSTANTS.DEFAULT_SIMILARITY_THRESHOLD_FOLLOW_UPS
+    /** Team rules of the agent, created once the bot is logged in and knows its user id */
+    private get team(): TeamCoordinator {
+        if (this._team?.selfId !== this.client.user?.id) {
+            this._team = new TeamCoordinator(
+                this.client.user?.id ?? "",
+                this.runtime.character.clientConfig?.discord,
+                {
+                    timings: {
+                        leaderDelayMin: TIMING_CONSTANTS.LEADER_DELAY_MIN,
+                        leaderDelayMax: TIMING_CONSTANTS.LEADER_DELAY_MAX,
+                        memberDelayMin: TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MIN,
+                        memberDelayMax: TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MAX,
+                        handlerTimeout: MESSAGE_CONSTANTS.INTEREST_DECAY_TIME,
+                    },
+                    followUpThreshold:
+                        MESSAGE_CONSTANTS.DEFAULT_SIMILARITY_THRESHOLD_FOLLOW_UPS,
+                }
             );
         }
-
-        // If no keywords defined, only leader maintains conversation
-        if (!teamConfig?.teamMemberInterestKeywords) {
-            return false;
-        }
-
-        return teamConfig.teamMemberInterestKeywords.some((keyword) =>
-            content.toLowerCase().includes(keyword.toLowerCase())
-        );
-    }
-
-    private async _analyzeContextSimilarity(
-        currentMessage: string,
-        previousContext?: MessageContext,
-        agentLastMessage?: string
-    ): Promise<number> {
-        if (!previousContext) return 1; // No previous context to compare against
-
-        // If more than 5 minutes have passed, reduce similarity weight
-        const timeDiff = Date.now() - previousContext.timestamp;
-        const timeWeight = Math.max(0, 1 - timeDiff / (5 * 60 * 1000)); // 5 minutes threshold
-
-        // Calculate content similarity
-        const similarity = cosineSimilarity(
-            currentMessage.toLowerCase(),
-            previousContext.content.toLowerCase(),
-            agentLastMessage?.toLowerCase()
-        );
-
-        // Weight the similarity by time factor
-        const weightedSimilarity = similarity * timeWeight;
-
-        return weightedSimilarity;
+        return this._team;
     }
 
     private async _shouldRespondBasedOnContext(
@@ -1042,7 +889,7 @@ export class MessageManager {
             .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
 
         // Calculate context similarity
-        const contextSimilarity = await this._analyzeContextSimilarity(
+        const contextSimilarity = this.team.analyzeContextSimilarity(
             message.content,
             {
                 content: lastUserMessage.content.text || "",
@@ -1076,34 +923,7 @@ export class MessageManager {
             timeSinceLastMessage > MESSAGE_CONSTANTS.PARTIAL_INTEREST_DECAY
         ) {
             // Require stronger relevance for continued interest
-            return this._isRelevantToTeamMember(
-                lastMessage.content.text || "",
-                channelId
-            );
-        }
-
-        // If team leader and messages exist, check for topic changes and team member responses
-        if (this._isTeamLeader() && channelState.messages.length > 0) {
-            // If leader's keywords don't match and another team member has responded, drop interest
-            if (
-                !this._isRelevantToTeamMember(
-                    lastMessage.content.text || "",
-                    channelId
-                )
-            ) {
-                const recentTeamResponses = channelState.messages
-                    .slice(-3)
-                    .some(
-                        (m) =>
-                            m.userId !== this.client.user?.id &&
-                            this._isTeamMember(m.userId)
-                    );
-
-                if (recentTeamResponses) {
-                    delete this.interestChannels[channelId];
-                    return false;
-                }
-            }
+            return this.team.isRelevantToMember(lastMessage.content.text || "");
         }
 
         // Check if conversation has shifted to a new topic
@@ -1139,93 +959,6 @@ export class MessageManager {
             return !this._isMessageForMe(message);
         }
 
-        // Team-based ignore logic
-        if (this.runtime.character.clientConfig?.discord?.isPartOfTeam) {
-            const authorId = this._getNormalizedUserId(message.author.id);
-
-            if (this._isTeamLeader()) {
-                if (this._isTeamCoordinationRequest(message.content)) {
-                    return false;
-                }
-                // Ignore if message is only about team member interests and not directed to leader
-                if (!this._isMessageForMe(message)) {
-                    const otherMemberInterests =
-                        this.runtime.character.clientConfig?.discord
-                            ?.teamMemberInterestKeywords || [];
-                    const hasOtherInterests = otherMemberInterests.some(
-                        (keyword) =>
-                            message.content
-                                .toLowerCase()
-                                .includes(keyword.toLowerCase())
-                    );
-                    if (hasOtherInterests) {
-                        return true;
-                    }
-                }
-            } else if (this._isTeamCoordinationRequest(message.content)) {
-                const randomDelay =
-                    Math.floor(
-                        Math.random() *
-                            (TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MAX -
-                                TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MIN)
-                    ) + TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MIN; // 1-3 second random delay
-                await new Promise((resolve) =>
-                    setTimeout(resolve, randomDelay)
-                );
-                return false;
-            }
-
-            if (this._isTeamMember(authorId)) {
-                if (!this._isMessageForMe(message)) {
-                    // If message contains our interests, don't ignore
-                    if (
-                        this._isRelevantToTeamMember(
-                            message.content,
-                            message.channelId
-                        )
-                    ) {
-                        return false;
-                    }
-                    return true;
-                }
-            }
-
-            // Check if we're in an active conversation based on context
-            const channelState = this.interestChannels[message.channelId];
-
-            if (channelState?.currentHandler) {
-                // If we're the current handler, check context
-                if (channelState.currentHandler === this.client.user?.id) {
-                    //If it's our keywords, bypass context check
-                    if (
-                        this._isRelevantToTeamMember(
-                            message.content,
-                            message.channelId
-                        )
-                    ) {
-                        return false;
-                    }
-
-                    const shouldRespondContext =
-                        await this._shouldRespondBasedOnContext(
-                            message,
-                            channelState
-                        );
-
-                    // If context is different, ignore. If similar, don't ignore
-                    return !shouldRespondContext;
-                }
-
-                // If another team member is handling and we're not mentioned or coordinating
-                else if (
-                    !this._isMessageForMe(message) &&
-                    !this._isTeamCoordinationRequest(message.content)
-                ) {
-                    return true;
-                }
-            }
-        }
-
         let messageContent = message.content.toLowerCase();
 
         // Replace the bot's @ping with the character name
@@ -1320,150 +1053,6 @@ export class MessageManager {
 
         const channelState = this.interestChannels[message.channelId];
 
-        // Check if team member has direct interest first
-        if (
-            this.runtime.character.clientConfig?.discord?.isPartOfTeam &&
-            !this._isTeamLeader() &&
-            this._isRelevantToTeamMember(message.content, message.channelId)
-        ) {
-            return true;
-        }
-
-        try {
-            // Team-based response logic
-            if (this.runtime.character.clientConfig?.discord?.isPartOfTeam) {
-                // Team leader coordination
-                if (
-                    this._isTeamLeader() &&
-                    this._isTeamCoordinationRequest(message.content)
-                ) {
-                    return true;
-                }
-
-                if (
-                    !this._isTeamLeader() &&
-                    this._isRelevantToTeamMember(
-                        message.content,
-                        message.channelId
-                    )
-                ) {
-                    // Add small delay for non-leader responses
-                    await new Promise((resolve) =>
-                        setTimeout(resolve, TIMING_CONSTANTS.TEAM_MEMBER_DELAY)
-                    ); //1.5 second delay
-
-                    // If leader has responded in last few seconds, reduce chance of responding
-
-                    if (channelState?.messages?.length) {
-                        const recentMessages = channelState.messages.slice(
-                            -MESSAGE_CONSTANTS.RECENT_MESSAGE_COUNT
-                        );
-                        const leaderResponded = recentMessages.some(
-                            (m) =>
-                                m.userId ===
-                                    this.runtime.character.clientConfig?.discord
-                                        ?.teamLeaderId &&
-                                Date.now() - channelState.lastMessageSent < 3000
-                        );
-
-                        if (leaderResponded) {
-                            // 50% chance to respond if leader just did
-                            return (
-                                Math.random() > RESPONSE_CHANCES.AFTER_LEADER
-                            );
-                        }
-                    }
-
-                    return true;
-                }
-
-                // If I'm the leader but message doesn't match my keywords, add delay and check for team responses
-                if (
-                    this._isTeamLeader() &&
-                    !this._isRelevantToTeamMember(
-                        message.content,
-                        message.channelId
-                    )
-                ) {
-                    const randomDelay =
-                        Math.floor(
-                            Math.random() *
-                                (TIMING_CONSTANTS.LEADER_DELAY_MAX -
-                                    TIMING_CONSTANTS.LEADER_DELAY_MIN)
-                        ) + TIMING_CONSTANTS.LEADER_DELAY_MIN; // 2-4 second random delay
-                    await new Promise((resolve) =>
-                        setTimeout(resolve, randomDelay)
-                    );
-
-                    // After delay, check if another team member has already responded
-                    if (channelState?.messages?.length) {
-                        const recentResponses = channelState.messages.slice(
-                            -MESSAGE_CONSTANTS.RECENT_MESSAGE_COUNT
-                        );
-                        const otherTeamMemberResponded = recentResponses.some(
-                            (m) =>
-                                m.userId !== this.client.user?.id &&
-                                this._isTeamMember(m.userId)
-                        );
-
-                        if (otherTeamMemberResponded) {
-                            return false;
-                        }
-                    }
-                }
-
-                // Update current handler if we're mentioned
-                if (this._isMessageForMe(message)) {
-                    const channelState =
-                        this.interestChannels[message.channelId];
-                    if (channelState) {
-                        channelState.currentHandler = this.client.user?.id;
-                        channelState.lastMessageSent = Date.now();
-                    }
-                    return true;
-                }
-
-                // Don't respond if another teammate is handling the conversation
-                if (channelState?.currentHandler) {
-                    if (
-                        channelState.currentHandler !== this.client.user?.id &&
-                        this._isTeamMember(channelState.currentHandler)
-                    ) {
-                        return false;
-                    }
-                }
-
-                // Natural conversation cadence
-                if (!this._isMessageForMe(message) && channelState) {
-                    // Count our recent messages
-                    const recentMessages = channelState.messages.slice(
-                        -MESSAGE_CONSTANTS.CHAT_HISTORY_COUNT
-                    );
-                    const ourMessageCount = recentMessages.filter(
-                        (m) => m.userId === this.client.user?.id
-                    ).length;
-
-                    // Reduce responses if we've been talking a lot
-                    if (ourMessageCount > 2) {
-                        // Exponentially decrease chance to respond
-                        const responseChance = Math.pow(
-                            0.5,
-                            ourMessageCount - 2
-                        );
-                        if (Math.random() > responseChance) {
-                            return false;
-                        }
-                    }
-                }
-            }
-        } catch (error) {
-            elizaLogger.error("Error in _shouldRespond team processing:", {
-                error,
-                agentId: this.runtime.agentId,
-                channelId: message.channelId,
-            });
-        }
-
         // Otherwise do context check
         if (channelState?.previousContext) {
             const shouldRespondContext =
@@ -1511,6 +1100,7 @@ export class MessageManager {
             runtime: this.runtime,
             context: shouldRespondContext,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId: state.roomId },
         });
 
         if (response === "RESPOND") {
@@ -1547,6 +1137,7 @@ export class MessageManager {
             runtime: this.runtime,
             context,
             modelClass: ModelClass.LARGE,
+            usageTags: { roomId },
         });
 
         if (!response) {
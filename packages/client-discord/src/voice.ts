@@ -848,6 +848,7 @@ export class VoiceManager extends EventEmitter {
             runtime: this.runtime,
             context: shouldRespondContext,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId: state.roomId },
         });
 
         if (response === "RESPOND") {
@@ -876,6 +877,7 @@ export class VoiceManager extends EventEmitter {
             runtime: this.runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId },
         });
 
         response.source = "discord";
@@ -11,6 +11,9 @@ import { formatTimeline, postTemplate } from "./prompts";
 import { castUuid, MAX_CAST_LENGTH } from "./utils";
 import { createCastMemory } from "./memory";
 import { sendCast } from "./actions";
+import type { Profile } from "./types";
+
+const CAST_APPROVAL_KIND = "farcaster.cast";
 
 export class FarcasterPostManager {
     client: FarcasterClient;
@@ -60,6 +63,14 @@ export class FarcasterPostManager {
                 "Farcaster client initialized in dry run mode - no actual casts should be posted"
             );
         }
+
+        this.runtime.approvalQueue?.registerHandler(
+            CAST_APPROVAL_KIND,
+            async (request) => {
+                const profile = await this.client.getProfile(this.fid);
+                await this.publishCast(request.content.text, profile);
+            }
+        );
     }
 
     public async start() {
@@ -181,48 +192,18 @@ export class FarcasterPostManager {
                 return;
             }
 
-            try {
-                const [{ cast }] = await sendCast({
-                    client: this.client,
-                    runtime: this.runtime,
-                    signerUuid: this.signerUuid,
-                    roomId: generateRoomId,
+            if (this.runtime.approvalQueue?.isRequired(CAST_APPROVAL_KIND)) {
+                await this.runtime.approvalQueue.request({
+                    kind: CAST_APPROVAL_KIND,
+                    title: "New cast pending approval",
                     content: { text: content },
-                    profile,
-                });
-
-                await this.runtime.cacheManager.set(
-                    `farcaster/${this.fid}/lastCast`,
-                    {
-                        hash: cast.hash,
-                        timestamp: Date.now(),
-                    }
-                );
-
-                const roomId = castUuid({
-                    agentId: this.runtime.agentId,
-                    hash: cast.hash,
                 });
+                elizaLogger.info("Cast sent for approval");
+                return;
+            }
 
-                await this.runtime.ensureRoomExists(roomId);
-
-                await this.runtime.ensureParticipantInRoom(
-                    this.runtime.agentId,
-                    roomId
-                );
-
-                elizaLogger.info(
-                    `[Farcaster Neynar Client] Published cast ${cast.hash}`
-                );
-
-                await this.runtime.messageManager.createMemory(
-                    createCastMemory({
-                        roomId,
-                        senderId: this.runtime.agentId,
-                        runtime: this.runtime,
-                        cast,
-                    })
-                );
+            try {
+                await this.publishCast(content, profile);
             } catch (error) {
                 elizaLogger.error("Error sending cast:", error);
             }
@@ -230,4 +211,45 @@ export class FarcasterPostManager {
             elizaLogger.error("Error generating new cast:", error);
         }
     }
+
+    private async publishCast(content: string, profile: Profile) {
+        const [{ cast }] = await sendCast({
+            client: this.client,
+            runtime: this.runtime,
+            signerUuid: this.signerUuid,
+            roomId: stringToUuid("farcaster_generate_room"),
+            content: { text: content },
+            profile,
+        });
+
+        await this.runtime.cacheManager.set(`farcaster/${this.fid}/lastCast`, {
+            hash: cast.hash,
+            timestamp: Date.now(),
+        });
+
+        const roomId = castUuid({
+            agentId: this.runtime.agentId,
+            hash: cast.hash,
+        });
+
+        await this.runtime.ensureRoomExists(roomId);
+
+        await this.runtime.ensureParticipantInRoom(
+            this.runtime.agentId,
+            roomId
+        );
+
+        elizaLogger.info(
+            `[Farcaster Neynar Client] Published cast ${cast.hash}`
+        );
+
+        await this.runtime.messageManager.createMemory(
+            createCastMemory({
+                roomId,
+                senderId: this.runtime.agentId,
+                runtime: this.runtime,
+                cast,
+            })
+        );
+    }
 }
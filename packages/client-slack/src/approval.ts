@@ -0,0 +1,78 @@
+import type {
+    ApprovalDecision,
+    ApprovalRequest,
+    IApprovalChannel,
+} from "@elizaos/core";
+import type { WebClient } from "@slack/web-api";
+
+const APPROVE_REACTIONS = ["+1", "white_check_mark"];
+const REJECT_REACTIONS = ["x"];
+
+/**
+ * Reviewer channel posting approval requests to a Slack channel.
+ * Reviewers react with :+1: or :white_check_mark: to approve and :x: to reject; the bot's own
+ * reactions, and those of users outside `reviewers` when it is set, are ignored.
+ */
+export class SlackApprovalChannel implements IApprovalChannel {
+    name = "slack";
+
+    constructor(
+        private client: WebClient,
+        private channelId: string,
+        private botUserId: string,
+        private reviewers: string[] = []
+    ) {}
+
+    async notify(request: ApprovalRequest): Promise<string> {
+        const result = await this.client.chat.postMessage({
+            channel: this.channelId,
+            text: `*${request.title}* (${request.kind})\n${request.content.text}\n\nReact with :+1: to approve or :x: to reject. Expires ${new Date(request.expiresAt).toUTCString()}.`,
+        });
+        return result.ts;
+    }
+
+    async poll(request: ApprovalRequest): Promise<ApprovalDecision | null> {
+        const result = await this.client.reactions.get({
+            channel: this.channelId,
+            timestamp: request.channelRefs[this.name],
+            full: true,
+        });
+        const reactions = result.message?.reactions ?? [];
+        const findReviewer = (names: string[]) =>
+            reactions
+                .filter((reaction) => names.includes(reaction.name))
+                .flatMap((reaction) => reaction.users ?? [])
+                .find(
+                    (user) =>
+                        user !== this.botUserId &&
+                        (this.reviewers.length === 0 ||
+                            this.reviewers.includes(user))
+                );
+
+        // a rejection wins over an approval
+        const rejectedBy = findReviewer(REJECT_REACTIONS);
+        if (rejectedBy) {
+            return { status: "rejected", decidedBy: `slack:${rejectedBy}` };
+        }
+        const approvedBy = findReviewer(APPROVE_REACTIONS);
+        if (approvedBy) {
+            return { status: "approved", decidedBy: `slack:${approvedBy}` };
+        }
+        return null;
+    }
+
+    async resolved(request: ApprovalRequest): Promise<void> {
+        const replies: Record<ApprovalRequest["status"], string> = {
+            pending: "",
+            approved: "Approved and sent! :white_check_mark:",
+            rejected: "Rejected! :x:",
+            expired: "This approval request has expired without a decision.",
+            failed: `Approved, but it could not be sent: ${request.error}`,
+        };
+        await this.client.chat.postMessage({
+            channel: this.channelId,
+            thread_ts: request.channelRefs[this.name],
+            text: replies[request.status],
+        });
+    }
+}
@@ -10,6 +10,7 @@ import summarize_conversation from "./actions/summarize_conversation";
 // import transcribe_media from './actions/transcribe_media';
 import { channelStateProvider } from "./providers/channelState";
 import { SlackService } from "./services/slack.service";
+import { SlackApprovalChannel } from "./approval";
 
 interface SlackRequest extends Request {
     rawBody?: Buffer;
@@ -177,6 +178,27 @@ export class SlackClient extends EventEmitter {
             // Verify permissions
             await this.verifyPermissions();
 
+            const approvalChannelId = this.runtime.getSetting(
+                "SLACK_APPROVAL_CHANNEL_ID"
+            );
+            if (approvalChannelId) {
+                this.runtime.approvalQueue?.registerChannel(
+                    new SlackApprovalChannel(
+                        this.client,
+                        approvalChannelId,
+                        this.botUserId,
+                        (
+                            this.runtime.getSetting(
+                                "SLACK_APPROVAL_REVIEWERS"
+                            ) ?? ""
+                        )
+                            .split(",")
+                            .map((id) => id.trim())
+                            .filter(Boolean)
+                    )
+                );
+            }
+
             // Initialize message manager
             this.messageManager = new MessageManager(
                 this.client,
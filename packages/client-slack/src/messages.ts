@@ -6,10 +6,14 @@ import {
     generateShouldRespond,
     ModelClass,
     type Memory,
+    SendPriority,
     type Content,
     type State,
     elizaLogger,
     type HandlerCallback,
+    TeamCoordinator,
+    type TeamMessage,
+    sendOutbound,
 } from "@elizaos/core";
 import {
     slackMessageHandlerTemplate,
@@ -28,12 +32,17 @@ export class MessageManager {
     private processedEvents: Set<string> = new Set();
     private messageProcessingLock: Set<string> = new Set();
     private processedMessages: Map<string, number> = new Map();
+    private team: TeamCoordinator;
 
     constructor(client: WebClient, runtime: IAgentRuntime, botUserId: string) {
         console.log("📱 Initializing MessageManager...");
         this.client = client;
         this.runtime = runtime;
         this.botUserId = botUserId;
+        this.team = new TeamCoordinator(
+            botUserId,
+            runtime.character.clientConfig?.slack
+        );
         console.log("MessageManager initialized with botUserId:", botUserId);
 
         // Clear old processed messages and events every hour
@@ -86,10 +95,35 @@ export class MessageManager {
         return cleaned;
     }
 
+    private toTeamMessage(event: any): TeamMessage {
+        return {
+            roomId: event.thread_ts
+                ? `${event.channel}-${event.thread_ts}`
+                : event.channel,
+            authorId: event.user ?? event.bot_id,
+            text: event.text || "",
+            mentionedIds: [...(event.text || "").matchAll(/<@(\w+)>/g)].map(
+                (match) => match[1]
+            ),
+            isForMe:
+                event.type === "app_mention" || event.channel_type === "im",
+            createdAt: Number.parseFloat(event.ts) * 1000,
+        };
+    }
+
     private async _shouldRespond(message: any, state: State): Promise<boolean> {
         console.log("\n=== SHOULD_RESPOND PHASE ===");
         console.log("🔍 Step 1: Evaluating if should respond to message");
 
+        // Leave the message to another agent of the team when it is not our turn
+        if (
+            this.team.isEnabled() &&
+            !(await this.team.takeTurn(this.toTeamMessage(message)))
+        ) {
+            console.log("⏭️ Not our turn in the team - skipping");
+            return false;
+        }
+
         // Always respond to direct mentions
         if (
             message.type === "app_mention" ||
@@ -246,14 +280,20 @@ export class MessageManager {
                 }
 
                 elizaLogger.log("Uploading text file...");
-                const uploadResult = await this.client.filesUploadV2({
-                    channels: event.channel,
-                    thread_ts: event.thread_ts,
-                    content: fileData as string,
-                    filename: "text.txt",
-                    filetype: "text/plain",
-                    initial_comment: "",
-                    snippet_type: "markdown"
+                const uploadResult = await sendOutbound(this.runtime, {
+                    platform: "slack",
+                    channelId: event.channel,
+                    priority: SendPriority.REPLY,
+                    run: () =>
+                        this.client.filesUploadV2({
+                            channels: event.channel,
+                            thread_ts: event.thread_ts,
+                            content: fileData as string,
+                            filename: "text.txt",
+                            filetype: "text/plain",
+                            initial_comment: "",
+                            snippet_type: "markdown"
+                        }),
                 });
                 elizaLogger.log("File uploaded successfully:", uploadResult);
             } catch (error) {
@@ -307,6 +347,11 @@ export class MessageManager {
             this.messageProcessingLock.add(messageKey);
 
             try {
+                // Track who is talking in the room, team members included, before ignoring bots
+                if (this.team.isEnabled()) {
+                    this.team.observe(this.toTeamMessage(event));
+                }
+
                 // Ignore messages from bots (including ourselves)
                 if (event.bot_id || event.user === this.botUserId) {
                     console.log("⚠️ Message from bot or self - skipping");
@@ -428,10 +473,16 @@ export class MessageManager {
                                 const messageText = content.text || responseContent.text;
 
                                 // First, send the main message text
-                                const result = await this.client.chat.postMessage({
-                                    channel: event.channel,
-                                    text: messageText,
-                                    thread_ts: event.thread_ts,
+                                const result = await sendOutbound(this.runtime, {
+                                    platform: "slack",
+                                    channelId: event.channel,
+                                    priority: SendPriority.REPLY,
+                                    run: () =>
+                                        this.client.chat.postMessage({
+                                            channel: event.channel,
+                                            text: messageText,
+                                            thread_ts: event.thread_ts,
+                                        }),
                                 });
 
                                 // Then, for each attachment identifier, fetch the file data from the runtime's cache manager
@@ -92,6 +92,8 @@ Note that {{agentName}} is capable of reading/seeing/hearing various forms of me
 
 {{messageDirections}}
 
+{{conversationSummary}}
+
 {{recentMessages}}
 
 # Instructions: Write the next message for {{agentName}}. Include an action, if appropriate. {{actionNames}}
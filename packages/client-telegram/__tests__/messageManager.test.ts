@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { MessageManager } from '../src/messageManager';
-import type { IAgentRuntime } from '@elizaos/core';
+import { type IAgentRuntime, OutboundQueue } from '@elizaos/core';
 import { type Context, Telegraf } from 'telegraf';
 import { Message } from '@telegraf/types';
+import fs from 'fs';
 
 // Mock Telegraf
 vi.mock('telegraf', () => {
@@ -21,7 +22,7 @@ vi.mock('telegraf', () => {
 vi.mock('fs', () => ({
     default: {
         existsSync: vi.fn().mockReturnValue(true),
-        createReadStream: vi.fn().mockReturnValue({})
+        createReadStream: vi.fn(() => ({ destroy: vi.fn() }))
     }
 }));
 
@@ -134,6 +135,36 @@ describe('MessageManager', () => {
                 expect.any(Object)
             );
         });
+
+        it('should open a local file again when a send is retried', async () => {
+            const sendPhoto = vi.fn()
+                .mockRejectedValueOnce({
+                    response: { parameters: { retry_after: 0 } }
+                })
+                .mockResolvedValue({ message_id: 124 });
+            const ctx = {
+                telegram: {
+                    sendPhoto,
+                    sendVideo: vi.fn(),
+                    sendDocument: vi.fn(),
+                    sendAudio: vi.fn(),
+                    sendAnimation: vi.fn()
+                },
+                chat: { id: CHAT_ID }
+            } as unknown as Context;
+            mockRuntime.outboundQueue = new OutboundQueue();
+
+            await (messageManager as any).sendMedia(
+                ctx,
+                '/path/to/image.jpg',
+                'photo'
+            );
+
+            expect(fs.createReadStream).toHaveBeenCalledTimes(2);
+            const [first, second] = sendPhoto.mock.calls;
+            expect(second[1].source).not.toBe(first[1].source);
+            expect(first[1].source.destroy).toHaveBeenCalled();
+        });
     });
 
     describe('error handling', () => {
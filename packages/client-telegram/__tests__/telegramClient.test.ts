@@ -8,7 +8,8 @@ vi.mock('telegraf', () => {
         launch: vi.fn().mockResolvedValue(undefined),
         stop: vi.fn().mockResolvedValue(undefined),
         telegram: {
-            getMe: vi.fn().mockResolvedValue({ username: 'test_bot' })
+            getMe: vi.fn().mockResolvedValue({ username: 'test_bot' }),
+            setMyCommands: vi.fn().mockResolvedValue(true)
         },
         on: vi.fn(),
         command: vi.fn(),
@@ -49,8 +50,15 @@ describe('TelegramClient', () => {
             registerPlugin: vi.fn(),
             removePlugin: vi.fn(),
             setCharacter: vi.fn(),
-            setFlow: vi.fn()
-        };
+            setFlow: vi.fn(),
+            actions: [
+                {
+                    name: 'MUTE_ROOM',
+                    description: 'Mutes the room',
+                    command: { name: 'mute' }
+                }
+            ]
+        } as unknown as IAgentRuntime;
 
         client = new TelegramClient(mockRuntime, TEST_BOT_TOKEN);
     });
@@ -87,5 +95,17 @@ describe('TelegramClient', () => {
 
             expect(getMeSpy).toHaveBeenCalled();
         });
+
+        it('should register the commands of the runtime actions', async () => {
+            const mockBot = client['bot'];
+
+            await client.start();
+
+            expect(mockBot.telegram.setMyCommands).toHaveBeenCalledWith([
+                { command: 'mute', description: 'Mutes the room' }
+            ]);
+            expect(mockBot.on).toHaveBeenCalledWith('callback_query', expect.any(Function));
+            expect(mockBot.on).toHaveBeenCalledWith('inline_query', expect.any(Function));
+        });
     });
 });
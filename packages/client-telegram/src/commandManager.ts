@@ -0,0 +1,431 @@
+import type { InlineQueryResult, Message } from "@telegraf/types";
+import { type Context, Markup, type Telegraf } from "telegraf";
+import { v4 } from "uuid";
+import {
+    type ActionCommand,
+    ActionStepStatus,
+    type AgentRuntime,
+    CommandError,
+    type CommandOption,
+    type Content,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type UUID,
+    elizaLogger,
+    formatCommandUsage,
+    getActionCommands,
+    getCommandText,
+    getEmbeddingZeroVector,
+    knowledge,
+    parseCommandArgs,
+    runActionCommand,
+    stringToUuid,
+} from "@elizaos/core";
+import type { MessageManager } from "./messageManager.ts";
+
+// Telegram lists up to 100 commands in the menu of a bot
+const MAX_COMMANDS = 100;
+const PENDING_TIMEOUT_MS = 5 * 60 * 1000;
+const INLINE_RESULTS = 10;
+const INLINE_CACHE_SECONDS = 60;
+const DEFAULT_MIN_INLINE_QUERY_LENGTH = 3;
+// Telegram sends a query for every keystroke
+const INLINE_DEBOUNCE_MS = 500;
+
+interface PendingCommand {
+    command: ActionCommand;
+    args: { [key: string]: unknown };
+    confirmed: boolean;
+    from: { id: number; username?: string; first_name?: string };
+    chatId: number;
+    messageId: number;
+    date: number;
+    createdAt: number;
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Commands of the Telegram bot, one per registered action, e.g. `/mute` or `/summarize`, listed in
+ * the command menu with the descriptions of their actions. Options are typed as `name:value`
+ * pairs; missing options with choices are asked for with inline keyboards, and commands of actions
+ * asking for a confirmation show Confirm and Cancel buttons to the user who ran them. Commands are
+ * stored as messages and run through `processActions` like the actions of a response. Inline
+ * queries, `@bot query` in any chat, are answered from the knowledge of the agent when the
+ * `inlineQueries` of the Telegram client config enable them.
+ */
+export class CommandManager {
+    private commands = new Map<string, ActionCommand>();
+    private pending = new Map<string, PendingCommand>();
+
+    /** Latest inline query of each user, older ones are dropped */
+    private inlineQueries = new Map<number, string>();
+
+    constructor(
+        private bot: Telegraf<Context>,
+        private runtime: IAgentRuntime,
+        private messageManager: MessageManager
+    ) {}
+
+    async register(): Promise<void> {
+        const commands = getActionCommands(this.runtime.actions).slice(
+            0,
+            MAX_COMMANDS
+        );
+        this.commands = new Map(
+            commands.map((command) => [command.name, command])
+        );
+
+        await this.bot.telegram.setMyCommands(
+            commands.map((command) => ({
+                command: command.name,
+                description: command.description,
+            }))
+        );
+    }
+
+    /**
+     * Runs the command of a message, `/name` or `/name@bot` in groups
+     * @returns Whether the message was a command of the bot
+     */
+    async handleCommand(ctx: Context): Promise<boolean> {
+        const message = ctx.message as Message.TextMessage | undefined;
+        const match = message?.text?.match(
+            /^\/([a-z0-9_]+)(?:@(\w+))?(?:\s+([\s\S]*))?$/i
+        );
+        if (!match) {
+            return false;
+        }
+        const [, name, username, input = ""] = match;
+        if (
+            username &&
+            username.toLowerCase() !== ctx.botInfo?.username?.toLowerCase()
+        ) {
+            return false;
+        }
+        const command = this.commands.get(name.toLowerCase());
+        if (!command) {
+            return false;
+        }
+
+        const { args, errors } = parseCommandArgs(command, input);
+        if (errors.length > 0) {
+            await ctx.reply(
+                [...errors, `Usage: ${formatCommandUsage(command)}`].join("\n"),
+                { reply_parameters: { message_id: message.message_id } }
+            );
+            return true;
+        }
+
+        this.removeExpired();
+        // random ids, buttons of a previous run of the bot must not match a new command
+        const id = v4();
+        await this.continueCommand(ctx, id, {
+            command,
+            args,
+            confirmed: false,
+            from: message.from,
+            chatId: message.chat.id,
+            messageId: message.message_id,
+            date: message.date,
+            createdAt: Date.now(),
+        });
+        return true;
+    }
+
+    /**
+     * Handles the buttons of the inline keyboards, `cmd:<id>:<choice index>`, `cmd:<id>:confirm`
+     * or `cmd:<id>:cancel`
+     */
+    async handleCallbackQuery(ctx: Context): Promise<void> {
+        const data =
+            ctx.callbackQuery && "data" in ctx.callbackQuery
+                ? ctx.callbackQuery.data
+                : undefined;
+        const match = data?.match(/^cmd:([0-9a-f-]+):(\w+)$/);
+        if (!match) {
+            return;
+        }
+        const [, id, choice] = match;
+        this.removeExpired();
+        const pending = this.pending.get(id);
+        if (!pending) {
+            await ctx.answerCbQuery();
+            await ctx.editMessageText("This command has expired.");
+            return;
+        }
+        if (ctx.from?.id !== pending.from.id) {
+            await ctx.answerCbQuery(
+                "Only the user who ran the command can answer."
+            );
+            return;
+        }
+
+        // claimed before any await so a double tap cannot run the command twice,
+        // continueCommand puts it back when it asks for the next option
+        this.pending.delete(id);
+        if (choice === "cancel") {
+            await ctx.answerCbQuery();
+            await ctx.editMessageText(`Cancelled /${pending.command.name}.`);
+            return;
+        }
+        if (choice === "confirm") {
+            pending.confirmed = true;
+        } else {
+            const option = this.getMissing(pending)[0];
+            const value = option?.choices?.[Number(choice)];
+            if (value === undefined) {
+                this.pending.set(id, pending);
+                await ctx.answerCbQuery();
+                return;
+            }
+            pending.args[option.name] = value;
+        }
+        await ctx.answerCbQuery();
+        await this.continueCommand(ctx, id, pending, true);
+    }
+
+    async handleInlineQuery(ctx: Context): Promise<void> {
+        const inlineQuery = ctx.inlineQuery;
+        const config =
+            this.runtime.character.clientConfig?.telegram?.inlineQueries;
+        const allowed =
+            !!config?.enabled &&
+            (!config.allowedUserIds ||
+                config.allowedUserIds.includes(inlineQuery.from.id.toString()));
+        const query = inlineQuery.query.trim();
+        if (
+            !allowed ||
+            query.length <
+                (config.minQueryLength ?? DEFAULT_MIN_INLINE_QUERY_LENGTH)
+        ) {
+            await ctx.answerInlineQuery([], { is_personal: true });
+            return;
+        }
+
+        // only the query the user stopped typing at is searched
+        this.inlineQueries.set(inlineQuery.from.id, inlineQuery.id);
+        await new Promise((resolve) => setTimeout(resolve, INLINE_DEBOUNCE_MS));
+        if (this.inlineQueries.get(inlineQuery.from.id) !== inlineQuery.id) {
+            return;
+        }
+        this.inlineQueries.delete(inlineQuery.from.id);
+
+        const items = await knowledge.search(
+            this.runtime as AgentRuntime,
+            query,
+            INLINE_RESULTS
+        );
+        const results: InlineQueryResult[] = items.map((item) => {
+            const text = item.content.text.replace(/\s+/g, " ").trim();
+            return {
+                type: "article",
+                id: item.id,
+                title: truncate(text, 64),
+                description: truncate(text, 200),
+                input_message_content: {
+                    message_text: truncate(item.content.text, 4096),
+                },
+            };
+        });
+        await ctx.answerInlineQuery(results, {
+            cache_time: INLINE_CACHE_SECONDS,
+            // Telegram shares cached answers between users unless they are personal
+            is_personal: !!config.allowedUserIds,
+        });
+    }
+
+    private getMissing(pending: PendingCommand): CommandOption[] {
+        return pending.command.options.filter(
+            (option) =>
+                option.required && pending.args[option.name] === undefined
+        );
+    }
+
+    /**
+     * Asks for the next missing option or for a confirmation, or runs the command when it has
+     * everything it needs
+     * @param edit Whether to edit the message of the inline keyboard rather than replying
+     */
+    private async continueCommand(
+        ctx: Context,
+        id: string,
+        pending: PendingCommand,
+        edit = false
+    ): Promise<void> {
+        const { command } = pending;
+        const prompt = async (
+            text: string,
+            buttons: ReturnType<typeof Markup.button.callback>[][]
+        ) => {
+            this.pending.set(id, pending);
+            const keyboard = Markup.inlineKeyboard([
+                ...buttons,
+                [Markup.button.callback("Cancel", `cmd:${id}:cancel`)],
+            ]);
+            if (edit) {
+                await ctx.editMessageText(text, keyboard);
+            } else {
+                await ctx.reply(text, {
+                    ...keyboard,
+                    reply_parameters: { message_id: pending.messageId },
+                });
+            }
+        };
+
+        const missing = this.getMissing(pending);
+        const [next] = missing;
+        if (next?.choices) {
+            await prompt(
+                `/${command.name}: choose ${next.name}, ${next.description}`,
+                next.choices.map((choice, index) => [
+                    Markup.button.callback(choice, `cmd:${id}:${index}`),
+                ])
+            );
+            return;
+        }
+        this.pending.delete(id);
+        if (next) {
+            const text = `Missing ${missing.map((option) => option.name).join(", ")}. Usage: ${formatCommandUsage(command)}`;
+            await (edit
+                ? ctx.editMessageText(text)
+                : ctx.reply(text, {
+                      reply_parameters: { message_id: pending.messageId },
+                  }));
+            return;
+        }
+        if (command.confirm && !pending.confirmed) {
+            await prompt(`Run /${command.name}? ${command.description}`, [
+                [Markup.button.callback("Confirm", `cmd:${id}:confirm`)],
+            ]);
+            return;
+        }
+
+        if (edit) {
+            await ctx.editMessageText(`Running /${command.name}…`);
+        }
+        await this.runCommand(ctx, pending);
+    }
+
+    /** Runs the action of a command, answering in the chat of the command */
+    private async runCommand(
+        ctx: Context,
+        pending: PendingCommand
+    ): Promise<void> {
+        const { command, args } = pending;
+        const memory = await this.createMessage(pending);
+        let answered = false;
+
+        const callback: HandlerCallback = async (content: Content) => {
+            answered = true;
+            const sentMessages = await this.messageManager.sendMessageInChunks(
+                ctx,
+                content,
+                pending.messageId
+            );
+            const memories: Memory[] = (sentMessages ?? []).map(
+                (sentMessage) => ({
+                    id: stringToUuid(
+                        `${memory.roomId}-${sentMessage.message_id}`
+                    ),
+                    agentId: this.runtime.agentId,
+                    userId: this.runtime.agentId,
+                    roomId: memory.roomId,
+                    content: {
+                        ...content,
+                        text: sentMessage.text,
+                        inReplyTo: memory.id,
+                    },
+                    createdAt: sentMessage.date * 1000,
+                    embedding: getEmbeddingZeroVector(),
+                })
+            );
+            for (const m of memories) {
+                await this.runtime.messageManager.createMemory(m);
+            }
+            return memories;
+        };
+        const reply = (text: string) =>
+            this.messageManager.sendMessageInChunks(
+                ctx,
+                { text },
+                pending.messageId
+            );
+
+        try {
+            const [result] = await runActionCommand(
+                this.runtime,
+                memory,
+                command,
+                args,
+                {
+                    additionalKeys: { telegramClient: this.bot },
+                    callback,
+                }
+            );
+            if (answered) {
+                return;
+            }
+            switch (result?.status) {
+                case ActionStepStatus.PENDING_APPROVAL:
+                    await reply(`/${command.name} is waiting for approval.`);
+                    break;
+                case ActionStepStatus.FAILED:
+                    await reply(
+                        `Could not run /${command.name}: ${result.error}`
+                    );
+                    break;
+                default:
+                    await reply(`Done with /${command.name}.`);
+            }
+        } catch (error) {
+            if (error instanceof CommandError) {
+                await reply(error.message);
+                return;
+            }
+            elizaLogger.error(`Error running /${command.name}:`, error);
+            await reply(`Could not run /${command.name}.`);
+        }
+    }
+
+    /** Message of the user running a command, in the room of its chat */
+    private async createMessage(pending: PendingCommand): Promise<Memory> {
+        const userId = stringToUuid(pending.from.id.toString()) as UUID;
+        const roomId = stringToUuid(
+            `${pending.chatId}-${this.runtime.agentId}`
+        );
+        const userName =
+            pending.from.username || pending.from.first_name || "Unknown User";
+        await this.runtime.ensureConnection(
+            userId,
+            roomId,
+            userName,
+            userName,
+            "telegram"
+        );
+        return {
+            id: stringToUuid(`${roomId}-${pending.messageId}`),
+            userId,
+            agentId: this.runtime.agentId,
+            roomId,
+            content: {
+                text: getCommandText(pending.command, pending.args),
+                source: "telegram",
+            },
+            createdAt: pending.date * 1000,
+            embedding: getEmbeddingZeroVector(),
+        };
+    }
+
+    private removeExpired() {
+        const now = Date.now();
+        for (const [id, pending] of this.pending) {
+            if (now - pending.createdAt > PENDING_TIMEOUT_MS) {
+                this.pending.delete(id);
+            }
+        }
+    }
+}
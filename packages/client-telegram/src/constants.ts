@@ -9,29 +9,9 @@ export const MESSAGE_CONSTANTS = {
 } as const;
 
 export const TIMING_CONSTANTS = {
-    TEAM_MEMBER_DELAY: 1500, // 1.5 seconds
     TEAM_MEMBER_DELAY_MIN: 1000, // 1 second
     TEAM_MEMBER_DELAY_MAX: 3000, // 3 seconds
     LEADER_DELAY_MIN: 2000, // 2 seconds
     LEADER_DELAY_MAX: 4000, // 4 seconds
 } as const;
 
-export const RESPONSE_CHANCES = {
-    AFTER_LEADER: 0.5, // 50% chance to respond after leader
-} as const;
-
-export const TEAM_COORDINATION = {
-    KEYWORDS: [
-        "team",
-        "all agents",
-        "team update",
-        "gm team",
-        "hello team",
-        "hey team",
-        "hi team",
-        "morning team",
-        "evening team",
-        "night team",
-        "update team",
-    ],
-} as const;
@@ -14,25 +14,28 @@ import {
     type IImageDescriptionService,
     type Memory,
     ModelClass,
+    SendPriority,
     type State,
+    TeamCoordinator,
+    type TeamMessage,
+    sendOutbound,
     type UUID,
     type Media,
 } from "@elizaos/core";
 import { stringToUuid } from "@elizaos/core";
-import { generateMessageResponse, generateShouldRespond } from "@elizaos/core";
+import {
+    generateMessageResponse,
+    generateShouldRespond,
+    getRequestedActions,
+} from "@elizaos/core";
 import {
     telegramMessageHandlerTemplate,
     telegramShouldRespondTemplate,
     telegramAutoPostTemplate,
     telegramPinnedMessageTemplate,
 } from "./templates";
-import { cosineSimilarity, escapeMarkdown } from "./utils";
-import {
-    MESSAGE_CONSTANTS,
-    TIMING_CONSTANTS,
-    RESPONSE_CHANCES,
-    TEAM_COORDINATION,
-} from "./constants";
+import { escapeMarkdown } from "./utils";
+import { MESSAGE_CONSTANTS, TIMING_CONSTANTS } from "./constants";
 
 import fs from "fs";
 
@@ -46,10 +49,7 @@ enum MediaType {
 
 const MAX_MESSAGE_LENGTH = 4096; // Telegram's max message length
 
-interface MessageContext {
-    content: string;
-    timestamp: number;
-}
+const AUTO_POST_APPROVAL_KIND = "telegram.post";
 
 interface AutoPostConfig {
     enabled: boolean;
@@ -61,21 +61,11 @@ interface AutoPostConfig {
     minTimeBetweenPosts?: number;
 }
 
-export type InterestChats = {
-    [key: string]: {
-        currentHandler: string | undefined;
-        lastMessageSent: number;
-        messages: { userId: UUID; userName: string; content: Content }[];
-        previousContext?: MessageContext;
-        contextSimilarityThreshold?: number;
-    };
-};
-
 export class MessageManager {
     public bot: Telegraf<Context>;
     private runtime: IAgentRuntime;
-    private interestChats: InterestChats = {};
     private teamMemberUsernames: Map<string, string> = new Map();
+    private _team?: TeamCoordinator;
 
     private autoPostConfig: AutoPostConfig;
     private lastChannelActivity: { [channelId: string]: number } = {};
@@ -116,6 +106,18 @@ export class MessageManager {
         if (this.autoPostConfig.enabled) {
             this._startAutoPostMonitoring();
         }
+
+        this.runtime.approvalQueue?.registerHandler(
+            AUTO_POST_APPROVAL_KIND,
+            async (request) => {
+                const { chatId, roomId, content } = request.payload as {
+                    chatId: string;
+                    roomId: UUID;
+                    content: Content;
+                };
+                await this._sendAutoPost(chatId, roomId, content);
+            }
+        );
     }
 
     private async _initializeTeamMemberUsernames(): Promise<void> {
@@ -242,36 +244,11 @@ export class MessageManager {
                         `[Auto Post Telegram] Recent Messages: ${responseContent}`
                     );
 
-                    // Send message directly using telegram bot
-                    const messages = await Promise.all(
-                        this.splitMessage(responseContent.text.trim()).map(
-                            (chunk) =>
-                                this.bot.telegram.sendMessage(
-                                    this.autoPostConfig.mainChannelId,
-                                    chunk
-                                )
-                        )
-                    );
-
-                    // Create and store memories
-                    const memories = messages.map((m) => ({
-                        id: stringToUuid(
-                            roomId + "-" + m.message_id.toString()
-                        ),
-                        userId: this.runtime.agentId,
-                        agentId: this.runtime.agentId,
-                        content: {
-                            ...responseContent,
-                            text: m.text,
-                        },
+                    await this._publishAutoPost(
+                        this.autoPostConfig.mainChannelId,
                         roomId,
-                        embedding: getEmbeddingZeroVector(),
-                        createdAt: m.date * 1000,
-                    }));
-
-                    for (const m of memories) {
-                        await this.runtime.messageManager.createMemory(m);
-                    }
+                        responseContent
+                    );
 
                     this.autoPostConfig.lastAutoPost = Date.now();
                     state = await this.runtime.updateRecentMessageState(state);
@@ -292,6 +269,62 @@ export class MessageManager {
         }
     }
 
+    /**
+     * Sends an auto post, or queues it for review when "telegram.post" requests need approval
+     */
+    private async _publishAutoPost(
+        chatId: string,
+        roomId: UUID,
+        content: Content
+    ): Promise<void> {
+        if (this.runtime.approvalQueue?.isRequired(AUTO_POST_APPROVAL_KIND)) {
+            await this.runtime.approvalQueue.request({
+                kind: AUTO_POST_APPROVAL_KIND,
+                title: `Telegram post to ${chatId}`,
+                content,
+                payload: { chatId, roomId, content },
+            });
+            return;
+        }
+        await this._sendAutoPost(chatId, roomId, content);
+    }
+
+    private async _sendAutoPost(
+        chatId: string,
+        roomId: UUID,
+        content: Content
+    ): Promise<void> {
+        // Send message directly using telegram bot
+        const messages = await Promise.all(
+            this.splitMessage(content.text.trim()).map((chunk) =>
+                sendOutbound(this.runtime, {
+                    platform: "telegram",
+                    channelId: chatId,
+                    priority: SendPriority.AUTOPOST,
+                    run: () => this.bot.telegram.sendMessage(chatId, chunk),
+                })
+            )
+        );
+
+        // Create and store memories
+        const memories = messages.map((m) => ({
+            id: stringToUuid(roomId + "-" + m.message_id.toString()),
+            userId: this.runtime.agentId,
+            agentId: this.runtime.agentId,
+            content: {
+                ...content,
+                text: m.text,
+            },
+            roomId,
+            embedding: getEmbeddingZeroVector(),
+            createdAt: m.date * 1000,
+        }));
+
+        for (const m of memories) {
+            await this.runtime.messageManager.createMemory(m);
+        }
+    }
+
     private async _monitorPinnedMessages(ctx: Context): Promise<void> {
         if (!this.autoPostConfig.pinnedMessagesGroups.length) {
             elizaLogger.warn(
@@ -374,29 +407,7 @@ export class MessageManager {
             );
             if (!responseContent?.text) return;
 
-            // Send message using telegram bot
-            const messages = await Promise.all(
-                this.splitMessage(responseContent.text.trim()).map((chunk) =>
-                    this.bot.telegram.sendMessage(mainChannel, chunk)
-                )
-            );
-
-            const memories = messages.map((m) => ({
-                id: stringToUuid(roomId + "-" + m.message_id.toString()),
-                userId: this.runtime.agentId,
-                agentId: this.runtime.agentId,
-                content: {
-                    ...responseContent,
-                    text: m.text,
-                },
-                roomId,
-                embedding: getEmbeddingZeroVector(),
-                createdAt: m.date * 1000,
-            }));
-
-            for (const m of memories) {
-                await this.runtime.messageManager.createMemory(m);
-            }
+            await this._publishAutoPost(mainChannel, roomId, responseContent);
 
             state = await this.runtime.updateRecentMessageState(state);
             await this.runtime.evaluate(memory, state, true);
@@ -408,154 +419,56 @@ export class MessageManager {
         }
     }
 
-    private _getTeamMemberUsername(id: string): string | undefined {
-        return this.teamMemberUsernames.get(id);
-    }
-
-    private _getNormalizedUserId(id: string | number): string {
-        return id.toString().replace(/[^0-9]/g, "");
-    }
-
-    private _isTeamMember(userId: string | number): boolean {
-        const teamConfig = this.runtime.character.clientConfig?.telegram;
-        if (!teamConfig?.isPartOfTeam || !teamConfig.teamAgentIds) return false;
-
-        const normalizedUserId = this._getNormalizedUserId(userId);
-        return teamConfig.teamAgentIds.some(
-            (teamId) => this._getNormalizedUserId(teamId) === normalizedUserId
-        );
-    }
-
-    private _isTeamLeader(): boolean {
-        return (
-            this.bot.botInfo?.id.toString() ===
-            this.runtime.character.clientConfig?.telegram?.teamLeaderId
-        );
-    }
-
-    private _isTeamCoordinationRequest(content: string): boolean {
-        const contentLower = content.toLowerCase();
-        return TEAM_COORDINATION.KEYWORDS?.some((keyword) =>
-            contentLower.includes(keyword.toLowerCase())
-        );
-    }
-
-    private _isRelevantToTeamMember(
-        content: string,
-        chatId: string,
-        lastAgentMemory: Memory | null = null
-    ): boolean {
-        const teamConfig = this.runtime.character.clientConfig?.telegram;
-
-        // Check leader's context based on last message
-        if (this._isTeamLeader() && lastAgentMemory?.content.text) {
-            const timeSinceLastMessage = Date.now() - lastAgentMemory.createdAt;
-            if (timeSinceLastMessage > MESSAGE_CONSTANTS.INTEREST_DECAY_TIME) {
-                return false;
-            }
-
-            const similarity = cosineSimilarity(
-                content.toLowerCase(),
-                lastAgentMemory.content.text.toLowerCase()
-            );
-
-            return (
-                similarity >=
-                MESSAGE_CONSTANTS.DEFAULT_SIMILARITY_THRESHOLD_FOLLOW_UPS
-            );
-        }
-
-        // Check team member keywords
-        if (!teamConfig?.teamMemberInterestKeywords?.length) {
-            return false; // If no keywords defined, only leader maintains conversation
-        }
-
-        // Check if content matches any team member keywords
-        return teamConfig.teamMemberInterestKeywords.some((keyword) =>
-            content.toLowerCase().includes(keyword.toLowerCase())
-        );
-    }
-
-    private async _analyzeContextSimilarity(
-        currentMessage: string,
-        previousContext?: MessageContext,
-        agentLastMessage?: string
-    ): Promise<number> {
-        if (!previousContext) return 1;
-
-        const timeDiff = Date.now() - previousContext.timestamp;
-        const timeWeight = Math.max(0, 1 - timeDiff / (5 * 60 * 1000));
-
-        const similarity = cosineSimilarity(
-            currentMessage.toLowerCase(),
-            previousContext.content.toLowerCase(),
-            agentLastMessage?.toLowerCase()
-        );
-
-        return similarity * timeWeight;
-    }
-
-    private async _shouldRespondBasedOnContext(
-        message: Message,
-        chatState: InterestChats[string]
-    ): Promise<boolean> {
-        const messageText =
+    private toTeamMessage(message: Message): TeamMessage {
+        const text =
             "text" in message
                 ? message.text
                 : "caption" in message
-                ? message.caption
+                ? (message.caption ?? "")
                 : "";
+        // team members are mentioned by username, or replied to
+        const mentionedIds = [...this.teamMemberUsernames]
+            .filter(([, username]) => text.includes(`@${username}`))
+            .map(([id]) => id);
+        const replyTo =
+            "reply_to_message" in message
+                ? message.reply_to_message?.from?.id
+                : undefined;
+        if (replyTo) {
+            mentionedIds.push(replyTo.toString());
+        }
+        return {
+            roomId: message.chat.id.toString(),
+            authorId: message.from.id.toString(),
+            text,
+            mentionedIds,
+            isForMe:
+                message.chat.type === "private" || this._isMessageForMe(message),
+            createdAt: message.date * 1000,
+        };
+    }
 
-        if (!messageText) return false;
-
-        // Always respond if mentioned
-        if (this._isMessageForMe(message)) return true;
-
-        // If we're not the current handler, don't respond
-        if (chatState?.currentHandler !== this.bot.botInfo?.id.toString())
-            return false;
-
-        // Check if we have messages to compare
-        if (!chatState.messages?.length) return false;
-
-        // Get last user message (not from the bot)
-        const lastUserMessage = [...chatState.messages].reverse().find(
-            (m, index) =>
-                index > 0 && // Skip first message (current)
-                m.userId !== this.runtime.agentId
-        );
-
-        if (!lastUserMessage) return false;
-
-        const lastSelfMemories = await this.runtime.messageManager.getMemories({
-            roomId: stringToUuid(
-                message.chat.id.toString() + "-" + this.runtime.agentId
-            ),
-            unique: false,
-            count: 5,
-        });
-
-        const lastSelfSortedMemories = lastSelfMemories
-            ?.filter((m) => m.userId === this.runtime.agentId)
-            .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
-
-        // Calculate context similarity
-        const contextSimilarity = await this._analyzeContextSimilarity(
-            messageText,
-            {
-                content: lastUserMessage.content.text || "",
-                timestamp: Date.now(),
-            },
-            lastSelfSortedMemories?.[0]?.content?.text
-        );
-
-        const similarityThreshold =
-            this.runtime.character.clientConfig?.telegram
-                ?.messageSimilarityThreshold ||
-            chatState.contextSimilarityThreshold ||
-            MESSAGE_CONSTANTS.DEFAULT_SIMILARITY_THRESHOLD;
-
-        return contextSimilarity >= similarityThreshold;
+    /** Team rules of the agent, created once the bot knows its user id */
+    private get team(): TeamCoordinator {
+        const botId = this.bot.botInfo?.id.toString();
+        if (this._team?.selfId !== botId) {
+            this._team = new TeamCoordinator(
+                botId ?? "",
+                this.runtime.character.clientConfig?.telegram,
+                {
+                    timings: {
+                        leaderDelayMin: TIMING_CONSTANTS.LEADER_DELAY_MIN,
+                        leaderDelayMax: TIMING_CONSTANTS.LEADER_DELAY_MAX,
+                        memberDelayMin: TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MIN,
+                        memberDelayMax: TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MAX,
+                        handlerTimeout: MESSAGE_CONSTANTS.INTEREST_DECAY_TIME,
+                    },
+                    followUpThreshold:
+                        MESSAGE_CONSTANTS.DEFAULT_SIMILARITY_THRESHOLD_FOLLOW_UPS,
+                }
+            );
+        }
+        return this._team;
     }
 
     private _isMessageForMe(message: Message): boolean {
@@ -587,51 +500,6 @@ export class MessageManager {
         );
     }
 
-    private _checkInterest(chatId: string): boolean {
-        const chatState = this.interestChats[chatId];
-        if (!chatState) return false;
-
-        const lastMessage = chatState.messages[chatState.messages.length - 1];
-        const timeSinceLastMessage = Date.now() - chatState.lastMessageSent;
-
-        if (timeSinceLastMessage > MESSAGE_CONSTANTS.INTEREST_DECAY_TIME) {
-            delete this.interestChats[chatId];
-            return false;
-        } else if (
-            timeSinceLastMessage > MESSAGE_CONSTANTS.PARTIAL_INTEREST_DECAY
-        ) {
-            return this._isRelevantToTeamMember(
-                lastMessage?.content.text || "",
-                chatId
-            );
-        }
-
-        // Team leader specific checks
-        if (this._isTeamLeader() && chatState.messages.length > 0) {
-            if (
-                !this._isRelevantToTeamMember(
-                    lastMessage?.content.text || "",
-                    chatId
-                )
-            ) {
-                const recentTeamResponses = chatState.messages
-                    .slice(-3)
-                    .some(
-                        (m) =>
-                            m.userId !== this.runtime.agentId &&
-                            this._isTeamMember(m.userId.toString())
-                    );
-
-                if (recentTeamResponses) {
-                    delete this.interestChats[chatId];
-                    return false;
-                }
-            }
-        }
-
-        return true;
-    }
-
     // Process image messages and generate descriptions
     private async processImage(
         message: Message
@@ -708,157 +576,6 @@ export class MessageManager {
             return false;
         }
 
-        const chatId = message.chat.id.toString();
-        const chatState = this.interestChats[chatId];
-        const messageText =
-            "text" in message
-                ? message.text
-                : "caption" in message
-                ? message.caption
-                : "";
-
-        // Check if team member has direct interest first
-        if (
-            this.runtime.character.clientConfig?.telegram?.isPartOfTeam &&
-            !this._isTeamLeader() &&
-            this._isRelevantToTeamMember(messageText, chatId)
-        ) {
-            return true;
-        }
-
-        // Team-based response logic
-        if (this.runtime.character.clientConfig?.telegram?.isPartOfTeam) {
-            // Team coordination
-            if (this._isTeamCoordinationRequest(messageText)) {
-                if (this._isTeamLeader()) {
-                    return true;
-                } else {
-                    const randomDelay =
-                        Math.floor(
-                            Math.random() *
-                                (TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MAX -
-                                    TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MIN)
-                        ) + TIMING_CONSTANTS.TEAM_MEMBER_DELAY_MIN; // 1-3 second random delay
-                    await new Promise((resolve) =>
-                        setTimeout(resolve, randomDelay)
-                    );
-                    return true;
-                }
-            }
-
-            if (
-                !this._isTeamLeader() &&
-                this._isRelevantToTeamMember(messageText, chatId)
-            ) {
-                // Add small delay for non-leader responses
-                await new Promise((resolve) =>
-                    setTimeout(resolve, TIMING_CONSTANTS.TEAM_MEMBER_DELAY)
-                ); //1.5 second delay
-
-                // If leader has responded in last few seconds, reduce chance of responding
-                if (chatState.messages?.length) {
-                    const recentMessages = chatState.messages.slice(
-                        -MESSAGE_CONSTANTS.RECENT_MESSAGE_COUNT
-                    );
-                    const leaderResponded = recentMessages.some(
-                        (m) =>
-                            m.userId ===
-                                this.runtime.character.clientConfig?.telegram
-                                    ?.teamLeaderId &&
-                            Date.now() - chatState.lastMessageSent < 3000
-                    );
-
-                    if (leaderResponded) {
-                        // 50% chance to respond if leader just did
-                        return Math.random() > RESPONSE_CHANCES.AFTER_LEADER;
-                    }
-                }
-
-                return true;
-            }
-
-            // If I'm the leader but message doesn't match my keywords, add delay and check for team responses
-            if (
-                this._isTeamLeader() &&
-                !this._isRelevantToTeamMember(messageText, chatId)
-            ) {
-                const randomDelay =
-                    Math.floor(
-                        Math.random() *
-                            (TIMING_CONSTANTS.LEADER_DELAY_MAX -
-                                TIMING_CONSTANTS.LEADER_DELAY_MIN)
-                    ) + TIMING_CONSTANTS.LEADER_DELAY_MIN; // 2-4 second random delay
-                await new Promise((resolve) =>
-                    setTimeout(resolve, randomDelay)
-                );
-
-                // After delay, check if another team member has already responded
-                if (chatState?.messages?.length) {
-                    const recentResponses = chatState.messages.slice(
-                        -MESSAGE_CONSTANTS.RECENT_MESSAGE_COUNT
-                    );
-                    const otherTeamMemberResponded = recentResponses.some(
-                        (m) =>
-                            m.userId !== this.runtime.agentId &&
-                            this._isTeamMember(m.userId)
-                    );
-
-                    if (otherTeamMemberResponded) {
-                        return false;
-                    }
-                }
-            }
-
-            // Update current handler if we're mentioned
-            if (this._isMessageForMe(message)) {
-                const channelState = this.interestChats[chatId];
-                if (channelState) {
-                    channelState.currentHandler =
-                        this.bot.botInfo?.id.toString();
-                    channelState.lastMessageSent = Date.now();
-                }
-                return true;
-            }
-
-            // Don't respond if another teammate is handling the conversation
-            if (chatState?.currentHandler) {
-                if (
-                    chatState.currentHandler !==
-                        this.bot.botInfo?.id.toString() &&
-                    this._isTeamMember(chatState.currentHandler)
-                ) {
-                    return false;
-                }
-            }
-
-            // Natural conversation cadence
-            if (!this._isMessageForMe(message) && this.interestChats[chatId]) {
-                const recentMessages = this.interestChats[
-                    chatId
-                ].messages.slice(-MESSAGE_CONSTANTS.CHAT_HISTORY_COUNT);
-                const ourMessageCount = recentMessages.filter(
-                    (m) => m.userId === this.runtime.agentId
-                ).length;
-
-                if (ourMessageCount > 2) {
-                    const responseChance = Math.pow(0.5, ourMessageCount - 2);
-                    if (Math.random() > responseChance) {
-                        return;
-                    }
-                }
-            }
-        }
-
-        // Check context-based response for team conversations
-        if (chatState?.currentHandler) {
-            const shouldRespondContext =
-                await this._shouldRespondBasedOnContext(message, chatState);
-
-            if (!shouldRespondContext) {
-                return false;
-            }
-        }
-
         // Use AI to decide for text or captions
         if ("text" in message || ("caption" in message && message.caption)) {
             const shouldRespondContext = composeContext({
@@ -874,6 +591,7 @@ export class MessageManager {
                 runtime: this.runtime,
                 context: shouldRespondContext,
                 modelClass: ModelClass.SMALL,
+                usageTags: { roomId: state.roomId },
             });
 
             return response === "RESPOND";
@@ -883,7 +601,7 @@ export class MessageManager {
     }
 
     // Send long messages in chunks
-    private async sendMessageInChunks(
+    public async sendMessageInChunks(
         ctx: Context,
         content: Content,
         replyToMessageId?: number
@@ -926,17 +644,19 @@ export class MessageManager {
 
             for (let i = 0; i < chunks.length; i++) {
                 const chunk = escapeMarkdown(chunks[i]);
-                const sentMessage = (await ctx.telegram.sendMessage(
-                    ctx.chat.id,
-                    chunk,
-                    {
-                        reply_parameters:
-                            i === 0 && replyToMessageId
-                                ? { message_id: replyToMessageId }
-                                : undefined,
-                        parse_mode: "Markdown",
-                    }
-                )) as Message.TextMessage;
+                const sentMessage = (await sendOutbound(this.runtime, {
+                    platform: "telegram",
+                    channelId: ctx.chat.id.toString(),
+                    priority: SendPriority.REPLY,
+                    run: () =>
+                        ctx.telegram.sendMessage(ctx.chat.id, chunk, {
+                            reply_parameters:
+                                i === 0 && replyToMessageId
+                                    ? { message_id: replyToMessageId }
+                                    : undefined,
+                            parse_mode: "Markdown",
+                        }),
+                })) as Message.TextMessage;
 
                 sentMessages.push(sentMessage);
             }
@@ -971,25 +691,35 @@ export class MessageManager {
                 throw new Error(`Unsupported media type: ${type}`);
             }
 
+            // the media is read for each attempt of the queue
+            const send = (getMedia: () => unknown) =>
+                sendOutbound(this.runtime, {
+                    platform: "telegram",
+                    channelId: ctx.chat.id.toString(),
+                    priority: SendPriority.REPLY,
+                    run: () =>
+                        sendFunction(ctx.chat.id, getMedia(), { caption }),
+                });
+
             if (isUrl) {
                 // Handle HTTP URLs
-                await sendFunction(ctx.chat.id, mediaPath, { caption });
+                await send(() => mediaPath);
             } else {
                 // Handle local file paths
                 if (!fs.existsSync(mediaPath)) {
                     throw new Error(`File not found at path: ${mediaPath}`);
                 }
 
-                const fileStream = fs.createReadStream(mediaPath);
-
+                // a failed attempt consumed its stream, a retry opens the file again
+                let fileStream: fs.ReadStream | undefined;
                 try {
-                    await sendFunction(
-                        ctx.chat.id,
-                        { source: fileStream },
-                        { caption }
-                    );
+                    await send(() => {
+                        fileStream?.destroy();
+                        fileStream = fs.createReadStream(mediaPath);
+                        return { source: fileStream };
+                    });
                 } finally {
-                    fileStream.destroy();
+                    fileStream?.destroy();
                 }
             }
 
@@ -1038,6 +768,7 @@ export class MessageManager {
             runtime: this.runtime,
             context,
             modelClass: ModelClass.LARGE,
+            usageTags: { roomId },
         });
 
         if (!response) {
@@ -1063,6 +794,11 @@ export class MessageManager {
 
         this.lastChannelActivity[ctx.chat.id.toString()] = Date.now();
 
+        // Track who is talking in the chat, this agent and team members included
+        if (this.team.isEnabled()) {
+            this.team.observe(this.toTeamMessage(ctx.message));
+        }
+
         // Check for pinned message and route to monitor function
         if (
             this.autoPostConfig.enabled &&
@@ -1090,144 +826,18 @@ export class MessageManager {
         }
 
         const message = ctx.message;
-        const chatId = ctx.chat?.id.toString();
-        const messageText =
-            "text" in message
-                ? message.text
-                : "caption" in message
-                ? message.caption
-                : "";
 
-        // Add team handling at the start
-        if (
-            this.runtime.character.clientConfig?.telegram?.isPartOfTeam &&
+        // Leave the message to another agent of the team when it is not our turn,
+        // agents answering mentions only are not part of the turn taking
+        const isTeamTurn =
+            this.team.isEnabled() &&
             !this.runtime.character.clientConfig?.telegram
-                ?.shouldRespondOnlyToMentions
+                ?.shouldRespondOnlyToMentions;
+        if (
+            isTeamTurn &&
+            !(await this.team.takeTurn(this.toTeamMessage(message)))
         ) {
-            const isDirectlyMentioned = this._isMessageForMe(message);
-            const hasInterest = this._checkInterest(chatId);
-
-            // Non-leader team member showing interest based on keywords
-            if (
-                !this._isTeamLeader() &&
-                this._isRelevantToTeamMember(messageText, chatId)
-            ) {
-                this.interestChats[chatId] = {
-                    currentHandler: this.bot.botInfo?.id.toString(),
-                    lastMessageSent: Date.now(),
-                    messages: [],
-                };
-            }
-
-            const isTeamRequest = this._isTeamCoordinationRequest(messageText);
-            const isLeader = this._isTeamLeader();
-
-            // Check for continued interest
-            if (hasInterest && !isDirectlyMentioned) {
-                const lastSelfMemories =
-                    await this.runtime.messageManager.getMemories({
-                        roomId: stringToUuid(
-                            chatId + "-" + this.runtime.agentId
-                        ),
-                        unique: false,
-                        count: 5,
-                    });
-
-                const lastSelfSortedMemories = lastSelfMemories
-                    ?.filter((m) => m.userId === this.runtime.agentId)
-                    .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
-
-                const isRelevant = this._isRelevantToTeamMember(
-                    messageText,
-                    chatId,
-                    lastSelfSortedMemories?.[0]
-                );
-
-                if (!isRelevant) {
-                    delete this.interestChats[chatId];
-                    return;
-                }
-            }
-
-            // Handle team coordination requests
-            if (isTeamRequest) {
-                if (isLeader) {
-                    this.interestChats[chatId] = {
-                        currentHandler: this.bot.botInfo?.id.toString(),
-                        lastMessageSent: Date.now(),
-                        messages: [],
-                    };
-                } else {
-                    this.interestChats[chatId] = {
-                        currentHandler: this.bot.botInfo?.id.toString(),
-                        lastMessageSent: Date.now(),
-                        messages: [],
-                    };
-
-                    if (!isDirectlyMentioned) {
-                        this.interestChats[chatId].lastMessageSent = 0;
-                    }
-                }
-            }
-
-            // Check for other team member mentions using cached usernames
-            const otherTeamMembers =
-                this.runtime.character.clientConfig.telegram.teamAgentIds.filter(
-                    (id) => id !== this.bot.botInfo?.id.toString()
-                );
-
-            const mentionedTeamMember = otherTeamMembers.find((id) => {
-                const username = this._getTeamMemberUsername(id);
-                return username && messageText?.includes(`@${username}`);
-            });
-
-            // If another team member is mentioned, clear our interest
-            if (mentionedTeamMember) {
-                if (
-                    hasInterest ||
-                    this.interestChats[chatId]?.currentHandler ===
-                        this.bot.botInfo?.id.toString()
-                ) {
-                    delete this.interestChats[chatId];
-
-                    // Only return if we're not the mentioned member
-                    if (!isDirectlyMentioned) {
-                        return;
-                    }
-                }
-            }
-
-            // Set/maintain interest only if we're mentioned or already have interest
-            if (isDirectlyMentioned) {
-                this.interestChats[chatId] = {
-                    currentHandler: this.bot.botInfo?.id.toString(),
-                    lastMessageSent: Date.now(),
-                    messages: [],
-                };
-            } else if (!isTeamRequest && !hasInterest) {
-                return;
-            }
-
-            // Update message tracking
-            if (this.interestChats[chatId]) {
-                this.interestChats[chatId].messages.push({
-                    userId: stringToUuid(ctx.from.id.toString()),
-                    userName:
-                        ctx.from.username ||
-                        ctx.from.first_name ||
-                        "Unknown User",
-                    content: { text: messageText, source: "telegram" },
-                });
-
-                if (
-                    this.interestChats[chatId].messages.length >
-                    MESSAGE_CONSTANTS.MAX_MESSAGES
-                ) {
-                    this.interestChats[chatId].messages = this.interestChats[
-                        chatId
-                    ].messages.slice(-MESSAGE_CONSTANTS.MAX_MESSAGES);
-                }
-            }
+            return;
         }
 
         try {
@@ -1315,8 +925,9 @@ export class MessageManager {
             let state = await this.runtime.composeState(memory);
             state = await this.runtime.updateRecentMessageState(state);
 
-            // Decide whether to respond
-            const shouldRespond = await this._shouldRespond(message, state);
+            // Decide whether to respond, the team coordinator already decided that it is our turn
+            const shouldRespond =
+                isTeamTurn || (await this._shouldRespond(message, state));
 
             // Send response in chunks
             const callback: HandlerCallback = async (content: Content) => {
@@ -1350,10 +961,11 @@ export class MessageManager {
                         };
 
                         // Set action to CONTINUE for all messages except the last one
-                        // For the last message, use the original action from the response content
-                        memory.content.action = !isLastMessage
-                            ? "CONTINUE"
-                            : content.action;
+                        // For the last message, use the original actions from the response content
+                        if (!isLastMessage) {
+                            memory.content.action = "CONTINUE";
+                            memory.content.actions = undefined;
+                        }
 
                         await this.runtime.messageManager.createMemory(memory);
                         memories.push(memory);
@@ -1383,8 +995,11 @@ export class MessageManager {
 
                 if (!responseContent || !responseContent.text) return;
 
-                const action = this.runtime.actions.find((a) => a.name === responseContent.action);
-                const shouldSuppressInitialMessage = action?.suppressInitialMessage;
+                const shouldSuppressInitialMessage = getRequestedActions(
+                    this.runtime.actions,
+                    responseContent,
+                    this.runtime.character.settings?.actionResolution
+                ).some((action) => action.suppressInitialMessage);
 
                 let responseMessages = [];
 
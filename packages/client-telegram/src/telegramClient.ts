@@ -1,6 +1,7 @@
 import { type Context, Telegraf } from "telegraf";
 import { message } from "telegraf/filters";
 import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+import { CommandManager } from "./commandManager.ts";
 import { MessageManager } from "./messageManager.ts";
 import { getOrCreateRecommenderInBe } from "./getOrCreateRecommenderInBe.ts";
 
@@ -8,6 +9,7 @@ export class TelegramClient {
     private bot: Telegraf<Context>;
     private runtime: IAgentRuntime;
     public messageManager: MessageManager;
+    public commandManager: CommandManager;
     private backend;
     private backendToken;
     private tgTrader;
@@ -23,6 +25,11 @@ export class TelegramClient {
         this.runtime = runtime;
         this.bot = new Telegraf(botToken,this.options);
         this.messageManager = new MessageManager(this.bot, this.runtime);
+        this.commandManager = new CommandManager(
+            this.bot,
+            this.runtime,
+            this.messageManager
+        );
         this.backend = runtime.getSetting("BACKEND_URL");
         this.backendToken = runtime.getSetting("BACKEND_TOKEN");
         this.tgTrader = runtime.getSetting("TG_TRADER"); // boolean To Be added to the settings
@@ -52,6 +59,13 @@ export class TelegramClient {
         elizaLogger.success(`Bot username: @${botInfo.username}`);
 
         this.messageManager.bot = this.bot;
+
+        try {
+            await this.commandManager.register();
+            elizaLogger.success("Telegram commands registered");
+        } catch (error) {
+            elizaLogger.error("Failed to register Telegram commands:", error);
+        }
     }
 
     private async isGroupAuthorized(ctx: Context): Promise<boolean> {
@@ -134,6 +148,10 @@ export class TelegramClient {
                     }
                 }
 
+                if (await this.commandManager.handleCommand(ctx)) {
+                    return;
+                }
+
                 await this.messageManager.handleMessage(ctx);
             } catch (error) {
                 elizaLogger.error("❌ Error handling message:", error);
@@ -153,6 +171,25 @@ export class TelegramClient {
             }
         });
 
+        this.bot.on("callback_query", async (ctx) => {
+            try {
+                if (!(await this.isGroupAuthorized(ctx))) {
+                    return;
+                }
+                await this.commandManager.handleCallbackQuery(ctx);
+            } catch (error) {
+                elizaLogger.error("❌ Error handling callback query:", error);
+            }
+        });
+
+        this.bot.on("inline_query", async (ctx) => {
+            try {
+                await this.commandManager.handleInlineQuery(ctx);
+            } catch (error) {
+                elizaLogger.error("❌ Error handling inline query:", error);
+            }
+        });
+
         this.bot.on("photo", (ctx) => {
             elizaLogger.log(
                 "📸 Received photo message with caption:",
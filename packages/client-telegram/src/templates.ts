@@ -103,6 +103,8 @@ Note that {{agentName}} is capable of reading/seeing/hearing various forms of me
 
 {{messageDirections}}
 
+{{conversationSummary}}
+
 {{recentMessages}}
 
 # Task: Generate a post/reply in the voice, style and perspective of {{agentName}} (@{{twitterUserName}}) while using the thread of tweets as additional context:
@@ -0,0 +1,93 @@
+import type {
+    ApprovalDecision,
+    ApprovalRequest,
+    IApprovalChannel,
+} from "@elizaos/core";
+import { type Client, TextChannel } from "discord.js";
+
+/** Kind of the approval requests queued for generated tweets */
+export const TWITTER_POST_APPROVAL_KIND = "twitter.post";
+
+/**
+ * Reviewer channel of the Twitter post approval Discord bot (TWITTER_APPROVAL_DISCORD_*).
+ * Reviewers react with 👍 to post the tweet or ❌ to discard it.
+ */
+export class TwitterDiscordApprovalChannel implements IApprovalChannel {
+    name = "twitter-discord";
+    kinds = [TWITTER_POST_APPROVAL_KIND];
+
+    constructor(
+        private client: Client,
+        private channelId: string
+    ) {}
+
+    async notify(request: ApprovalRequest): Promise<string> {
+        const channel = await this.fetchChannel();
+        const message = await channel.send({
+            embeds: [
+                {
+                    title: request.title,
+                    description: request.content.text,
+                    fields: [
+                        {
+                            name: "Character",
+                            value: String(request.payload?.twitterUsername),
+                            inline: true,
+                        },
+                        {
+                            name: "Length",
+                            value: request.content.text.length.toString(),
+                            inline: true,
+                        },
+                    ],
+                    footer: {
+                        text: `Reply with '👍' to post or '❌' to discard, This will automatically expire on ${new Date(request.expiresAt).toUTCString()} if no response received`,
+                    },
+                    timestamp: new Date(request.createdAt).toISOString(),
+                },
+            ],
+        });
+        return message.id;
+    }
+
+    async poll(request: ApprovalRequest): Promise<ApprovalDecision | null> {
+        const message = await this.fetchMessage(request);
+        const hasReaction = (emoji: string) =>
+            (message.reactions.cache.find(
+                (reaction) => reaction.emoji.name === emoji
+            )?.count ?? 0) > 0;
+
+        if (hasReaction("❌")) {
+            return { status: "rejected" };
+        }
+        if (hasReaction("👍")) {
+            return { status: "approved" };
+        }
+        return null;
+    }
+
+    async resolved(request: ApprovalRequest): Promise<void> {
+        const message = await this.fetchMessage(request);
+        const replies: Record<ApprovalRequest["status"], string> = {
+            pending: "",
+            approved: "Tweet has been posted successfully! ✅",
+            rejected: "Tweet has been rejected! ❌",
+            expired: "This tweet approval request has expired.",
+            failed: `Tweet could not be posted: ${request.error}`,
+        };
+        await message.reply(replies[request.status]);
+    }
+
+    private async fetchChannel(): Promise<TextChannel> {
+        const channel = await this.client.channels.fetch(this.channelId);
+        if (!(channel instanceof TextChannel)) {
+            throw new Error("Invalid approval channel");
+        }
+        return channel;
+    }
+
+    private async fetchMessage(request: ApprovalRequest) {
+        const channel = await this.fetchChannel();
+        return channel.messages.fetch(request.channelRefs[this.name]);
+    }
+}
@@ -3,10 +3,12 @@ import {
     type IAgentRuntime,
     type IImageDescriptionService,
     type Memory,
+    SendPriority,
     type State,
     type UUID,
     getEmbeddingZeroVector,
     elizaLogger,
+    sendOutbound,
     stringToUuid,
     ActionTimelineType,
 } from "@elizaos/core";
@@ -33,54 +35,24 @@ type TwitterProfile = {
     nicknames: string[];
 };
 
+/**
+ * Sends the requests of the Twitter client one at a time through the outbound queue of the
+ * runtime, which spaces them out and retries them with exponential backoff.
+ */
 class RequestQueue {
-    private queue: (() => Promise<any>)[] = [];
-    private processing = false;
-
-    async add<T>(request: () => Promise<T>): Promise<T> {
-        return new Promise((resolve, reject) => {
-            this.queue.push(async () => {
-                try {
-                    const result = await request();
-                    resolve(result);
-                } catch (error) {
-                    reject(error);
-                }
-            });
-            this.processQueue();
+    constructor(private runtime: IAgentRuntime) {}
+
+    async add<T>(
+        request: () => Promise<T>,
+        priority: SendPriority = SendPriority.DEFAULT
+    ): Promise<T> {
+        return sendOutbound(this.runtime, {
+            platform: "twitter",
+            channelId: "api",
+            priority,
+            run: request,
         });
     }
-
-    private async processQueue(): Promise<void> {
-        if (this.processing || this.queue.length === 0) {
-            return;
-        }
-        this.processing = true;
-
-        while (this.queue.length > 0) {
-            const request = this.queue.shift()!;
-            try {
-                await request();
-            } catch (error) {
-                console.error("Error processing request:", error);
-                this.queue.unshift(request);
-                await this.exponentialBackoff(this.queue.length);
-            }
-            await this.randomDelay();
-        }
-
-        this.processing = false;
-    }
-
-    private async exponentialBackoff(retryCount: number): Promise<void> {
-        const delay = Math.pow(2, retryCount) * 1000;
-        await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-
-    private async randomDelay(): Promise<void> {
-        const delay = Math.floor(Math.random() * 2000) + 1500;
-        await new Promise((resolve) => setTimeout(resolve, delay));
-    }
 }
 
 export class ClientBase extends EventEmitter {
@@ -93,7 +65,7 @@ export class ClientBase extends EventEmitter {
     imageDescriptionService: IImageDescriptionService;
     temperature = 0.5;
 
-    requestQueue: RequestQueue = new RequestQueue();
+    requestQueue: RequestQueue;
 
     profile: TwitterProfile | null;
 
@@ -235,6 +207,7 @@ export class ClientBase extends EventEmitter {
         super();
         this.runtime = runtime;
         this.twitterConfig = twitterConfig;
+        this.requestQueue = new RequestQueue(runtime);
         const username = twitterConfig.TWITTER_USERNAME;
         if (ClientBase._twitterClients[username]) {
             this.twitterClient = ClientBase._twitterClients[username];
@@ -3,6 +3,7 @@ import {
     composeContext,
     generateMessageResponse,
     generateShouldRespond,
+    getRequestedActions,
     messageCompletionFooter,
     shouldRespondFooter,
     type Content,
@@ -425,6 +426,7 @@ export class TwitterInteractionClient {
             runtime: this.runtime,
             context: shouldRespondContext,
             modelClass: ModelClass.MEDIUM,
+            usageTags: { roomId: message.roomId },
         });
 
         // Promise<"RESPOND" | "IGNORE" | "STOP" | null> {
@@ -464,6 +466,7 @@ export class TwitterInteractionClient {
             runtime: this.runtime,
             context,
             modelClass: ModelClass.LARGE,
+            usageTags: { roomId: message.roomId },
         });
 
         const removeQuotes = (str: string) =>
@@ -496,8 +499,11 @@ export class TwitterInteractionClient {
                         return memories;
                     };
 
-                    const action = this.runtime.actions.find((a) => a.name === response.action);
-                    const shouldSuppressInitialMessage = action?.suppressInitialMessage;
+                    const shouldSuppressInitialMessage = getRequestedActions(
+                        this.runtime.actions,
+                        response,
+                        this.runtime.character.settings?.actionResolution
+                    ).some((action) => action.suppressInitialMessage);
 
                     let responseMessages = [];
 
@@ -525,6 +531,7 @@ export class TwitterInteractionClient {
                             responseMessages[responseMessages.length - 1]
                         ) {
                             responseMessage.content.action = response.action;
+                            responseMessage.content.actions = response.actions;
                         } else {
                             responseMessage.content.action = "CONTINUE";
                         }
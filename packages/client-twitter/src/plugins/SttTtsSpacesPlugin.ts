@@ -498,6 +498,7 @@ export class SttTtsPlugin implements Plugin {
             runtime: this.runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId },
         });
 
         response.source = "discord";
@@ -596,6 +597,7 @@ export class SttTtsPlugin implements Plugin {
             runtime: this.runtime,
             context: shouldRespondContext,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId: state.roomId },
         });
 
         if (response === "RESPOND") {
@@ -5,6 +5,7 @@ import {
     getEmbeddingZeroVector,
     type IAgentRuntime,
     ModelClass,
+    SendPriority,
     stringToUuid,
     type TemplateType,
     type UUID,
@@ -21,13 +22,11 @@ import { type IImageDescriptionService, ServiceType } from "@elizaos/core";
 import { buildConversationThread, fetchMediaData } from "./utils.ts";
 import { twitterMessageHandlerTemplate } from "./interactions.ts";
 import { DEFAULT_MAX_TWEET_LENGTH } from "./environment.ts";
+import { Client, Events, GatewayIntentBits, Partials } from "discord.js";
 import {
-    Client,
-    Events,
-    GatewayIntentBits,
-    TextChannel,
-    Partials,
-} from "discord.js";
+    TWITTER_POST_APPROVAL_KIND,
+    TwitterDiscordApprovalChannel,
+} from "./approval.ts";
 import type { State } from "@elizaos/core";
 import type { ActionResponse } from "@elizaos/core";
 import { MediaData } from "./types.ts";
@@ -82,6 +81,7 @@ Tweet:
 # Respond with qualifying action tags only. Default to NO action unless extremely confident of relevance.` +
     postActionResponseFooter;
 
+/** Tweet waiting for approval, as stored before tweets went through the approval queue */
 interface PendingTweet {
     tweetTextForPosting: string;
     roomId: UUID;
@@ -91,8 +91,6 @@ interface PendingTweet {
     timestamp: number;
 }
 
-type PendingTweetApprovalStatus = "PENDING" | "APPROVED" | "REJECTED";
-
 export class TwitterPostClient {
     client: ClientBase;
     runtime: IAgentRuntime;
@@ -103,8 +101,7 @@ export class TwitterPostClient {
     private isDryRun: boolean;
     private discordClientForApproval: Client;
     private approvalRequired = false;
-    private discordApprovalChannelId: string;
-    private approvalCheckInterval: number;
+    private approvalCheckTimer?: NodeJS.Timeout;
 
     constructor(client: ClientBase, runtime: IAgentRuntime) {
         this.client = client;
@@ -162,37 +159,59 @@ export class TwitterPostClient {
             );
         }
 
-        // Initialize Discord webhook
-        const approvalRequired: boolean =
+        // Tweets are held in the approval queue of the runtime when TWITTER_APPROVAL_ENABLED is
+        // set or "twitter.post" is listed in the approval settings of the character
+        this.approvalRequired =
             this.runtime
                 .getSetting("TWITTER_APPROVAL_ENABLED")
-                ?.toLocaleLowerCase() === "true";
-        if (approvalRequired) {
+                ?.toLocaleLowerCase() === "true" ||
+            !!this.runtime.approvalQueue?.isRequired(
+                TWITTER_POST_APPROVAL_KIND
+            );
+        if (this.approvalRequired) {
+            if (!this.runtime.approvalQueue) {
+                throw new Error(
+                    "The runtime has no approval queue for the Twitter approval workflow"
+                );
+            }
+            this.runtime.approvalQueue.registerHandler(
+                TWITTER_POST_APPROVAL_KIND,
+                async (request) => {
+                    const { tweetTextForPosting, roomId, rawTweetContent } =
+                        request.payload as {
+                            tweetTextForPosting: string;
+                            roomId: UUID;
+                            rawTweetContent: string;
+                        };
+                    await this.postTweet(
+                        this.runtime,
+                        this.client,
+                        tweetTextForPosting,
+                        roomId,
+                        rawTweetContent,
+                        this.twitterUsername
+                    );
+                }
+            );
+
+            // The dedicated Discord bot is optional now that requests can also be reviewed
+            // through the other reviewer channels, the REST API or the web client
             const discordToken = this.runtime.getSetting(
                 "TWITTER_APPROVAL_DISCORD_BOT_TOKEN"
             );
             const approvalChannelId = this.runtime.getSetting(
                 "TWITTER_APPROVAL_DISCORD_CHANNEL_ID"
             );
-
-            const APPROVAL_CHECK_INTERVAL =
-                Number.parseInt(
-                    this.runtime.getSetting("TWITTER_APPROVAL_CHECK_INTERVAL")
-                ) || 5 * 60 * 1000; // 5 minutes
-
-            this.approvalCheckInterval = APPROVAL_CHECK_INTERVAL;
-
-            if (!discordToken || !approvalChannelId) {
-                throw new Error(
-                    "TWITTER_APPROVAL_DISCORD_BOT_TOKEN and TWITTER_APPROVAL_DISCORD_CHANNEL_ID are required for approval workflow"
+            if (discordToken && approvalChannelId) {
+                // Set up Discord client event handlers
+                this.setupDiscordClient();
+                this.runtime.approvalQueue.registerChannel(
+                    new TwitterDiscordApprovalChannel(
+                        this.discordClientForApproval,
+                        approvalChannelId
+                    )
                 );
             }
-
-            this.approvalRequired = true;
-            this.discordApprovalChannelId = approvalChannelId;
-
-            // Set up Discord client event handlers
-            this.setupDiscordClient();
         }
     }
 
@@ -306,14 +325,69 @@ export class TwitterPostClient {
             });
         }
 
-        // Start the pending tweet check loop if enabled
-        if (this.approvalRequired) this.runPendingTweetCheckLoop();
+        // Start checking the reviewer channels for decisions if enabled
+        if (this.approvalRequired) {
+            await this.migratePendingTweets();
+            this.runtime.approvalQueue.start();
+
+            // the queue polls at the interval of the character, the setting is kept for
+            // configurations written for the former approval loop
+            const approvalCheckInterval = Number.parseInt(
+                this.runtime.getSetting("TWITTER_APPROVAL_CHECK_INTERVAL")
+            );
+            if (approvalCheckInterval > 0) {
+                this.approvalCheckTimer = setInterval(() => {
+                    this.runtime.approvalQueue
+                        .poll()
+                        .catch((error) =>
+                            elizaLogger.error(
+                                "Error checking tweet approvals:",
+                                error
+                            )
+                        );
+                }, approvalCheckInterval);
+            }
+        }
     }
 
-    private runPendingTweetCheckLoop() {
-        setInterval(async () => {
-            await this.handlePendingTweet();
-        }, this.approvalCheckInterval);
+    /**
+     * Moves the tweets left waiting for approval by the former approval loop to the approval
+     * queue, which asks the reviewers again.
+     */
+    private async migratePendingTweets() {
+        const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweet`;
+        const pendingTweets =
+            (await this.runtime.cacheManager.get<PendingTweet[]>(
+                pendingTweetsKey
+            )) ?? [];
+        let moved = 0;
+        for (const pendingTweet of pendingTweets) {
+            // requests used to expire after 24 hours
+            const expiresIn =
+                pendingTweet.timestamp + 24 * 60 * 60 * 1000 - Date.now();
+            if (expiresIn <= 0) {
+                continue;
+            }
+            await this.runtime.approvalQueue.request({
+                kind: TWITTER_POST_APPROVAL_KIND,
+                title: "New Tweet Pending Approval",
+                content: { text: pendingTweet.tweetTextForPosting },
+                payload: {
+                    tweetTextForPosting: pendingTweet.tweetTextForPosting,
+                    roomId: pendingTweet.roomId,
+                    rawTweetContent: pendingTweet.rawTweetContent,
+                    twitterUsername: this.twitterUsername,
+                },
+                expiresIn,
+            });
+            moved++;
+        }
+        if (pendingTweets.length > 0) {
+            await this.runtime.cacheManager.delete(pendingTweetsKey);
+            elizaLogger.log(
+                `Moved ${moved} pending tweets to the approval queue`
+            );
+        }
     }
 
     createTweetObject(
@@ -387,7 +461,8 @@ export class TwitterPostClient {
         client: ClientBase,
         content: string,
         tweetId?: string,
-        mediaData?: MediaData[]
+        mediaData?: MediaData[],
+        priority: SendPriority = SendPriority.AUTOPOST
     ) {
         try {
             const noteTweetResult = await client.requestQueue.add(
@@ -396,7 +471,8 @@ export class TwitterPostClient {
                         content,
                         tweetId,
                         mediaData
-                    )
+                    ),
+                priority
             );
 
             if (noteTweetResult.errors && noteTweetResult.errors.length > 0) {
@@ -408,7 +484,9 @@ export class TwitterPostClient {
                 return await this.sendStandardTweet(
                     client,
                     truncateContent,
-                    tweetId
+                    tweetId,
+                    undefined,
+                    priority
                 );
             } else {
                 return noteTweetResult.data.notetweet_create.tweet_results
@@ -423,7 +501,8 @@ export class TwitterPostClient {
         client: ClientBase,
         content: string,
         tweetId?: string,
-        mediaData?: MediaData[]
+        mediaData?: MediaData[],
+        priority: SendPriority = SendPriority.AUTOPOST
     ) {
         try {
             const standardTweetResult = await client.requestQueue.add(
@@ -432,7 +511,8 @@ export class TwitterPostClient {
                         content,
                         tweetId,
                         mediaData
-                    )
+                    ),
+                priority
             );
             const body = await standardTweetResult.json();
             if (!body?.data?.create_tweet?.tweet_results?.result) {
@@ -542,6 +622,7 @@ export class TwitterPostClient {
                 runtime: this.runtime,
                 context,
                 modelClass: ModelClass.SMALL,
+                usageTags: { roomId, caller: "twitterPost" },
             });
 
             const rawTweetContent = cleanJsonResponse(response);
@@ -615,11 +696,17 @@ export class TwitterPostClient {
                     elizaLogger.log(
                         `Sending Tweet For Approval:\n ${tweetTextForPosting}`
                     );
-                    await this.sendForApproval(
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent
-                    );
+                    await this.runtime.approvalQueue.request({
+                        kind: TWITTER_POST_APPROVAL_KIND,
+                        title: "New Tweet Pending Approval",
+                        content: { text: tweetTextForPosting },
+                        payload: {
+                            tweetTextForPosting,
+                            roomId,
+                            rawTweetContent,
+                            twitterUsername: this.twitterUsername,
+                        },
+                    });
                     elizaLogger.log("Tweet sent for approval");
                 } else {
                     elizaLogger.log(
@@ -662,6 +749,7 @@ export class TwitterPostClient {
             runtime: this.runtime,
             context: options?.context || context,
             modelClass: ModelClass.SMALL,
+            usageTags: { roomId: tweetState.roomId, caller: "twitterPost" },
         });
 
         elizaLogger.log("generate tweet content response:\n" + response);
@@ -1229,13 +1317,17 @@ export class TwitterPostClient {
                 result = await this.handleNoteTweet(
                     this.client,
                     replyText,
-                    tweet.id
+                    tweet.id,
+                    undefined,
+                    SendPriority.REPLY
                 );
             } else {
                 result = await this.sendStandardTweet(
                     this.client,
                     replyText,
-                    tweet.id
+                    tweet.id,
+                    undefined,
+                    SendPriority.REPLY
                 );
             }
 
@@ -1258,256 +1350,6 @@ export class TwitterPostClient {
 
     async stop() {
         this.stopProcessingActions = true;
-    }
-
-    private async sendForApproval(
-        tweetTextForPosting: string,
-        roomId: UUID,
-        rawTweetContent: string
-    ): Promise<string | null> {
-        try {
-            const embed = {
-                title: "New Tweet Pending Approval",
-                description: tweetTextForPosting,
-                fields: [
-                    {
-                        name: "Character",
-                        value: this.client.profile.username,
-                        inline: true,
-                    },
-                    {
-                        name: "Length",
-                        value: tweetTextForPosting.length.toString(),
-                        inline: true,
-                    },
-                ],
-                footer: {
-                    text: "Reply with '👍' to post or '❌' to discard, This will automatically expire and remove after 24 hours if no response received",
-                },
-                timestamp: new Date().toISOString(),
-            };
-
-            const channel = await this.discordClientForApproval.channels.fetch(
-                this.discordApprovalChannelId
-            );
-
-            if (!channel || !(channel instanceof TextChannel)) {
-                throw new Error("Invalid approval channel");
-            }
-
-            const message = await channel.send({ embeds: [embed] });
-
-            // Store the pending tweet
-            const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweet`;
-            const currentPendingTweets =
-                (await this.runtime.cacheManager.get<PendingTweet[]>(
-                    pendingTweetsKey
-                )) || [];
-            // Add new pending tweet
-            currentPendingTweets.push({
-                tweetTextForPosting,
-                roomId,
-                rawTweetContent,
-                discordMessageId: message.id,
-                channelId: this.discordApprovalChannelId,
-                timestamp: Date.now(),
-            });
-
-            // Store updated array
-            await this.runtime.cacheManager.set(
-                pendingTweetsKey,
-                currentPendingTweets
-            );
-
-            return message.id;
-        } catch (error) {
-            elizaLogger.error(
-                "Error Sending Twitter Post Approval Request:",
-                error
-            );
-            return null;
-        }
-    }
-
-    private async checkApprovalStatus(
-        discordMessageId: string
-    ): Promise<PendingTweetApprovalStatus> {
-        try {
-            // Fetch message and its replies from Discord
-            const channel = await this.discordClientForApproval.channels.fetch(
-                this.discordApprovalChannelId
-            );
-
-            elizaLogger.log(`channel ${JSON.stringify(channel)}`);
-
-            if (!(channel instanceof TextChannel)) {
-                elizaLogger.error("Invalid approval channel");
-                return "PENDING";
-            }
-
-            // Fetch the original message and its replies
-            const message = await channel.messages.fetch(discordMessageId);
-
-            // Look for thumbs up reaction ('👍')
-            const thumbsUpReaction = message.reactions.cache.find(
-                (reaction) => reaction.emoji.name === "👍"
-            );
-
-            // Look for reject reaction ('❌')
-            const rejectReaction = message.reactions.cache.find(
-                (reaction) => reaction.emoji.name === "❌"
-            );
-
-            // Check if the reaction exists and has reactions
-            if (rejectReaction) {
-                const count = rejectReaction.count;
-                if (count > 0) {
-                    return "REJECTED";
-                }
-            }
-
-            // Check if the reaction exists and has reactions
-            if (thumbsUpReaction) {
-                // You might want to check for specific users who can approve
-                // For now, we'll return true if anyone used thumbs up
-                const count = thumbsUpReaction.count;
-                if (count > 0) {
-                    return "APPROVED";
-                }
-            }
-
-            return "PENDING";
-        } catch (error) {
-            elizaLogger.error("Error checking approval status:", error);
-            return "PENDING";
-        }
-    }
-
-    private async cleanupPendingTweet(discordMessageId: string) {
-        const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweet`;
-        const currentPendingTweets =
-            (await this.runtime.cacheManager.get<PendingTweet[]>(
-                pendingTweetsKey
-            )) || [];
-
-        // Remove the specific tweet
-        const updatedPendingTweets = currentPendingTweets.filter(
-            (tweet) => tweet.discordMessageId !== discordMessageId
-        );
-
-        if (updatedPendingTweets.length === 0) {
-            await this.runtime.cacheManager.delete(pendingTweetsKey);
-        } else {
-            await this.runtime.cacheManager.set(
-                pendingTweetsKey,
-                updatedPendingTweets
-            );
-        }
-    }
-
-    private async handlePendingTweet() {
-        elizaLogger.log("Checking Pending Tweets...");
-        const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweet`;
-        const pendingTweets =
-            (await this.runtime.cacheManager.get<PendingTweet[]>(
-                pendingTweetsKey
-            )) || [];
-
-        for (const pendingTweet of pendingTweets) {
-            // Check if tweet is older than 24 hours
-            const isExpired =
-                Date.now() - pendingTweet.timestamp > 24 * 60 * 60 * 1000;
-
-            if (isExpired) {
-                elizaLogger.log("Pending tweet expired, cleaning up");
-
-                // Notify on Discord about expiration
-                try {
-                    const channel =
-                        await this.discordClientForApproval.channels.fetch(
-                            pendingTweet.channelId
-                        );
-                    if (channel instanceof TextChannel) {
-                        const originalMessage = await channel.messages.fetch(
-                            pendingTweet.discordMessageId
-                        );
-                        await originalMessage.reply(
-                            "This tweet approval request has expired (24h timeout)."
-                        );
-                    }
-                } catch (error) {
-                    elizaLogger.error(
-                        "Error sending expiration notification:",
-                        error
-                    );
-                }
-
-                await this.cleanupPendingTweet(pendingTweet.discordMessageId);
-                return;
-            }
-
-            // Check approval status
-            elizaLogger.log("Checking approval status...");
-            const approvalStatus: PendingTweetApprovalStatus =
-                await this.checkApprovalStatus(pendingTweet.discordMessageId);
-
-            if (approvalStatus === "APPROVED") {
-                elizaLogger.log("Tweet Approved, Posting");
-                await this.postTweet(
-                    this.runtime,
-                    this.client,
-                    pendingTweet.tweetTextForPosting,
-                    pendingTweet.roomId,
-                    pendingTweet.rawTweetContent,
-                    this.twitterUsername
-                );
-
-                // Notify on Discord about posting
-                try {
-                    const channel =
-                        await this.discordClientForApproval.channels.fetch(
-                            pendingTweet.channelId
-                        );
-                    if (channel instanceof TextChannel) {
-                        const originalMessage = await channel.messages.fetch(
-                            pendingTweet.discordMessageId
-                        );
-                        await originalMessage.reply(
-                            "Tweet has been posted successfully! ✅"
-                        );
-                    }
-                } catch (error) {
-                    elizaLogger.error(
-                        "Error sending post notification:",
-                        error
-                    );
-                }
-
-                await this.cleanupPendingTweet(pendingTweet.discordMessageId);
-            } else if (approvalStatus === "REJECTED") {
-                elizaLogger.log("Tweet Rejected, Cleaning Up");
-                await this.cleanupPendingTweet(pendingTweet.discordMessageId);
-                // Notify about Rejection of Tweet
-                try {
-                    const channel =
-                        await this.discordClientForApproval.channels.fetch(
-                            pendingTweet.channelId
-                        );
-                    if (channel instanceof TextChannel) {
-                        const originalMessage = await channel.messages.fetch(
-                            pendingTweet.discordMessageId
-                        );
-                        await originalMessage.reply(
-                            "Tweet has been rejected! ❌"
-                        );
-                    }
-                } catch (error) {
-                    elizaLogger.error(
-                        "Error sending rejection notification:",
-                        error
-                    );
-                }
-            }
-        }
+        clearInterval(this.approvalCheckTimer);
     }
 }
@@ -145,6 +145,7 @@ export class TwitterSearchClient {
                 runtime: this.runtime,
                 context: prompt,
                 modelClass: ModelClass.SMALL,
+                usageTags: { caller: "twitterSearch" },
             });
 
             const tweetId = mostInterestingTweetResponse.trim();
@@ -263,6 +264,7 @@ export class TwitterSearchClient {
                 runtime: this.runtime,
                 context,
                 modelClass: ModelClass.LARGE,
+                usageTags: { roomId: message.roomId },
             });
 
             responseContent.inReplyTo = message.id;
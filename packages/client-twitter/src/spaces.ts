@@ -49,6 +49,7 @@ Only return the text, no additional formatting.
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: { caller: "twitterSpaceFiller" },
         });
         return output.trim();
     } catch (err) {
@@ -101,6 +102,7 @@ Example:
             runtime,
             context,
             modelClass: ModelClass.SMALL,
+            usageTags: { caller: "twitterSpaceTopics" },
         });
         const topics = response
             .split(",")
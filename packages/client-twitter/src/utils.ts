@@ -4,7 +4,7 @@ import type { Content, Memory, UUID } from "@elizaos/core";
 import { stringToUuid } from "@elizaos/core";
 import type { ClientBase } from "./base";
 import { elizaLogger } from "@elizaos/core";
-import type { Media } from "@elizaos/core";
+import { type Media, SendPriority } from "@elizaos/core";
 import fs from "fs";
 import path from "path";
 import { MediaData } from "./types";
@@ -230,7 +230,8 @@ export async function sendTweet(
                       cleanChunk,
                       previousTweetId,
                       mediaData
-                  )
+                  ),
+            SendPriority.REPLY
         );
 
         const body = await result.json();
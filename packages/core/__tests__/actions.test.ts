@@ -1,10 +1,21 @@
 import { describe, expect, it } from "vitest";
+import { z } from "zod";
 import {
     composeActionExamples,
     formatActionNames,
     formatActions,
+    getActionCalls,
+    getRequestedActions,
+    normalizeActionName,
+    parseActionCall,
+    resolveAction,
+    scoreActionName,
 } from "../src/actions";
-import type { Action } from "../src/types";
+import {
+    type Action,
+    ActionMatchType,
+    ActionResolutionStatus,
+} from "../src/types";
 
 describe("Actions", () => {
     const mockActions: Action[] = [
@@ -182,4 +193,142 @@ describe("Actions", () => {
             expect(names.length).toBe(uniqueNames.size);
         });
     });
+
+    describe("resolveAction", () => {
+        const createAction = (
+            name: string,
+            similes: string[] = [],
+            parameters?: Action["parameters"]
+        ): Action => ({
+            name,
+            description: `Test action ${name}`,
+            examples: [],
+            similes,
+            parameters,
+            handler: async () => undefined,
+            validate: async () => true,
+        });
+
+        const sendAction = createAction("SEND");
+        const sendTokenAction = createAction(
+            "SEND_TOKEN",
+            ["TRANSFER_TOKEN"],
+            z.object({ amount: z.number(), recipient: z.string() })
+        );
+        const actions = [sendAction, sendTokenAction];
+
+        it("should normalize separators and casing", () => {
+            expect(normalizeActionName("SEND_TOKEN")).toBe("send_token");
+            expect(normalizeActionName("send-token")).toBe("send_token");
+            expect(normalizeActionName("sendToken")).toBe("send_token");
+        });
+
+        it("should prefer an exact name match over a substring", () => {
+            const resolution = resolveAction(actions, "SEND_TOKEN", {});
+            expect(resolution.status).toBe(ActionResolutionStatus.INVALID_PARAMS);
+            expect(resolution.action).toBe(sendTokenAction);
+            expect(resolution.matchType).toBe(ActionMatchType.EXACT);
+
+            const send = resolveAction(actions, "send");
+            expect(send.status).toBe(ActionResolutionStatus.RESOLVED);
+            expect(send.action).toBe(sendAction);
+        });
+
+        it("should resolve similes before fuzzy matching", () => {
+            const resolution = resolveAction(actions, {
+                name: "transfer_token",
+                params: { amount: 1, recipient: "alice" },
+            });
+            expect(resolution.status).toBe(ActionResolutionStatus.RESOLVED);
+            expect(resolution.action).toBe(sendTokenAction);
+            expect(resolution.matchType).toBe(ActionMatchType.SIMILE);
+            expect(resolution.candidates[0].matchedOn).toBe("TRANSFER_TOKEN");
+        });
+
+        it("should fuzzy match close names and explain the score", () => {
+            const resolution = resolveAction(actions, {
+                name: "TRANSFER_TOKENS",
+                params: { amount: 1, recipient: "alice" },
+            });
+            expect(resolution.status).toBe(ActionResolutionStatus.RESOLVED);
+            expect(resolution.matchType).toBe(ActionMatchType.FUZZY);
+            expect(resolution.candidates[0]).toMatchObject({
+                name: "SEND_TOKEN",
+                matchedOn: "TRANSFER_TOKEN",
+            });
+            expect(resolution.score).toBeGreaterThan(0.75);
+        });
+
+        it("should not fuzzy match a name to a longer action", () => {
+            expect(scoreActionName("SEND", "SEND_TOKEN")).toBeLessThan(0.75);
+            const resolution = resolveAction([sendTokenAction], "SEND");
+            expect(resolution.status).toBe(ActionResolutionStatus.NOT_FOUND);
+            expect(resolution.candidates[0].name).toBe("SEND_TOKEN");
+        });
+
+        it("should allow fuzzy matching to be disabled", () => {
+            const resolution = resolveAction(actions, "TRANSFER_TOKENS", {
+                fuzzyMatching: false,
+            });
+            expect(resolution.status).toBe(ActionResolutionStatus.NOT_FOUND);
+            expect(resolution.candidates).toEqual([]);
+        });
+
+        it("should report ambiguous matches", () => {
+            const resolution = resolveAction(
+                [createAction("FOLLOW_ROOM"), createAction("FOLLOW_ROOM")],
+                "FOLLOW_ROOM"
+            );
+            expect(resolution.status).toBe(ActionResolutionStatus.AMBIGUOUS);
+            expect(resolution.candidates).toHaveLength(2);
+            expect(resolution.action).toBeUndefined();
+        });
+
+        it("should validate params against the action schema", () => {
+            const resolution = resolveAction(actions, {
+                name: "SEND_TOKEN",
+                params: { amount: "ten", recipient: "alice" },
+            });
+            expect(resolution.status).toBe(ActionResolutionStatus.INVALID_PARAMS);
+            expect(resolution.errors[0]).toMatch(/^amount: /);
+        });
+
+        it("should parse structured and plain action calls", () => {
+            expect(parseActionCall("SEND")).toEqual({ name: "SEND" });
+            expect(
+                parseActionCall({ name: "SEND_TOKEN", params: { amount: 1 } })
+            ).toEqual({ name: "SEND_TOKEN", params: { amount: 1 } });
+            expect(parseActionCall({ params: {} })).toBeNull();
+            expect(parseActionCall("")).toBeNull();
+        });
+
+        it("should prefer the ordered actions list over a single action", () => {
+            expect(
+                getActionCalls({
+                    text: "",
+                    action: "IGNORED",
+                    actions: ["CHECK_BALANCE", { name: "SWAP" }, 42 as never],
+                })
+            ).toEqual([{ name: "CHECK_BALANCE" }, { name: "SWAP" }]);
+            expect(getActionCalls({ text: "", action: "SEND" })).toEqual([
+                { name: "SEND" },
+            ]);
+            expect(getActionCalls({ text: "" })).toEqual([]);
+        });
+
+        it("should resolve the actions a response requests", () => {
+            expect(
+                getRequestedActions(actions, {
+                    text: "",
+                    action: { name: "send" },
+                })
+            ).toEqual([sendAction]);
+            expect(
+                getRequestedActions(actions, {
+                    text: "",
+                    actions: ["TRANSFER_TOKEN", "UNKNOWN_ACTION"],
+                })
+            ).toEqual([sendTokenAction]);
+        });
+    });
 });
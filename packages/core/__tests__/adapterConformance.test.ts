@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+    formatCapabilityMatrix,
+    runAdapterConformance,
+    writeConformanceReport,
+} from "../src/adapterConformance";
+import type {
+    Account,
+    AdapterConformanceReport,
+    IDatabaseAdapter,
+    UUID,
+} from "../src/types";
+
+/**
+ * Adapter storing accounts and rooms only, whose rooms cannot be removed
+ */
+const createPartialAdapter = () => {
+    const accounts = new Map<UUID, Account>();
+    const rooms = new Set<UUID>();
+    return {
+        createAccount: vi.fn(async (account: Account) => {
+            accounts.set(account.id, account);
+            return true;
+        }),
+        getAccountById: vi.fn(async (id: UUID) => accounts.get(id) ?? null),
+        createRoom: vi.fn(async (id: UUID) => {
+            rooms.add(id);
+            return id;
+        }),
+        getRoom: vi.fn(async (id: UUID) => (rooms.has(id) ? id : null)),
+        removeRoom: vi.fn(),
+        addParticipant: vi.fn(async () => true),
+        log: vi.fn(async () => {
+            throw new Error("Method not implemented.");
+        }),
+    } as unknown as IDatabaseAdapter;
+};
+
+describe("Adapter conformance", () => {
+    it("should tell supported, unsupported and failed capabilities apart", async () => {
+        const report = await runAdapterConformance(
+            "partial",
+            createPartialAdapter(),
+            { capabilities: ["accounts", "rooms", "logs", "goals"] }
+        );
+
+        expect(report.results).toEqual([
+            {
+                capability: "accounts",
+                methods: ["createAccount", "getAccountById"],
+                status: "supported",
+            },
+            expect.objectContaining({
+                capability: "rooms",
+                status: "failed",
+                error: "getRoom found a removed room",
+            }),
+            expect.objectContaining({
+                capability: "goals",
+                status: "unsupported",
+                error: expect.stringContaining("missing createGoal, getGoals"),
+            }),
+            expect.objectContaining({
+                capability: "logs",
+                status: "unsupported",
+                error: "Method not implemented.",
+            }),
+        ]);
+    });
+
+    it("should fail every capability when the accounts cannot be created", async () => {
+        const adapter = createPartialAdapter();
+        vi.mocked(adapter.createAccount).mockResolvedValue(false);
+
+        const report = await runAdapterConformance("broken", adapter, {
+            capabilities: ["rooms"],
+        });
+
+        expect(report.results[0]).toEqual(
+            expect.objectContaining({
+                status: "failed",
+                error: "setup failed: createAccount failed for the agent",
+            })
+        );
+    });
+
+    it("should check stores without accounts", async () => {
+        const cache = new Map<string, string>();
+        const store = {
+            getCache: vi.fn(async ({ agentId, key }) =>
+                cache.get(`${agentId}:${key}`)
+            ),
+            setCache: vi.fn(async ({ agentId, key, value }) => {
+                cache.set(`${agentId}:${key}`, value);
+                return true;
+            }),
+            deleteCache: vi.fn(async ({ agentId, key }) =>
+                cache.delete(`${agentId}:${key}`)
+            ),
+        };
+
+        const report = await runAdapterConformance("cache", store, {
+            capabilities: ["cache", "cache.entries"],
+            accounts: false,
+        });
+
+        expect(
+            report.results.map((result) => [result.capability, result.status])
+        ).toEqual([
+            ["cache", "supported"],
+            ["cache.entries", "unsupported"],
+        ]);
+    });
+
+    it("should only write reports to the configured directory", async () => {
+        const report: AdapterConformanceReport = {
+            adapter: "sqlite",
+            results: [{ capability: "rooms", methods: [], status: "supported" }],
+        };
+        expect(await writeConformanceReport(report, "")).toBeUndefined();
+
+        const directory = await mkdtemp(join(tmpdir(), "conformance-"));
+        try {
+            const file = await writeConformanceReport(report, directory);
+
+            expect(JSON.parse(await readFile(file, "utf8"))).toEqual(report);
+            expect(
+                await readFile(join(directory, "sqlite.md"), "utf8")
+            ).toContain("| rooms | ✅ |");
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it("should render reports as a capability matrix", () => {
+        expect(
+            formatCapabilityMatrix([
+                {
+                    adapter: "sqlite",
+                    results: [
+                        {
+                            capability: "rooms",
+                            methods: [],
+                            status: "supported",
+                        },
+                        { capability: "cache", methods: [], status: "failed" },
+                    ],
+                },
+                {
+                    adapter: "qdrant",
+                    results: [
+                        {
+                            capability: "rooms",
+                            methods: [],
+                            status: "unsupported",
+                        },
+                    ],
+                },
+            ])
+        ).toBe(
+            [
+                "| Capability | sqlite | qdrant |",
+                "| --- | --- | --- |",
+                "| rooms | ✅ | — |",
+                "| cache | ❌ |   |",
+            ].join("\n")
+        );
+    });
+});
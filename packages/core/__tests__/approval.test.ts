@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ApprovalError, ApprovalQueue } from "../src/approval";
+import { CacheManager, MemoryCacheAdapter } from "../src/cache";
+import type {
+    ApprovalDecision,
+    IAgentRuntime,
+    IApprovalChannel,
+    UUID,
+} from "../src/types";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+
+const createRuntime = () =>
+    ({
+        agentId,
+        character: { settings: {} },
+        cacheManager: new CacheManager(new MemoryCacheAdapter()),
+    }) as unknown as IAgentRuntime;
+
+/**
+ * Reviewer channel whose decisions are set by the test
+ */
+const createChannel = () => {
+    const decisions = new Map<string, ApprovalDecision>();
+    const channel = {
+        name: "fake",
+        notify: vi.fn(async (request) => `message-${request.title}`),
+        poll: vi.fn(
+            async (request) => decisions.get(request.channelRefs.fake) ?? null
+        ),
+        resolved: vi.fn(async () => undefined),
+    } satisfies IApprovalChannel;
+    return { channel, decisions };
+};
+
+describe("ApprovalQueue", () => {
+    let queue: ApprovalQueue;
+
+    beforeEach(() => {
+        queue = new ApprovalQueue(createRuntime(), {
+            kinds: ["telegram.post"],
+        });
+    });
+
+    it("should run the handler once a reviewer channel approves", async () => {
+        const { channel, decisions } = createChannel();
+        const handler = vi.fn(async () => undefined);
+        queue.registerChannel(channel);
+        queue.registerHandler("telegram.post", handler);
+
+        const request = await queue.request({
+            kind: "telegram.post",
+            title: "gm",
+            content: { text: "gm everyone" },
+            payload: { chatId: 42 },
+        });
+        expect(queue.isRequired("telegram.post")).toBe(true);
+        expect(request.channelRefs).toEqual({ fake: "message-gm" });
+
+        await queue.poll();
+        expect(handler).not.toHaveBeenCalled();
+
+        decisions.set("message-gm", { status: "approved" });
+        await queue.poll();
+
+        expect(handler).toHaveBeenCalledWith(
+            expect.objectContaining({ id: request.id, payload: { chatId: 42 } })
+        );
+        expect(await queue.get(request.id)).toMatchObject({
+            status: "approved",
+            decidedBy: "fake",
+            executedAt: expect.any(Number),
+        });
+        expect(channel.resolved).toHaveBeenCalledTimes(1);
+    });
+
+    it("should expire undecided requests and not run rejected ones", async () => {
+        const { channel } = createChannel();
+        const handler = vi.fn(async () => undefined);
+        queue.registerChannel(channel);
+        queue.registerHandler("email", handler);
+
+        const expiring = await queue.request({
+            kind: "email",
+            title: "expiring",
+            content: { text: "hello" },
+            expiresIn: -1,
+        });
+        const rejected = await queue.request({
+            kind: "email",
+            title: "rejected",
+            content: { text: "hello" },
+        });
+
+        await queue.decide(rejected.id, {
+            status: "rejected",
+            decidedBy: "alice",
+            reason: "off topic",
+        });
+        await queue.poll();
+
+        expect(handler).not.toHaveBeenCalled();
+        expect((await queue.get(expiring.id)).status).toBe("expired");
+        expect(await queue.list({ status: "rejected" })).toEqual([
+            expect.objectContaining({ id: rejected.id, reason: "off topic" }),
+        ]);
+        expect(channel.resolved).toHaveBeenCalledTimes(2);
+        await expect(
+            queue.decide(rejected.id, { status: "approved" })
+        ).rejects.toThrow(ApprovalError);
+    });
+
+    it("should retry approved requests until their handler succeeds", async () => {
+        const request = await queue.request({
+            kind: "farcaster.cast",
+            title: "cast",
+            content: { text: "hello farcaster" },
+        });
+
+        // approved before the client registered its handler, e.g. after a restart
+        await queue.decide(request.id, { status: "approved" });
+        expect((await queue.get(request.id)).executedAt).toBeUndefined();
+
+        const handler = vi
+            .fn()
+            .mockRejectedValueOnce(new Error("hub down"))
+            .mockResolvedValue(undefined);
+        queue.registerHandler("farcaster.cast", handler);
+
+        await queue.poll();
+        expect(await queue.get(request.id)).toMatchObject({
+            error: "hub down",
+        });
+
+        await queue.poll();
+        expect(handler).toHaveBeenCalledTimes(2);
+        const executed = await queue.get(request.id);
+        expect(executed.executedAt).toEqual(expect.any(Number));
+        expect(executed.error).toBeUndefined();
+    });
+
+    it("should fail requests whose handler keeps failing", async () => {
+        const { channel } = createChannel();
+        queue = new ApprovalQueue(createRuntime(), { maxAttempts: 2 });
+        queue.registerChannel(channel);
+        const handler = vi.fn().mockRejectedValue(new Error("hub down"));
+        queue.registerHandler("farcaster.cast", handler);
+        const request = await queue.request({
+            kind: "farcaster.cast",
+            title: "cast",
+            content: { text: "hello farcaster" },
+        });
+
+        await queue.decide(request.id, { status: "approved" });
+        await queue.poll();
+        await queue.poll();
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(await queue.get(request.id)).toMatchObject({
+            status: "failed",
+            attempts: 2,
+            error: "hub down",
+        });
+        expect(channel.resolved).toHaveBeenCalledWith(
+            expect.objectContaining({ status: "failed" })
+        );
+    });
+
+    it("should tell resolved listeners how each request ended", async () => {
+        queue = new ApprovalQueue(createRuntime(), { maxAttempts: 1 });
+        const listener = vi.fn();
+        queue.onResolved(listener);
+        queue.registerHandler("email", async (request) => {
+            if (request.title === "failing") {
+                throw new Error("smtp down");
+            }
+        });
+        const request = (title: string, expiresIn?: number) =>
+            queue.request({
+                kind: "email",
+                title,
+                content: { text: "hello" },
+                expiresIn,
+            });
+
+        const sent = await request("sent");
+        const failing = await request("failing");
+        const rejected = await request("rejected");
+        const pending = await request("pending");
+        const expiring = await request("expiring", -1);
+        await queue.decide(sent.id, { status: "approved" });
+        await queue.decide(failing.id, { status: "approved" });
+        await queue.decide(rejected.id, { status: "rejected" });
+        await queue.poll();
+
+        const resolved = new Map(
+            listener.mock.calls.map(([request]) => [request.id, request])
+        );
+        expect(resolved.get(sent.id).executedAt).toEqual(expect.any(Number));
+        expect(resolved.get(failing.id).status).toBe("failed");
+        expect(resolved.get(rejected.id).status).toBe("rejected");
+        expect(resolved.get(expiring.id).status).toBe("expired");
+        expect(resolved.has(pending.id)).toBe(false);
+        expect(listener).toHaveBeenCalledTimes(4);
+    });
+
+    it("should only let one decision through", async () => {
+        const handler = vi.fn(async () => undefined);
+        queue.registerHandler("email", handler);
+        const request = await queue.request({
+            kind: "email",
+            title: "mail",
+            content: { text: "hello" },
+        });
+
+        const results = await Promise.allSettled([
+            queue.decide(request.id, { status: "approved" }),
+            queue.decide(request.id, { status: "approved" }),
+            queue.decide(request.id, { status: "rejected" }),
+        ]);
+
+        expect(results.map((result) => result.status)).toEqual([
+            "fulfilled",
+            "rejected",
+            "rejected",
+        ]);
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not run again a request interrupted by a restart", async () => {
+        const runtime = createRuntime();
+        const interrupted = new ApprovalQueue(runtime);
+        // the handler never returns, as if the agent stopped while it ran
+        interrupted.registerHandler("email", () => new Promise(() => {}));
+        const request = await interrupted.request({
+            kind: "email",
+            title: "mail",
+            content: { text: "hello" },
+        });
+        interrupted.decide(request.id, { status: "approved" });
+        await vi.waitFor(async () =>
+            expect(
+                (await interrupted.get(request.id)).executingAt
+            ).toBeDefined()
+        );
+
+        const restarted = new ApprovalQueue(runtime);
+        const handler = vi.fn(async () => undefined);
+        restarted.registerHandler("email", handler);
+        await restarted.poll();
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(await restarted.get(request.id)).toMatchObject({
+            status: "failed",
+            error: "Interrupted while being carried out",
+        });
+    });
+
+    it("should only notify channels of the kinds they review", async () => {
+        const { channel } = createChannel();
+        const tweets = { ...createChannel().channel, name: "tweets" };
+        queue.registerChannel(channel);
+        queue.registerChannel({ ...tweets, kinds: ["twitter.post"] });
+
+        const request = await queue.request({
+            kind: "telegram.post",
+            title: "gm",
+            content: { text: "gm everyone" },
+        });
+
+        expect(request.channelRefs).toEqual({ fake: "message-gm" });
+        expect(tweets.notify).not.toHaveBeenCalled();
+    });
+});
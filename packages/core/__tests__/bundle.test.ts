@@ -0,0 +1,360 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { exportAgentBundle, importAgentBundle } from "../src/bundle";
+import type {
+    Account,
+    Goal,
+    IDatabaseAdapter,
+    IDatabaseCacheAdapter,
+    Memory,
+    RAGKnowledgeItem,
+    Relationship,
+    UUID,
+} from "../src/types";
+import { GoalStatus } from "../src/types";
+import { stringToUuid } from "../src/uuid";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const userId = "00000000-0000-0000-0000-000000000002" as UUID;
+const roomId = "00000000-0000-0000-0000-00000000000a" as UUID;
+const copyId = "00000000-0000-0000-0000-000000000009" as UUID;
+
+/**
+ * In-memory database implementing the adapter methods bundles use
+ */
+const createAdapter = () => {
+    const accounts = new Map<UUID, Account>();
+    const participants = new Map<UUID, UUID[]>();
+    const memories = new Map<UUID, Memory & { tableName: string }>();
+    const goals: Goal[] = [];
+    const relationships: Relationship[] = [];
+    const knowledge = new Map<UUID, RAGKnowledgeItem>();
+    const cache = new Map<string, string>();
+
+    const adapter = {
+        getAccountById: vi.fn(async (id: UUID) => accounts.get(id) ?? null),
+        createAccount: vi.fn(async (account: Account) => {
+            accounts.set(account.id, account);
+            return true;
+        }),
+        getRoom: vi.fn(async (id: UUID) => (participants.has(id) ? id : null)),
+        createRoom: vi.fn(async (id: UUID) => {
+            participants.set(id, []);
+            return id;
+        }),
+        getRoomsForParticipant: vi.fn(async (id: UUID) =>
+            [...participants.keys()].filter((room) =>
+                participants.get(room).includes(id)
+            )
+        ),
+        getParticipantsForRoom: vi.fn(
+            async (room: UUID) => participants.get(room) ?? []
+        ),
+        addParticipant: vi.fn(async (id: UUID, room: UUID) => {
+            participants.get(room).push(id);
+            return true;
+        }),
+        getParticipantUserState: vi.fn(async () => null),
+        setParticipantUserState: vi.fn(),
+        getMemoriesByRoomIds: vi.fn(
+            async (params: {
+                tableName: string;
+                agentId: UUID;
+                roomIds: UUID[];
+            }) =>
+                [...memories.values()]
+                    .filter(
+                        (memory) =>
+                            memory.tableName === params.tableName &&
+                            memory.agentId === params.agentId &&
+                            params.roomIds.includes(memory.roomId)
+                    )
+                    .map(({ tableName, ...memory }) => memory)
+                    .sort((a, b) => b.createdAt - a.createdAt)
+        ),
+        getMemoryById: vi.fn(async (id: UUID) => memories.get(id) ?? null),
+        createMemory: vi.fn(async (memory: Memory, tableName: string) => {
+            memories.set(memory.id, { ...memory, tableName });
+        }),
+        getGoals: vi.fn(async (params: { roomId: UUID }) =>
+            goals.filter((goal) => goal.roomId === params.roomId)
+        ),
+        createGoal: vi.fn(async (goal: Goal) => {
+            goals.push(goal);
+        }),
+        getRelationships: vi.fn(async (params: { userId: UUID }) =>
+            relationships.filter(
+                (relationship) =>
+                    relationship.userA === params.userId ||
+                    relationship.userB === params.userId
+            )
+        ),
+        getRelationship: vi.fn(
+            async (params: { userA: UUID; userB: UUID }) =>
+                relationships.find(
+                    (relationship) =>
+                        relationship.userA === params.userA &&
+                        relationship.userB === params.userB
+                ) ?? null
+        ),
+        createRelationship: vi.fn(
+            async (params: {
+                userA: UUID;
+                userB: UUID;
+                userId?: UUID;
+                status?: string;
+            }) => {
+                relationships.push({
+                    id: stringToUuid(`${params.userA}-${params.userB}`),
+                    userA: params.userA,
+                    userB: params.userB,
+                    userId: params.userId ?? params.userA,
+                    roomId,
+                    status: params.status ?? null,
+                });
+                return true;
+            }
+        ),
+        getKnowledge: vi.fn(async (params: { id?: UUID; agentId: UUID }) =>
+            [...knowledge.values()].filter(
+                (item) =>
+                    (!params.id || item.id === params.id) &&
+                    (item.agentId === params.agentId ||
+                        item.content.metadata?.isShared)
+            )
+        ),
+        createKnowledge: vi.fn(async (item: RAGKnowledgeItem) => {
+            knowledge.set(item.id, item);
+        }),
+        getCache: vi.fn(async (params: { agentId: UUID; key: string }) =>
+            cache.get(`${params.agentId}:${params.key}`)
+        ),
+        setCache: vi.fn(
+            async (params: { agentId: UUID; key: string; value: string }) => {
+                cache.set(`${params.agentId}:${params.key}`, params.value);
+                return true;
+            }
+        ),
+        getCacheEntries: vi.fn(async (params: { agentId: UUID }) =>
+            [...cache.entries()]
+                .filter(([key]) => key.startsWith(`${params.agentId}:`))
+                .map(([key, value]) => ({
+                    key: key.slice(params.agentId.length + 1),
+                    value,
+                }))
+        ),
+    };
+    const state = {
+        accounts,
+        participants,
+        memories,
+        goals,
+        relationships,
+        knowledge,
+        cache,
+    };
+    return {
+        adapter: adapter as unknown as IDatabaseAdapter & IDatabaseCacheAdapter,
+        state,
+    };
+};
+
+const createMessage = (index: number, inReplyTo?: UUID): Memory => ({
+    id: `00000000-0000-0000-0001-${String(index).padStart(12, "0")}` as UUID,
+    userId: index % 2 ? agentId : userId,
+    agentId,
+    roomId,
+    content: { text: `message ${index}`, inReplyTo },
+    embedding: [0.25, 0.5],
+    unique: index === 0,
+    createdAt: 1_000 * index,
+});
+
+/**
+ * Database holding an agent with one conversation
+ */
+const createSource = async () => {
+    const { adapter, state } = createAdapter();
+    await adapter.createAccount({ id: agentId, name: "Eliza", username: "e" });
+    await adapter.createAccount({ id: userId, name: "Alice", username: "a" });
+    await adapter.createRoom(roomId);
+    await adapter.addParticipant(agentId, roomId);
+    await adapter.addParticipant(userId, roomId);
+    await adapter.createMemory(createMessage(0), "messages");
+    await adapter.createMemory(
+        createMessage(1, createMessage(0).id),
+        "messages"
+    );
+    await adapter.createGoal({
+        id: "00000000-0000-0000-0002-000000000001" as UUID,
+        roomId,
+        userId,
+        name: "Plan the trip",
+        status: GoalStatus.IN_PROGRESS,
+        objectives: [],
+    });
+    await adapter.createRelationship({
+        userA: agentId,
+        userB: userId,
+        userId,
+        status: "FRIENDS",
+    });
+    await adapter.createKnowledge({
+        id: stringToUuid("private-guide.md"),
+        agentId,
+        content: { text: "Guide", metadata: { source: "guide.md" } },
+        embedding: new Float32Array([0.5, 0.25]),
+    });
+    await adapter.createKnowledge({
+        id: stringToUuid("private-guide.md-chunk-0"),
+        agentId,
+        content: {
+            text: "Guide",
+            metadata: {
+                isChunk: true,
+                originalId: stringToUuid("private-guide.md"),
+                chunkIndex: 0,
+            },
+        },
+        embedding: new Float32Array([0.5, 0.25]),
+    });
+    await adapter.setCache({ agentId, key: "profile", value: "{}" });
+    return { adapter, state };
+};
+
+describe("Agent bundles", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "bundle-"));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should export the agent state as records and a manifest", async () => {
+        const { adapter } = await createSource();
+
+        const manifest = await exportAgentBundle(adapter, agentId, directory, {
+            agentName: "Eliza",
+        });
+
+        expect(manifest).toEqual(
+            expect.objectContaining({
+                format: "elizaos-agent-bundle",
+                version: 1,
+                agentId,
+                counts: {
+                    room: 1,
+                    account: 2,
+                    participant: 2,
+                    memory: 2,
+                    goal: 1,
+                    relationship: 1,
+                    knowledge: 2,
+                    cache: 1,
+                },
+                skipped: [],
+            })
+        );
+        const records = (
+            await readFile(join(directory, "records.ndjson"), "utf8")
+        )
+            .trim()
+            .split("\n")
+            .map((line) => JSON.parse(line));
+        const messages = records.filter((record) => record.kind === "memory");
+        expect(messages.map((record) => record.data.content.text)).toEqual([
+            "message 0",
+            "message 1",
+        ]);
+        expect(
+            records.find((record) => record.kind === "knowledge").data.embedding
+        ).toEqual([0.5, 0.25]);
+    });
+
+    it("should import a bundle under another agent and skip existing records", async () => {
+        const { adapter: source } = await createSource();
+        await exportAgentBundle(source, agentId, directory);
+        const { adapter: target, state } = createAdapter();
+
+        const dryRun = await importAgentBundle(target, directory, {
+            agentId: copyId,
+            dryRun: true,
+        });
+        expect(state.memories.size).toBe(0);
+
+        const report = await importAgentBundle(target, directory, {
+            agentId: copyId,
+        });
+
+        expect(report.imported).toEqual(dryRun.imported);
+        expect(report.failed).toEqual({});
+        expect(await target.getRoomsForParticipant(copyId)).toEqual([roomId]);
+        const reply = await target.getMemoryById(
+            stringToUuid(`${createMessage(1).id}:${copyId}`)
+        );
+        expect(reply).toEqual(
+            expect.objectContaining({
+                userId: copyId,
+                agentId: copyId,
+                content: expect.objectContaining({
+                    inReplyTo: stringToUuid(`${createMessage(0).id}:${copyId}`),
+                }),
+            })
+        );
+        expect(target.createMemory).toHaveBeenCalledWith(
+            expect.objectContaining({ content: { text: "message 0" } }),
+            "messages",
+            true
+        );
+        expect(await target.getCache({ agentId: copyId, key: "profile" })).toBe(
+            "{}"
+        );
+        expect([...state.knowledge.values()][0].embedding).toBeInstanceOf(
+            Float32Array
+        );
+        const guideId = stringToUuid(
+            `${stringToUuid("private-guide.md")}:${copyId}`
+        );
+        const chunkId = stringToUuid(
+            `${stringToUuid("private-guide.md-chunk-0")}:${copyId}`
+        );
+        expect([...state.knowledge.keys()]).toEqual([guideId, chunkId]);
+        expect(
+            [...state.knowledge.values()][1].content.metadata.originalId
+        ).toBe(guideId);
+        expect(state.relationships).toEqual([
+            expect.objectContaining({
+                userA: copyId,
+                userB: userId,
+                userId,
+                status: "FRIENDS",
+            }),
+        ]);
+
+        const again = await importAgentBundle(target, directory, {
+            agentId: copyId,
+        });
+        expect(again.imported).toEqual({});
+        expect(again.existing).toEqual(report.imported);
+    });
+
+    it("should refuse bundles of a newer version", async () => {
+        const { adapter } = await createSource();
+        await exportAgentBundle(adapter, agentId, directory);
+        const manifestPath = join(directory, "manifest.json");
+        const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+        await writeFile(
+            manifestPath,
+            JSON.stringify({ ...manifest, version: 2 })
+        );
+
+        await expect(importAgentBundle(adapter, directory)).rejects.toThrow(
+            "newer than the supported version"
+        );
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+    chunkDocument,
+    getKnowledgeFileTypes,
+    registerKnowledgeChunker,
+} from "../src/chunking";
+
+describe("Knowledge chunking", () => {
+    it("should split markdown by heading with breadcrumbs", async () => {
+        const markdown = [
+            "Intro paragraph.",
+            "",
+            "# Install",
+            "Run the installer.",
+            "",
+            "## Errors",
+            "```bash",
+            "# not a heading",
+            "",
+            "exit 504",
+            "```",
+            "",
+            "# Usage",
+            "Start the agent.",
+        ].join("\n");
+
+        const chunks = await chunkDocument(markdown, {
+            type: "md",
+            path: "docs/guide.md",
+        });
+
+        expect(chunks.map((chunk) => chunk.metadata.breadcrumbs)).toEqual([
+            [],
+            ["Install"],
+            ["Install", "Errors"],
+            ["Usage"],
+        ]);
+        expect(chunks[2]).toEqual({
+            text: "## Errors\n```bash\n# not a heading\n\nexit 504\n```",
+            metadata: expect.objectContaining({
+                section: "Errors",
+                headingLevel: 2,
+                startLine: 6,
+                endLine: 12,
+            }),
+        });
+    });
+
+    it("should not cut code blocks when packing long sections", async () => {
+        const code = `\`\`\`ts\n${"const a = 1;\n".repeat(5)}\`\`\``;
+        const markdown = `# Section\n\n${"word ".repeat(20)}\n\n${code}`;
+
+        const chunks = await chunkDocument(markdown, {
+            type: "md",
+            path: "guide.md",
+            chunkSize: 100,
+        });
+
+        expect(chunks.map((chunk) => chunk.text)).toContain(code);
+        expect(
+            chunks.every((chunk) => chunk.metadata.section === "Section")
+        ).toBe(true);
+    });
+
+    it("should split code by top-level symbol", async () => {
+        const source = [
+            'import { z } from "zod";',
+            "",
+            "/** Adds two numbers */",
+            "export function add(a: number, b: number) {",
+            "    return a + b;",
+            "}",
+            "",
+            "export class Calculator {",
+            "    total = 0;",
+            "}",
+        ].join("\n");
+
+        const chunks = await chunkDocument(source, {
+            type: "ts",
+            path: "src/math.ts",
+        });
+
+        expect(chunks.map((chunk) => chunk.metadata)).toEqual([
+            expect.objectContaining({ symbol: undefined, startLine: 1 }),
+            expect.objectContaining({
+                symbol: "add",
+                symbolKind: "function",
+                language: "typescript",
+                startLine: 3,
+                endLine: 7,
+            }),
+            expect.objectContaining({ symbol: "Calculator", startLine: 8 }),
+        ]);
+        expect(chunks[1].text).toMatch(/^\/\*\* Adds two numbers \*\//);
+    });
+
+    it("should split PDF text by page", async () => {
+        const chunks = await chunkDocument("First page\fSecond page", {
+            type: "pdf",
+            path: "manual.pdf",
+        });
+
+        expect(chunks).toEqual([
+            {
+                text: "First page",
+                metadata: { page: 1, section: "Page 1" },
+            },
+            {
+                text: "Second page",
+                metadata: { page: 2, section: "Page 2" },
+            },
+        ]);
+    });
+
+    it("should leave out code files unless included", () => {
+        expect(getKnowledgeFileTypes()).toEqual(
+            expect.arrayContaining(["txt", "md", "pdf"])
+        );
+        expect(getKnowledgeFileTypes()).not.toContain("ts");
+        expect(getKnowledgeFileTypes({ includeCode: true })).toContain("ts");
+    });
+
+    it("should use registered chunkers", async () => {
+        registerKnowledgeChunker("csv", async (content) =>
+            content.split("\n").map((text, index) => ({
+                text,
+                metadata: { section: `Row ${index + 1}` },
+            }))
+        );
+
+        const chunks = await chunkDocument("a,b\nc,d", {
+            type: "csv",
+            path: "data.csv",
+        });
+
+        expect(getKnowledgeFileTypes()).toContain("csv");
+        expect(chunks[1]).toEqual({
+            text: "c,d",
+            metadata: { section: "Row 2" },
+        });
+    });
+});
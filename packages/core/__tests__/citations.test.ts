@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+    formatKnowledgeWithCitations,
+    getCitationKey,
+    getKnowledgeCitations,
+    resolveCitations,
+} from "../src/citations";
+import type { RAGKnowledgeItem, UUID } from "../src/types";
+
+const install: RAGKnowledgeItem = {
+    id: "00000000-0000-0000-0000-000000000001-chunk-0" as UUID,
+    agentId: "00000000-0000-0000-0000-000000000002" as UUID,
+    content: {
+        text: "Run the installer,\n\nthen restart.",
+        metadata: {
+            source: "docs/guide.md",
+            breadcrumbs: ["Install", "Windows"],
+        },
+    },
+};
+
+const manual: RAGKnowledgeItem = {
+    id: "00000000-0000-0000-0000-000000000003-chunk-4" as UUID,
+    agentId: "00000000-0000-0000-0000-000000000002" as UUID,
+    content: {
+        text: "The battery lasts 10 hours.",
+        metadata: { source: "manual.pdf", page: 3 },
+    },
+};
+
+describe("Knowledge citations", () => {
+    it("should derive stable keys from the knowledge id", () => {
+        const key = getCitationKey(install.id);
+
+        expect(key).toMatch(/^kb-[0-9a-f]{6}$/);
+        expect(getCitationKey(install.id)).toBe(key);
+        expect(getCitationKey(manual.id)).not.toBe(key);
+    });
+
+    it("should render entries under their keys and sources", () => {
+        const formatted = formatKnowledgeWithCitations([install, manual]);
+
+        expect(formatted).toContain(
+            `[${getCitationKey(install.id)}] docs/guide.md > Install > Windows\nRun the installer,`
+        );
+        expect(formatted).toContain(
+            `[${getCitationKey(manual.id)}] manual.pdf (page 3)\nThe battery lasts 10 hours.`
+        );
+        expect(formatted).toMatch(/^When you use an entry below, cite its key/);
+        expect(formatKnowledgeWithCitations([])).toBe("");
+    });
+
+    it("should number the cited entries in order of use", () => {
+        const citations = getKnowledgeCitations([install, manual]);
+        const [installKey, manualKey] = citations.map(
+            (citation) => citation.key
+        );
+
+        const content = resolveCitations(
+            {
+                text: `It lasts 10 hours [${manualKey}], install it first [${installKey}, ${manualKey}] [kb-000000].`,
+                action: "NONE",
+            },
+            citations
+        );
+
+        expect(content.text).toBe(
+            "It lasts 10 hours [1], install it first [2][1]."
+        );
+        expect(content.action).toBe("NONE");
+        expect(content.citations).toEqual([
+            expect.objectContaining({
+                index: 1,
+                key: manualKey,
+                knowledgeId: manual.id,
+                page: 3,
+            }),
+            expect.objectContaining({
+                index: 2,
+                key: installKey,
+                section: "Install > Windows",
+                snippet: "Run the installer, then restart.",
+            }),
+        ]);
+    });
+
+    it("should leave responses without citations unchanged", () => {
+        const content = { text: "Hello [there]" };
+
+        expect(resolveCitations(content, [])).toBe(content);
+    });
+});
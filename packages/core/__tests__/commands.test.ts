@@ -0,0 +1,240 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import {
+    CommandError,
+    formatCommandUsage,
+    getActionCommands,
+    getCommandText,
+    parseCommandArgs,
+    runActionCommand,
+} from "../src/commands";
+import type { Action, IAgentRuntime, Memory, UUID } from "../src/types";
+
+const createAction = (overrides: Partial<Action>): Action => ({
+    name: "TEST",
+    similes: [],
+    description: "Test action",
+    examples: [],
+    validate: async () => true,
+    handler: async () => true,
+    ...overrides,
+});
+
+const transfer = createAction({
+    name: "TRANSFER_TOKENS",
+    description: "Transfers tokens to a wallet",
+    parameters: z.object({
+        amount: z.number().int().describe("Tokens to send"),
+        token: z.enum(["ETH", "USDC"]).optional(),
+        recipientAddress: z.string(),
+        memo: z.array(z.string()).optional(),
+    }),
+    command: { name: "transfer", confirm: true },
+});
+
+describe("getActionCommands", () => {
+    it("should build commands from the actions declaring one", () => {
+        const commands = getActionCommands([
+            transfer,
+            createAction({ name: "MUTE_ROOM", command: { name: "mute" } }),
+            createAction({ name: "SUMMARIZE_CONVERSATION", command: {} }),
+            createAction({ name: "NONE" }),
+        ]);
+
+        expect(commands.map((command) => command.name)).toEqual([
+            "transfer",
+            "mute",
+            "summarize_conversation",
+        ]);
+        expect(commands[0]).toEqual({
+            name: "transfer",
+            description: "Transfers tokens to a wallet",
+            action: "TRANSFER_TOKENS",
+            confirm: true,
+            options: [
+                {
+                    name: "amount",
+                    description: "Tokens to send",
+                    type: "integer",
+                    required: true,
+                },
+                {
+                    name: "recipientaddress",
+                    description: "recipientAddress",
+                    type: "string",
+                    required: true,
+                },
+                {
+                    name: "token",
+                    description: "token",
+                    type: "string",
+                    required: false,
+                    choices: ["ETH", "USDC"],
+                },
+                expect.objectContaining({ name: "text", required: false }),
+            ],
+        });
+    });
+
+    it("should skip actions whose parameters cannot be prompted for", () => {
+        const commands = getActionCommands([
+            createAction({
+                name: "BATCH",
+                parameters: z.object({ items: z.array(z.string()) }),
+                command: {},
+            }),
+            createAction({ name: "MUTE", command: { name: "mute" } }),
+            createAction({ name: "MUTE_ROOM", command: { name: "mute" } }),
+        ]);
+        expect(commands.map((command) => command.action)).toEqual(["MUTE"]);
+    });
+});
+
+describe("parseCommandArgs", () => {
+    const [command] = getActionCommands([transfer]);
+
+    it("should read the options of a command typed as text", () => {
+        expect(
+            parseCommandArgs(
+                command,
+                'amount:5 token:usdc recipientaddress:"0x abc" for the pizza'
+            )
+        ).toEqual({
+            args: {
+                amount: 5,
+                token: "USDC",
+                recipientaddress: "0x abc",
+                text: "for the pizza",
+            },
+            missing: [],
+            errors: [],
+        });
+        expect(formatCommandUsage(command)).toBe(
+            "/transfer amount:<integer> recipientaddress:<string> [token:ETH|USDC] [text]"
+        );
+    });
+
+    it("should report missing and invalid options", () => {
+        const { args, missing, errors } = parseCommandArgs(
+            command,
+            "amount:1.5 token:BTC note:hi"
+        );
+        expect(args).toEqual({ text: "note:hi" });
+        expect(missing.map((option) => option.name)).toEqual([
+            "amount",
+            "recipientaddress",
+        ]);
+        expect(errors).toEqual([
+            "amount must be an integer",
+            "token must be one of ETH, USDC",
+        ]);
+    });
+});
+
+describe("runActionCommand", () => {
+    const roomId = "00000000-0000-0000-0000-000000000002" as UUID;
+    const createRuntime = () =>
+        ({
+            agentId: "00000000-0000-0000-0000-000000000001",
+            actions: [transfer],
+            messageManager: {
+                addEmbeddingToMemory: vi.fn(async (memory) => memory),
+                createMemory: vi.fn(async () => undefined),
+            },
+            composeState: vi.fn(async () => ({})),
+            processActions: vi.fn(async () => []),
+        }) as unknown as IAgentRuntime;
+
+    it("should store the message and run the action with the options as params", async () => {
+        const runtime = createRuntime();
+        const [command] = getActionCommands([transfer]);
+        const args = { amount: 5, recipientaddress: "0xabc" };
+        const message: Memory = {
+            id: "00000000-0000-0000-0000-000000000003" as UUID,
+            userId: "00000000-0000-0000-0000-000000000004" as UUID,
+            agentId: runtime.agentId,
+            roomId,
+            content: {
+                text: getCommandText(command, args),
+                source: "discord",
+            },
+        };
+
+        await runActionCommand(runtime, message, command, args, {
+            additionalKeys: { discordClient: {} },
+        });
+
+        expect(message.content.text).toBe(
+            "/transfer amount:5 recipientaddress:0xabc"
+        );
+        expect(runtime.messageManager.createMemory).toHaveBeenCalledWith(
+            message
+        );
+        expect(runtime.composeState).toHaveBeenCalledWith(message, {
+            discordClient: {},
+            command: "transfer",
+        });
+        expect(runtime.processActions).toHaveBeenCalledWith(
+            message,
+            [
+                expect.objectContaining({
+                    content: expect.objectContaining({
+                        action: {
+                            name: "TRANSFER_TOKENS",
+                            params: { amount: 5, recipientAddress: "0xabc" },
+                        },
+                        inReplyTo: message.id,
+                    }),
+                }),
+            ],
+            {},
+            undefined
+        );
+    });
+
+    it("should fail for actions that are not registered", async () => {
+        const runtime = createRuntime();
+        const [command] = getActionCommands([
+            createAction({ name: "GONE", command: {} }),
+        ]);
+        await expect(
+            runActionCommand(
+                runtime,
+                {
+                    userId: runtime.agentId,
+                    agentId: runtime.agentId,
+                    roomId,
+                    content: { text: "/gone" },
+                },
+                command,
+                {}
+            )
+        ).rejects.toThrow(CommandError);
+    });
+
+    it("should refuse messages the action does not validate", async () => {
+        const runtime = createRuntime();
+        const refusing = createAction({
+            name: "MUTE_ROOM",
+            command: { name: "mute" },
+            validate: async () => false,
+        });
+        runtime.actions.push(refusing);
+        const [command] = getActionCommands([refusing]);
+
+        await expect(
+            runActionCommand(
+                runtime,
+                {
+                    userId: runtime.agentId,
+                    agentId: runtime.agentId,
+                    roomId,
+                    content: { text: "/mute" },
+                },
+                command,
+                {}
+            )
+        ).rejects.toThrow("/mute cannot be used here.");
+        expect(runtime.processActions).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MemoryConsolidator } from "../src/consolidation";
+import { embed } from "../src/embedding";
+import { generateStructuredObject } from "../src/generation";
+import type { IAgentRuntime, Memory, UUID } from "../src/types";
+
+vi.mock("../src/embedding", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../src/embedding")>()),
+    embed: vi.fn(),
+}));
+
+vi.mock("../src/generation", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../src/generation")>()),
+    generateStructuredObject: vi.fn(),
+}));
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const userId = "00000000-0000-0000-0000-000000000002" as UUID;
+const roomId = "00000000-0000-0000-0000-000000000003" as UUID;
+
+const createMessage = (index: number): Memory => ({
+    id: `00000000-0000-0000-0001-${String(index).padStart(12, "0")}` as UUID,
+    userId,
+    agentId,
+    roomId,
+    content: { text: `message ${index}` },
+    createdAt: 1_000 * (index + 1),
+});
+
+/**
+ * In-memory adapter storing memories by table, returned newest first like the real ones
+ */
+const createRuntime = (messageCount: number) => {
+    const tables = new Map<string, Memory[]>([
+        [
+            "messages",
+            Array.from({ length: messageCount }, (_, i) => createMessage(i)),
+        ],
+        ["summaries", []],
+    ]);
+    const getMemories = vi.fn(
+        async (params: {
+            tableName: string;
+            count?: number;
+            start?: number;
+            end?: number;
+        }) => {
+            const memories = (tables.get(params.tableName) ?? [])
+                .filter(
+                    (memory) =>
+                        (!params.start || memory.createdAt >= params.start) &&
+                        (!params.end || memory.createdAt <= params.end)
+                )
+                .sort((a, b) => b.createdAt - a.createdAt);
+            return params.count ? memories.slice(0, params.count) : memories;
+        }
+    );
+    const databaseAdapter = {
+        getMemories,
+        getMemoryById: vi.fn(
+            async (id: UUID) =>
+                [...tables.values()]
+                    .flat()
+                    .find((memory) => memory.id === id) ?? null
+        ),
+        createMemory: vi.fn(async (memory: Memory, tableName: string) => {
+            tables.get(tableName).push(memory);
+        }),
+        getParticipantsForRoom: vi.fn(async () => [userId]),
+        getAccountById: vi.fn(async () => ({ id: userId, name: "Alice" })),
+        getRoomsForParticipant: vi.fn(async () => [roomId]),
+    };
+    const runtime = {
+        agentId,
+        character: { name: "Eliza", settings: {} },
+        databaseAdapter,
+        getConversationLength: () => 10,
+        messageManager: {
+            getMemories: (params: { count?: number }) =>
+                getMemories({ ...params, tableName: "messages" }),
+        },
+    } as unknown as IAgentRuntime;
+    return { runtime, tables };
+};
+
+describe("MemoryConsolidator", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(embed).mockResolvedValue([0.1, 0.2]);
+        vi.mocked(generateStructuredObject).mockImplementation(
+            async ({ context }) => ({
+                summary: `summary of ${context.match(/message \d+/g).join(", ")}`,
+                conversationSoFar: `so far until ${context.match(/message \d+/g).pop()}`,
+            })
+        );
+    });
+
+    it("should summarize full spans older than the recent window", async () => {
+        const { runtime, tables } = createRuntime(27);
+        const consolidator = new MemoryConsolidator(runtime, { spanSize: 5 });
+
+        const result = await consolidator.consolidateRoom(roomId);
+
+        // 17 messages are older than the window of 10, the 2 left wait for a full span
+        expect(result).toEqual({
+            roomId,
+            summariesCreated: 3,
+            consolidatedUntil: createMessage(14).createdAt,
+        });
+        const summaries = tables.get("summaries");
+        expect(summaries[0].content).toEqual(
+            expect.objectContaining({
+                text: "summary of message 0, message 1, message 2, message 3, message 4",
+                summaryRange: {
+                    start: 1_000,
+                    end: 5_000,
+                    messageCount: 5,
+                    firstMessageId: createMessage(0).id,
+                    lastMessageId: createMessage(4).id,
+                },
+            })
+        );
+        expect(summaries[2].createdAt).toBe(15_000);
+        expect(summaries[2].embedding).toBeDefined();
+
+        // each span is summarized with the rolling summary of the previous ones
+        expect(
+            vi.mocked(generateStructuredObject).mock.calls[1][0].context
+        ).toContain("so far until message 4");
+    });
+
+    it("should resume from the latest summary without duplicates", async () => {
+        const { runtime, tables } = createRuntime(27);
+        const consolidator = new MemoryConsolidator(runtime, { spanSize: 5 });
+        await consolidator.consolidateRoom(roomId);
+
+        expect(
+            (await consolidator.consolidateRoom(roomId)).summariesCreated
+        ).toBe(0);
+
+        tables
+            .get("messages")
+            .push(...[27, 28, 29].map((index) => createMessage(index)));
+        const result = await consolidator.consolidateRoom(roomId);
+
+        expect(result.summariesCreated).toBe(1);
+        expect(tables.get("summaries")).toHaveLength(4);
+        expect(
+            (await consolidator.getConversationSummary(roomId)).content
+                .conversationSoFar
+        ).toBe("so far until message 19");
+    });
+
+    it("should leave rooms within the recent window alone", async () => {
+        const { runtime } = createRuntime(8);
+        const consolidator = new MemoryConsolidator(runtime);
+
+        expect(await consolidator.consolidateAll()).toEqual([
+            { roomId, summariesCreated: 0, consolidatedUntil: undefined },
+        ]);
+        expect(generateStructuredObject).not.toHaveBeenCalled();
+    });
+});
@@ -1,7 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { composeContext } from "../src/context.ts";
+import {
+    composeContext,
+    registerTemplatePartial,
+    validateCharacterTemplates,
+    validateTemplate,
+} from "../src/context.ts";
 import handlebars from "handlebars";
-import type { State } from "../src/types.ts";
+import type { Character, State } from "../src/types.ts";
 
 describe("composeContext", () => {
     const baseState: State = {
@@ -261,6 +266,138 @@ describe("composeContext", () => {
         });
     });
 
+    describe("handlebars by default", () => {
+        it("should not escape values", () => {
+            const state = { ...baseState, userName: "<Alice & Bob>" };
+
+            expect(
+                composeContext({ state, template: "Hi {{userName}}" })
+            ).toBe("Hi <Alice & Bob>");
+        });
+
+        it("should render partials", () => {
+            registerTemplatePartial("greeting", "# Greeting\nHello {{userName}}");
+            const state = {
+                ...baseState,
+                userName: "Alice",
+                actionExamples: "# Action Examples\nexample",
+            };
+
+            const result = composeContext({
+                state,
+                template: "{{> greeting}}\n{{> actionExamples}}",
+            });
+
+            expect(result).toContain("# Greeting\nHello Alice");
+            expect(result).toContain(
+                "example\n(Action examples are for reference only."
+            );
+        });
+
+        it("should format lists and dates with helpers", () => {
+            const state = {
+                ...baseState,
+                colors: ["red", "blue"],
+                createdAt: Date.UTC(2024, 0, 2),
+            };
+
+            expect(
+                composeContext({
+                    state,
+                    template:
+                        "{{formatList colors}}|{{formatList colors \", \"}}|{{formatDate createdAt \"date\"}}",
+                })
+            ).toBe("- red\n- blue|red, blue|2024-01-02");
+        });
+
+        it("should fall back to simple replacement for invalid templates", () => {
+            const state = { ...baseState, userName: "Alice" };
+
+            expect(
+                composeContext({
+                    state,
+                    template: "{{#if}} Hello {{userName}}",
+                })
+            ).toBe("{{#if}} Hello Alice");
+        });
+
+        it("should keep text that is not a placeholder, as in the cosmos templates", () => {
+            const state = { ...baseState, denom: "uatom" };
+            const template =
+                "Swap {{denom}} to {{ibc/53046FFF6CAD109D8F9B2C7C9913853AD241928CD05CDDE419343D176025DA74}}";
+
+            expect(composeContext({ state, template })).toBe(
+                "Swap uatom to {{ibc/53046FFF6CAD109D8F9B2C7C9913853AD241928CD05CDDE419343D176025DA74}}"
+            );
+            expect(
+                composeContext({ state, template, templatingEngine: "simple" })
+            ).toBe(composeContext({ state, template }));
+        });
+
+        it("should use simple replacement when asked to", () => {
+            const state = { ...baseState, userName: "Alice" };
+
+            expect(
+                composeContext({
+                    state,
+                    template: "{{#if userName}}{{userName}}{{/if}}",
+                    templatingEngine: "simple",
+                })
+            ).toBe("{{#if userName}}Alice{{/if}}");
+        });
+    });
+
+    describe("template validation", () => {
+        it("should report keys composeState never produces", () => {
+            const issues = validateTemplate(
+                "messageHandlerTemplate",
+                "{{agentName}} {{recentMesages}} {{#each actorsData}}{{name}}{{/each}} {{@root.bio}}"
+            );
+
+            expect(issues).toEqual([
+                expect.objectContaining({
+                    template: "messageHandlerTemplate",
+                    type: "unknownKey",
+                    name: "recentMesages",
+                }),
+            ]);
+        });
+
+        it("should accept the summary, citations and action results", () => {
+            expect(
+                validateTemplate(
+                    "t",
+                    "{{conversationSummary}} {{#each knowledgeCitations}}{{key}}{{/each}} {{#each actionResults}}{{action}}{{/each}}"
+                )
+            ).toEqual([]);
+        });
+
+        it("should report unknown partials, helpers and syntax errors", () => {
+            expect(
+                validateTemplate("t", "{{> missingPartial}}{{shout bio}}").map(
+                    (issue) => issue.type
+                )
+            ).toEqual(["unknownHelper", "unknownPartial"]);
+            expect(validateTemplate("t", "{{#if bio}}")[0].type).toBe(
+                "syntaxError"
+            );
+        });
+
+        it("should validate the string templates of a character", () => {
+            const character = {
+                templates: {
+                    messageHandlerTemplate: "{{bio}} {{twitterUserName}}",
+                    shouldRespondTemplate: () => "{{anything}}",
+                },
+            } as unknown as Character;
+
+            expect(validateCharacterTemplates(character)).toHaveLength(1);
+            expect(
+                validateCharacterTemplates(character, ["twitterUserName"])
+            ).toEqual([]);
+        });
+    });
+
     describe("error handling", () => {
         it("should handle undefined state", () => {
             const template = "Hello, {{userName}}!";
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { embed, getEmbeddingTag } from "../src/embedding";
+import {
+    detectEmbeddingMismatch,
+    getReembeddingProgress,
+    reembedMemories,
+} from "../src/embeddingMigration";
+import { CacheManager, MemoryCacheAdapter } from "../src/cache";
+import type {
+    IAgentRuntime,
+    Memory,
+    RAGKnowledgeItem,
+    UUID,
+} from "../src/types";
+
+vi.mock("../src/embedding", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../src/embedding")>()),
+    embed: vi.fn(),
+}));
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const roomId = "00000000-0000-0000-0000-000000000002" as UUID;
+const oldTag = {
+    provider: "OpenAI",
+    model: "text-embedding-3-small",
+    dimensions: 1536,
+};
+
+const createMemory = (id: string, tagged: boolean): Memory => ({
+    id: id as UUID,
+    userId: agentId,
+    agentId,
+    roomId,
+    content: {
+        text: `memory ${id}`,
+        ...(tagged ? { embeddingTag: oldTag } : {}),
+    },
+    embedding: new Array(1536).fill(0.1),
+});
+
+const page = <T>(items: T[], limit?: number, offset = 0) =>
+    items.slice(offset, limit ? offset + limit : undefined);
+
+const createRuntime = (memories: Memory[], knowledge: RAGKnowledgeItem[]) => {
+    const databaseAdapter = {
+        getKnowledge: vi.fn(async ({ limit, offset }) =>
+            page(knowledge, limit, offset)
+        ),
+        getRoomsForParticipant: vi.fn(async () => [roomId]),
+        getMemoriesByRoomIds: vi.fn(async ({ tableName, limit, offset }) =>
+            tableName === "messages" ? page(memories, limit, offset) : []
+        ),
+        updateMemoryEmbedding: vi.fn(async (memory: Memory) => {
+            memories[memories.findIndex((m) => m.id === memory.id)] = memory;
+        }),
+        updateKnowledgeEmbedding: vi.fn(async (item: RAGKnowledgeItem) => {
+            knowledge[knowledge.findIndex((k) => k.id === item.id)] = item;
+        }),
+        resizeEmbeddings: vi.fn(async () => {}),
+    };
+    return {
+        agentId,
+        databaseAdapter,
+        cacheManager: new CacheManager(new MemoryCacheAdapter()),
+        ragKnowledgeManager: { preprocess: (text: string) => text.trim() },
+    } as unknown as IAgentRuntime & {
+        databaseAdapter: typeof databaseAdapter;
+    };
+};
+
+describe("Embedding migration", () => {
+    beforeEach(() => {
+        vi.mocked(embed).mockReset();
+        vi.mocked(embed).mockResolvedValue(new Array(384).fill(0.2));
+    });
+
+    it("should report vectors of another model or dimension", async () => {
+        const runtime = createRuntime(
+            [
+                createMemory("1", true),
+                createMemory("2", false),
+                {
+                    ...createMemory("3", false),
+                    embedding: new Array(384).fill(0.1),
+                },
+            ],
+            []
+        );
+
+        const report = await detectEmbeddingMismatch(runtime);
+
+        expect(report.current).toEqual(getEmbeddingTag());
+        expect(report.sampled).toBe(3);
+        expect(report.mismatched).toBe(2);
+        expect(report.storedTags).toEqual([
+            oldTag,
+            { provider: "unknown", model: "unknown", dimensions: 1536 },
+        ]);
+    });
+
+    it("should re-embed and tag memories and knowledge", async () => {
+        const memories = [
+            createMemory("1", true),
+            {
+                ...createMemory("2", false),
+                content: { text: "current", embeddingTag: getEmbeddingTag() },
+            },
+        ];
+        const knowledge: RAGKnowledgeItem[] = [
+            {
+                id: "00000000-0000-0000-0000-000000000010" as UUID,
+                agentId,
+                content: {
+                    text: "chunk",
+                    metadata: { isChunk: true, embeddingTag: oldTag },
+                },
+                embedding: new Float32Array(1536),
+            },
+            {
+                id: "00000000-0000-0000-0000-000000000011" as UUID,
+                agentId,
+                content: { text: "  document  ", metadata: { isMain: true } },
+                embedding: new Float32Array(1536).fill(0.1),
+            },
+        ];
+        const runtime = createRuntime(memories, knowledge);
+        const onProgress = vi.fn();
+
+        const progress = await reembedMemories(runtime, {
+            tables: ["messages", "knowledge"],
+            onProgress,
+        });
+
+        expect(progress).toEqual(
+            expect.objectContaining({
+                done: true,
+                processed: 3,
+                updated: 3,
+                failed: 0,
+                completedTables: ["messages", "knowledge"],
+            })
+        );
+        expect(runtime.databaseAdapter.resizeEmbeddings).toHaveBeenCalledWith(
+            getEmbeddingTag().dimensions
+        );
+        // the main document is embedded from its preprocessed text
+        expect(vi.mocked(embed).mock.calls.map(([, text]) => text)).toEqual([
+            "memory 1",
+            "chunk",
+            "document",
+        ]);
+        expect(memories[0].content.embeddingTag).toEqual(getEmbeddingTag());
+        expect(knowledge[0].embedding).toHaveLength(384);
+        expect(knowledge[1].content.metadata.embeddingTag).toEqual(
+            getEmbeddingTag()
+        );
+        expect(onProgress).toHaveBeenLastCalledWith(
+            expect.objectContaining({ done: true })
+        );
+        expect(await getReembeddingProgress(runtime)).toEqual(progress);
+    });
+
+    it("should resume an interrupted job", async () => {
+        const memories = [
+            createMemory("1", true),
+            createMemory("2", true),
+            createMemory("3", true),
+        ];
+        const runtime = createRuntime(memories, []);
+
+        await expect(
+            reembedMemories(runtime, {
+                tables: ["messages", "knowledge"],
+                batchSize: 2,
+                onProgress: (progress) => {
+                    if (progress.processed === 2) {
+                        throw new Error("interrupted");
+                    }
+                },
+            })
+        ).rejects.toThrow("interrupted");
+        expect(await getReembeddingProgress(runtime)).toEqual(
+            expect.objectContaining({ done: false, processed: 2 })
+        );
+
+        const progress = await reembedMemories(runtime, {
+            tables: ["messages", "knowledge"],
+            batchSize: 2,
+        });
+
+        expect(progress).toEqual(
+            expect.objectContaining({ done: true, processed: 3, updated: 3 })
+        );
+        expect(embed).toHaveBeenCalledTimes(3);
+        expect(
+            runtime.databaseAdapter.getMemoriesByRoomIds
+        ).toHaveBeenCalledWith(expect.objectContaining({ limit: 2, offset: 2 }));
+        expect(
+            memories.every(
+                (memory) => memory.content.embeddingTag?.dimensions === 384
+            )
+        ).toBe(true);
+    });
+});
@@ -3,6 +3,7 @@ import {
     formatEvaluators,
     formatEvaluatorExamples,
     formatEvaluatorExampleDescriptions,
+    matchEvaluatorNames,
 } from "../src/evaluators";
 import type {
     Evaluator,
@@ -114,4 +115,19 @@ test("formats evaluator example descriptions correctly", () => {
     );
 });
 
+// Unit test for matchEvaluatorNames
+test("matches evaluator names and reports unknown ones", () => {
+    const { matched, unmatched } = matchEvaluatorNames(mockEvaluators, [
+        "evaluator2",
+        "EVALUATOR_3",
+        "Evaluator1",
+        42,
+    ]);
+    expect(matched.map((evaluator) => evaluator.name)).toEqual([
+        "Evaluator1",
+        "Evaluator2",
+    ]);
+    expect(unmatched).toEqual(["EVALUATOR_3", "42"]);
+});
+
 // Additional tests can be added to ensure edge cases and larger inputs are handled
@@ -0,0 +1,354 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { generateText, streamText } from "../src/generation";
+import {
+    getProviderChain,
+    isRetryableProviderError,
+} from "../src/failover";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    ModelProviderName,
+    type ModelFallbackOptions,
+    type ProviderCallReport,
+} from "../src/types";
+
+type MockReply = { status: number; text?: string; delayMs?: number };
+
+// Local OpenAI compatible provider: each path replies with the queued responses in order
+const replies = new Map<string, MockReply[]>();
+const requests: { path: string; model: string; authorization: string }[] = [];
+// Paths whose requests were closed by the client before the reply was sent
+const aborted: string[] = [];
+
+const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+        body += chunk;
+    });
+    req.on("end", () => {
+        const path = req.url.split("/")[1];
+        const { model, stream } = JSON.parse(body);
+        requests.push({
+            path,
+            model,
+            authorization: req.headers.authorization,
+        });
+
+        const reply = replies.get(path)?.shift() ?? { status: 500 };
+        res.on("close", () => {
+            if (!res.writableEnded) {
+                aborted.push(path);
+            }
+        });
+        setTimeout(() => {
+            if (res.destroyed) {
+                return;
+            }
+            res.writeHead(reply.status, { "Content-Type": "application/json" });
+            if (reply.status !== 200) {
+                res.end(JSON.stringify({ error: { message: "mock failure" } }));
+                return;
+            }
+            if (stream) {
+                // server-sent chunks, one per word
+                const chunks = reply.text
+                    .split(/(?= )/)
+                    .map((content) => ({ delta: { content } }));
+                for (const choice of [
+                    ...chunks,
+                    { delta: {}, finish_reason: "stop" },
+                ]) {
+                    const chunk = {
+                        id: "chatcmpl-mock",
+                        object: "chat.completion.chunk",
+                        created: 0,
+                        model: "mock",
+                        choices: [{ index: 0, ...choice }],
+                    };
+                    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+                }
+                res.end("data: [DONE]\n\n");
+                return;
+            }
+            res.end(
+                JSON.stringify({
+                    id: "chatcmpl-mock",
+                    object: "chat.completion",
+                    created: 0,
+                    model: "mock",
+                    choices: [
+                        {
+                            index: 0,
+                            message: { role: "assistant", content: reply.text },
+                            finish_reason: "stop",
+                        },
+                    ],
+                    usage: {
+                        prompt_tokens: 1,
+                        completion_tokens: 1,
+                        total_tokens: 2,
+                    },
+                })
+            );
+        }, reply.delayMs ?? 0);
+    });
+});
+
+let baseUrl: string;
+
+const log = vi.fn();
+
+const createRuntime = (modelFallback: ModelFallbackOptions) =>
+    ({
+        agentId: "00000000-0000-0000-0000-000000000001",
+        modelProvider: ModelProviderName.OPENAI,
+        token: "primary-key",
+        fetch,
+        character: {
+            name: "Test",
+            modelProvider: ModelProviderName.OPENAI,
+            modelEndpointOverride: `${baseUrl}/primary`,
+            settings: { modelFallback },
+        },
+        getSetting: (key: string) =>
+            key === "TOGETHER_API_KEY" ? "fallback-key" : undefined,
+        databaseAdapter: { log },
+    }) as unknown as IAgentRuntime;
+
+const fallbackChain = {
+    providers: [
+        {
+            provider: ModelProviderName.TOGETHER,
+            endpoint: "BASE/fallback",
+        },
+    ],
+    retries: 0,
+    initialDelayMs: 1,
+};
+
+const withBase = (options: ModelFallbackOptions): ModelFallbackOptions => ({
+    ...options,
+    providers: options.providers?.map((entry) =>
+        typeof entry === "string"
+            ? entry
+            : { ...entry, endpoint: entry.endpoint?.replace("BASE", baseUrl) }
+    ),
+});
+
+const lastReport = () =>
+    log.mock.calls[log.mock.calls.length - 1][0].body as ProviderCallReport;
+
+describe("Provider failover", () => {
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        replies.clear();
+        requests.length = 0;
+        log.mockClear();
+    });
+
+    it("should fall back to the next provider on a server error", async () => {
+        replies.set("primary", [{ status: 503 }]);
+        replies.set("fallback", [{ status: 200, text: "from fallback" }]);
+
+        const text = await generateText({
+            runtime: createRuntime(withBase(fallbackChain)),
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        });
+
+        expect(text).toBe("from fallback");
+        expect(requests.map((request) => request.path)).toEqual([
+            "primary",
+            "fallback",
+        ]);
+        expect(requests[1].authorization).toBe("Bearer fallback-key");
+
+        const report = lastReport();
+        expect(report.caller).toBe("generateText");
+        expect(report.servedBy).toBe(ModelProviderName.TOGETHER);
+        expect(report.attempts).toEqual([
+            expect.objectContaining({
+                provider: ModelProviderName.OPENAI,
+                status: 503,
+                retryable: true,
+            }),
+            expect.objectContaining({
+                provider: ModelProviderName.TOGETHER,
+            }),
+        ]);
+        expect(log).toHaveBeenCalledWith(
+            expect.objectContaining({ type: "model_provider" })
+        );
+    });
+
+    it("should retry the same provider on rate limits before falling back", async () => {
+        replies.set("primary", [
+            { status: 429 },
+            { status: 200, text: "from primary" },
+        ]);
+
+        const text = await generateText({
+            runtime: createRuntime(withBase({ ...fallbackChain, retries: 1 })),
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        });
+
+        expect(text).toBe("from primary");
+        expect(requests.map((request) => request.path)).toEqual([
+            "primary",
+            "primary",
+        ]);
+        expect(lastReport().servedBy).toBe(ModelProviderName.OPENAI);
+    });
+
+    it("should fall back before the first chunk of a stream", async () => {
+        replies.set("primary", [{ status: 503 }]);
+        replies.set("fallback", [{ status: 200, text: "from fallback" }]);
+
+        const chunks: string[] = [];
+        for await (const chunk of streamText({
+            runtime: createRuntime(withBase(fallbackChain)),
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(["from", " fallback"]);
+        expect(requests.map((request) => request.path)).toEqual([
+            "primary",
+            "fallback",
+        ]);
+        expect(lastReport().caller).toBe("streamText");
+        expect(lastReport().servedBy).toBe(ModelProviderName.TOGETHER);
+    });
+
+    it("should not fail over on errors that are not retryable", async () => {
+        replies.set("primary", [{ status: 400 }]);
+        replies.set("fallback", [{ status: 200, text: "from fallback" }]);
+
+        await expect(
+            generateText({
+                runtime: createRuntime(withBase(fallbackChain)),
+                context: "Hello",
+                modelClass: ModelClass.SMALL,
+            })
+        ).rejects.toThrow();
+        expect(requests.map((request) => request.path)).toEqual(["primary"]);
+        expect(lastReport().servedBy).toBeUndefined();
+    });
+
+    it("should fail over when a provider times out", async () => {
+        replies.set("primary", [{ status: 200, text: "late", delayMs: 3000 }]);
+        replies.set("fallback", [{ status: 200, text: "from fallback" }]);
+
+        const text = await generateText({
+            runtime: createRuntime(
+                withBase({ ...fallbackChain, timeoutMs: 1500 })
+            ),
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        });
+
+        expect(text).toBe("from fallback");
+        expect(lastReport().attempts[0]).toEqual(
+            expect.objectContaining({
+                error: "Provider timed out after 1500ms",
+                retryable: true,
+            })
+        );
+        expect(aborted).toContain("primary");
+    });
+
+    it("should use the per class model overrides of each provider", async () => {
+        replies.set("primary", [{ status: 500 }]);
+        replies.set("fallback", [{ status: 200, text: "ok" }]);
+
+        await generateText({
+            runtime: createRuntime(
+                withBase({
+                    ...fallbackChain,
+                    models: { [ModelClass.SMALL]: "primary-small" },
+                    providers: [
+                        {
+                            provider: ModelProviderName.TOGETHER,
+                            endpoint: "BASE/fallback",
+                            models: { [ModelClass.SMALL]: "fallback-small" },
+                        },
+                    ],
+                })
+            ),
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        });
+
+        expect(requests.map((request) => request.model)).toEqual([
+            "primary-small",
+            "fallback-small",
+        ]);
+        expect(lastReport().model).toBe("fallback-small");
+    });
+
+    it("should throw the last error once every provider failed", async () => {
+        replies.set("primary", [{ status: 500 }]);
+        replies.set("fallback", [{ status: 502 }]);
+
+        await expect(
+            generateText({
+                runtime: createRuntime(withBase(fallbackChain)),
+                context: "Hello",
+                modelClass: ModelClass.SMALL,
+            })
+        ).rejects.toThrow();
+        expect(lastReport().attempts).toHaveLength(2);
+        expect(lastReport().servedBy).toBeUndefined();
+    });
+
+    describe("getProviderChain", () => {
+        it("should start with the character's provider and accept provider names", () => {
+            const chain = getProviderChain(
+                createRuntime({
+                    providers: [ModelProviderName.ANTHROPIC],
+                })
+            );
+
+            expect(chain.map((entry) => entry.provider)).toEqual([
+                ModelProviderName.OPENAI,
+                ModelProviderName.ANTHROPIC,
+            ]);
+        });
+    });
+
+    describe("isRetryableProviderError", () => {
+        it("should classify errors by status, name and code", () => {
+            expect(isRetryableProviderError({ statusCode: 429 })).toBe(true);
+            expect(isRetryableProviderError({ status: 503 })).toBe(true);
+            expect(isRetryableProviderError({ statusCode: 401 })).toBe(false);
+            expect(
+                isRetryableProviderError(
+                    Object.assign(new Error("timeout"), { name: "TimeoutError" })
+                )
+            ).toBe(true);
+            expect(
+                isRetryableProviderError(
+                    new Error("fetch failed", {
+                        cause: Object.assign(new Error("refused"), {
+                            code: "ECONNREFUSED",
+                        }),
+                    })
+                )
+            ).toBe(true);
+            expect(isRetryableProviderError(new Error("invalid"))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getContentHash, KnowledgeSync } from "../src/knowledgeSync";
+import {
+    type IAgentRuntime,
+    type RAGKnowledgeItem,
+    ServiceType,
+    type UUID,
+} from "../src/types";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+
+const createRuntime = () => {
+    const stored = new Map<string, RAGKnowledgeItem>();
+    const ragKnowledgeManager = {
+        generateScopedId: (path: string, shared: boolean) =>
+            `${shared ? "shared" : "private"}-${path}` as UUID,
+        getKnowledge: vi.fn(async ({ id }: { id: UUID }) =>
+            stored.has(id) ? [stored.get(id)] : []
+        ),
+        listAllKnowledge: vi.fn(async () => [...stored.values()]),
+        removeKnowledge: vi.fn(async (id: UUID) => {
+            stored.delete(id);
+        }),
+        removeKnowledgeChunks: vi.fn(async () => {}),
+        processFile: vi.fn(
+            async (file: {
+                path: string;
+                content: string;
+                isShared: boolean;
+            }) => {
+                const id = ragKnowledgeManager.generateScopedId(
+                    file.path,
+                    file.isShared
+                );
+                stored.set(id, {
+                    id,
+                    agentId,
+                    content: {
+                        text: file.content,
+                        metadata: {
+                            source: file.path,
+                            isShared: file.isShared,
+                            contentHash: getContentHash(file.content),
+                        },
+                    },
+                });
+            }
+        ),
+    };
+    const runtime = {
+        agentId,
+        character: { settings: {} },
+        ragKnowledgeManager,
+    } as unknown as IAgentRuntime;
+    return { runtime, ragKnowledgeManager, stored };
+};
+
+describe("KnowledgeSync", () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), "knowledge-"));
+        await mkdir(join(root, "docs"));
+    });
+
+    afterEach(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    it("should only re-embed files whose content changed", async () => {
+        const { runtime, ragKnowledgeManager } = createRuntime();
+        const sync = new KnowledgeSync({ runtime, knowledgeRoot: root });
+        await writeFile(join(root, "docs/guide.md"), "# Guide\nFirst");
+
+        expect((await sync.syncFile("docs/guide.md")).change).toBe("ingested");
+        expect((await sync.syncFile("docs/guide.md")).change).toBe("unchanged");
+
+        await writeFile(join(root, "docs/guide.md"), "# Guide\nSecond");
+        const result = await sync.syncFile("docs/guide.md");
+
+        expect(result).toEqual(
+            expect.objectContaining({
+                change: "updated",
+                status: "ready",
+                contentHash: getContentHash("# Guide\nSecond"),
+            })
+        );
+        expect(ragKnowledgeManager.processFile).toHaveBeenCalledTimes(2);
+        expect(ragKnowledgeManager.removeKnowledgeChunks).toHaveBeenCalledWith(
+            "private-docs/guide.md"
+        );
+    });
+
+    it("should remove the knowledge of deleted files when syncing a directory", async () => {
+        const { runtime, stored } = createRuntime();
+        const sync = new KnowledgeSync({ runtime, knowledgeRoot: root });
+        await writeFile(join(root, "docs/a.md"), "A");
+        await writeFile(join(root, "docs/b.txt"), "B");
+        await sync.syncDirectory("docs");
+
+        await rm(join(root, "docs/b.txt"));
+        const results = await sync.syncDirectory("docs");
+
+        expect(results.map((result) => [result.path, result.change])).toEqual([
+            ["docs/a.md", "unchanged"],
+            ["docs/b.txt", "deleted"],
+        ]);
+        expect([...stored.keys()]).toEqual(["private-docs/a.md"]);
+        expect(sync.getStatus()).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({
+                    path: "docs/b.txt",
+                    status: "deleted",
+                }),
+            ])
+        );
+    });
+
+    it("should report files that fail to ingest", async () => {
+        const { runtime, ragKnowledgeManager } = createRuntime();
+        ragKnowledgeManager.processFile.mockRejectedValueOnce(
+            new Error("embedding failed")
+        );
+        const sync = new KnowledgeSync({ runtime, knowledgeRoot: root });
+        await writeFile(join(root, "docs/a.md"), "A");
+
+        expect(await sync.syncFile("docs/a.md")).toEqual(
+            expect.objectContaining({
+                change: "failed",
+                status: "failed",
+                error: "embedding failed",
+            })
+        );
+        await expect(sync.syncFile("../secrets.md")).rejects.toThrow(
+            "outside of the knowledge root"
+        );
+    });
+
+    it("should skip code files and read PDFs with the PDF service", async () => {
+        const { runtime, ragKnowledgeManager } = createRuntime();
+        const convertPdfToText = vi.fn(async () => "First page\fSecond page");
+        Object.assign(runtime, {
+            getService: (type: ServiceType) =>
+                type === ServiceType.PDF ? { convertPdfToText } : null,
+        });
+        const sync = new KnowledgeSync({ runtime, knowledgeRoot: root });
+        await writeFile(join(root, "docs/index.ts"), "export {};");
+        await writeFile(join(root, "docs/manual.pdf"), "%PDF-1.4");
+
+        const results = await sync.syncDirectory("docs");
+
+        expect(results.map((result) => [result.path, result.change])).toEqual([
+            ["docs/manual.pdf", "ingested"],
+        ]);
+        expect(convertPdfToText).toHaveBeenCalledWith(Buffer.from("%PDF-1.4"));
+        expect(ragKnowledgeManager.processFile).toHaveBeenCalledWith(
+            expect.objectContaining({
+                content: "First page\fSecond page",
+                type: "pdf",
+            })
+        );
+    });
+});
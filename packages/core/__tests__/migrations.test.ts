@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { runSchemaMigrations, SchemaVersionError } from "../src/migrations";
+import type { SchemaMigration, SchemaMigrationStore } from "../src/types";
+
+const migrations: SchemaMigration[] = [
+    { version: 1, name: "initial schema", up: "CREATE TABLE a (id TEXT);" },
+    { version: 2, name: "add b", up: "CREATE TABLE b (id TEXT);" },
+    { version: 3, name: "add c", up: "CREATE TABLE c (id TEXT);" },
+];
+
+const createStore = (version: number) => {
+    const applied: number[] = [];
+    const store: SchemaMigrationStore = {
+        getSchemaVersion: vi.fn(async () => version),
+        applyMigration: vi.fn(async (migration: SchemaMigration) => {
+            applied.push(migration.version);
+        }),
+    };
+    return { store, applied };
+};
+
+describe("Schema migrations", () => {
+    it("should apply the pending migrations in order", async () => {
+        const { store, applied } = createStore(1);
+
+        const result = await runSchemaMigrations(store, migrations, {
+            adapter: "sqlite",
+        });
+
+        expect(applied).toEqual([2, 3]);
+        expect(result).toEqual({
+            adapter: "sqlite",
+            dryRun: false,
+            fromVersion: 1,
+            toVersion: 3,
+            migrations: migrations.slice(1),
+        });
+    });
+
+    it("should only report the pending migrations in a dry run", async () => {
+        const { store, applied } = createStore(0);
+
+        const result = await runSchemaMigrations(store, migrations, {
+            adapter: "sqlite",
+            dryRun: true,
+        });
+
+        expect(applied).toEqual([]);
+        expect(result.migrations.map((m) => m.version)).toEqual([1, 2, 3]);
+        expect(result.toVersion).toBe(3);
+    });
+
+    it("should refuse a database migrated by a newer adapter", async () => {
+        const { store, applied } = createStore(4);
+
+        const error = await runSchemaMigrations(store, migrations, {
+            adapter: "postgres",
+        }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(SchemaVersionError);
+        expect(error).toMatchObject({ databaseVersion: 4, codeVersion: 3 });
+        expect(applied).toEqual([]);
+    });
+
+    it("should reject migrations with gaps in their versions", async () => {
+        const { store } = createStore(0);
+
+        await expect(
+            runSchemaMigrations(store, [migrations[0], migrations[2]], {
+                adapter: "sqlite",
+            })
+        ).rejects.toThrow('Migration "add c" has version 3, expected 2');
+        expect(store.getSchemaVersion).not.toHaveBeenCalled();
+    });
+});
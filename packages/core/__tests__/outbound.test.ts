@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+    OutboundQueue,
+    OutboundQueueFullError,
+    getRetryAfterMs,
+} from "../src/outbound";
+import { SendPriority } from "../src/types";
+
+describe("OutboundQueue", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should pace the sends of a channel without holding up others", async () => {
+        const queue = new OutboundQueue({
+            platforms: {
+                chat: { channel: { tokens: 2, intervalMs: 1000 } },
+            },
+        });
+        const sent: string[] = [];
+        const send = (channelId: string, text: string) =>
+            queue.send({
+                platform: "chat",
+                channelId,
+                run: async () => {
+                    sent.push(text);
+                    return text;
+                },
+            });
+
+        const results = Promise.all([
+            send("a", "a1"),
+            send("a", "a2"),
+            send("a", "a3"),
+            send("b", "b1"),
+        ]);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sent).toEqual(["a1", "b1", "a2"]);
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(sent).toEqual(["a1", "b1", "a2", "a3"]);
+        expect(await results).toEqual(["a1", "a2", "a3", "b1"]);
+        expect(queue.getMetrics("chat")[0]).toMatchObject({
+            sent: 4,
+            maxWaitMs: 500,
+        });
+    });
+
+    it("should send replies before autoposts", async () => {
+        const queue = new OutboundQueue({
+            platforms: { chat: { global: { tokens: 1, intervalMs: 1000 } } },
+        });
+        const sent: string[] = [];
+        const send = (channelId: string, priority: SendPriority) =>
+            queue.send({
+                platform: "chat",
+                channelId,
+                priority,
+                run: async () => {
+                    sent.push(`${channelId}:${priority}`);
+                },
+            });
+
+        send("first", SendPriority.DEFAULT);
+        send("feed", SendPriority.AUTOPOST);
+        send("dm", SendPriority.REPLY);
+        expect(queue.getMetrics()[0].queued).toEqual({
+            reply: 1,
+            default: 0,
+            autopost: 1,
+        });
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(sent).toEqual(["first:default", "dm:reply", "feed:autopost"]);
+    });
+
+    it("should wait as long as the platform asks after a rate limit", async () => {
+        const queue = new OutboundQueue();
+        const run = vi
+            .fn()
+            .mockRejectedValueOnce({
+                status: 429,
+                headers: { "retry-after": "2" },
+            })
+            .mockResolvedValue("ok");
+
+        const result = queue.send({ platform: "slack", channelId: "C1", run });
+        await vi.advanceTimersByTimeAsync(1900);
+        expect(run).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(await result).toBe("ok");
+        expect(queue.getMetrics("slack")[0]).toMatchObject({
+            sent: 1,
+            retried: 1,
+            rateLimited: 1,
+            failed: 0,
+        });
+    });
+
+    it("should only retry other errors when asked to", async () => {
+        const queue = new OutboundQueue({
+            platforms: { flaky: { retryErrors: true, maxRetries: 1 } },
+        });
+        const error = new Error("network down");
+
+        const failing = queue.send({
+            platform: "chat",
+            channelId: "a",
+            run: vi.fn().mockRejectedValue(error),
+        });
+        await expect(failing).rejects.toBe(error);
+
+        const run = vi.fn().mockRejectedValue(error);
+        const retried = queue.send({ platform: "flaky", channelId: "a", run });
+        const rejection = expect(retried).rejects.toBe(error);
+        await vi.advanceTimersByTimeAsync(1000);
+        await rejection;
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it("should drop the lowest priority sends once the queue is full", async () => {
+        const queue = new OutboundQueue({
+            platforms: {
+                chat: {
+                    global: { tokens: 1, intervalMs: 1000 },
+                    maxQueueSize: 1,
+                },
+            },
+        });
+        const send = (priority: SendPriority) =>
+            queue.send({
+                platform: "chat",
+                channelId: "a",
+                priority,
+                run: async () => priority,
+            });
+
+        const first = send(SendPriority.DEFAULT);
+        const autopost = send(SendPriority.AUTOPOST);
+        const reply = send(SendPriority.REPLY);
+        const another = send(SendPriority.REPLY);
+
+        await Promise.all([
+            expect(autopost).rejects.toThrow(OutboundQueueFullError),
+            expect(another).rejects.toThrow(OutboundQueueFullError),
+        ]);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await first).toBe(SendPriority.DEFAULT);
+        expect(await reply).toBe(SendPriority.REPLY);
+        expect(queue.getMetrics("chat")[0].dropped).toBe(2);
+    });
+});
+
+describe("getRetryAfterMs", () => {
+    it("should read the wait of each platform", () => {
+        expect(
+            getRetryAfterMs({
+                code: 429,
+                response: { parameters: { retry_after: 3 } },
+            })
+        ).toBe(3000);
+        expect(
+            getRetryAfterMs({
+                code: "slack_webapi_rate_limited_error",
+                retryAfter: 5,
+            })
+        ).toBe(5000);
+        expect(
+            getRetryAfterMs({ name: "RateLimitError", retryAfter: 250 })
+        ).toBe(250);
+        expect(getRetryAfterMs({ status: 429 })).toBe(1000);
+        expect(getRetryAfterMs({ status: 500 })).toBeUndefined();
+        expect(getRetryAfterMs(new Error("boom"))).toBeUndefined();
+    });
+});
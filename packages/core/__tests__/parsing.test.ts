@@ -4,6 +4,7 @@ import {
     parseBooleanFromText,
     parseJsonArrayFromText,
     parseJSONObjectFromText,
+    extractPartialStringAttribute,
 } from "../src/parsing";
 
 describe("Parsing Module", () => {
@@ -145,4 +146,39 @@ describe("Parsing Module", () => {
             );
         });
     });
+
+    describe("extractPartialStringAttribute", () => {
+        it("should return null before the attribute starts", () => {
+            expect(
+                extractPartialStringAttribute('```json\n{ "user": "Eliza", "te', "text")
+            ).toBe(null);
+        });
+
+        it("should return the value of an unterminated string", () => {
+            expect(
+                extractPartialStringAttribute(
+                    '```json\n{ "user": "Eliza", "text": "Hello the',
+                    "text"
+                )
+            ).toBe("Hello the");
+        });
+
+        it("should stop at the closing quote and decode escapes", () => {
+            expect(
+                extractPartialStringAttribute(
+                    '{ "text": "Say \\"hi\\"\\nnow \\u00e9", "action": "NONE" }',
+                    "text"
+                )
+            ).toBe('Say "hi"\nnow \u00e9');
+        });
+
+        it("should drop an escape sequence cut off by the stream", () => {
+            expect(extractPartialStringAttribute('{ "text": "a\\', "text")).toBe(
+                "a"
+            );
+            expect(
+                extractPartialStringAttribute('{ "text": "a\\u00', "text")
+            ).toBe("a");
+        });
+    });
 });
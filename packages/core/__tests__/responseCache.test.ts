@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+    generateObject as aiGenerateObject,
+    generateText as aiGenerateText,
+    streamText as aiStreamText,
+} from "ai";
+import { z } from "zod";
+import {
+    generateObject,
+    generateText,
+    streamText,
+} from "../src/generation";
+import { CacheManager, MemoryCacheAdapter } from "../src/cache";
+import { getResponseCacheKey } from "../src/responseCache";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    ModelProviderName,
+    type ResponseCacheOptions,
+} from "../src/types";
+
+vi.mock("ai", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("ai")>()),
+    generateText: vi.fn(),
+    generateObject: vi.fn(),
+    streamText: vi.fn(),
+}));
+
+const createRuntime = (
+    responseCache?: ResponseCacheOptions,
+    cacheManager = new CacheManager(new MemoryCacheAdapter())
+) =>
+    ({
+        agentId: "00000000-0000-0000-0000-000000000001",
+        modelProvider: ModelProviderName.OPENAI,
+        token: "key",
+        fetch,
+        cacheManager,
+        character: {
+            name: "Test",
+            modelProvider: ModelProviderName.OPENAI,
+            settings: { responseCache },
+        },
+        getSetting: () => undefined,
+    }) as unknown as IAgentRuntime;
+
+describe("Response cache", () => {
+    beforeEach(() => {
+        vi.mocked(aiGenerateText).mockReset();
+        let calls = 0;
+        vi.mocked(aiGenerateText).mockImplementation(
+            async () => ({ text: `response ${++calls}` }) as never
+        );
+    });
+
+    it("should serve identical calls from the cache once enabled", async () => {
+        const runtime = createRuntime({ enabled: true });
+        const options = {
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        };
+
+        expect(await generateText(options)).toBe("response 1");
+        expect(await generateText(options)).toBe("response 1");
+        expect(aiGenerateText).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not cache when disabled", async () => {
+        const runtime = createRuntime();
+        const options = {
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        };
+
+        await generateText(options);
+        expect(await generateText(options)).toBe("response 2");
+    });
+
+    it("should call the model when the cache is bypassed", async () => {
+        const runtime = createRuntime({ enabled: true });
+        const options = {
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        };
+
+        await generateText(options);
+        expect(await generateText({ ...options, bypassCache: true })).toBe(
+            "response 2"
+        );
+    });
+
+    it("should key responses by context", async () => {
+        const runtime = createRuntime({ enabled: true });
+
+        await generateText({
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        });
+        expect(
+            await generateText({
+                runtime,
+                context: "Hello again",
+                modelClass: ModelClass.SMALL,
+            })
+        ).toBe("response 2");
+    });
+
+    it("should key responses by stop sequences", async () => {
+        const runtime = createRuntime({ enabled: true });
+
+        await generateText({
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        });
+        expect(
+            await generateText({
+                runtime,
+                context: "Hello",
+                modelClass: ModelClass.SMALL,
+                stop: ["\n"],
+            })
+        ).toBe("response 2");
+    });
+
+    it("should expire responses after their TTL", async () => {
+        const runtime = createRuntime({ enabled: true, ttlMs: 1000 });
+        const options = {
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        };
+
+        const now = Date.now();
+        const dateSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+        await generateText(options);
+        dateSpy.mockReturnValue(now + 2000);
+        expect(await generateText(options)).toBe("response 2");
+        dateSpy.mockRestore();
+    });
+
+    it("should share cached responses between generated and streamed text", async () => {
+        const runtime = createRuntime({ enabled: true });
+        vi.mocked(aiStreamText).mockImplementation(
+            () =>
+                ({
+                    fullStream: (async function* () {
+                        yield { type: "text-delta", textDelta: "streamed " };
+                        yield { type: "text-delta", textDelta: "response" };
+                    })(),
+                }) as never
+        );
+        const options = {
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+        };
+        const collect = async () => {
+            const chunks: string[] = [];
+            for await (const chunk of streamText(options)) {
+                chunks.push(chunk);
+            }
+            return chunks;
+        };
+
+        expect(await collect()).toEqual(["streamed ", "response"]);
+        expect(await collect()).toEqual(["streamed response"]);
+        expect(await generateText(options)).toBe("streamed response");
+        expect(aiStreamText).toHaveBeenCalledTimes(1);
+        expect(aiGenerateText).not.toHaveBeenCalled();
+    });
+
+    describe("generateObject", () => {
+        beforeEach(() => {
+            vi.mocked(aiGenerateObject).mockReset();
+            vi.mocked(aiGenerateObject).mockImplementation(
+                async () => ({ object: { n: 1 }, finishReason: "stop" }) as never
+            );
+        });
+
+        it("should key objects by their schema", async () => {
+            const runtime = createRuntime({ enabled: true });
+            const options = {
+                runtime,
+                context: "Hello",
+                modelClass: ModelClass.SMALL,
+                schemaName: "Result",
+            };
+
+            await generateObject({
+                ...options,
+                schema: z.object({ n: z.number() }),
+            });
+            await generateObject({
+                ...options,
+                schema: z.object({ n: z.number() }),
+            });
+            await generateObject({
+                ...options,
+                schema: z.object({ n: z.number(), label: z.string() }),
+            });
+            expect(aiGenerateObject).toHaveBeenCalledTimes(2);
+        });
+
+        it("should regenerate cached objects that fail the schema", async () => {
+            const runtime = createRuntime({ enabled: true });
+            const schema = z.object({ n: z.number() });
+            const options = {
+                runtime,
+                context: "Hello",
+                modelClass: ModelClass.SMALL,
+                schemaName: "Result",
+            };
+
+            await generateObject({ ...options, schema });
+            // refinements do not show in the serialized schema
+            await generateObject({
+                ...options,
+                schema: schema.refine((value) => value.n > 1),
+            });
+            expect(aiGenerateObject).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("getResponseCacheKey", () => {
+        it("should depend on provider, model and temperature", () => {
+            const parts = {
+                kind: "text" as const,
+                provider: ModelProviderName.OPENAI,
+                model: "gpt-4o",
+                context: "Hello",
+                temperature: 0.7,
+            };
+
+            const key = getResponseCacheKey(parts);
+            expect(key).toBe(getResponseCacheKey({ ...parts }));
+            expect(key.startsWith("llm-response/openai/")).toBe(true);
+            expect(key).not.toBe(
+                getResponseCacheKey({ ...parts, temperature: 0.2 })
+            );
+            expect(key).not.toBe(
+                getResponseCacheKey({ ...parts, model: "gpt-4o-mini" })
+            );
+            expect(key).not.toBe(
+                getResponseCacheKey({
+                    ...parts,
+                    provider: ModelProviderName.ANTHROPIC,
+                })
+            );
+        });
+    });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from "vitest";
+import { DatabaseAdapter } from "../src/database";
+import { eraseUser, RetentionJanitor } from "../src/retention";
+import type { IAgentRuntime, Memory, UUID } from "../src/types";
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+const userId = "00000000-0000-0000-0000-000000000002" as UUID;
+const otherId = "00000000-0000-0000-0000-000000000003" as UUID;
+const directRoom = "00000000-0000-0000-0000-00000000000a" as UUID;
+const sharedRoom = "00000000-0000-0000-0000-00000000000b" as UUID;
+
+const createMessage = (
+    id: number,
+    author: UUID,
+    roomId: UUID,
+    createdAt = id
+): Memory => ({
+    id: `00000000-0000-0000-0001-${String(id).padStart(12, "0")}` as UUID,
+    userId: author,
+    agentId,
+    roomId,
+    content: { text: `message ${id}`, inReplyTo: undefined },
+    embedding: [0.5, 0.5],
+    createdAt,
+});
+
+/**
+ * Adapter relying on the default retention of DatabaseAdapter
+ */
+const createAdapter = (messages: Memory[]) => {
+    const participants = new Map<UUID, UUID[]>([
+        [directRoom, [userId, agentId]],
+        [sharedRoom, [userId, otherId, agentId]],
+    ]);
+    const adapter = Object.assign(Object.create(DatabaseAdapter.prototype), {
+        getRoomsForParticipant: vi.fn(async (id: UUID) =>
+            [...participants.keys()].filter((roomId) =>
+                participants.get(roomId).includes(id)
+            )
+        ),
+        getParticipantsForRoom: vi.fn(
+            async (roomId: UUID) => participants.get(roomId) ?? []
+        ),
+        getMemories: vi.fn(
+            async (params: {
+                roomId: UUID;
+                tableName: string;
+                agentId: UUID;
+            }) =>
+                params.tableName === "messages"
+                    ? messages
+                          .filter(
+                              (memory) =>
+                                  memory.roomId === params.roomId &&
+                                  memory.agentId === params.agentId
+                          )
+                          .sort((a, b) => b.createdAt - a.createdAt)
+                    : []
+        ),
+        removeMemory: vi.fn(async (id: UUID) => {
+            messages.splice(
+                messages.findIndex((memory) => memory.id === id),
+                1
+            );
+        }),
+        countMemories: vi.fn(async () => 2),
+        removeAllMemories: vi.fn(),
+    });
+    return adapter as DatabaseAdapter & typeof adapter;
+};
+
+describe("Retention", () => {
+    it("should delete memories beyond the room limit or older than the max age", async () => {
+        const messages = [1, 2, 3, 4].map((id) =>
+            createMessage(id, userId, sharedRoom, Date.now() - id * 1000)
+        );
+        const adapter = createAdapter(messages);
+
+        expect(
+            await adapter.applyRetention({
+                tableName: "messages",
+                agentId,
+                maxCountPerRoom: 3,
+                dryRun: true,
+            })
+        ).toBe(1);
+        expect(messages).toHaveLength(4);
+
+        expect(
+            await adapter.applyRetention({
+                tableName: "messages",
+                agentId,
+                maxAge: 2500,
+            })
+        ).toBe(2);
+        expect(messages.map((memory) => memory.content.text)).toEqual([
+            "message 1",
+            "message 2",
+        ]);
+    });
+
+    it("should report the policies the janitor applied", async () => {
+        const applyRetention = vi
+            .fn()
+            .mockResolvedValueOnce(3)
+            .mockRejectedValueOnce(new Error("no such table"));
+        const runtime = {
+            agentId,
+            character: { settings: {} },
+            databaseAdapter: { applyRetention },
+        } as unknown as IAgentRuntime;
+        const janitor = new RetentionJanitor(runtime, {
+            policies: [
+                { tableName: "messages", maxAge: 1000 },
+                { tableName: "logs", maxCountPerRoom: 10 },
+            ],
+        });
+
+        expect(await janitor.run({ dryRun: true })).toEqual([
+            { tableName: "messages", deleted: 3, dryRun: true },
+            {
+                tableName: "logs",
+                deleted: 0,
+                dryRun: true,
+                error: "no such table",
+            },
+        ]);
+        expect(applyRetention).toHaveBeenCalledWith({
+            tableName: "messages",
+            maxAge: 1000,
+            agentId,
+            dryRun: true,
+        });
+    });
+
+    it("should refuse retention of tables it cannot go through", async () => {
+        await expect(
+            createAdapter([]).applyRetention({
+                tableName: "logs",
+                agentId,
+                maxAge: 1000,
+            })
+        ).rejects.toThrow("not supported");
+    });
+
+    it("should erase the summaries of the shared rooms of the user", async () => {
+        const adapter = Object.assign(createAdapter([]), {
+            eraseUser: vi.fn(async (id: UUID, options) => ({
+                userId: id,
+                dryRun: !!options?.dryRun,
+                deleted: { messages: 2, summaries: 1 },
+                anonymized: {},
+                unsupported: [],
+                directRoomIds: [directRoom],
+            })),
+        });
+        const runtime = {
+            agentId,
+            databaseAdapter: adapter,
+        } as unknown as IAgentRuntime;
+
+        const report = await eraseUser(runtime, userId);
+
+        expect(report.deleted).toEqual({ messages: 2, summaries: 3 });
+        expect(adapter.removeAllMemories).toHaveBeenCalledWith(
+            sharedRoom,
+            "summaries"
+        );
+        expect(adapter.removeAllMemories).not.toHaveBeenCalledWith(
+            directRoom,
+            "summaries"
+        );
+    });
+
+    it("should not erase users partially", async () => {
+        await expect(createAdapter([]).eraseUser(userId)).rejects.toThrow(
+            "not supported"
+        );
+    });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { embed } from "../src/embedding";
+import { RAGKnowledgeManager } from "../src/ragknowledge";
+import {
+    BM25Index,
+    createCrossEncoderReranker,
+    reciprocalRankFusion,
+    tokenize,
+} from "../src/retrieval";
+import type { IAgentRuntime, RAGKnowledgeItem, UUID } from "../src/types";
+
+vi.mock("../src/embedding", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../src/embedding")>()),
+    embed: vi.fn(),
+}));
+
+const agentId = "00000000-0000-0000-0000-000000000001" as UUID;
+
+const createItem = (id: string, text: string): RAGKnowledgeItem => ({
+    id: `00000000-0000-0000-0000-00000000000${id}` as UUID,
+    agentId,
+    content: { text },
+});
+
+const knowledge = [
+    createItem("1", "Resetting your router fixes most connection problems."),
+    createItem("2", "Error ERR_CONN-504 means the upstream gateway timed out."),
+    createItem("3", "SKU-1042 ships with a USB-C charger."),
+];
+
+const createManager = (vectorResults: RAGKnowledgeItem[]) => {
+    const databaseAdapter = {
+        getKnowledge: vi.fn(async () => knowledge),
+        searchKnowledge: vi.fn(async () => vectorResults),
+    };
+    const runtime = {
+        agentId,
+        databaseAdapter,
+        character: { settings: {} },
+    } as unknown as IAgentRuntime;
+    return {
+        databaseAdapter,
+        manager: new RAGKnowledgeManager({
+            tableName: "knowledge",
+            runtime,
+            knowledgeRoot: "",
+        }),
+    };
+};
+
+describe("Knowledge retrieval", () => {
+    beforeEach(() => {
+        vi.mocked(embed).mockResolvedValue([0.1, 0.2]);
+    });
+
+    it("should keep identifiers whole when tokenizing", () => {
+        expect(tokenize("Got ERR_CONN-504 on v2.1.0, see SKU-1042.")).toEqual([
+            "got",
+            "err_conn-504",
+            "on",
+            "v2.1.0",
+            "see",
+            "sku-1042",
+        ]);
+    });
+
+    it("should rank exact term matches with BM25", () => {
+        const index = new BM25Index();
+        for (const item of knowledge) {
+            index.add(item.id, item.content.text);
+        }
+
+        const matches = index.search("what does ERR_CONN-504 mean");
+        expect(matches.map((match) => match.id)).toEqual([knowledge[1].id]);
+        expect(matches[0].matchedTerms).toEqual(["err_conn-504"]);
+
+        index.remove(knowledge[1].id);
+        expect(index.search("ERR_CONN-504")).toEqual([]);
+    });
+
+    it("should fuse rankings with reciprocal rank fusion", () => {
+        const scores = reciprocalRankFusion([
+            { ids: ["a", "b"] },
+            { ids: ["b", "c"], weight: 2 },
+        ]);
+
+        expect(scores.get("a")).toBeCloseTo(1 / 61);
+        expect(scores.get("b")).toBeCloseTo(1 / 62 + 2 / 61);
+        expect([...scores.keys()]).toEqual(["a", "b", "c"]);
+    });
+
+    it("should find exact terms the vector search misses", async () => {
+        const { manager } = createManager([
+            { ...knowledge[0], similarity: 0.9 },
+        ]);
+
+        const results = await manager.hybridSearch({
+            query: "What does ERR_CONN-504 mean?",
+        });
+
+        expect(results.map((result) => result.id)).toEqual([
+            knowledge[0].id,
+            knowledge[1].id,
+        ]);
+        expect(results[1].explanation).toEqual(
+            expect.objectContaining({
+                vector: undefined,
+                lexical: expect.objectContaining({ rank: 1 }),
+                matchedTerms: ["err_conn-504"],
+            })
+        );
+        expect(results[0].explanation.vector).toEqual({
+            rank: 1,
+            similarity: 0.9,
+        });
+    });
+
+    it("should reorder the fused candidates with the reranker", async () => {
+        const { manager } = createManager([knowledge[0]]);
+        const score = vi.fn(async (_query: string, passages: string[]) =>
+            passages.map((passage) => (passage.includes("SKU") ? 1 : 0))
+        );
+        manager.reranker = createCrossEncoderReranker({ score });
+
+        const results = await manager.getKnowledge({
+            query: "charger for SKU-1042",
+        });
+
+        expect(results[0].id).toBe(knowledge[2].id);
+        expect(
+            (results[0] as { explanation: unknown }).explanation
+        ).toEqual(
+            expect.objectContaining({
+                rerank: { reranker: "cross-encoder", score: 1 },
+            })
+        );
+        expect(score).toHaveBeenCalledWith("charger for SKU-1042", [
+            knowledge[0].content.text,
+            knowledge[2].content.text,
+        ]);
+    });
+
+    it("should keep the fused order when the reranker fails", async () => {
+        const { manager, databaseAdapter } = createManager([knowledge[0]]);
+        manager.reranker = {
+            name: "broken",
+            rerank: vi.fn().mockRejectedValue(new Error("model unavailable")),
+        };
+
+        const results = await manager.hybridSearch({ query: "SKU-1042" });
+
+        expect(results.map((result) => result.id)).toEqual([
+            knowledge[0].id,
+            knowledge[2].id,
+        ]);
+        expect(results[0].explanation.rerank).toBeUndefined();
+
+        // the lexical index is reused until knowledge changes
+        await manager.hybridSearch({ query: "router", reranker: null });
+        expect(databaseAdapter.getKnowledge).toHaveBeenCalledTimes(1);
+    });
+});
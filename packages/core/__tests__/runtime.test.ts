@@ -1,13 +1,24 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { AgentRuntime } from "../src/runtime";
 import {
+    ActionResolutionStatus,
+    ActionStepStatus,
     type IDatabaseAdapter,
     ModelProviderName,
     type Action,
+    type Evaluator,
+    EvaluatorStatus,
     type Memory,
+    type State,
     type UUID,
 } from "../src/types";
 import { defaultCharacter } from "../src/defaultCharacter";
+import { generateText } from "../src/generation";
+
+vi.mock("../src/generation", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../src/generation")>()),
+    generateText: vi.fn(),
+}));
 
 // Mock dependencies with minimal implementations
 const mockDatabaseAdapter: IDatabaseAdapter = {
@@ -56,6 +67,20 @@ const mockCacheManager = {
     delete: vi.fn().mockResolvedValue(undefined),
 };
 
+// Mock evaluator creator
+const createMockEvaluator = (
+    name: string,
+    overrides: Partial<Evaluator> = {}
+): Evaluator => ({
+    name,
+    description: `Test evaluator ${name}`,
+    similes: [],
+    examples: [],
+    handler: vi.fn().mockResolvedValue(`${name} output`),
+    validate: vi.fn().mockResolvedValue(true),
+    ...overrides,
+});
+
 // Mock action creator
 const createMockAction = (name: string): Action => ({
     name,
@@ -139,5 +164,276 @@ describe("AgentRuntime", () => {
             expect(action.handler).toBeDefined();
             expect(action.validate).toBeDefined();
         });
+
+        it("should return typed results for unknown and ambiguous actions", async () => {
+            const sendToken = createMockAction("SEND_TOKEN");
+            runtime.registerAction(sendToken);
+            runtime.registerAction(createMockAction("FOLLOW_ROOM"));
+            runtime.registerAction(createMockAction("FOLLOW_ROOM"));
+
+            const message: Memory = {
+                userId: "123e4567-e89b-12d3-a456-426614174004",
+                agentId: "123e4567-e89b-12d3-a456-426614174005",
+                roomId: "123e4567-e89b-12d3-a456-426614174003",
+                content: { text: "test message" },
+            };
+            const createResponse = (action: Memory["content"]["action"]) => ({
+                ...message,
+                userId: message.agentId,
+                content: { text: "test response", action },
+            });
+
+            const results = await runtime.processActions(message, [
+                createResponse("SEND"),
+                createResponse("FOLLOW_ROOM"),
+                createResponse({ name: "send_token", params: { amount: 1 } }),
+            ]);
+
+            expect(results.map((result) => result.resolution.status)).toEqual([
+                ActionResolutionStatus.NOT_FOUND,
+                ActionResolutionStatus.AMBIGUOUS,
+                ActionResolutionStatus.RESOLVED,
+            ]);
+            expect(sendToken.handler).toHaveBeenCalledTimes(1);
+            expect(sendToken.handler).toHaveBeenCalledWith(
+                runtime,
+                message,
+                undefined,
+                { params: { amount: 1 } },
+                undefined
+            );
+        });
+
+        it("should run chained actions in order and pass results through state", async () => {
+            const checkBalance = createMockAction("CHECK_BALANCE");
+            const swap = createMockAction("SWAP");
+            const postReceipt = createMockAction("POST_RECEIPT");
+            vi.mocked(checkBalance.handler).mockResolvedValue({ balance: 10 });
+            vi.mocked(swap.handler).mockImplementation(
+                async (_runtime, _message, state) => ({
+                    swapped: state.actionResults[0].result,
+                })
+            );
+            [checkBalance, swap, postReceipt].forEach((action) =>
+                runtime.registerAction(action)
+            );
+
+            const message: Memory = {
+                userId: "123e4567-e89b-12d3-a456-426614174004",
+                agentId: "123e4567-e89b-12d3-a456-426614174005",
+                roomId: "123e4567-e89b-12d3-a456-426614174003",
+                content: { text: "swap my tokens" },
+            };
+            const state = { roomId: message.roomId } as State;
+
+            const results = await runtime.processActions(
+                message,
+                [
+                    {
+                        ...message,
+                        content: {
+                            text: "on it",
+                            actions: ["CHECK_BALANCE", "SWAP", "POST_RECEIPT"],
+                        },
+                    },
+                ],
+                state
+            );
+
+            expect(results.map((result) => result.status)).toEqual([
+                ActionStepStatus.SUCCEEDED,
+                ActionStepStatus.SUCCEEDED,
+                ActionStepStatus.SUCCEEDED,
+            ]);
+            expect(results[1].result).toEqual({ swapped: { balance: 10 } });
+            const receiptState = vi.mocked(postReceipt.handler).mock.calls[0][2];
+            expect(receiptState.actionResults).toHaveLength(2);
+            expect(state.actionResults).toBeUndefined();
+        });
+
+        it("should abort a chain on failure and cap its length", async () => {
+            const failing = createMockAction("CHECK_BALANCE");
+            const swap = createMockAction("SWAP");
+            vi.mocked(failing.handler).mockRejectedValue(new Error("rpc down"));
+            runtime.registerAction(failing);
+            runtime.registerAction(swap);
+
+            const message: Memory = {
+                userId: "123e4567-e89b-12d3-a456-426614174004",
+                agentId: "123e4567-e89b-12d3-a456-426614174005",
+                roomId: "123e4567-e89b-12d3-a456-426614174003",
+                content: { text: "swap my tokens" },
+            };
+            const response = {
+                ...message,
+                content: { text: "on it", actions: ["CHECK_BALANCE", "SWAP"] },
+            };
+            const state = { roomId: message.roomId } as State;
+
+            const aborted = await runtime.processActions(message, [response], state);
+            expect(aborted.map((result) => result.status)).toEqual([
+                ActionStepStatus.FAILED,
+                ActionStepStatus.SKIPPED,
+            ]);
+            expect(aborted[0].error).toBe("rpc down");
+            expect(swap.handler).not.toHaveBeenCalled();
+
+            runtime.character = {
+                ...runtime.character,
+                settings: {
+                    ...runtime.character.settings,
+                    actionChain: { abortOnFailure: false, maxLength: 1 },
+                },
+            };
+            const capped = await runtime.processActions(message, [response], state);
+            expect(capped.map((result) => result.status)).toEqual([
+                ActionStepStatus.FAILED,
+                ActionStepStatus.SKIPPED,
+            ]);
+
+            runtime.character.settings.actionChain.maxLength = 2;
+            const continued = await runtime.processActions(message, [response], state);
+            expect(continued[1].status).toBe(ActionStepStatus.SUCCEEDED);
+        });
+
+        it("should queue actions that need approval instead of running them", async () => {
+            const transfer = {
+                ...createMockAction("TRANSFER"),
+                requiresApproval: true,
+            };
+            const postReceipt = createMockAction("POST_RECEIPT");
+            runtime.registerAction(transfer);
+            runtime.registerAction(postReceipt);
+
+            const message: Memory = {
+                userId: "123e4567-e89b-12d3-a456-426614174004",
+                agentId: "123e4567-e89b-12d3-a456-426614174005",
+                roomId: "123e4567-e89b-12d3-a456-426614174003",
+                content: { text: "send 1 ETH to bob" },
+            };
+            const results = await runtime.processActions(
+                message,
+                [
+                    {
+                        ...message,
+                        content: {
+                            text: "sending",
+                            actions: ["TRANSFER", "POST_RECEIPT"],
+                        },
+                    },
+                ],
+                { roomId: message.roomId } as State
+            );
+
+            expect(results.map((result) => result.status)).toEqual([
+                ActionStepStatus.PENDING_APPROVAL,
+                ActionStepStatus.SKIPPED,
+            ]);
+            expect(transfer.handler).not.toHaveBeenCalled();
+            expect(postReceipt.handler).not.toHaveBeenCalled();
+            expect(mockCacheManager.set).toHaveBeenCalledWith(
+                "approvals/requests",
+                [
+                    expect.objectContaining({
+                        kind: "action",
+                        status: "pending",
+                        payload: expect.objectContaining({ action: "TRANSFER" }),
+                    }),
+                ]
+            );
+        });
+    });
+
+    describe("evaluation", () => {
+        const message: Memory = {
+            id: "123e4567-e89b-12d3-a456-426614174003",
+            userId: "123e4567-e89b-12d3-a456-426614174004",
+            agentId: "123e4567-e89b-12d3-a456-426614174005",
+            roomId: "123e4567-e89b-12d3-a456-426614174003",
+            content: { text: "test message" },
+        };
+        const state = { roomId: message.roomId } as State;
+
+        it("should report every evaluator and skip model selection in all mode", async () => {
+            runtime.character = {
+                ...runtime.character,
+                settings: { evaluation: { selection: "all" } },
+            };
+            runtime.registerEvaluator(createMockEvaluator("FACTS"));
+            runtime.registerEvaluator(
+                createMockEvaluator("GOALS", {
+                    validate: vi.fn().mockResolvedValue(false),
+                })
+            );
+            runtime.registerEvaluator(
+                createMockEvaluator("BROKEN", {
+                    handler: vi.fn().mockRejectedValue(new Error("boom")),
+                })
+            );
+            runtime.registerEvaluator(createMockEvaluator("QUIET"));
+
+            const report = await runtime.evaluate(message, state, true);
+
+            expect(generateText).not.toHaveBeenCalled();
+            expect(report.selection).toBe("all");
+            expect(report.evaluators).toEqual([
+                {
+                    name: "FACTS",
+                    validated: true,
+                    selected: true,
+                    status: EvaluatorStatus.SUCCEEDED,
+                    output: "FACTS output",
+                },
+                {
+                    name: "GOALS",
+                    validated: false,
+                    selected: false,
+                    status: EvaluatorStatus.SKIPPED,
+                    reason: "Validation returned false",
+                },
+                {
+                    name: "BROKEN",
+                    validated: true,
+                    selected: true,
+                    status: EvaluatorStatus.FAILED,
+                    error: "boom",
+                },
+                expect.objectContaining({
+                    name: "QUIET",
+                    status: EvaluatorStatus.SUCCEEDED,
+                }),
+            ]);
+            expect(mockDatabaseAdapter.log).toHaveBeenCalledWith({
+                body: { messageId: message.id, ...report },
+                userId: message.userId,
+                roomId: message.roomId,
+                type: "evaluation",
+            });
+        });
+
+        it("should report evaluators the model did not select and unknown names", async () => {
+            vi.mocked(generateText).mockResolvedValue(
+                '```json\n["facts", "NOT_AN_EVALUATOR"]\n```'
+            );
+            const facts = createMockEvaluator("FACTS");
+            const goals = createMockEvaluator("GOALS");
+            const always = createMockEvaluator("ALWAYS", { alwaysRun: true });
+            runtime.registerEvaluator(facts);
+            runtime.registerEvaluator(goals);
+            runtime.registerEvaluator(always);
+
+            const report = await runtime.evaluate(message, state, false);
+
+            expect(report.unmatchedSelections).toEqual([
+                "facts",
+                "NOT_AN_EVALUATOR",
+            ]);
+            expect(report.evaluators.map((entry) => entry.reason)).toEqual([
+                "Agent did not respond and the evaluator does not always run",
+                "Agent did not respond and the evaluator does not always run",
+                "Not selected by the model",
+            ]);
+            expect(always.handler).not.toHaveBeenCalled();
+        });
     });
 });
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+    applyStateBudget,
+    countTokens,
+    defaultStateSectionBudgets,
+    getStateTokenBudget,
+} from "../src/stateBudget";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    ModelProviderName,
+    type State,
+} from "../src/types";
+import { getModelSettings } from "../src/models";
+
+const lines = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${prefix} line ${i}`).join("\n");
+
+const createState = (overrides: Partial<State> = {}): State =>
+    ({
+        bio: "Eliza is a helpful assistant.",
+        lore: `# Lore\n${lines("lore", 200)}`,
+        characterMessageExamples: `# Examples\n${lines("example", 200)}`,
+        recentMessages: `# Conversation Messages\n${lines("message", 100)}`,
+        ...overrides,
+    }) as State;
+
+const createRuntime = (settings: Record<string, unknown> = {}) =>
+    ({
+        modelProvider: ModelProviderName.OPENAI,
+        character: { settings },
+        getSetting: () => undefined,
+    }) as unknown as IAgentRuntime;
+
+describe("stateBudget", () => {
+    describe("applyStateBudget", () => {
+        it("should leave a state within budget untouched", () => {
+            const state = createState({ lore: "# Lore\nshort" });
+            const result = applyStateBudget(state, 100000, {
+                lore: { priority: 10 },
+                recentMessages: { priority: 100 },
+            });
+
+            expect(result.lore).toBe(state.lore);
+            expect(result.recentMessages).toBe(state.recentMessages);
+            expect(result.truncatedSections).toEqual([]);
+        });
+
+        it("should shrink low priority sections before recent messages", () => {
+            const state = createState();
+            const messageTokens = countTokens(state.recentMessages);
+            const budget = messageTokens + 200;
+
+            const result = applyStateBudget(state, budget);
+
+            expect(result.recentMessages).toBe(state.recentMessages);
+            expect(countTokens(result.lore)).toBeLessThan(
+                countTokens(state.lore)
+            );
+            expect(
+                result.truncatedSections.map((section) => section.key)
+            ).toEqual(
+                expect.arrayContaining(["lore", "characterMessageExamples"])
+            );
+            expect(
+                result.truncatedSections.find(
+                    (section) => section.key === "recentMessages"
+                )
+            ).toBeUndefined();
+
+            const total = Object.keys(defaultStateSectionBudgets)
+                .filter((key) => typeof result[key] === "string")
+                .reduce((sum, key) => sum + countTokens(result[key] as string), 0);
+            expect(total).toBeLessThanOrEqual(budget);
+        });
+
+        it("should keep the newest messages and the header when truncating the conversation", () => {
+            const state = createState({ lore: "", characterMessageExamples: "" });
+            const result = applyStateBudget(state, 50, {
+                recentMessages: { priority: 100, keep: "end" },
+            });
+
+            const text = result.recentMessages as string;
+            expect(text.startsWith("# Conversation Messages\n")).toBe(true);
+            expect(text.endsWith("message line 99")).toBe(true);
+            expect(text).not.toContain("message line 0\n");
+            expect(countTokens(text)).toBeLessThanOrEqual(50);
+            expect(result.truncatedSections).toEqual([
+                {
+                    key: "recentMessages",
+                    originalTokens: countTokens(state.recentMessages),
+                    tokens: countTokens(text),
+                },
+            ]);
+        });
+
+        it("should cap sections at their maximum share even when the state fits", () => {
+            const state = createState();
+            const result = applyStateBudget(state, 10000, {
+                lore: { priority: 10, maxShare: 0.01 },
+            });
+
+            expect(countTokens(result.lore)).toBeLessThanOrEqual(100);
+            expect((result.lore as string).startsWith("# Lore\nlore line 0")).toBe(
+                true
+            );
+        });
+
+        it("should not shrink sections below their minimum share", () => {
+            const state = createState({ lore: "", characterMessageExamples: "" });
+            const result = applyStateBudget(state, 100, {
+                bio: { priority: 90 },
+                recentMessages: { priority: 10, minShare: 1, keep: "end" },
+            });
+
+            expect(countTokens(result.recentMessages)).toBeGreaterThan(80);
+            expect(countTokens(result.recentMessages)).toBeLessThanOrEqual(100);
+        });
+    });
+
+    describe("getStateTokenBudget", () => {
+        it("should derive the budget from the model's maxInputTokens", () => {
+            const { maxInputTokens } = getModelSettings(
+                ModelProviderName.OPENAI,
+                ModelClass.LARGE
+            );
+
+            expect(getStateTokenBudget(createRuntime())).toBe(
+                Math.floor(maxInputTokens * 0.8)
+            );
+        });
+
+        it("should prefer the character's model configuration", () => {
+            const runtime = createRuntime({
+                modelConfig: { maxInputTokens: 4000 },
+                stateBudget: { ratio: 0.5 },
+            });
+
+            expect(getStateTokenBudget(runtime)).toBe(2000);
+        });
+
+        it("should honour an explicit budget and disabling", () => {
+            expect(
+                getStateTokenBudget(
+                    createRuntime({ stateBudget: { maxTokens: 1234 } })
+                )
+            ).toBe(1234);
+            expect(
+                getStateTokenBudget(
+                    createRuntime({ stateBudget: { enabled: false } })
+                )
+            ).toBeUndefined();
+        });
+    });
+});
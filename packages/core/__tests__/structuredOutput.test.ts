@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+    generateObject as aiGenerateObject,
+    generateText as aiGenerateText,
+    NoObjectGeneratedError,
+} from "ai";
+import { z } from "zod";
+import { generateStructuredObject } from "../src/generation";
+import {
+    parseStructuredOutput,
+    StructuredOutputParseError,
+    StructuredOutputValidationError,
+} from "../src/structuredOutput";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    ModelProviderName,
+} from "../src/types";
+
+vi.mock("ai", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("ai")>()),
+    generateText: vi.fn(),
+    generateObject: vi.fn(),
+}));
+
+const createRuntime = (modelProvider: ModelProviderName) =>
+    ({
+        agentId: "00000000-0000-0000-0000-000000000001",
+        modelProvider,
+        token: "key",
+        fetch,
+        character: {
+            name: "Test",
+            modelProvider,
+            settings: {},
+        },
+        getSetting: () => undefined,
+    }) as unknown as IAgentRuntime;
+
+const schema = z.object({
+    name: z.string(),
+    amount: z.number(),
+});
+
+const mockTextResponses = (...texts: string[]) => {
+    for (const text of texts) {
+        vi.mocked(aiGenerateText).mockResolvedValueOnce({ text } as never);
+    }
+};
+
+describe("Structured output", () => {
+    beforeEach(() => {
+        vi.mocked(aiGenerateText).mockReset();
+        vi.mocked(aiGenerateObject).mockReset();
+    });
+
+    it("should re-prompt text providers with the validation errors", async () => {
+        mockTextResponses(
+            '```json\n{ "name": "SOL", "amount": "ten" }\n```',
+            '```json\n{ "name": "SOL", "amount": 10 }\n```'
+        );
+
+        const value = await generateStructuredObject({
+            runtime: createRuntime(ModelProviderName.HEURIST),
+            context: "Extract the transfer",
+            modelClass: ModelClass.SMALL,
+            schema,
+        });
+
+        expect(value).toEqual({ name: "SOL", amount: 10 });
+        const repairPrompt = vi.mocked(aiGenerateText).mock.calls[1][0].prompt;
+        expect(repairPrompt).toContain("Extract the transfer");
+        expect(repairPrompt).toContain('"amount": "ten"');
+        expect(repairPrompt).toContain("amount: Expected number");
+    });
+
+    it("should throw a typed error once the repair attempts are exhausted", async () => {
+        mockTextResponses("I cannot do that", '{ "name": "SOL" }');
+
+        const error = await generateStructuredObject({
+            runtime: createRuntime(ModelProviderName.HEURIST),
+            context: "Extract the transfer",
+            modelClass: ModelClass.SMALL,
+            schema,
+            maxRepairAttempts: 1,
+        }).catch((error) => error);
+
+        expect(error).toBeInstanceOf(StructuredOutputValidationError);
+        expect(error.issues[0].path).toEqual(["amount"]);
+        expect(error.attempts).toEqual([
+            expect.objectContaining({
+                mode: "text",
+                error: "Output does not contain a JSON value",
+            }),
+            expect.objectContaining({ mode: "text" }),
+        ]);
+    });
+
+    it("should use native structured output when the provider supports it", async () => {
+        vi.mocked(aiGenerateObject).mockResolvedValueOnce({
+            object: { name: "SOL", amount: 10 },
+        } as never);
+
+        const value = await generateStructuredObject({
+            runtime: createRuntime(ModelProviderName.OPENAI),
+            context: "Extract the transfer",
+            modelClass: ModelClass.SMALL,
+            schema,
+        });
+
+        expect(value).toEqual({ name: "SOL", amount: 10 });
+        expect(aiGenerateObject).toHaveBeenCalledWith(
+            expect.objectContaining({ schema, mode: "json" })
+        );
+        expect(aiGenerateText).not.toHaveBeenCalled();
+    });
+
+    it("should repair output rejected by the native mode", async () => {
+        vi.mocked(aiGenerateObject)
+            .mockRejectedValueOnce(
+                new NoObjectGeneratedError({
+                    text: '{ "name": "SOL" }',
+                    response: undefined,
+                    usage: undefined,
+                })
+            )
+            .mockResolvedValueOnce({
+                object: { name: "SOL", amount: 10 },
+            } as never);
+
+        const value = await generateStructuredObject({
+            runtime: createRuntime(ModelProviderName.OPENAI),
+            context: "Extract the transfer",
+            modelClass: ModelClass.SMALL,
+            schema,
+        });
+
+        expect(value).toEqual({ name: "SOL", amount: 10 });
+        expect(vi.mocked(aiGenerateObject).mock.calls[1][0].prompt).toContain(
+            "amount: Required"
+        );
+    });
+
+    describe("parseStructuredOutput", () => {
+        it("should read fenced and bare JSON", () => {
+            expect(
+                parseStructuredOutput('Sure:\n```json\n{ "a": 1 }\n```')
+            ).toEqual({ a: 1 });
+            expect(parseStructuredOutput("Result: [1, 2] as asked")).toEqual([
+                1, 2,
+            ]);
+            expect(parseStructuredOutput(`{ "a": 'b' }`)).toEqual({ a: "b" });
+        });
+
+        it("should throw a parse error on malformed output", () => {
+            expect(() => parseStructuredOutput("{ a: ")).toThrow(
+                StructuredOutputParseError
+            );
+            expect(() => parseStructuredOutput("no json here")).toThrow(
+                StructuredOutputParseError
+            );
+        });
+    });
+});
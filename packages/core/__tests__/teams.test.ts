@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TeamCoordinator } from "../src/teams";
+import type { TeamConfig, TeamMessage } from "../src/types";
+
+const LEADER = "100";
+const DEFI = "200";
+const ART = "300";
+
+/**
+ * Chat room relaying every message to the agents of a team, which answer when it is their turn
+ * and take `replyLatencyMs` to write their answer
+ */
+class FakeRoom {
+    messages: { authorId: string; text: string }[] = [];
+    agents: { id: string; team: TeamCoordinator }[] = [];
+
+    constructor(private replyLatencyMs = 0) {}
+
+    join(id: string, config: TeamConfig) {
+        const team = new TeamCoordinator(id, config, {
+            // members answer at once, the leader after them
+            timings: {
+                memberDelayMin: 0,
+                memberDelayMax: 0,
+                leaderDelayMin: 20,
+                leaderDelayMax: 20,
+            },
+        });
+        this.agents.push({ id, team });
+    }
+
+    async post(authorId: string, text: string, mentionedIds: string[] = []) {
+        const message: TeamMessage = {
+            roomId: "room",
+            authorId,
+            text,
+            mentionedIds,
+            createdAt: Date.now(),
+        };
+        this.messages.push({ authorId, text });
+        for (const agent of this.agents) {
+            agent.team.observe(message);
+        }
+        await Promise.all(
+            this.agents.map(async (agent) => {
+                if (await agent.team.takeTurn(message)) {
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, this.replyLatencyMs)
+                    );
+                    await this.post(agent.id, `${agent.id} answers "${text}"`);
+                }
+            })
+        );
+    }
+
+    answersTo(text: string) {
+        return this.messages
+            .filter((message) => message.text.endsWith(`answers "${text}"`))
+            .map((message) => message.authorId);
+    }
+}
+
+describe("TeamCoordinator", () => {
+    let room: FakeRoom;
+
+    beforeEach(() => {
+        const teamAgentIds = [LEADER, DEFI, ART];
+        room = new FakeRoom();
+        room.join(LEADER, {
+            isPartOfTeam: true,
+            teamAgentIds,
+            teamMemberInterestKeywords: ["nft"],
+        });
+        room.join(DEFI, {
+            isPartOfTeam: true,
+            teamAgentIds,
+            teamMemberInterestKeywords: ["defi", "yield"],
+        });
+        room.join(ART, {
+            isPartOfTeam: true,
+            teamAgentIds,
+            teamMemberInterestKeywords: ["nft", "art"],
+        });
+    });
+
+    it("should elect the same leader in every agent", () => {
+        expect(room.agents.map(({ team }) => team.getLeaderId())).toEqual([
+            LEADER,
+            LEADER,
+            LEADER,
+        ]);
+        expect(room.agents.map(({ team }) => team.isTeamLeader())).toEqual([
+            true,
+            false,
+            false,
+        ]);
+    });
+
+    it("should let one agent answer at a time", async () => {
+        await room.post("user", "what is the weather like?");
+        expect(room.answersTo("what is the weather like?")).toEqual([LEADER]);
+
+        await room.post("user", "any good defi protocols?");
+        expect(room.answersTo("any good defi protocols?")).toEqual([DEFI]);
+
+        // the member handling the room keeps the conversation, the leader yields
+        await room.post("user", "which one is the safest?");
+        expect(room.answersTo("which one is the safest?")).toEqual([DEFI]);
+
+        await room.post("user", "show me some nft collections");
+        expect(room.answersTo("show me some nft collections")).toEqual([ART]);
+    });
+
+    it("should leave member interests to the members however long they take to answer", async () => {
+        const teamAgentIds = [LEADER, DEFI, ART];
+        const teamMemberInterests = {
+            [DEFI]: ["defi", "yield"],
+            [ART]: ["nft", "art"],
+        };
+        // answers take longer than the leader waits for the members
+        room = new FakeRoom(50);
+        for (const id of teamAgentIds) {
+            room.join(id, {
+                isPartOfTeam: true,
+                teamAgentIds,
+                teamMemberInterests,
+            });
+        }
+
+        await room.post("user", "what is the weather like?");
+        expect(room.answersTo("what is the weather like?")).toEqual([LEADER]);
+
+        // the leader handles the room but leaves the message to the member
+        await room.post("user", "any good defi protocols?");
+        expect(room.answersTo("any good defi protocols?")).toEqual([DEFI]);
+
+        await room.post("user", "and some nft collections?");
+        expect(room.answersTo("and some nft collections?")).toEqual([ART]);
+    });
+
+    it("should answer direct mentions and coordination requests without loops", async () => {
+        await room.post("user", "hey, what do you think?", [ART]);
+        expect(room.answersTo("hey, what do you think?")).toEqual([ART]);
+
+        await room.post("user", "gm team");
+        expect(room.answersTo("gm team").sort()).toEqual([LEADER, DEFI, ART]);
+
+        // only the user message and the three answers, agents do not answer each other
+        expect(room.messages).toHaveLength(6);
+    });
+
+    it("should answer everything outside of a team", async () => {
+        const team = new TeamCoordinator("400");
+        expect(
+            await team.takeTurn({
+                roomId: "room",
+                authorId: DEFI,
+                text: "gm",
+            })
+        ).toBe(true);
+        expect(team.isTeamMember(DEFI)).toBe(false);
+    });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { generateText as aiGenerateText } from "ai";
+import { generateText } from "../src/generation";
+import { CacheManager, MemoryCacheAdapter } from "../src/cache";
+import {
+    getUsageCost,
+    UsageBudgetExceededError,
+    UsageLedger,
+} from "../src/usage";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    ModelProviderName,
+    type UsageBudget,
+} from "../src/types";
+
+vi.mock("ai", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("ai")>()),
+    generateText: vi.fn(),
+}));
+
+const log = vi.fn();
+
+const createRuntime = (
+    usageBudget?: UsageBudget,
+    cacheManager = new CacheManager(new MemoryCacheAdapter())
+) => {
+    const runtime = {
+        agentId: "00000000-0000-0000-0000-000000000001",
+        modelProvider: ModelProviderName.OPENAI,
+        token: "key",
+        fetch,
+        cacheManager,
+        databaseAdapter: { log },
+        character: {
+            name: "Test",
+            modelProvider: ModelProviderName.OPENAI,
+            settings: { usageBudget },
+        },
+        getSetting: () => undefined,
+    } as unknown as IAgentRuntime;
+    runtime.usageLedger = new UsageLedger(runtime);
+    return runtime;
+};
+
+const gpt4oMiniCall = {
+    provider: ModelProviderName.OPENAI,
+    model: "gpt-4o-mini",
+    modelClass: ModelClass.SMALL,
+    promptTokens: 1_000_000,
+    completionTokens: 1_000_000,
+};
+
+describe("Usage ledger", () => {
+    beforeEach(() => {
+        log.mockClear();
+        vi.mocked(aiGenerateText).mockReset();
+        vi.mocked(aiGenerateText).mockResolvedValue({
+            text: "response",
+            usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+        } as never);
+    });
+
+    it("should price calls with the pricing of their model", async () => {
+        const runtime = createRuntime();
+
+        const entry = await runtime.usageLedger.record(gpt4oMiniCall);
+        expect(entry.totalTokens).toBe(2_000_000);
+        expect(entry.cost).toBeCloseTo(0.75);
+
+        const unknown = await runtime.usageLedger.record({
+            ...gpt4oMiniCall,
+            model: "custom-model",
+        });
+        expect(unknown.cost).toBe(0);
+    });
+
+    it("should price a model overriding a class as that model", async () => {
+        const runtime = createRuntime();
+
+        // e.g. SMALL_OPENAI_MODEL=gpt-4o
+        const entry = await runtime.usageLedger.record({
+            ...gpt4oMiniCall,
+            model: "gpt-4o",
+        });
+        expect(entry.cost).toBeCloseTo(12.5);
+    });
+
+    it("should aggregate the daily summary by class, model, caller and room", async () => {
+        const runtime = createRuntime();
+
+        await runtime.usageLedger.record({
+            ...gpt4oMiniCall,
+            caller: "generateText",
+            roomId: "room-1",
+        });
+        await runtime.usageLedger.record({
+            ...gpt4oMiniCall,
+            caller: "evaluate",
+            roomId: "room-1",
+        });
+
+        const summary = await runtime.usageLedger.getSummary();
+        expect(summary.calls).toBe(2);
+        expect(summary.totalTokens).toBe(4_000_000);
+        expect(summary.byModelClass[ModelClass.SMALL].calls).toBe(2);
+        expect(summary.byModel["openai/gpt-4o-mini"].calls).toBe(2);
+        expect(summary.byCaller.evaluate.calls).toBe(1);
+        expect(summary.byRoom["room-1"].cost).toBeCloseTo(1.5);
+        expect(
+            runtime.usageLedger.getEntries({ caller: "evaluate" })
+        ).toHaveLength(1);
+        expect(log).toHaveBeenCalledWith(
+            expect.objectContaining({ type: "usage" })
+        );
+    });
+
+    it("should keep daily totals across ledgers sharing a cache", async () => {
+        const cacheManager = new CacheManager(new MemoryCacheAdapter());
+        await createRuntime(undefined, cacheManager).usageLedger.record(
+            gpt4oMiniCall
+        );
+
+        const summary = await createRuntime(
+            undefined,
+            cacheManager
+        ).usageLedger.getSummary();
+        expect(summary.totalTokens).toBe(2_000_000);
+    });
+
+    it("should record the usage of generateText calls", async () => {
+        const runtime = createRuntime();
+
+        await generateText({
+            runtime,
+            context: "Hello",
+            modelClass: ModelClass.SMALL,
+            usageTags: { roomId: "room-1" },
+        });
+
+        expect(runtime.usageLedger.getEntries()).toEqual([
+            expect.objectContaining({
+                provider: ModelProviderName.OPENAI,
+                model: "gpt-4o-mini",
+                modelClass: ModelClass.SMALL,
+                caller: "generateText",
+                roomId: "room-1",
+                promptTokens: 12,
+                completionTokens: 3,
+            }),
+        ]);
+    });
+
+    it("should refuse generation once the daily budget is exceeded", async () => {
+        const runtime = createRuntime({ dailyCost: 0.5 });
+        await runtime.usageLedger.record(gpt4oMiniCall);
+
+        await expect(
+            generateText({
+                runtime,
+                context: "Hello",
+                modelClass: ModelClass.SMALL,
+            })
+        ).rejects.toThrow(UsageBudgetExceededError);
+        expect(aiGenerateText).not.toHaveBeenCalled();
+    });
+
+    describe("getUsageCost", () => {
+        it("should charge tokens per million and images per unit", () => {
+            expect(
+                getUsageCost(
+                    { inputPerMillion: 2, outputPerMillion: 8, perImage: 0.5 },
+                    {
+                        promptTokens: 500_000,
+                        completionTokens: 250_000,
+                        images: 2,
+                    }
+                )
+            ).toBeCloseTo(4);
+            expect(getUsageCost(undefined, { promptTokens: 10 })).toBe(0);
+        });
+    });
+});
@@ -1,5 +1,15 @@
 import { names, uniqueNamesGenerator } from "unique-names-generator";
-import type { Action, ActionExample } from "./types.ts";
+import {
+    type Action,
+    type ActionCall,
+    type ActionCandidate,
+    type ActionExample,
+    ActionMatchType,
+    type ActionResolution,
+    type ActionResolutionOptions,
+    ActionResolutionStatus,
+    type Content,
+} from "./types.ts";
 
 /**
  * Composes a set of example conversations based on provided actions and a specified count.
@@ -38,7 +48,10 @@ export const composeActionExamples = (actionsData: Action[], count: number) => {
 
         return `\n${example
             .map((message) => {
-                let messageString = `${message.user}: ${message.content.text}${message.content.action ? ` (${message.content.action})` : ""}`;
+                const actionNames = getActionCalls(message.content)
+                    .map((call) => call.name)
+                    .join(", ");
+                let messageString = `${message.user}: ${message.content.text}${actionNames ? ` (${actionNames})` : ""}`;
                 for (let i = 0; i < exampleNames.length; i++) {
                     messageString = messageString.replaceAll(
                         `{{user${i + 1}}}`,
@@ -76,3 +89,322 @@ export function formatActions(actions: Action[]) {
         .map((action: Action) => `${action.name}: ${action.description}`)
         .join(",\n");
 }
+
+const DEFAULT_FUZZY_THRESHOLD = 0.75;
+const DEFAULT_AMBIGUITY_MARGIN = 0.05;
+
+/**
+ * Splits an action name into lowercase tokens, treating underscores, dashes,
+ * whitespace and camelCase boundaries as separators.
+ * @param name - The action name or simile to tokenize.
+ * @returns The lowercase tokens of the name.
+ */
+function tokenizeActionName(name: string): string[] {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+/**
+ * Normalizes an action name so that `SEND_TOKEN`, `send-token` and `sendToken` compare equal.
+ * @param name - The action name or simile to normalize.
+ * @returns The normalized name.
+ */
+export function normalizeActionName(name: string): string {
+    return tokenizeActionName(name).join("_");
+}
+
+function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + cost
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function editSimilarity(a: string, b: string): number {
+    const maxLength = Math.max(a.length, b.length);
+    return maxLength === 0 ? 1 : 1 - levenshtein(a, b) / maxLength;
+}
+
+function tokenCoverage(source: string[], target: string[]): number {
+    if (!source.length || !target.length) return 0;
+    const total = source.reduce(
+        (sum, token) =>
+            sum +
+            Math.max(...target.map((other) => editSimilarity(token, other))),
+        0
+    );
+    return total / source.length;
+}
+
+/**
+ * Scores how similar two action names are, between 0 and 1.
+ *
+ * The score averages a symmetric token-level similarity (so `TRANSFER_TOKENS` is close to
+ * `TRANSFER_TOKEN`) with the edit similarity of the names with separators removed. Extra or
+ * missing tokens are penalized, so `SEND` does not match `SEND_TOKEN`.
+ * @param requested - The action name requested by the model.
+ * @param candidate - A registered action name or simile.
+ * @returns The similarity score.
+ */
+export function scoreActionName(requested: string, candidate: string): number {
+    const requestedTokens = tokenizeActionName(requested);
+    const candidateTokens = tokenizeActionName(candidate);
+
+    const tokenScore =
+        (tokenCoverage(requestedTokens, candidateTokens) +
+            tokenCoverage(candidateTokens, requestedTokens)) /
+        2;
+    const compactScore = editSimilarity(
+        requestedTokens.join(""),
+        candidateTokens.join("")
+    );
+
+    return (tokenScore + compactScore) / 2;
+}
+
+/**
+ * Converts the `action` field of a response into a structured action call.
+ * Accepts plain action names as well as `{ name, params }` objects.
+ * @param value - The raw action value from the response content.
+ * @returns The action call, or null if the value is not a usable action.
+ */
+export function parseActionCall(value: unknown): ActionCall | null {
+    if (typeof value === "string") {
+        const name = value.trim();
+        return name ? { name } : null;
+    }
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+        const { name, params } = value as { name?: unknown; params?: unknown };
+        if (typeof name !== "string" || !name.trim()) {
+            return null;
+        }
+        return {
+            name: name.trim(),
+            params:
+                params && typeof params === "object" && !Array.isArray(params)
+                    ? (params as { [key: string]: unknown })
+                    : undefined,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Collects the ordered action calls of a response. The `actions` list takes precedence
+ * over the single `action` field; entries that are not usable actions are dropped.
+ * @param content - The response content.
+ * @returns The action calls to run, in order.
+ */
+export function getActionCalls(content?: Content): ActionCall[] {
+    if (!content) {
+        return [];
+    }
+
+    const requested =
+        Array.isArray(content.actions) && content.actions.length > 0
+            ? content.actions
+            : [content.action];
+
+    return requested.map(parseActionCall).filter(Boolean);
+}
+
+function findByName(
+    actions: Action[],
+    requested: string,
+    matchType: ActionMatchType
+): ActionCandidate[] {
+    const normalized = normalizeActionName(requested);
+    const candidates: ActionCandidate[] = [];
+
+    for (const action of actions) {
+        const names =
+            matchType === ActionMatchType.EXACT
+                ? [action.name]
+                : (action.similes ?? []);
+        const matchedOn = names.find(
+            (name) => normalizeActionName(name) === normalized
+        );
+        if (matchedOn) {
+            candidates.push({
+                name: action.name,
+                matchedOn,
+                matchType,
+                score: 1,
+            });
+        }
+    }
+
+    return candidates;
+}
+
+function rankFuzzyCandidates(
+    actions: Action[],
+    requested: string
+): ActionCandidate[] {
+    return actions
+        .map((action) => {
+            let best: ActionCandidate = {
+                name: action.name,
+                matchedOn: action.name,
+                matchType: ActionMatchType.FUZZY,
+                score: scoreActionName(requested, action.name),
+            };
+            for (const simile of action.similes ?? []) {
+                const score = scoreActionName(requested, simile);
+                if (score > best.score) {
+                    best = { ...best, matchedOn: simile, score };
+                }
+            }
+            return best;
+        })
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+function validateActionParams(
+    action: Action,
+    params?: { [key: string]: unknown }
+): { params?: { [key: string]: unknown }; errors?: string[] } {
+    if (!action.parameters) {
+        return { params };
+    }
+
+    const result = action.parameters.safeParse(params ?? {});
+    if (result.success) {
+        return { params: result.data };
+    }
+
+    return {
+        params,
+        errors: result.error.issues.map(
+            (issue) =>
+                `${issue.path.length ? issue.path.join(".") : "params"}: ${issue.message}`
+        ),
+    };
+}
+
+/**
+ * Resolves an action name or structured action call to a registered action.
+ *
+ * Resolution is deterministic: an exact name lookup is tried first, then a simile lookup,
+ * then (unless disabled) a scored fuzzy match. Several actions matching at the same stage,
+ * or fuzzy candidates scoring within `ambiguityMargin` of each other, yield an ambiguous
+ * result instead of whichever action was registered first. Params of a resolved call are
+ * validated against the action's `parameters` schema.
+ *
+ * @param actions - The registered actions to resolve against.
+ * @param call - The requested action name or structured action call.
+ * @param options - Fuzzy matching options.
+ * @returns The resolution, including the ranked candidates that were considered.
+ */
+export function resolveAction(
+    actions: Action[],
+    call: string | ActionCall,
+    options: ActionResolutionOptions = {}
+): ActionResolution {
+    const {
+        fuzzyMatching = true,
+        fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD,
+        ambiguityMargin = DEFAULT_AMBIGUITY_MARGIN,
+    } = options;
+    const { name: requested, params } =
+        typeof call === "string" ? { name: call, params: undefined } : call;
+
+    let candidates = findByName(actions, requested, ActionMatchType.EXACT);
+    if (!candidates.length) {
+        candidates = findByName(actions, requested, ActionMatchType.SIMILE);
+    }
+
+    if (!candidates.length && fuzzyMatching) {
+        const ranked = rankFuzzyCandidates(actions, requested);
+        const [best] = ranked;
+        candidates =
+            best && best.score >= fuzzyThreshold
+                ? ranked.filter(
+                      (candidate) =>
+                          candidate.score >= fuzzyThreshold &&
+                          best.score - candidate.score <= ambiguityMargin
+                  )
+                : ranked.slice(0, 3);
+        if (!best || best.score < fuzzyThreshold) {
+            return {
+                status: ActionResolutionStatus.NOT_FOUND,
+                requested,
+                params,
+                candidates,
+            };
+        }
+    }
+
+    if (!candidates.length) {
+        return {
+            status: ActionResolutionStatus.NOT_FOUND,
+            requested,
+            params,
+            candidates,
+        };
+    }
+
+    if (candidates.length > 1) {
+        return {
+            status: ActionResolutionStatus.AMBIGUOUS,
+            requested,
+            params,
+            candidates,
+        };
+    }
+
+    const [match] = candidates;
+    const action = actions.find((a) => a.name === match.name);
+    const validation = validateActionParams(action, params);
+
+    return {
+        status: validation.errors
+            ? ActionResolutionStatus.INVALID_PARAMS
+            : ActionResolutionStatus.RESOLVED,
+        requested,
+        action,
+        matchType: match.matchType,
+        score: match.score,
+        params: validation.params,
+        candidates,
+        errors: validation.errors,
+    };
+}
+
+/**
+ * Resolves the actions a response asks for the same way `processActions` does, so callers
+ * can inspect flags such as `suppressInitialMessage` before the chain runs. Calls that do
+ * not resolve to a single registered action are left out.
+ * @param actions - The registered actions to resolve against.
+ * @param content - The response content.
+ * @param options - Fuzzy matching options.
+ * @returns The requested actions, in order.
+ */
+export function getRequestedActions(
+    actions: Action[],
+    content?: Content,
+    options?: ActionResolutionOptions
+): Action[] {
+    return getActionCalls(content)
+        .map((call) => resolveAction(actions, call, options).action)
+        .filter(Boolean);
+}
@@ -0,0 +1,1022 @@
+import fs from "fs";
+import path from "path";
+import { getEmbeddingConfig } from "./embedding.ts";
+import {
+    type AdapterCapabilityStatus,
+    type AdapterConformanceReport,
+    type AdapterConformanceResult,
+    GoalStatus,
+    type IDatabaseAdapter,
+    type IDatabaseCacheAdapter,
+    type Memory,
+    type UUID,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+/**
+ * Adapter under test. Cache checks only apply when it also implements the database cache.
+ */
+type ConformanceAdapter = IDatabaseAdapter & Partial<IDatabaseCacheAdapter>;
+
+interface ConformanceContext {
+    adapter: ConformanceAdapter;
+    agentId: UUID;
+    userId: UUID;
+    /** Returns an id unique to this run */
+    id(label: string): UUID;
+    /** Returns a unit vector along an axis, orthogonal to the other axes */
+    vector(axis: number): number[];
+    /** Creates a room with the agent and the user as participants */
+    createRoom(label: string): Promise<UUID>;
+    /** Stores a message of the user, `minutesAgo` minutes old */
+    createMessage(
+        roomId: UUID,
+        label: string,
+        minutesAgo: number,
+        axis?: number
+    ): Promise<Memory>;
+}
+
+interface ConformanceCheck {
+    capability: string;
+    methods: string[];
+    run(context: ConformanceContext): Promise<void>;
+}
+
+class ConformanceError extends Error {}
+
+function expectThat(condition: unknown, message: string): asserts condition {
+    if (!condition) {
+        throw new ConformanceError(message);
+    }
+}
+
+const texts = (memories: Memory[]) =>
+    JSON.stringify(memories.map((memory) => memory.content.text));
+
+const toTime = (createdAt: unknown) => new Date(createdAt as number).getTime();
+
+const isUnsupported = (error: unknown) =>
+    /not (yet )?(implemented|supported)/i.test(
+        (error as Error)?.message ?? String(error)
+    );
+
+/**
+ * The contract of `IDatabaseAdapter` and `IDatabaseCacheAdapter`, one check per capability.
+ * Checks only rely on the rooms and accounts they create, so they run against shared databases.
+ */
+export const ADAPTER_CONFORMANCE_CHECKS: ConformanceCheck[] = [
+    {
+        capability: "accounts",
+        methods: ["createAccount", "getAccountById"],
+        async run({ adapter, id }) {
+            const accountId = id("account");
+            expectThat(
+                await adapter.createAccount({
+                    id: accountId,
+                    name: "Conformance",
+                    username: "conformance",
+                    details: { summary: "checks adapters" },
+                }),
+                "createAccount did not return true"
+            );
+            const account = await adapter.getAccountById(accountId);
+            expectThat(
+                account?.name === "Conformance" &&
+                    account.username === "conformance",
+                "getAccountById did not return the account"
+            );
+            expectThat(
+                account.details?.summary === "checks adapters",
+                "account details were not stored as an object"
+            );
+            expectThat(
+                (await adapter.getAccountById(id("missing-account"))) === null,
+                "getAccountById did not return null for an unknown account"
+            );
+        },
+    },
+    {
+        capability: "rooms",
+        methods: ["createRoom", "getRoom", "removeRoom"],
+        async run({ adapter, id }) {
+            const roomId = id("room");
+            expectThat(
+                (await adapter.createRoom(roomId)) === roomId,
+                "createRoom did not return the given id"
+            );
+            expectThat(
+                (await adapter.getRoom(roomId)) === roomId,
+                "getRoom did not find the room"
+            );
+            await adapter.removeRoom(roomId);
+            expectThat(
+                (await adapter.getRoom(roomId)) === null,
+                "getRoom found a removed room"
+            );
+        },
+    },
+    {
+        capability: "participants",
+        methods: [
+            "addParticipant",
+            "getParticipantsForRoom",
+            "getRoomsForParticipant",
+            "getRoomsForParticipants",
+            "removeParticipant",
+        ],
+        async run({ adapter, agentId, userId, createRoom }) {
+            const roomId = await createRoom("participants");
+            const participants = await adapter.getParticipantsForRoom(roomId);
+            expectThat(
+                participants.length === 2 &&
+                    participants.includes(agentId) &&
+                    participants.includes(userId),
+                `getParticipantsForRoom returned ${JSON.stringify(participants)}`
+            );
+            expectThat(
+                (await adapter.getRoomsForParticipant(userId)).includes(roomId),
+                "getRoomsForParticipant did not list the room"
+            );
+            expectThat(
+                (
+                    await adapter.getRoomsForParticipants([userId, agentId])
+                ).includes(roomId),
+                "getRoomsForParticipants did not list the room"
+            );
+            await adapter.removeParticipant(userId, roomId);
+            expectThat(
+                !(await adapter.getParticipantsForRoom(roomId)).includes(
+                    userId
+                ),
+                "removeParticipant left the participant in the room"
+            );
+        },
+    },
+    {
+        capability: "participants.accounts",
+        methods: ["getParticipantsForAccount", "getActorDetails"],
+        async run({ adapter, userId, createRoom }) {
+            const roomId = await createRoom("participant-accounts");
+            expectThat(
+                (await adapter.getParticipantsForAccount(userId)).length > 0,
+                "getParticipantsForAccount returned no participation"
+            );
+            const actors = await adapter.getActorDetails({ roomId });
+            expectThat(
+                actors.some((actor) => actor.id === userId),
+                "getActorDetails did not return the participants"
+            );
+        },
+    },
+    {
+        capability: "participants.userState",
+        methods: ["setParticipantUserState", "getParticipantUserState"],
+        async run({ adapter, userId, createRoom }) {
+            const roomId = await createRoom("user-state");
+            await adapter.setParticipantUserState(roomId, userId, "FOLLOWED");
+            expectThat(
+                (await adapter.getParticipantUserState(roomId, userId)) ===
+                    "FOLLOWED",
+                "getParticipantUserState did not return the stored state"
+            );
+            await adapter.setParticipantUserState(roomId, userId, null);
+            expectThat(
+                (await adapter.getParticipantUserState(roomId, userId)) ===
+                    null,
+                "getParticipantUserState did not return null once cleared"
+            );
+        },
+    },
+    {
+        capability: "memories",
+        methods: ["createMemory", "getMemoryById", "getMemoriesByIds"],
+        async run({ adapter, createRoom, createMessage }) {
+            const roomId = await createRoom("memories");
+            const created = await createMessage(roomId, "stored", 1);
+            const memory = await adapter.getMemoryById(created.id);
+            expectThat(memory, "getMemoryById did not find the memory");
+            expectThat(
+                memory.content.text === created.content.text &&
+                    memory.roomId === roomId &&
+                    memory.userId === created.userId,
+                "getMemoryById did not return the stored memory"
+            );
+            expectThat(
+                toTime(memory.createdAt) === created.createdAt,
+                `createdAt was returned as ${memory.createdAt} instead of ${created.createdAt}`
+            );
+            const memories = await adapter.getMemoriesByIds(
+                [created.id],
+                "messages"
+            );
+            expectThat(
+                memories.length === 1 && memories[0].id === created.id,
+                "getMemoriesByIds did not return the memory"
+            );
+        },
+    },
+    {
+        capability: "memories.ordering",
+        methods: ["getMemories"],
+        async run({ adapter, agentId, createRoom, createMessage }) {
+            const roomId = await createRoom("ordering");
+            await createMessage(roomId, "oldest", 3);
+            await createMessage(roomId, "newest", 1);
+            await createMessage(roomId, "middle", 2);
+            const memories = await adapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId,
+            });
+            expectThat(
+                texts(memories) ===
+                    texts([
+                        { content: { text: "newest" } },
+                        { content: { text: "middle" } },
+                        { content: { text: "oldest" } },
+                    ] as Memory[]),
+                `getMemories did not return newest first: ${texts(memories)}`
+            );
+            const latest = await adapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId,
+                count: 1,
+            });
+            expectThat(
+                latest.length === 1 && latest[0].content.text === "newest",
+                `getMemories with a count did not return the newest: ${texts(latest)}`
+            );
+        },
+    },
+    {
+        capability: "memories.timeRange",
+        methods: ["getMemories"],
+        async run({ adapter, agentId, createRoom, createMessage }) {
+            const roomId = await createRoom("time-range");
+            await createMessage(roomId, "before", 30);
+            const inside = await createMessage(roomId, "inside", 20);
+            await createMessage(roomId, "after", 10);
+            const memories = await adapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId,
+                start: inside.createdAt - 60_000,
+                end: inside.createdAt + 60_000,
+            });
+            expectThat(
+                texts(memories) === texts([inside]),
+                `getMemories with start and end returned ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "memories.rooms",
+        methods: ["getMemoriesByRoomIds"],
+        async run({ adapter, agentId, createRoom, createMessage }) {
+            const first = await createRoom("rooms-first");
+            const second = await createRoom("rooms-second");
+            await createMessage(first, "first", 2);
+            await createMessage(second, "second", 1);
+            const memories = await adapter.getMemoriesByRoomIds({
+                tableName: "messages",
+                agentId,
+                roomIds: [first, second],
+            });
+            expectThat(
+                memories.length === 2,
+                `getMemoriesByRoomIds returned ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "memories.unique",
+        methods: ["createMemory", "getMemories"],
+        async run({ adapter, agentId, userId, id, vector, createRoom }) {
+            const roomId = await createRoom("unique");
+            const base = {
+                userId,
+                agentId,
+                roomId,
+                embedding: vector(0),
+                createdAt: Date.now() - 60_000,
+            };
+            await adapter.createMemory(
+                {
+                    ...base,
+                    id: id("unique-original"),
+                    content: { text: "original" },
+                },
+                "messages",
+                true
+            );
+            await adapter.createMemory(
+                {
+                    ...base,
+                    id: id("unique-duplicate"),
+                    content: { text: "duplicate" },
+                    createdAt: base.createdAt + 1,
+                },
+                "messages",
+                true
+            );
+            const memories = await adapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId,
+                unique: true,
+            });
+            expectThat(
+                texts(memories) ===
+                    texts([{ content: { text: "original" } }] as Memory[]),
+                `a duplicate stored as unique was returned by unique reads: ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "memories.count",
+        methods: ["countMemories"],
+        async run({ adapter, createRoom, createMessage }) {
+            const roomId = await createRoom("count");
+            await createMessage(roomId, "one", 2);
+            await createMessage(roomId, "two", 1);
+            const count = await adapter.countMemories(
+                roomId,
+                false,
+                "messages"
+            );
+            expectThat(count === 2, `countMemories returned ${count}`);
+        },
+    },
+    {
+        capability: "memories.remove",
+        methods: ["removeMemory", "removeAllMemories"],
+        async run({ adapter, agentId, createRoom, createMessage }) {
+            const roomId = await createRoom("remove");
+            const removed = await createMessage(roomId, "removed", 3);
+            await createMessage(roomId, "kept", 2);
+            await createMessage(roomId, "also kept", 1);
+            await adapter.removeMemory(removed.id, "messages");
+            expectThat(
+                (await adapter.getMemoryById(removed.id)) === null,
+                "removeMemory left the memory"
+            );
+            await adapter.removeAllMemories(roomId, "messages");
+            const memories = await adapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId,
+            });
+            expectThat(
+                memories.length === 0,
+                `removeAllMemories left ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "memories.search",
+        methods: ["searchMemories"],
+        async run({ adapter, agentId, vector, createRoom, createMessage }) {
+            const roomId = await createRoom("search");
+            await createMessage(roomId, "x", 3, 0);
+            await createMessage(roomId, "y", 2, 1);
+            await createMessage(roomId, "z", 1, 2);
+            const memories = await adapter.searchMemories({
+                tableName: "messages",
+                agentId,
+                roomId,
+                embedding: vector(1),
+                match_threshold: 0.5,
+                match_count: 1,
+                unique: false,
+            });
+            expectThat(
+                memories.length === 1 && memories[0].content.text === "y",
+                `searchMemories did not return the closest memory: ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "memories.searchThreshold",
+        methods: ["searchMemoriesByEmbedding"],
+        async run({ adapter, agentId, vector, createRoom, createMessage }) {
+            const roomId = await createRoom("search-threshold");
+            await createMessage(roomId, "orthogonal", 2, 1);
+            await createMessage(roomId, "identical", 1, 0);
+            const memories = await adapter.searchMemoriesByEmbedding(
+                vector(0),
+                {
+                    tableName: "messages",
+                    agentId,
+                    roomId,
+                    match_threshold: 0.9,
+                    count: 10,
+                }
+            );
+            expectThat(
+                memories[0]?.content.text === "identical",
+                `searchMemoriesByEmbedding did not return the closest memory first: ${texts(memories)}`
+            );
+            expectThat(
+                memories.length === 1,
+                `searchMemoriesByEmbedding returned memories below the threshold: ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "memories.updateEmbedding",
+        methods: ["updateMemoryEmbedding"],
+        async run({ adapter, vector, createRoom, createMessage }) {
+            const roomId = await createRoom("update-embedding");
+            const memory = await createMessage(roomId, "before", 1, 0);
+            await adapter.updateMemoryEmbedding(
+                {
+                    ...memory,
+                    content: { text: "after" },
+                    embedding: vector(1),
+                },
+                "messages"
+            );
+            const updated = await adapter.getMemoryById(memory.id);
+            expectThat(
+                updated?.content.text === "after",
+                "updateMemoryEmbedding did not replace the content"
+            );
+        },
+    },
+    {
+        capability: "memories.cachedEmbeddings",
+        methods: ["getCachedEmbeddings"],
+        async run({ adapter }) {
+            const embeddings = await adapter.getCachedEmbeddings({
+                query_table_name: "messages",
+                query_threshold: 2,
+                query_input: "conformance",
+                query_field_name: "content",
+                query_field_sub_name: "text",
+                query_match_count: 5,
+            });
+            expectThat(
+                Array.isArray(embeddings),
+                "getCachedEmbeddings did not return an array"
+            );
+        },
+    },
+    {
+        capability: "goals",
+        methods: [
+            "createGoal",
+            "getGoals",
+            "updateGoal",
+            "updateGoalStatus",
+            "removeGoal",
+            "removeAllGoals",
+        ],
+        async run({ adapter, agentId, userId, id, createRoom }) {
+            const roomId = await createRoom("goals");
+            const goal = {
+                id: id("goal"),
+                roomId,
+                userId,
+                name: "Check the adapter",
+                status: GoalStatus.IN_PROGRESS,
+                objectives: [{ description: "Store goals", completed: false }],
+            };
+            await adapter.createGoal(goal);
+            await adapter.createGoal({
+                ...goal,
+                id: id("other-goal"),
+                name: "Other",
+            });
+            const [stored] = await adapter.getGoals({
+                agentId,
+                roomId,
+                count: 1,
+            });
+            expectThat(
+                stored?.objectives?.[0]?.description === "Store goals",
+                "getGoals did not return the objectives as an array"
+            );
+
+            await adapter.updateGoal({ ...goal, name: "Renamed" });
+            await adapter.updateGoalStatus({
+                goalId: goal.id,
+                status: GoalStatus.DONE,
+            });
+            const inProgress = await adapter.getGoals({
+                agentId,
+                roomId,
+                onlyInProgress: true,
+            });
+            expectThat(
+                inProgress.length === 1 && inProgress[0].name === "Other",
+                "getGoals with onlyInProgress returned completed goals"
+            );
+            const all = await adapter.getGoals({ agentId, roomId });
+            expectThat(
+                all.some((existing) => existing.name === "Renamed"),
+                "updateGoal did not update the goal"
+            );
+
+            await adapter.removeGoal(goal.id);
+            expectThat(
+                (await adapter.getGoals({ agentId, roomId })).length === 1,
+                "removeGoal did not remove the goal"
+            );
+            await adapter.removeAllGoals(roomId);
+            expectThat(
+                (await adapter.getGoals({ agentId, roomId })).length === 0,
+                "removeAllGoals left goals in the room"
+            );
+        },
+    },
+    {
+        capability: "relationships",
+        methods: ["createRelationship", "getRelationship", "getRelationships"],
+        async run({ adapter, agentId, userId }) {
+            expectThat(
+                await adapter.createRelationship({
+                    userA: agentId,
+                    userB: userId,
+                }),
+                "createRelationship did not return true"
+            );
+            expectThat(
+                await adapter.getRelationship({
+                    userA: userId,
+                    userB: agentId,
+                }),
+                "getRelationship did not find the relationship with the users swapped"
+            );
+            const relationships = await adapter.getRelationships({ userId });
+            expectThat(
+                relationships.length === 1,
+                `getRelationships returned ${relationships.length} relationships`
+            );
+        },
+    },
+    {
+        capability: "logs",
+        methods: ["log"],
+        async run({ adapter, userId, createRoom }) {
+            const roomId = await createRoom("logs");
+            await adapter.log({
+                body: { check: "logs" },
+                userId,
+                roomId,
+                type: "conformance",
+            });
+        },
+    },
+    {
+        capability: "knowledge",
+        methods: [
+            "createKnowledge",
+            "getKnowledge",
+            "removeKnowledge",
+            "clearKnowledge",
+        ],
+        async run({ adapter, agentId, id, vector }) {
+            const knowledgeId = id("knowledge");
+            await adapter.createKnowledge({
+                id: knowledgeId,
+                agentId,
+                content: {
+                    text: "Adapters follow a contract",
+                    metadata: { isShared: false, source: "conformance.md" },
+                },
+                embedding: new Float32Array(vector(0)),
+                createdAt: Date.now(),
+            });
+            const [item] = await adapter.getKnowledge({
+                id: knowledgeId,
+                agentId,
+            });
+            expectThat(
+                item?.content.text === "Adapters follow a contract",
+                "getKnowledge did not return the stored item"
+            );
+            expectThat(
+                item.content.metadata?.source === "conformance.md",
+                "knowledge metadata was not stored"
+            );
+            await adapter.removeKnowledge(knowledgeId);
+            expectThat(
+                (await adapter.getKnowledge({ id: knowledgeId, agentId }))
+                    .length === 0,
+                "removeKnowledge left the item"
+            );
+
+            await adapter.createKnowledge({ ...item, id: id("cleared") });
+            await adapter.clearKnowledge(agentId);
+            expectThat(
+                (await adapter.getKnowledge({ agentId })).every(
+                    (knowledge) => knowledge.agentId !== agentId
+                ),
+                "clearKnowledge left items of the agent"
+            );
+        },
+    },
+    {
+        capability: "knowledge.chunks",
+        methods: ["createKnowledge", "getKnowledge", "removeKnowledgeChunks"],
+        async run({ adapter, agentId, id, vector }) {
+            const documentId = id("chunked-knowledge");
+            const chunkId = id("knowledge-chunk");
+            await adapter.createKnowledge({
+                id: documentId,
+                agentId,
+                content: { text: "Document", metadata: { isMain: true } },
+                embedding: new Float32Array(vector(0)),
+                createdAt: Date.now(),
+            });
+            await adapter.createKnowledge({
+                id: chunkId,
+                agentId,
+                content: {
+                    text: "Chunk",
+                    metadata: {
+                        isChunk: true,
+                        originalId: documentId,
+                        chunkIndex: 0,
+                    },
+                },
+                embedding: new Float32Array(vector(0)),
+                createdAt: Date.now(),
+            });
+            await adapter.removeKnowledgeChunks(documentId);
+            expectThat(
+                (await adapter.getKnowledge({ id: chunkId, agentId }))
+                    .length === 0,
+                "removeKnowledgeChunks left the chunk"
+            );
+            expectThat(
+                (await adapter.getKnowledge({ id: documentId, agentId }))
+                    .length === 1,
+                "removeKnowledgeChunks removed the document"
+            );
+            await adapter.removeKnowledge(documentId);
+        },
+    },
+    {
+        capability: "knowledge.search",
+        methods: ["createKnowledge", "searchKnowledge"],
+        async run({ adapter, agentId, id, vector }) {
+            for (const axis of [0, 1]) {
+                await adapter.createKnowledge({
+                    id: id(`search-knowledge-${axis}`),
+                    agentId,
+                    content: { text: `axis ${axis}`, metadata: {} },
+                    embedding: new Float32Array(vector(axis)),
+                    createdAt: Date.now(),
+                });
+            }
+            const results = await adapter.searchKnowledge({
+                agentId,
+                embedding: new Float32Array(vector(1)),
+                match_threshold: 0.5,
+                match_count: 5,
+            });
+            expectThat(
+                results[0]?.content.text === "axis 1",
+                `searchKnowledge did not return the closest item first: ${JSON.stringify(
+                    results.map((item) => item.content.text)
+                )}`
+            );
+        },
+    },
+    {
+        capability: "knowledge.updateEmbedding",
+        methods: ["updateKnowledgeEmbedding"],
+        async run({ adapter, agentId, id, vector }) {
+            const knowledgeId = id("update-knowledge");
+            const item = {
+                id: knowledgeId,
+                agentId,
+                content: { text: "before", metadata: {} },
+                embedding: new Float32Array(vector(0)),
+                createdAt: Date.now(),
+            };
+            await adapter.createKnowledge(item);
+            await adapter.updateKnowledgeEmbedding({
+                ...item,
+                content: { text: "after", metadata: {} },
+                embedding: new Float32Array(vector(1)),
+            });
+            const [updated] = await adapter.getKnowledge({
+                id: knowledgeId,
+                agentId,
+            });
+            expectThat(
+                updated?.content.text === "after",
+                "updateKnowledgeEmbedding did not replace the content"
+            );
+        },
+    },
+    {
+        capability: "retention",
+        methods: ["applyRetention"],
+        async run({ adapter, agentId, createRoom, createMessage }) {
+            const roomId = await createRoom("retention");
+            await createMessage(roomId, "old", 3);
+            await createMessage(roomId, "older", 4);
+            await createMessage(roomId, "recent", 1);
+            const dryRun = await adapter.applyRetention({
+                tableName: "messages",
+                agentId,
+                maxCountPerRoom: 1,
+                dryRun: true,
+            });
+            expectThat(
+                dryRun >= 2,
+                `applyRetention counted ${dryRun} memories in a dry run`
+            );
+            await adapter.applyRetention({
+                tableName: "messages",
+                agentId,
+                maxCountPerRoom: 1,
+            });
+            const memories = await adapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId,
+            });
+            expectThat(
+                texts(memories) ===
+                    texts([{ content: { text: "recent" } }] as Memory[]),
+                `applyRetention kept ${texts(memories)}`
+            );
+        },
+    },
+    {
+        capability: "eraseUser",
+        methods: ["eraseUser"],
+        async run({ adapter, agentId, id }) {
+            const erasedId = id("erased");
+            await adapter.createAccount({
+                id: erasedId,
+                name: "Erased",
+                username: "erased",
+                email: "erased@conformance.test",
+                avatarUrl: "",
+                details: {},
+            });
+            const roomId = await adapter.createRoom(id("erased-room"));
+            await adapter.addParticipant(agentId, roomId);
+            await adapter.addParticipant(erasedId, roomId);
+            const memoryId = id("erased-message");
+            await adapter.createMemory(
+                {
+                    id: memoryId,
+                    userId: erasedId,
+                    agentId,
+                    roomId,
+                    content: { text: "erase me" },
+                    createdAt: Date.now(),
+                },
+                "messages"
+            );
+
+            const dryRun = await adapter.eraseUser(erasedId, { dryRun: true });
+            expectThat(
+                dryRun.dryRun && (dryRun.deleted.messages ?? 0) >= 1,
+                `eraseUser reported ${JSON.stringify(dryRun.deleted)} in a dry run`
+            );
+            expectThat(
+                await adapter.getMemoryById(memoryId),
+                "eraseUser deleted memories in a dry run"
+            );
+            const report = await adapter.eraseUser(erasedId);
+            expectThat(
+                (await adapter.getMemoryById(memoryId)) === null,
+                "eraseUser left the messages of the user"
+            );
+            expectThat(
+                report.unsupported.includes("accounts") ||
+                    (await adapter.getAccountById(erasedId)) === null,
+                "eraseUser left the account without reporting it"
+            );
+        },
+    },
+    {
+        capability: "cache",
+        methods: ["setCache", "getCache", "deleteCache"],
+        async run({ adapter, agentId }) {
+            // cache values are JSON, as written by the cache manager
+            const key = "conformance";
+            await adapter.setCache({ agentId, key, value: '{"version":1}' });
+            await adapter.setCache({ agentId, key, value: '{"version":2}' });
+            // JSON columns may normalize the stored text
+            const value = await adapter.getCache({ agentId, key });
+            expectThat(
+                value && JSON.parse(value).version === 2,
+                "setCache did not replace the value"
+            );
+            await adapter.deleteCache({ agentId, key });
+            expectThat(
+                (await adapter.getCache({ agentId, key })) === undefined,
+                "getCache did not return undefined for a deleted key"
+            );
+        },
+    },
+    {
+        capability: "cache.entries",
+        methods: ["setCache", "getCacheEntries"],
+        async run({ adapter, agentId }) {
+            await adapter.setCache({ agentId, key: "listed", value: "true" });
+            const entries = await adapter.getCacheEntries({ agentId });
+            expectThat(
+                entries.some(
+                    (entry) => entry.key === "listed" && entry.value === "true"
+                ),
+                "getCacheEntries did not list the entry"
+            );
+        },
+    },
+];
+
+/**
+ * Runs the conformance checks against a database adapter and reports its capabilities.
+ *
+ * The adapter must be initialized. Checks create their own accounts and rooms with ids unique
+ * to the run, so an in-process database such as SQLite, sql.js or PGlite can be shared with
+ * other tests. A check is "unsupported" when the adapter lacks one of its methods or throws a
+ * "not implemented" error, and "failed" when the adapter deviates from the contract.
+ *
+ * Stores without accounts, such as vector stores or cache adapters, are checked with `accounts`
+ * set to false and the capabilities they provide.
+ *
+ * @param name - The adapter name shown in the capability matrix.
+ * @param adapter - The initialized adapter to check.
+ * @param options - Capabilities to check, all by default, the embedding dimensions and whether
+ * to create the accounts of the agent and the user first.
+ * @returns The status of every capability.
+ */
+export async function runAdapterConformance(
+    name: string,
+    store: ConformanceAdapter | IDatabaseCacheAdapter,
+    options: {
+        capabilities?: string[];
+        dimensions?: number;
+        accounts?: boolean;
+    } = {}
+): Promise<AdapterConformanceReport> {
+    // missing methods are reported per check
+    const adapter = store as ConformanceAdapter;
+    const runId = `${Date.now()}-${Math.random()}`;
+    const dimensions = options.dimensions ?? getEmbeddingConfig().dimensions;
+    const id = (label: string) => stringToUuid(`conformance-${runId}-${label}`);
+    const agentId = id("agent");
+    const userId = id("user");
+
+    const context: ConformanceContext = {
+        adapter,
+        agentId,
+        userId,
+        id,
+        vector: (axis) =>
+            Array.from({ length: dimensions }, (_, i) => (i === axis ? 1 : 0)),
+        createRoom: async (label) => {
+            const roomId = await adapter.createRoom(id(`room-${label}`));
+            await adapter.addParticipant(agentId, roomId);
+            await adapter.addParticipant(userId, roomId);
+            return roomId;
+        },
+        createMessage: async (roomId, label, minutesAgo, axis = 0) => {
+            const memory: Memory = {
+                id: id(`message-${roomId}-${label}`),
+                userId,
+                agentId,
+                roomId,
+                content: { text: label },
+                embedding: context.vector(axis),
+                // whole seconds, some adapters store timestamps without milliseconds
+                createdAt:
+                    Math.floor(Date.now() / 1000) * 1000 - minutesAgo * 60_000,
+            };
+            await adapter.createMemory(memory, "messages");
+            return memory;
+        },
+    };
+
+    // optional fields are set, the accounts check covers accounts without them
+    const accounts =
+        options.accounts === false
+            ? []
+            : [
+                  [agentId, "agent"],
+                  [userId, "user"],
+              ];
+    let setupError: string | undefined;
+    try {
+        for (const [accountId, label] of accounts) {
+            const created = await adapter.createAccount({
+                id: accountId as UUID,
+                name: `Conformance ${label}`,
+                username: `conformance-${label}`,
+                email: `${label}@conformance.test`,
+                avatarUrl: "",
+                details: {},
+            });
+            expectThat(created, `createAccount failed for the ${label}`);
+        }
+    } catch (error) {
+        setupError = `setup failed: ${error?.message ?? String(error)}`;
+    }
+
+    const results: AdapterConformanceResult[] = [];
+    for (const check of ADAPTER_CONFORMANCE_CHECKS) {
+        if (
+            options.capabilities &&
+            !options.capabilities.includes(check.capability)
+        ) {
+            continue;
+        }
+        const result: AdapterConformanceResult = {
+            capability: check.capability,
+            methods: check.methods,
+            status: "supported",
+        };
+        const missing = check.methods.filter(
+            (method) =>
+                typeof adapter[method as keyof ConformanceAdapter] !==
+                "function"
+        );
+        if (missing.length > 0) {
+            result.status = "unsupported";
+            result.error = `missing ${missing.join(", ")}`;
+        } else if (setupError) {
+            result.status = "failed";
+            result.error = setupError;
+        } else {
+            try {
+                await check.run(context);
+            } catch (error) {
+                result.status = isUnsupported(error) ? "unsupported" : "failed";
+                result.error = error?.message ?? String(error);
+            }
+        }
+        results.push(result);
+    }
+    return { adapter: name, results };
+}
+
+const STATUS_LABELS: Record<AdapterCapabilityStatus, string> = {
+    supported: "✅",
+    unsupported: "—",
+    failed: "❌",
+};
+
+/**
+ * Renders conformance reports as a markdown table, one column per adapter.
+ */
+export function formatCapabilityMatrix(
+    reports: AdapterConformanceReport[]
+): string {
+    const capabilities = [
+        ...new Set(
+            reports.flatMap((report) =>
+                report.results.map((result) => result.capability)
+            )
+        ),
+    ];
+    const rows = capabilities.map((capability) => {
+        const cells = reports.map((report) => {
+            const result = report.results.find(
+                (result) => result.capability === capability
+            );
+            return result ? STATUS_LABELS[result.status] : " ";
+        });
+        return `| ${capability} | ${cells.join(" | ")} |`;
+    });
+    return [
+        `| Capability | ${reports.map((report) => report.adapter).join(" | ")} |`,
+        `| --- | ${reports.map(() => "---").join(" | ")} |`,
+        ...rows,
+    ].join("\n");
+}
+
+/**
+ * Writes a conformance report to the directory named by `ADAPTER_CONFORMANCE_REPORT_DIR`, as
+ * `<adapter>.json` and a capability matrix in `<adapter>.md`. Does nothing when it is unset, so
+ * conformance tests only produce artifacts when asked to.
+ *
+ * @returns The path of the JSON report, if it was written.
+ */
+export async function writeConformanceReport(
+    report: AdapterConformanceReport,
+    directory = process.env.ADAPTER_CONFORMANCE_REPORT_DIR
+): Promise<string | undefined> {
+    if (!directory) {
+        return undefined;
+    }
+    await fs.promises.mkdir(directory, { recursive: true });
+    const file = path.join(directory, `${report.adapter}.json`);
+    await fs.promises.writeFile(file, JSON.stringify(report, null, 2));
+    await fs.promises.writeFile(
+        path.join(directory, `${report.adapter}.md`),
+        `${formatCapabilityMatrix([report])}\n`
+    );
+    return file;
+}
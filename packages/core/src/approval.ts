@@ -0,0 +1,448 @@
+import { v4 } from "uuid";
+import elizaLogger from "./logger.ts";
+import type {
+    ApprovalDecision,
+    ApprovalHandler,
+    ApprovalOptions,
+    ApprovalRequest,
+    ApprovalStatus,
+    Content,
+    IAgentRuntime,
+    IApprovalChannel,
+    IApprovalQueue,
+    UUID,
+} from "./types.ts";
+
+/** Kind of the requests queued for actions that need approval */
+export const ACTION_APPROVAL_KIND = "action";
+
+const CACHE_KEY = "approvals/requests";
+const DEFAULT_EXPIRES_IN = 24 * 60 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// finished requests are kept for the reviewer channels and the REST API for a week
+const HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when deciding on a request that does not exist or was already decided.
+ */
+export class ApprovalError extends Error {
+    constructor(
+        message: string,
+        readonly requestId: UUID
+    ) {
+        super(message);
+        this.name = "ApprovalError";
+    }
+}
+
+/**
+ * Holds outbound content and action side effects until a reviewer approves them.
+ *
+ * Requests are persisted in the cache of the agent, so they survive restarts. Reviewer
+ * channels (Discord, Slack, ...) are notified of new requests and polled for decisions;
+ * decisions can also be recorded directly with `decide`, e.g. from the REST API. Approved
+ * requests are carried out by the handler registered for their kind, which clients register
+ * when they start, so requests approved while the agent was down run once it is back.
+ *
+ * Handlers run at most `maxAttempts` times before the request fails. A request whose handler
+ * was interrupted by a restart is failed rather than run again, as it may already have been
+ * carried out.
+ */
+export class ApprovalQueue implements IApprovalQueue {
+    runtime: IAgentRuntime;
+    private options: ApprovalOptions;
+    private channels: IApprovalChannel[] = [];
+    private handlers = new Map<string, ApprovalHandler>();
+    private resolvedListeners: ((request: ApprovalRequest) => void)[] = [];
+    private timer?: NodeJS.Timeout;
+    private polling?: Promise<void>;
+    private writes: Promise<unknown> = Promise.resolve();
+
+    /** Requests whose handler runs in this process */
+    private executing = new Set<UUID>();
+
+    constructor(
+        runtime: IAgentRuntime,
+        options: ApprovalOptions = runtime.character?.settings?.approval ?? {}
+    ) {
+        this.runtime = runtime;
+        this.options = options;
+    }
+
+    isRequired(kind: string): boolean {
+        return this.options.kinds?.includes(kind) ?? false;
+    }
+
+    registerChannel(channel: IApprovalChannel): void {
+        this.channels = [
+            ...this.channels.filter(({ name }) => name !== channel.name),
+            channel,
+        ];
+    }
+
+    registerHandler(kind: string, handler: ApprovalHandler): void {
+        this.handlers.set(kind, handler);
+    }
+
+    onResolved(listener: (request: ApprovalRequest) => void): void {
+        this.resolvedListeners.push(listener);
+    }
+
+    async request(params: {
+        kind: string;
+        title: string;
+        content: Content;
+        payload?: Record<string, unknown>;
+        expiresIn?: number;
+    }): Promise<ApprovalRequest> {
+        const now = Date.now();
+        const request: ApprovalRequest = {
+            id: v4() as UUID,
+            agentId: this.runtime.agentId,
+            kind: params.kind,
+            title: params.title,
+            content: params.content,
+            payload: params.payload,
+            status: "pending",
+            createdAt: now,
+            expiresAt:
+                now +
+                (params.expiresIn ??
+                    this.options.expiresIn ??
+                    DEFAULT_EXPIRES_IN),
+            channelRefs: {},
+        };
+
+        for (const channel of this.channels) {
+            if (channel.kinds && !channel.kinds.includes(request.kind)) {
+                continue;
+            }
+            try {
+                const ref = await channel.notify(request);
+                if (ref) {
+                    request.channelRefs[channel.name] = ref;
+                }
+            } catch (error) {
+                elizaLogger.error(
+                    `[Approval] Failed to notify ${channel.name} of request ${request.id}:`,
+                    error
+                );
+            }
+        }
+
+        await this.update((requests) => [...requests, request]);
+        elizaLogger.info(
+            `[Approval] Queued ${request.kind} request ${request.id}: ${request.title}`
+        );
+        return request;
+    }
+
+    async decide(
+        id: UUID,
+        decision: ApprovalDecision
+    ): Promise<ApprovalRequest> {
+        const decided = await this.transition(id, (request) => {
+            if (request.status !== "pending") {
+                throw new ApprovalError(
+                    `Approval request ${id} is already ${request.status}`,
+                    id
+                );
+            }
+            return {
+                ...request,
+                status: decision.status,
+                decidedAt: Date.now(),
+                decidedBy: decision.decidedBy,
+                reason: decision.reason,
+            };
+        });
+        if (!decided) {
+            throw new ApprovalError(`No approval request ${id}`, id);
+        }
+        elizaLogger.info(
+            `[Approval] Request ${id} was ${decided.status}${decided.decidedBy ? ` by ${decided.decidedBy}` : ""}`
+        );
+
+        if (decided.status === "approved") {
+            return this.execute(decided);
+        }
+        await this.notifyResolved(decided);
+        return decided;
+    }
+
+    async get(id: UUID): Promise<ApprovalRequest | null> {
+        const requests = await this.load();
+        return requests.find((request) => request.id === id) ?? null;
+    }
+
+    async list(
+        options: { status?: ApprovalStatus } = {}
+    ): Promise<ApprovalRequest[]> {
+        const requests = await this.load();
+        return options.status
+            ? requests.filter((request) => request.status === options.status)
+            : requests;
+    }
+
+    async poll(): Promise<void> {
+        if (!this.polling) {
+            this.polling = this.pollOnce().finally(() => {
+                this.polling = undefined;
+            });
+        }
+        return this.polling;
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        const poll = () =>
+            this.poll().catch((error) =>
+                elizaLogger.error("[Approval] Failed to poll requests:", error)
+            );
+        this.timer = setInterval(
+            poll,
+            this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+        );
+        poll();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private async pollOnce(): Promise<void> {
+        const now = Date.now();
+        await this.update((requests) =>
+            requests.filter(
+                (request) =>
+                    request.status === "pending" ||
+                    (request.status === "approved" && !request.executedAt) ||
+                    now - (request.decidedAt ?? request.createdAt) < HISTORY_MS
+            )
+        );
+
+        for (const request of await this.load()) {
+            if (request.status === "approved" && !request.executedAt) {
+                if (request.executingAt && !this.executing.has(request.id)) {
+                    await this.failInterrupted(request);
+                } else {
+                    await this.execute(request);
+                }
+                continue;
+            }
+            if (request.status !== "pending") {
+                continue;
+            }
+            if (now > request.expiresAt) {
+                const expired = await this.transition(request.id, (stored) =>
+                    stored.status === "pending"
+                        ? { ...stored, status: "expired", decidedAt: now }
+                        : null
+                );
+                if (expired) {
+                    elizaLogger.info(
+                        `[Approval] Request ${request.id} expired`
+                    );
+                    await this.notifyResolved(expired);
+                }
+                continue;
+            }
+            const decision = await this.pollChannels(request);
+            if (decision) {
+                try {
+                    await this.decide(request.id, decision);
+                } catch (error) {
+                    // decided meanwhile, e.g. through the REST API
+                    if (!(error instanceof ApprovalError)) {
+                        throw error;
+                    }
+                }
+            }
+        }
+    }
+
+    /** Fails a request whose handler was running when the agent stopped */
+    private async failInterrupted(request: ApprovalRequest): Promise<void> {
+        const failed = await this.transition(request.id, (stored) =>
+            stored.executingAt === request.executingAt && !stored.executedAt
+                ? {
+                      ...stored,
+                      status: "failed",
+                      executingAt: undefined,
+                      error: "Interrupted while being carried out",
+                  }
+                : null
+        );
+        if (failed) {
+            elizaLogger.warn(
+                `[Approval] Request ${request.id} was interrupted while being carried out and is not retried`
+            );
+            await this.notifyResolved(failed);
+        }
+    }
+
+    private async pollChannels(
+        request: ApprovalRequest
+    ): Promise<ApprovalDecision | null> {
+        for (const channel of this.channels) {
+            if (!channel.poll || !request.channelRefs?.[channel.name]) {
+                continue;
+            }
+            try {
+                const decision = await channel.poll(request);
+                if (decision) {
+                    return {
+                        ...decision,
+                        decidedBy: decision.decidedBy ?? channel.name,
+                    };
+                }
+            } catch (error) {
+                elizaLogger.error(
+                    `[Approval] Failed to poll ${channel.name} for request ${request.id}:`,
+                    error
+                );
+            }
+        }
+        return null;
+    }
+
+    private async execute(request: ApprovalRequest): Promise<ApprovalRequest> {
+        const handler = this.handlers.get(request.kind);
+        if (!handler) {
+            elizaLogger.warn(
+                `[Approval] No handler for ${request.kind} requests, request ${request.id} runs once one is registered`
+            );
+            return request;
+        }
+
+        // the marker keeps other polls from running the handler again
+        const claimed = await this.transition(request.id, (stored) =>
+            stored.status === "approved" &&
+            !stored.executedAt &&
+            !stored.executingAt
+                ? {
+                      ...stored,
+                      executingAt: Date.now(),
+                      attempts: (stored.attempts ?? 0) + 1,
+                  }
+                : null
+        );
+        if (!claimed) {
+            return (await this.get(request.id)) ?? request;
+        }
+
+        const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+        let finished: ApprovalRequest;
+        this.executing.add(claimed.id);
+        try {
+            await handler(claimed);
+            finished = await this.save({
+                ...claimed,
+                executingAt: undefined,
+                executedAt: Date.now(),
+                error: undefined,
+            });
+        } catch (error) {
+            elizaLogger.error(
+                `[Approval] Failed to carry out request ${claimed.id} (attempt ${claimed.attempts} of ${maxAttempts}):`,
+                error
+            );
+            const failed: ApprovalRequest = {
+                ...claimed,
+                executingAt: undefined,
+                error: error instanceof Error ? error.message : String(error),
+            };
+            if (claimed.attempts < maxAttempts) {
+                return this.save(failed);
+            }
+            finished = await this.save({ ...failed, status: "failed" });
+        } finally {
+            this.executing.delete(claimed.id);
+        }
+        await this.notifyResolved(finished);
+        return finished;
+    }
+
+    private async notifyResolved(request: ApprovalRequest): Promise<void> {
+        for (const listener of this.resolvedListeners) {
+            try {
+                listener(request);
+            } catch (error) {
+                elizaLogger.error(
+                    `[Approval] Resolved listener failed for request ${request.id}:`,
+                    error
+                );
+            }
+        }
+        for (const channel of this.channels) {
+            if (!channel.resolved || !request.channelRefs?.[channel.name]) {
+                continue;
+            }
+            try {
+                await channel.resolved(request);
+            } catch (error) {
+                elizaLogger.error(
+                    `[Approval] Failed to tell ${channel.name} about request ${request.id}:`,
+                    error
+                );
+            }
+        }
+    }
+
+    private async load(): Promise<ApprovalRequest[]> {
+        return (
+            (await this.runtime.cacheManager.get<ApprovalRequest[]>(
+                CACHE_KEY
+            )) ?? []
+        );
+    }
+
+    private async save(request: ApprovalRequest): Promise<ApprovalRequest> {
+        await this.update((requests) =>
+            requests.map((existing) =>
+                existing.id === request.id ? request : existing
+            )
+        );
+        return request;
+    }
+
+    /**
+     * Replaces a stored request with the result of `change`, which sees the stored request
+     * within the serialized write, so status changes are checked and set at once. Returns the
+     * replacement, or null when the request does not exist or `change` leaves it as it is.
+     */
+    private async transition(
+        id: UUID,
+        change: (request: ApprovalRequest) => ApprovalRequest | null
+    ): Promise<ApprovalRequest | null> {
+        let changed: ApprovalRequest | null = null;
+        await this.update((requests) =>
+            requests.map((request) => {
+                if (request.id !== id) {
+                    return request;
+                }
+                changed = change(request);
+                return changed ?? request;
+            })
+        );
+        return changed;
+    }
+
+    /** Read-modify-write of the stored requests, serialized within the process */
+    private update(
+        change: (requests: ApprovalRequest[]) => ApprovalRequest[]
+    ): Promise<void> {
+        const write = this.writes.then(async () => {
+            const requests = await this.load();
+            await this.runtime.cacheManager.set(CACHE_KEY, change(requests));
+        });
+        // a failed write must not block the next ones
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+}
@@ -0,0 +1,499 @@
+import fs from "fs";
+import path from "path";
+import { once } from "events";
+import { createInterface } from "readline";
+import { USER_MEMORY_TABLES } from "./database.ts";
+import { getEmbeddingTag } from "./embedding.ts";
+import elizaLogger from "./logger.ts";
+import type {
+    AgentBundleImportOptions,
+    AgentBundleImportReport,
+    AgentBundleManifest,
+    AgentBundleRecord,
+    Goal,
+    IDatabaseAdapter,
+    IDatabaseCacheAdapter,
+    Memory,
+    UUID,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+export const AGENT_BUNDLE_FORMAT = "elizaos-agent-bundle";
+export const AGENT_BUNDLE_VERSION = 1;
+
+/** Memory tables written to bundles */
+export const BUNDLE_MEMORY_TABLES = [
+    ...USER_MEMORY_TABLES,
+    "lore",
+    "documents",
+    "fragments",
+];
+
+const MANIFEST_FILE = "manifest.json";
+const RECORDS_FILE = "records.ndjson";
+
+/**
+ * Adapter a bundle is exported from or imported into. Cache entries are only handled when it
+ * also implements the database cache.
+ */
+type BundleAdapter = IDatabaseAdapter & Partial<IDatabaseCacheAdapter>;
+
+/**
+ * Returns an embedding as a plain array, whatever the adapter stores it as. Byte buffers hold
+ * the float32 values written by the SQL adapters.
+ */
+function toVector(embedding: unknown): number[] | undefined {
+    if (!embedding) {
+        return undefined;
+    }
+    if (Array.isArray(embedding)) {
+        return embedding;
+    }
+    if (embedding instanceof Float32Array) {
+        return Array.from(embedding);
+    }
+    if (ArrayBuffer.isView(embedding)) {
+        const bytes = Uint8Array.from(
+            new Uint8Array(
+                embedding.buffer,
+                embedding.byteOffset,
+                embedding.byteLength
+            )
+        );
+        return Array.from(new Float32Array(bytes.buffer));
+    }
+    if (typeof embedding === "string" && embedding.startsWith("[")) {
+        return JSON.parse(embedding);
+    }
+    return undefined;
+}
+
+/**
+ * Reads the state of an agent from a database adapter, one bundle record at a time.
+ *
+ * The state is made of the rooms the agent participates in with their participants and
+ * accounts, the memories and goals of those rooms, the agent's relationships, its private
+ * knowledge and, when the adapter can list them, its cache entries.
+ */
+export async function* readAgentState(
+    adapter: BundleAdapter,
+    agentId: UUID,
+    skipped: string[] = []
+): AsyncGenerator<AgentBundleRecord> {
+    const roomIds = await adapter.getRoomsForParticipant(agentId);
+    const userIds = new Set<UUID>([agentId]);
+
+    for (const roomId of roomIds) {
+        yield { kind: "room", data: { id: roomId } };
+    }
+    const participants: AgentBundleRecord[] = [];
+    for (const roomId of roomIds) {
+        for (const userId of await adapter.getParticipantsForRoom(roomId)) {
+            userIds.add(userId);
+            participants.push({
+                kind: "participant",
+                data: {
+                    roomId,
+                    userId,
+                    userState: await adapter.getParticipantUserState(
+                        roomId,
+                        userId
+                    ),
+                },
+            });
+        }
+    }
+    // accounts come before the participations referencing them
+    for (const userId of userIds) {
+        const account = await adapter.getAccountById(userId);
+        if (account) {
+            yield { kind: "account", data: account };
+        }
+    }
+    yield* participants;
+
+    // documents and fragments live in the agent's own room
+    const memoryRoomIds = roomIds.includes(agentId)
+        ? roomIds
+        : [...roomIds, agentId];
+    for (const tableName of BUNDLE_MEMORY_TABLES) {
+        const memories = await adapter.getMemoriesByRoomIds({
+            tableName,
+            agentId,
+            roomIds: memoryRoomIds,
+        });
+        // oldest first, so that replies follow the messages they answer
+        for (const memory of memories.reverse()) {
+            yield {
+                kind: "memory",
+                tableName,
+                data: { ...memory, embedding: toVector(memory.embedding) },
+            };
+        }
+    }
+
+    for (const roomId of roomIds) {
+        for (const goal of await adapter.getGoals({
+            agentId,
+            roomId,
+            onlyInProgress: false,
+        })) {
+            yield { kind: "goal", data: goal };
+        }
+    }
+
+    for (const relationship of await adapter.getRelationships({
+        userId: agentId,
+    })) {
+        yield { kind: "relationship", data: relationship };
+    }
+
+    // shared knowledge belongs to every agent and is left out
+    for (const item of await adapter.getKnowledge({ agentId })) {
+        if (item.agentId === agentId) {
+            yield {
+                kind: "knowledge",
+                data: {
+                    ...item,
+                    embedding: toVector(
+                        item.embedding
+                    ) as unknown as Float32Array,
+                },
+            };
+        }
+    }
+
+    if (typeof adapter.getCacheEntries === "function") {
+        for (const entry of await adapter.getCacheEntries({ agentId })) {
+            yield { kind: "cache", data: entry };
+        }
+    } else {
+        skipped.push("cache");
+    }
+}
+
+/**
+ * Exports the state of an agent to a bundle directory.
+ *
+ * A bundle holds `records.ndjson`, one JSON record per line, and `manifest.json`, written last
+ * with the format version, the embedding model of the vectors and the record counts. Bundles
+ * only depend on `IDatabaseAdapter`, so they move agents between database adapters.
+ *
+ * @param adapter - The database to read the agent from.
+ * @param agentId - The agent to export.
+ * @param directory - The bundle directory, created if needed.
+ * @param options - The agent name recorded in the manifest.
+ * @returns The manifest of the bundle.
+ */
+export async function exportAgentBundle(
+    adapter: BundleAdapter,
+    agentId: UUID,
+    directory: string,
+    options: { agentName?: string } = {}
+): Promise<AgentBundleManifest> {
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const counts: Record<string, number> = {};
+    const skipped: string[] = [];
+    const stream = fs.createWriteStream(path.join(directory, RECORDS_FILE));
+    try {
+        for await (const record of readAgentState(adapter, agentId, skipped)) {
+            if (!stream.write(`${JSON.stringify(record)}\n`)) {
+                await once(stream, "drain");
+            }
+            counts[record.kind] = (counts[record.kind] ?? 0) + 1;
+        }
+    } finally {
+        stream.end();
+        await once(stream, "finish");
+    }
+
+    const manifest: AgentBundleManifest = {
+        format: AGENT_BUNDLE_FORMAT,
+        version: AGENT_BUNDLE_VERSION,
+        agentId,
+        agentName: options.agentName,
+        createdAt: new Date().toISOString(),
+        embedding: getEmbeddingTag(),
+        counts,
+        skipped,
+    };
+    await fs.promises.writeFile(
+        path.join(directory, MANIFEST_FILE),
+        JSON.stringify(manifest, null, 2)
+    );
+
+    elizaLogger.info(
+        `[Bundle] Exported agent ${agentId} to ${directory}:`,
+        counts
+    );
+    return manifest;
+}
+
+/**
+ * Reads and validates the manifest of a bundle directory.
+ */
+export async function readAgentBundleManifest(
+    directory: string
+): Promise<AgentBundleManifest> {
+    const manifest = JSON.parse(
+        await fs.promises.readFile(path.join(directory, MANIFEST_FILE), "utf8")
+    ) as AgentBundleManifest;
+    if (manifest.format !== AGENT_BUNDLE_FORMAT) {
+        throw new Error(`${directory} is not an agent bundle`);
+    }
+    if (manifest.version > AGENT_BUNDLE_VERSION) {
+        throw new Error(
+            `Agent bundle version ${manifest.version} is newer than the supported version ${AGENT_BUNDLE_VERSION}`
+        );
+    }
+    return manifest;
+}
+
+/**
+ * Imports a bundle into a database, possibly under another agent.
+ *
+ * Records already present are left as they are, so an interrupted import can be run again.
+ * When the bundle is imported under another agent, the agent's id is replaced everywhere and
+ * the ids of memories, goals and knowledge are derived from the target agent, so that both
+ * copies can live in the same database. Vectors of another embedding model are re-embedded by
+ * the embedding check at startup.
+ *
+ * @param adapter - The database to import into.
+ * @param directory - The bundle directory.
+ * @param options - Target agent and dry run.
+ * @returns What was imported, or would be imported in a dry run, by record kind.
+ */
+export async function importAgentBundle(
+    adapter: BundleAdapter,
+    directory: string,
+    options: AgentBundleImportOptions = {}
+): Promise<AgentBundleImportReport> {
+    const manifest = await readAgentBundleManifest(directory);
+    const sourceId = manifest.agentId;
+    const agentId = options.agentId ?? sourceId;
+    const dryRun = !!options.dryRun;
+    const report: AgentBundleImportReport = {
+        manifest,
+        agentId,
+        dryRun,
+        imported: {},
+        existing: {},
+        failed: {},
+    };
+
+    const remapUser = (id: UUID): UUID => (id === sourceId ? agentId : id);
+    const remapRecord = <T extends string | undefined>(id: T): T =>
+        id && agentId !== sourceId
+            ? (stringToUuid(`${id}:${agentId}`) as T)
+            : id;
+    const goalIds = new Map<UUID, Set<UUID>>();
+
+    const importRecord = async (
+        record: AgentBundleRecord
+    ): Promise<boolean> => {
+        switch (record.kind) {
+            case "account": {
+                const account = {
+                    ...record.data,
+                    id: remapUser(record.data.id),
+                };
+                if (await adapter.getAccountById(account.id)) {
+                    return false;
+                }
+                if (!dryRun && !(await adapter.createAccount(account))) {
+                    throw new Error(`account ${account.id} was not created`);
+                }
+                return true;
+            }
+            case "room": {
+                const roomId = remapUser(record.data.id);
+                if (await adapter.getRoom(roomId)) {
+                    return false;
+                }
+                if (!dryRun) {
+                    await adapter.createRoom(roomId);
+                }
+                return true;
+            }
+            case "participant": {
+                const roomId = remapUser(record.data.roomId);
+                const userId = remapUser(record.data.userId);
+                if (
+                    (await adapter.getParticipantsForRoom(roomId)).includes(
+                        userId
+                    )
+                ) {
+                    return false;
+                }
+                if (!dryRun) {
+                    await adapter.addParticipant(userId, roomId);
+                    if (record.data.userState) {
+                        await adapter.setParticipantUserState(
+                            roomId,
+                            userId,
+                            record.data.userState
+                        );
+                    }
+                }
+                return true;
+            }
+            case "memory": {
+                const memory: Memory = {
+                    ...record.data,
+                    id: remapRecord(record.data.id),
+                    userId: remapUser(record.data.userId),
+                    agentId,
+                    roomId: remapUser(record.data.roomId),
+                    content: {
+                        ...record.data.content,
+                        inReplyTo: remapRecord(record.data.content.inReplyTo),
+                    },
+                };
+                const range = memory.content.summaryRange as
+                    | { firstMessageId: UUID; lastMessageId: UUID }
+                    | undefined;
+                if (range) {
+                    memory.content.summaryRange = {
+                        ...range,
+                        firstMessageId: remapRecord(range.firstMessageId),
+                        lastMessageId: remapRecord(range.lastMessageId),
+                    };
+                }
+                if (await adapter.getMemoryById(memory.id)) {
+                    return false;
+                }
+                if (!dryRun) {
+                    // SQLite reads the flag back as 0 or 1
+                    await adapter.createMemory(
+                        memory,
+                        record.tableName,
+                        !!record.data.unique
+                    );
+                }
+                return true;
+            }
+            case "goal": {
+                const goal: Goal = {
+                    ...record.data,
+                    id: remapRecord(record.data.id),
+                    roomId: remapUser(record.data.roomId),
+                    userId: remapUser(record.data.userId),
+                };
+                // goals can only be listed by room
+                if (!goalIds.has(goal.roomId)) {
+                    const goals = await adapter.getGoals({
+                        agentId,
+                        roomId: goal.roomId,
+                        onlyInProgress: false,
+                    });
+                    goalIds.set(
+                        goal.roomId,
+                        new Set(goals.map((existing) => existing.id))
+                    );
+                }
+                if (goalIds.get(goal.roomId).has(goal.id)) {
+                    return false;
+                }
+                if (!dryRun) {
+                    await adapter.createGoal(goal);
+                }
+                goalIds.get(goal.roomId).add(goal.id);
+                return true;
+            }
+            case "relationship": {
+                const userA = remapUser(record.data.userA);
+                const userB = remapUser(record.data.userB);
+                if (await adapter.getRelationship({ userA, userB })) {
+                    return false;
+                }
+                if (!dryRun) {
+                    await adapter.createRelationship({
+                        userA,
+                        userB,
+                        userId: remapUser(record.data.userId),
+                        status: record.data.status ?? undefined,
+                    });
+                }
+                return true;
+            }
+            case "knowledge": {
+                // knowledge ids derive from the file paths, not from the agent
+                const id = remapRecord(record.data.id);
+                const [existing] = await adapter.getKnowledge({ id, agentId });
+                if (existing) {
+                    return false;
+                }
+                const metadata = record.data.content.metadata;
+                if (!dryRun) {
+                    await adapter.createKnowledge({
+                        ...record.data,
+                        id,
+                        agentId,
+                        content: {
+                            ...record.data.content,
+                            metadata: metadata?.originalId
+                                ? {
+                                      ...metadata,
+                                      originalId: remapRecord(
+                                          metadata.originalId
+                                      ),
+                                  }
+                                : metadata,
+                        },
+                        embedding: record.data.embedding
+                            ? new Float32Array(record.data.embedding)
+                            : undefined,
+                    });
+                }
+                return true;
+            }
+            case "cache": {
+                if (typeof adapter.setCache !== "function") {
+                    throw new Error("the database adapter has no cache");
+                }
+                const key = record.data.key;
+                if ((await adapter.getCache({ agentId, key })) !== undefined) {
+                    return false;
+                }
+                if (!dryRun) {
+                    await adapter.setCache({
+                        agentId,
+                        key,
+                        value: record.data.value,
+                    });
+                }
+                return true;
+            }
+        }
+    };
+
+    const lines = createInterface({
+        input: fs.createReadStream(path.join(directory, RECORDS_FILE)),
+        crlfDelay: Number.POSITIVE_INFINITY,
+    });
+    for await (const line of lines) {
+        if (!line.trim()) {
+            continue;
+        }
+        const record = JSON.parse(line) as AgentBundleRecord;
+        try {
+            const counts = (await importRecord(record))
+                ? report.imported
+                : report.existing;
+            counts[record.kind] = (counts[record.kind] ?? 0) + 1;
+        } catch (error) {
+            elizaLogger.error(
+                `[Bundle] Failed to import a ${record.kind} record:`,
+                error
+            );
+            report.failed[record.kind] = (report.failed[record.kind] ?? 0) + 1;
+        }
+    }
+
+    elizaLogger.info(
+        `[Bundle] ${dryRun ? "Would import" : "Imported"} ${directory} as agent ${agentId}:`,
+        report.imported
+    );
+    return report;
+}
@@ -0,0 +1,391 @@
+import { splitChunks } from "./generation.ts";
+import type {
+    KnowledgeChunk,
+    KnowledgeChunker,
+    KnowledgeChunkerOptions,
+} from "./types.ts";
+
+const DEFAULT_CHUNK_SIZE = 512;
+const DEFAULT_BLEED = 20;
+
+/**
+ * Splits text larger than the chunk size, giving every part the same metadata.
+ */
+async function splitOversized(
+    chunk: KnowledgeChunk,
+    options: KnowledgeChunkerOptions
+): Promise<KnowledgeChunk[]> {
+    if (chunk.text.length <= options.chunkSize) {
+        return [chunk];
+    }
+    const parts = await splitChunks(
+        chunk.text,
+        options.chunkSize,
+        options.bleed
+    );
+    return parts.map((text) => ({ text, metadata: chunk.metadata }));
+}
+
+/**
+ * Returns the code fence still open after the line, undefined outside of code blocks.
+ */
+function updateFence(line: string, fence?: string): string | undefined {
+    const marker = line.match(/^\s*(```|~~~)/)?.[1];
+    if (!marker) {
+        return fence;
+    }
+    if (!fence) {
+        return marker;
+    }
+    return marker === fence ? undefined : fence;
+}
+
+/**
+ * Splits markdown into blocks that must not be cut: paragraphs, lists, tables and fenced code.
+ */
+function getMarkdownBlocks(lines: string[]): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let fence: string | undefined;
+
+    for (const line of lines) {
+        fence = updateFence(line, fence);
+        if (!fence && line.trim() === "" && current.length > 0) {
+            blocks.push(current.join("\n"));
+            current = [];
+        } else if (fence || line.trim() !== "") {
+            current.push(line);
+        }
+    }
+    if (current.length > 0) {
+        blocks.push(current.join("\n"));
+    }
+    return blocks;
+}
+
+/**
+ * Groups blocks into chunks of at most `chunkSize` characters, splitting only blocks that are
+ * larger than a chunk on their own.
+ */
+async function packBlocks(
+    blocks: string[],
+    metadata: KnowledgeChunk["metadata"],
+    options: KnowledgeChunkerOptions
+): Promise<KnowledgeChunk[]> {
+    const chunks: KnowledgeChunk[] = [];
+    let current = "";
+
+    for (const block of blocks) {
+        if (current && current.length + block.length + 2 > options.chunkSize) {
+            chunks.push({ text: current, metadata });
+            current = "";
+        }
+        if (block.length > options.chunkSize) {
+            chunks.push(
+                ...(await splitOversized({ text: block, metadata }, options))
+            );
+        } else {
+            current = current ? `${current}\n\n${block}` : block;
+        }
+    }
+    if (current) {
+        chunks.push({ text: current, metadata });
+    }
+    return chunks;
+}
+
+/**
+ * Splits markdown by heading, each chunk carrying the headings above it as breadcrumbs.
+ */
+export const markdownChunker: KnowledgeChunker = async (content, options) => {
+    const sections: {
+        breadcrumbs: string[];
+        level: number;
+        lines: string[];
+        startLine: number;
+    }[] = [{ breadcrumbs: [], level: 0, lines: [], startLine: 1 }];
+    const headings: { level: number; title: string }[] = [];
+    let fence: string | undefined;
+
+    for (const [index, line] of content.split("\n").entries()) {
+        fence = updateFence(line, fence);
+        const heading = !fence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            const level = heading[1].length;
+            while (
+                headings.length &&
+                headings[headings.length - 1].level >= level
+            ) {
+                headings.pop();
+            }
+            headings.push({ level, title: heading[2] });
+            sections.push({
+                breadcrumbs: headings.map((h) => h.title),
+                level,
+                lines: [],
+                startLine: index + 1,
+            });
+        }
+        sections[sections.length - 1].lines.push(line);
+    }
+
+    const chunks: KnowledgeChunk[] = [];
+    for (const section of sections) {
+        const blocks = getMarkdownBlocks(section.lines);
+        if (blocks.length === 0) {
+            continue;
+        }
+        const metadata = {
+            section: section.breadcrumbs[section.breadcrumbs.length - 1],
+            breadcrumbs: section.breadcrumbs,
+            headingLevel: section.level || undefined,
+            startLine: section.startLine,
+            endLine: section.startLine + section.lines.length - 1,
+        };
+        chunks.push(...(await packBlocks(blocks, metadata, options)));
+    }
+    return chunks;
+};
+
+/**
+ * Top-level declarations of JavaScript and TypeScript
+ */
+const SCRIPT_SYMBOL_PATTERNS = [
+    {
+        kind: "function",
+        pattern:
+            /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+([\w$]+)/,
+    },
+    {
+        kind: "class",
+        pattern:
+            /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([\w$]+)/,
+    },
+    {
+        kind: "interface",
+        pattern: /^(?:export\s+)?(?:declare\s+)?interface\s+([\w$]+)/,
+    },
+    {
+        kind: "type",
+        pattern: /^(?:export\s+)?(?:declare\s+)?type\s+([\w$]+)/,
+    },
+    {
+        kind: "enum",
+        pattern: /^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([\w$]+)/,
+    },
+    {
+        kind: "variable",
+        pattern: /^(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([\w$]+)/,
+    },
+];
+
+/**
+ * Top-level symbol declarations by language, the symbol name is the last capture group
+ */
+const SYMBOL_PATTERNS: Record<string, { kind: string; pattern: RegExp }[]> = {
+    typescript: SCRIPT_SYMBOL_PATTERNS,
+    javascript: SCRIPT_SYMBOL_PATTERNS,
+    python: [
+        { kind: "function", pattern: /^(?:async\s+)?def\s+(\w+)/ },
+        { kind: "class", pattern: /^class\s+(\w+)/ },
+    ],
+    go: [
+        { kind: "function", pattern: /^func\s+(?:\([^)]*\)\s*)?(\w+)/ },
+        { kind: "type", pattern: /^type\s+(\w+)/ },
+    ],
+    rust: [
+        {
+            kind: "function",
+            pattern:
+                /^(?:pub(?:\([\w:]+\))?\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)/,
+        },
+        {
+            kind: "type",
+            pattern:
+                /^(?:pub(?:\([\w:]+\))?\s+)?(?:struct|enum|trait|mod)\s+(\w+)/,
+        },
+        {
+            kind: "impl",
+            pattern: /^impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?([\w:]+)/,
+        },
+    ],
+    solidity: [
+        {
+            kind: "contract",
+            pattern: /^(?:abstract\s+)?(?:contract|interface|library)\s+(\w+)/,
+        },
+        { kind: "function", pattern: /^function\s+(\w+)/ },
+    ],
+};
+
+const CODE_LANGUAGES: Record<string, string> = {
+    ts: "typescript",
+    tsx: "typescript",
+    js: "javascript",
+    jsx: "javascript",
+    mjs: "javascript",
+    cjs: "javascript",
+    py: "python",
+    go: "go",
+    rs: "rust",
+    sol: "solidity",
+};
+
+/**
+ * Splits source code by top-level symbol. Comments and decorators directly above a symbol
+ * stay with it, and the code before the first symbol (usually imports) forms its own chunk.
+ */
+export const codeChunker: KnowledgeChunker = async (content, options) => {
+    const extension = options.path.split(".").pop()?.toLowerCase() ?? "";
+    const language = CODE_LANGUAGES[extension] ?? extension;
+    const patterns = SYMBOL_PATTERNS[language] ?? [];
+    const lines = content.split("\n");
+
+    const starts: { line: number; symbol?: string; kind?: string }[] = [
+        { line: 0 },
+    ];
+    for (const [index, line] of lines.entries()) {
+        for (const { kind, pattern } of patterns) {
+            const match = line.match(pattern);
+            if (match) {
+                // keep the doc comments and decorators right above the symbol
+                let start = index;
+                while (
+                    start > starts[starts.length - 1].line &&
+                    /^\s*(\/\/|\/\*|\*|#|@)/.test(lines[start - 1]) &&
+                    !/^#!/.test(lines[start - 1])
+                ) {
+                    start--;
+                }
+                starts.push({
+                    line: start,
+                    symbol: match[match.length - 1],
+                    kind,
+                });
+                break;
+            }
+        }
+    }
+
+    const chunks: KnowledgeChunk[] = [];
+    for (const [index, start] of starts.entries()) {
+        const end = starts[index + 1]?.line ?? lines.length;
+        const text = lines.slice(start.line, end).join("\n").trim();
+        if (!text) {
+            continue;
+        }
+        chunks.push(
+            ...(await splitOversized(
+                {
+                    text,
+                    metadata: {
+                        section: start.symbol,
+                        symbol: start.symbol,
+                        symbolKind: start.kind,
+                        language,
+                        startLine: start.line + 1,
+                        endLine: end,
+                    },
+                },
+                options
+            ))
+        );
+    }
+    return chunks;
+};
+
+/**
+ * Splits extracted PDF text by page. Pages are separated by form feeds, as in the output
+ * of `pdftotext`. Text without page breaks is chunked as plain text.
+ */
+export const pdfChunker: KnowledgeChunker = async (content, options) => {
+    const pages = content.split("\f");
+    if (pages.length === 1) {
+        return textChunker(content, options);
+    }
+
+    const chunks: KnowledgeChunk[] = [];
+    for (const [index, page] of pages.entries()) {
+        const blocks = page
+            .split(/\n\s*\n/)
+            .map((block) => block.trim())
+            .filter(Boolean);
+        chunks.push(
+            ...(await packBlocks(
+                blocks,
+                { page: index + 1, section: `Page ${index + 1}` },
+                options
+            ))
+        );
+    }
+    return chunks;
+};
+
+/**
+ * Splits plain text with the recursive character splitter.
+ */
+export const textChunker: KnowledgeChunker = async (content, options) =>
+    (await splitChunks(content, options.chunkSize, options.bleed)).map(
+        (text) => ({ text })
+    );
+
+const chunkers = new Map<string, KnowledgeChunker>([
+    ["txt", textChunker],
+    ["md", markdownChunker],
+    ["mdx", markdownChunker],
+    ["pdf", pdfChunker],
+    ...Object.keys(CODE_LANGUAGES).map(
+        (extension) => [extension, codeChunker] as [string, KnowledgeChunker]
+    ),
+]);
+
+/**
+ * Registers the chunker of a file type, replacing the built-in one if any.
+ *
+ * @param type - The file extension, without the dot.
+ * @param chunker - The chunker.
+ */
+export function registerKnowledgeChunker(
+    type: string,
+    chunker: KnowledgeChunker
+): void {
+    chunkers.set(type.toLowerCase(), chunker);
+}
+
+/**
+ * Returns the file types that have a chunker, i.e. the knowledge files that can be ingested.
+ *
+ * @param options - Whether to include source code files, left out by default.
+ */
+export function getKnowledgeFileTypes(
+    options: { includeCode?: boolean } = {}
+): string[] {
+    return [...chunkers.keys()].filter(
+        (type) => options.includeCode || !(type in CODE_LANGUAGES)
+    );
+}
+
+/**
+ * Splits a knowledge file with the chunker of its type, plain text chunking otherwise.
+ *
+ * @param content - The file content.
+ * @param options - The file type and path, chunk size and overlap in characters.
+ * @returns The chunks with their section, page or symbol metadata.
+ */
+export async function chunkDocument(
+    content: string,
+    options: {
+        type: string;
+        path: string;
+        chunkSize?: number;
+        bleed?: number;
+    }
+): Promise<KnowledgeChunk[]> {
+    const chunker = chunkers.get(options.type.toLowerCase()) ?? textChunker;
+    const chunks = await chunker(content, {
+        path: options.path,
+        chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+        bleed: options.bleed ?? DEFAULT_BLEED,
+    });
+    return chunks.filter((chunk) => chunk.text.trim().length > 0);
+}
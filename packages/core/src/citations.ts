@@ -0,0 +1,151 @@
+import type {
+    Content,
+    KnowledgeCitation,
+    KnowledgeItem,
+    RAGKnowledgeItem,
+    UUID,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+const SNIPPET_LENGTH = 200;
+
+/** A bracket holding one or more citation keys, e.g. `[kb-1a2b3c]` or `[kb-1a2b3c, kb-4d5e6f]` */
+const CITATION_PATTERN =
+    /([ \t]*)\[\s*(kb-[0-9a-f]{6}(?:\s*[,;]\s*kb-[0-9a-f]{6})*)\s*\]/gi;
+
+/**
+ * Returns the citation key of a knowledge entry. The key only depends on the id, so the same
+ * entry keeps its key across turns.
+ */
+export function getCitationKey(knowledgeId: UUID): string {
+    return `kb-${stringToUuid(knowledgeId).replace(/-/g, "").slice(0, 6)}`;
+}
+
+/**
+ * Builds the citations of retrieved knowledge entries, one per distinct entry.
+ */
+export function getKnowledgeCitations(
+    items: (KnowledgeItem | RAGKnowledgeItem)[]
+): KnowledgeCitation[] {
+    const citations = new Map<string, KnowledgeCitation>();
+    for (const item of items) {
+        const key = getCitationKey(item.id);
+        if (citations.has(key)) {
+            continue;
+        }
+        const metadata = (item.content.metadata ?? {}) as {
+            source?: string;
+            section?: string;
+            breadcrumbs?: string[];
+            page?: number;
+        };
+        citations.set(key, {
+            key,
+            knowledgeId: item.id,
+            source: metadata.source,
+            section: metadata.breadcrumbs?.length
+                ? metadata.breadcrumbs.join(" > ")
+                : metadata.section,
+            page: metadata.page,
+            snippet: item.content.text
+                .replace(/\s+/g, " ")
+                .trim()
+                .slice(0, SNIPPET_LENGTH),
+        });
+    }
+    return [...citations.values()];
+}
+
+/**
+ * Describes where a cited entry comes from, e.g. `guide.md > Install (page 2)`.
+ */
+export function formatCitationLabel(citation: KnowledgeCitation): string {
+    const location = [citation.source, citation.section]
+        .filter(Boolean)
+        .join(" > ");
+    const page = citation.page ? `page ${citation.page}` : "";
+    if (location && page) {
+        return `${location} (${page})`;
+    }
+    return location || page;
+}
+
+/**
+ * Formats knowledge entries under their citation keys, with an instruction to cite them.
+ */
+export function formatKnowledgeWithCitations(
+    items: (KnowledgeItem | RAGKnowledgeItem)[]
+): string {
+    if (items.length === 0) {
+        return "";
+    }
+
+    const entries = items.map((item) => {
+        const [citation] = getKnowledgeCitations([item]);
+        const label = formatCitationLabel(citation);
+        const text = item.content.text.trim().replace(/\n{3,}/g, "\n\n");
+        return `[${citation.key}]${label ? ` ${label}` : ""}\n${text}`;
+    });
+
+    return `When you use an entry below, cite its key in square brackets, e.g. [${getCitationKey(items[0].id)}].\n\n${entries.join("\n\n")}`;
+}
+
+/**
+ * Replaces the citation keys of a response with numbers and records the cited entries.
+ *
+ * Keys are numbered in order of first use, keys that match no entry shown to the model are
+ * dropped from the text.
+ *
+ * @param content - The response content.
+ * @param citations - The citations shown to the model, usually `state.knowledgeCitations`.
+ * @returns The content with numbered citations and its `citations`, unchanged if nothing is cited.
+ */
+export function resolveCitations(
+    content: Content,
+    citations: KnowledgeCitation[] = []
+): Content {
+    if (!content?.text) {
+        return content;
+    }
+
+    const byKey = new Map(
+        citations.map((citation) => [citation.key.toLowerCase(), citation])
+    );
+    const used: KnowledgeCitation[] = [];
+    let found = false;
+
+    const text = content.text.replace(
+        CITATION_PATTERN,
+        (_, space: string, keys: string) => {
+            found = true;
+            const numbers = keys
+                .split(/[,;]/)
+                .map((key) => byKey.get(key.trim().toLowerCase()))
+                .filter(Boolean)
+                .map((citation) => {
+                    let index = used.findIndex(
+                        (entry) => entry.key === citation.key
+                    );
+                    if (index === -1) {
+                        used.push({ ...citation, index: used.length + 1 });
+                        index = used.length - 1;
+                    }
+                    return `[${index + 1}]`;
+                });
+            // unknown keys are dropped with the space before them
+            return numbers.length
+                ? `${space}${[...new Set(numbers)].join("")}`
+                : "";
+        }
+    );
+
+    if (!found) {
+        return content;
+    }
+
+    return {
+        ...content,
+        text,
+        citations: used,
+    };
+}
@@ -0,0 +1,393 @@
+import type { ZodTypeAny } from "zod";
+import { getEmbeddingZeroVector } from "./embedding.ts";
+import elizaLogger from "./logger.ts";
+import type {
+    Action,
+    ActionCommand,
+    ActionStepResult,
+    CommandOption,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+/** Option of every command holding what the user wrote, the text of the message the action sees */
+export const COMMAND_TEXT_OPTION = "text";
+
+const MAX_NAME_LENGTH = 32;
+const MAX_DESCRIPTION_LENGTH = 100;
+
+/**
+ * Thrown when a command cannot run, e.g. when its action is no longer registered or refuses
+ * the message. The message can be shown to the user.
+ */
+export class CommandError extends Error {
+    constructor(
+        message: string,
+        readonly command: string
+    ) {
+        super(message);
+        this.name = "CommandError";
+    }
+}
+
+/**
+ * Turns an action name into a command name, e.g. `MUTE_ROOM` into `mute_room`.
+ */
+export function toCommandName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9_]+/g, "_")
+        .replace(/^_+|_+$/g, "")
+        .slice(0, MAX_NAME_LENGTH);
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Reads a command option from a parameter schema, unwrapping optional and default values.
+ * @returns The option, or null for types the chat platforms cannot prompt for.
+ */
+function toCommandOption(
+    name: string,
+    schema: ZodTypeAny
+): CommandOption | null {
+    let description = schema.description;
+    let required = true;
+    let inner = schema;
+    for (;;) {
+        const { typeName } = inner._def;
+        if (typeName === "ZodOptional" || typeName === "ZodDefault") {
+            required = false;
+            inner = inner._def.innerType;
+        } else if (typeName === "ZodNullable") {
+            inner = inner._def.innerType;
+        } else if (typeName === "ZodEffects") {
+            inner = inner._def.schema;
+        } else {
+            break;
+        }
+        description ??= inner.description;
+    }
+
+    const option = {
+        name: toCommandName(name),
+        description: truncate(description ?? name, MAX_DESCRIPTION_LENGTH),
+        required,
+    };
+    switch (inner._def.typeName) {
+        case "ZodString":
+            return { ...option, type: "string" };
+        case "ZodNumber":
+            return {
+                ...option,
+                type: inner._def.checks.some(
+                    (check: { kind: string }) => check.kind === "int"
+                )
+                    ? "integer"
+                    : "number",
+            };
+        case "ZodBoolean":
+            return { ...option, type: "boolean" };
+        case "ZodEnum":
+            return { ...option, type: "string", choices: inner._def.values };
+        default:
+            return null;
+    }
+}
+
+/** Parameters of the action, by name, when its schema is an object */
+function getParameters(action: Action): { [name: string]: ZodTypeAny } {
+    let schema = action.parameters as ZodTypeAny | undefined;
+    while (schema?._def.typeName === "ZodEffects") {
+        schema = schema._def.schema;
+    }
+    return schema?._def.typeName === "ZodObject" ? schema._def.shape() : {};
+}
+
+/**
+ * Builds the chat command of an action, with one option per parameter of its schema and a
+ * `text` option for what the user wants. Only actions declaring a `command` are exposed, as
+ * commands skip the model that otherwise decides whether an action fits.
+ * @returns The command, or null when the action declares none or has parameters the chat
+ * platforms cannot prompt for.
+ */
+export function getActionCommand(action: Action): ActionCommand | null {
+    if (!action.command) {
+        return null;
+    }
+
+    const options: CommandOption[] = [];
+    for (const [name, parameter] of Object.entries(getParameters(action))) {
+        const option = toCommandOption(name, parameter);
+        if (!option) {
+            if (!parameter.isOptional()) {
+                elizaLogger.debug(
+                    `Action ${action.name} has a parameter ${name} that cannot be a command option, no command is created`
+                );
+                return null;
+            }
+            continue;
+        }
+        options.push(option);
+    }
+    if (!options.some((option) => option.name === COMMAND_TEXT_OPTION)) {
+        options.push({
+            name: COMMAND_TEXT_OPTION,
+            description: "What you want, in your own words",
+            type: "string",
+            required: false,
+        });
+    }
+
+    return {
+        name: toCommandName(action.command.name ?? action.name),
+        description: truncate(
+            action.description || action.name,
+            MAX_DESCRIPTION_LENGTH
+        ),
+        action: action.name,
+        confirm: !!action.command.confirm,
+        // the platforms want the required options first
+        options: [
+            ...options.filter((option) => option.required),
+            ...options.filter((option) => !option.required),
+        ],
+    };
+}
+
+/**
+ * Builds the chat commands of the registered actions; when two actions share a command name,
+ * the first one registered keeps it.
+ */
+export function getActionCommands(actions: Action[]): ActionCommand[] {
+    const commands = new Map<string, ActionCommand>();
+    for (const action of actions) {
+        const command = getActionCommand(action);
+        if (!command) {
+            continue;
+        }
+        if (commands.has(command.name)) {
+            elizaLogger.warn(
+                `Command /${command.name} of action ${action.name} is already used by ${commands.get(command.name).action}`
+            );
+            continue;
+        }
+        commands.set(command.name, command);
+    }
+    return [...commands.values()];
+}
+
+/**
+ * Text of the message recording a command, what the user wrote or the command with its options.
+ */
+export function getCommandText(
+    command: ActionCommand,
+    args: { [key: string]: unknown }
+): string {
+    const text = args[COMMAND_TEXT_OPTION];
+    if (typeof text === "string" && text.trim()) {
+        return text.trim();
+    }
+    return [
+        `/${command.name}`,
+        ...Object.entries(args)
+            .filter(
+                ([name, value]) =>
+                    name !== COMMAND_TEXT_OPTION && value !== undefined
+            )
+            .map(([name, value]) => `${name}:${value}`),
+    ].join(" ");
+}
+
+/** Reads the value of an option typed as text, undefined when it is not valid */
+function parseOptionValue(option: CommandOption, raw: string): unknown {
+    switch (option.type) {
+        case "integer":
+        case "number": {
+            const value = Number(raw);
+            const valid =
+                option.type === "integer"
+                    ? Number.isInteger(value)
+                    : Number.isFinite(value);
+            return raw.trim() && valid ? value : undefined;
+        }
+        case "boolean": {
+            const value = raw.toLowerCase();
+            if (["true", "yes", "on", "1"].includes(value)) {
+                return true;
+            }
+            return ["false", "no", "off", "0"].includes(value)
+                ? false
+                : undefined;
+        }
+        default:
+            return option.choices
+                ? option.choices.find(
+                      (choice) => choice.toLowerCase() === raw.toLowerCase()
+                  )
+                : raw;
+    }
+}
+
+function describeOptionValue(option: CommandOption): string {
+    if (option.choices) {
+        return `one of ${option.choices.join(", ")}`;
+    }
+    switch (option.type) {
+        case "integer":
+            return "an integer";
+        case "number":
+            return "a number";
+        case "boolean":
+            return "true or false";
+        default:
+            return "a text";
+    }
+}
+
+/**
+ * Reads the options of a command typed as text, e.g. `/transfer amount:5 token:ETH to bob`:
+ * `name:value` pairs fill the options, quoted values may hold spaces, and the rest of the text
+ * goes to the `text` option.
+ * @returns The option values, the required options still missing, and an error for each value
+ * that is not valid.
+ */
+export function parseCommandArgs(
+    command: ActionCommand,
+    input: string
+): {
+    args: { [key: string]: unknown };
+    missing: CommandOption[];
+    errors: string[];
+} {
+    const args: { [key: string]: unknown } = {};
+    const errors: string[] = [];
+    const rest = input
+        .replace(
+            /(^|\s)([a-z0-9_]+):(?:"([^"]*)"|(\S+))/gi,
+            (match, space, name, quoted, plain) => {
+                const option = command.options.find(
+                    (option) =>
+                        option.name === name.toLowerCase() &&
+                        option.name !== COMMAND_TEXT_OPTION
+                );
+                if (!option) {
+                    return match;
+                }
+                const value = parseOptionValue(option, quoted ?? plain);
+                if (value === undefined) {
+                    errors.push(
+                        `${option.name} must be ${describeOptionValue(option)}`
+                    );
+                } else {
+                    args[option.name] = value;
+                }
+                return space;
+            }
+        )
+        .trim();
+    if (rest) {
+        args[COMMAND_TEXT_OPTION] = rest;
+    }
+
+    return {
+        args,
+        missing: command.options.filter(
+            (option) => option.required && args[option.name] === undefined
+        ),
+        errors,
+    };
+}
+
+/**
+ * Usage of a command typed as text, e.g. `/transfer amount:<integer> [token:ETH|USDC] [text]`.
+ */
+export function formatCommandUsage(command: ActionCommand): string {
+    return [
+        `/${command.name}`,
+        ...command.options.map((option) => {
+            const usage =
+                option.name === COMMAND_TEXT_OPTION
+                    ? option.name
+                    : `${option.name}:${option.choices?.join("|") ?? `<${option.type}>`}`;
+            return option.required ? usage : `[${usage}]`;
+        }),
+    ].join(" ");
+}
+
+/**
+ * Runs the action of a command the way the action of a response runs: the user message is
+ * stored, then `processActions` runs the action with the command options as its params, unless
+ * the `validate` of the action refuses the message. The state of the action has the name of the
+ * command in `command`, as running a command is an explicit request of the user.
+ * @param message The message of the user running the command, see `getCommandText`.
+ * @param args The values of the command options.
+ * @param options.additionalKeys Keys added to the state composed for the action.
+ * @param options.callback Sends what the action answers back to the user.
+ * @returns The result of the action step.
+ * @throws CommandError when the action is not registered or refuses the message.
+ */
+export async function runActionCommand(
+    runtime: IAgentRuntime,
+    message: Memory,
+    command: ActionCommand,
+    args: { [key: string]: unknown },
+    options: {
+        additionalKeys?: { [key: string]: unknown };
+        callback?: HandlerCallback;
+    } = {}
+): Promise<ActionStepResult[]> {
+    const action = runtime.actions.find(
+        (action) => action.name === command.action
+    );
+    if (!action) {
+        throw new CommandError(
+            `Action ${command.action} of command /${command.name} is not registered`,
+            command.name
+        );
+    }
+
+    if (message.content.text) {
+        await runtime.messageManager.addEmbeddingToMemory(message);
+        await runtime.messageManager.createMemory(message);
+    }
+    const state = await runtime.composeState(message, {
+        ...options.additionalKeys,
+        command: command.name,
+    });
+    if (!(await action.validate(runtime, message, state))) {
+        throw new CommandError(
+            `/${command.name} cannot be used here.`,
+            command.name
+        );
+    }
+
+    // option names are the parameter names lowercased, map them back to the schema
+    const params = Object.fromEntries(
+        Object.keys(getParameters(action))
+            .filter((name) => args[toCommandName(name)] !== undefined)
+            .map((name) => [name, args[toCommandName(name)]])
+    );
+
+    const response: Memory = {
+        id: stringToUuid(`${message.id}-${command.name}`),
+        userId: runtime.agentId,
+        agentId: runtime.agentId,
+        roomId: message.roomId,
+        content: {
+            text: "",
+            action: action.parameters
+                ? { name: command.action, params }
+                : command.action,
+            inReplyTo: message.id,
+            source: message.content.source,
+        },
+        embedding: getEmbeddingZeroVector(),
+        createdAt: Date.now(),
+    };
+    return runtime.processActions(message, [response], state, options.callback);
+}
@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { generateStructuredObject } from "./generation.ts";
+import elizaLogger from "./logger.ts";
+import { MemoryManager } from "./memory.ts";
+import { getActorDetails } from "./messages.ts";
+import {
+    type Actor,
+    type ConsolidationResult,
+    type ConversationSummaryRange,
+    type IAgentRuntime,
+    type IMemoryConsolidator,
+    type IMemoryManager,
+    type Memory,
+    type MemoryConsolidationOptions,
+    ModelClass,
+    type UUID,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+const DEFAULT_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_SPAN_SIZE = 50;
+const DEFAULT_MAX_SPANS_PER_RUN = 10;
+
+const summarySchema = z.object({
+    summary: z.string(),
+    conversationSoFar: z.string(),
+});
+
+/**
+ * Formats messages with absolute times, since summaries outlive relative ones.
+ */
+function formatSpan(messages: Memory[], actors: Actor[]): string {
+    return messages
+        .map((message) => {
+            const name =
+                actors.find((actor) => actor.id === message.userId)?.name ??
+                "Unknown User";
+            const time = new Date(message.createdAt).toISOString();
+            return `(${time}) ${name}: ${message.content.text}`;
+        })
+        .join("\n");
+}
+
+/**
+ * Returns the messages range covered by a summary memory.
+ */
+export function getSummaryRange(
+    summary: Memory
+): ConversationSummaryRange | undefined {
+    return summary.content.summaryRange as ConversationSummaryRange;
+}
+
+/**
+ * Summarizes the messages of long-running rooms into summary memories.
+ *
+ * Messages older than the recent conversation window are summarized in spans of `spanSize`
+ * messages, oldest first. Each summary memory holds the summary of its span, the time range it
+ * covers and a rolling summary of the whole conversation until its end. Progress is read back
+ * from the latest summary of the room and summary ids derive from the span, so runs can be
+ * interrupted and repeated safely.
+ */
+export class MemoryConsolidator implements IMemoryConsolidator {
+    runtime: IAgentRuntime;
+    summaryManager: IMemoryManager;
+    private options: MemoryConsolidationOptions;
+    private rooms = new Map<UUID, Promise<ConsolidationResult>>();
+    private timer?: NodeJS.Timeout;
+    private running?: Promise<ConsolidationResult[]>;
+
+    constructor(
+        runtime: IAgentRuntime,
+        options: MemoryConsolidationOptions = runtime.character?.settings
+            ?.memoryConsolidation ?? {}
+    ) {
+        this.runtime = runtime;
+        this.options = options;
+        this.summaryManager = new MemoryManager({
+            runtime,
+            tableName: "summaries",
+        });
+    }
+
+    async getConversationSummary(roomId: UUID): Promise<Memory | null> {
+        const [summary] = await this.summaryManager.getMemories({
+            roomId,
+            count: 1,
+            unique: false,
+        });
+        return summary ?? null;
+    }
+
+    consolidateRoom(roomId: UUID): Promise<ConsolidationResult> {
+        // a room is consolidated by one run at a time
+        let run = this.rooms.get(roomId);
+        if (!run) {
+            run = this.summarizeRoom(roomId).finally(() =>
+                this.rooms.delete(roomId)
+            );
+            this.rooms.set(roomId, run);
+        }
+        return run;
+    }
+
+    private async summarizeRoom(roomId: UUID): Promise<ConsolidationResult> {
+        const spanSize = this.options.spanSize ?? DEFAULT_SPAN_SIZE;
+        const maxSpans =
+            this.options.maxSpansPerRun ?? DEFAULT_MAX_SPANS_PER_RUN;
+
+        const latest = await this.getConversationSummary(roomId);
+        const consolidatedUntil = latest
+            ? getSummaryRange(latest)?.end
+            : undefined;
+        const result: ConsolidationResult = {
+            roomId,
+            summariesCreated: 0,
+            consolidatedUntil,
+        };
+
+        // messages still in the recent window are shown as they are
+        const recent = await this.runtime.messageManager.getMemories({
+            roomId,
+            count: this.runtime.getConversationLength(),
+            unique: false,
+        });
+        if (recent.length < this.runtime.getConversationLength()) {
+            return result;
+        }
+        const windowStart = Math.min(
+            ...recent.map((message) => message.createdAt)
+        );
+
+        const older = (
+            await this.runtime.databaseAdapter.getMemories({
+                roomId,
+                tableName: "messages",
+                agentId: this.runtime.agentId,
+                unique: false,
+                start: consolidatedUntil,
+                end: windowStart - 1,
+            })
+        )
+            .filter(
+                (message) =>
+                    consolidatedUntil === undefined ||
+                    message.createdAt > consolidatedUntil
+            )
+            .sort((a, b) => a.createdAt - b.createdAt);
+
+        // partial spans wait for more messages so that summaries never change
+        const spanCount = Math.min(
+            Math.floor(older.length / spanSize),
+            maxSpans
+        );
+        if (spanCount === 0) {
+            return result;
+        }
+
+        const actors = await getActorDetails({ runtime: this.runtime, roomId });
+        let conversationSoFar = (latest?.content.conversationSoFar ??
+            "") as string;
+
+        for (let i = 0; i < spanCount; i++) {
+            const span = older.slice(i * spanSize, (i + 1) * spanSize);
+            const range: ConversationSummaryRange = {
+                start: span[0].createdAt,
+                end: span[span.length - 1].createdAt,
+                messageCount: span.length,
+                firstMessageId: span[0].id,
+                lastMessageId: span[span.length - 1].id,
+            };
+            conversationSoFar = await this.summarizeSpan(
+                roomId,
+                span,
+                actors,
+                range,
+                conversationSoFar
+            );
+            result.summariesCreated++;
+            result.consolidatedUntil = range.end;
+        }
+
+        elizaLogger.info(
+            `[Consolidation] Summarized ${spanCount * spanSize} messages of room ${roomId}`
+        );
+        return result;
+    }
+
+    private async summarizeSpan(
+        roomId: UUID,
+        span: Memory[],
+        actors: Actor[],
+        range: ConversationSummaryRange,
+        conversationSoFar: string
+    ): Promise<string> {
+        const context = `You maintain the memory of ${this.runtime.character.name} for a long-running conversation.
+
+# Conversation so far
+${conversationSoFar || "This is the start of the conversation."}
+
+# New messages
+${formatSpan(span, actors)}
+
+Summarize the new messages in "summary": who took part, the topics, decisions, facts and open questions, with names and dates. Then update the conversation so far with them in "conversationSoFar", keeping it under 300 words by compressing older details.
+Return { "summary": string, "conversationSoFar": string }.`;
+
+        const output = await generateStructuredObject({
+            runtime: this.runtime,
+            context,
+            modelClass: this.options.modelClass ?? ModelClass.SMALL,
+            schema: summarySchema,
+            schemaName: "ConversationSummary",
+            usageTags: { caller: "consolidation", roomId },
+        });
+
+        const summary: Memory = {
+            id: stringToUuid(
+                `summary-${roomId}-${range.firstMessageId}-${range.lastMessageId}`
+            ),
+            userId: this.runtime.agentId,
+            agentId: this.runtime.agentId,
+            roomId,
+            content: {
+                text: output.summary,
+                source: "consolidation",
+                conversationSoFar: output.conversationSoFar,
+                summaryRange: range,
+            },
+            // summaries sort by the end of their span
+            createdAt: range.end,
+        };
+        await this.summaryManager.createMemory(
+            await this.summaryManager.addEmbeddingToMemory(summary)
+        );
+        return output.conversationSoFar;
+    }
+
+    async consolidateAll(): Promise<ConsolidationResult[]> {
+        const roomIds =
+            await this.runtime.databaseAdapter.getRoomsForParticipant(
+                this.runtime.agentId
+            );
+        const results: ConsolidationResult[] = [];
+        for (const roomId of roomIds) {
+            try {
+                results.push(await this.consolidateRoom(roomId));
+            } catch (error) {
+                elizaLogger.error(
+                    `[Consolidation] Failed to consolidate room ${roomId}:`,
+                    error
+                );
+            }
+        }
+        return results;
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        const run = () => {
+            // skip a tick while the previous run is still going
+            if (this.running) {
+                return;
+            }
+            this.running = this.consolidateAll().finally(() => {
+                this.running = undefined;
+            });
+        };
+        this.timer = setInterval(
+            run,
+            this.options.intervalMs ?? DEFAULT_INTERVAL_MS
+        );
+        run();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+}
@@ -1,20 +1,193 @@
 import handlebars from "handlebars";
-import type { State, TemplateType } from "./types.ts";
+import type {
+    Character,
+    State,
+    TemplateIssue,
+    TemplateType,
+} from "./types.ts";
 import { names, uniqueNamesGenerator } from "unique-names-generator";
+import elizaLogger from "./logger.ts";
+import { formatTimestamp } from "./messages.ts";
+import { messageCompletionFooter } from "./parsing.ts";
 
 /**
- * Composes a context string by replacing placeholders in a template with corresponding values from the state.
- *
- * This function takes a template string with placeholders in the format `{{placeholder}}` and a state object.
- * It replaces each placeholder with the value from the state object that matches the placeholder's name.
- * If a matching key is not found in the state object for a given placeholder, the placeholder is replaced with an empty string.
+ * Keys of the state built by `AgentRuntime.composeState`.
+ */
+export const composedStateKeys = [
+    "agentId",
+    "agentName",
+    "bio",
+    "lore",
+    "adjective",
+    "knowledge",
+    "knowledgeData",
+    "ragKnowledgeData",
+    "knowledgeCitations",
+    "recentMessageInteractions",
+    "recentPostInteractions",
+    "recentInteractionsData",
+    "topic",
+    "topics",
+    "characterPostExamples",
+    "characterMessageExamples",
+    "messageDirections",
+    "postDirections",
+    "senderName",
+    "actors",
+    "actorsData",
+    "roomId",
+    "goals",
+    "goalsData",
+    "conversationSummary",
+    "recentMessages",
+    "recentPosts",
+    "recentMessagesData",
+    "attachments",
+    "actionNames",
+    "actions",
+    "actionExamples",
+    "evaluatorsData",
+    "evaluators",
+    "evaluatorNames",
+    "evaluatorExamples",
+    "providers",
+    "actionResults",
+];
+
+/** Block helpers that render their block with a different context */
+const CONTEXT_CHANGING_HELPERS = ["each", "with"];
+
+/** Compiled templates, keyed by template source */
+const compiledTemplates = new Map<string, HandlebarsTemplateDelegate>();
+const MAX_COMPILED_TEMPLATES = 500;
+
+/** Templates that failed to render with Handlebars, or are not meant for it */
+const invalidTemplates = new Set<string>();
+
+/** Paths Handlebars resolves like the simple placeholders, e.g. `agentName` or `../user.name` */
+const PLAIN_PATH = /^(\.\.\/)*(this|@?\w+)(\.\w+)*$/;
+
+handlebars.registerHelper("formatDate", (value: unknown, format?: unknown) => {
+    if (value === undefined || value === null || value === "") {
+        return "";
+    }
+    const date = new Date(value as string | number | Date);
+    if (Number.isNaN(date.getTime())) {
+        return String(value);
+    }
+    switch (typeof format === "string" ? format : "iso") {
+        case "relative":
+            return formatTimestamp(date.getTime());
+        case "date":
+            return date.toISOString().slice(0, 10);
+        case "locale":
+            return date.toLocaleString();
+        default:
+            return date.toISOString();
+    }
+});
+
+handlebars.registerHelper("formatList", (items: unknown, separator?: unknown) => {
+    if (!Array.isArray(items)) {
+        return items ?? "";
+    }
+    // handlebars passes its options object as the last argument
+    return typeof separator === "string"
+        ? items.join(separator)
+        : items.map((item) => `- ${item}`).join("\n");
+});
+
+handlebars.registerHelper("json", (value: unknown) =>
+    JSON.stringify(value, null, 2)
+);
+
+handlebars.registerPartial(
+    "actionExamples",
+    "{{actionExamples}}\n(Action examples are for reference only. Do not use the information from them in your response.)\n"
+);
+
+handlebars.registerPartial("messageCompletionFooter", messageCompletionFooter);
+
+/**
+ * Registers a partial that templates can include with `{{> name}}`.
+ * @param {string} name - The name of the partial.
+ * @param {string} template - The template of the partial.
+ */
+export const registerTemplatePartial = (name: string, template: string) => {
+    handlebars.registerPartial(name, template);
+    // templates may have failed because the partial was missing
+    invalidTemplates.clear();
+};
+
+/**
+ * Registers a helper that templates can call, e.g. `{{shout agentName}}`.
+ * @param {string} name - The name of the helper.
+ * @param {Handlebars.HelperDelegate} helper - The helper function.
+ */
+export const registerTemplateHelper = (
+    name: string,
+    helper: Handlebars.HelperDelegate
+) => {
+    handlebars.registerHelper(name, helper);
+    invalidTemplates.clear();
+};
+
+const compileTemplate = (templateStr: string) => {
+    let templateFunction = compiledTemplates.get(templateStr);
+    if (!templateFunction) {
+        // prompts are plain text, so values are not HTML escaped
+        templateFunction = handlebars.compile(templateStr, { noEscape: true });
+        if (compiledTemplates.size >= MAX_COMPILED_TEMPLATES) {
+            compiledTemplates.delete(compiledTemplates.keys().next().value);
+        }
+        compiledTemplates.set(templateStr, templateFunction);
+    }
+    return templateFunction;
+};
+
+/**
+ * Whether every path of a template is a plain one. Prompts may contain text such as
+ * `{{ibc/27394FB0...}}`, which Handlebars reads as a path and renders empty.
+ */
+const isHandlebarsClean = (templateStr: string) => {
+    const visit = (node: unknown): boolean => {
+        if (!node || typeof node !== "object") {
+            return true;
+        }
+        if (Array.isArray(node)) {
+            return node.every(visit);
+        }
+        const { type, original } = node as hbs.AST.PathExpression;
+        if (type === "PathExpression") {
+            return PLAIN_PATH.test(original);
+        }
+        return Object.entries(node).every(
+            ([key, child]) => key === "loc" || visit(child)
+        );
+    };
+    return visit(handlebars.parse(templateStr));
+};
+
+const replacePlaceholders = (templateStr: string, state: State) =>
+    templateStr.replace(/{{\w+}}/g, (match) => {
+        const key = match.replace(/{{|}}/g, "");
+        return (state[key] ?? "") as string;
+    });
+
+/**
+ * Composes a context string by rendering a template with the values of a state object.
  *
- * By default, this function uses a simple string replacement approach. However, when `templatingEngine` is set to `'handlebars'`, it uses Handlebars templating engine instead, compiling the template into a reusable function and evaluating it with the provided state object.
+ * Templates are rendered with Handlebars by default, so besides `{{placeholder}}` they can use
+ * conditionals and loops over structured state, partials such as `{{> actionExamples}}` and the
+ * `formatDate`, `formatList` and `json` helpers. Missing keys render as an empty string and values
+ * are not HTML escaped. Templates that are not valid Handlebars, or with paths other than plain
+ * keys such as `{{ibc/27394FB0...}}`, fall back to simple placeholder replacement, which can also
+ * be selected with `templatingEngine: "simple"`.
  *
  * @param {Object} params - The parameters for composing the context.
  * @param {State} params.state - The state object containing values to replace the placeholders in the template.
  * @param {TemplateType} params.template - The template string or function containing placeholders to be replaced with state values.
- * @param {"handlebars" | undefined} [params.templatingEngine] - The templating engine to use for compiling and evaluating the template (optional, default: `undefined`).
+ * @param {"handlebars" | "simple"} [params.templatingEngine] - The templating engine to use (optional, default: `"handlebars"`).
  * @returns {string} The composed context string with placeholders replaced by corresponding state values.
  *
  * @example
@@ -22,41 +195,220 @@ import { names, uniqueNamesGenerator } from "unique-names-generator";
  * const state = { userName: "Alice", userAge: 30 };
  * const template = "Hello, {{userName}}! You are {{userAge}} years old";
  *
- * // Composing the context with simple string replacement will result in:
+ * // Composing the context will result in:
  * // "Hello, Alice! You are 30 years old."
- * const contextSimple = composeContext({ state, template });
+ * const context = composeContext({ state, template });
  *
  * // Using composeContext with a template function for dynamic template
  * const template = ({ state }) => {
  * const tone = Math.random() > 0.5 ? "kind" : "rude";
  *   return `Hello, {{userName}}! You are {{userAge}} years old. Be ${tone}`;
  * };
- * const contextSimple = composeContext({ state, template });
+ * const context = composeContext({ state, template });
  */
 
 export const composeContext = ({
     state,
     template,
-    templatingEngine,
+    templatingEngine = "handlebars",
 }: {
     state: State;
     template: TemplateType;
-    templatingEngine?: "handlebars";
+    templatingEngine?: "handlebars" | "simple";
 }) => {
+    if (!state) {
+        throw new Error("composeContext requires a state");
+    }
     const templateStr =
         typeof template === "function" ? template({ state }) : template;
 
-    if (templatingEngine === "handlebars") {
-        const templateFunction = handlebars.compile(templateStr);
-        return templateFunction(state);
+    if (templatingEngine === "simple") {
+        return replacePlaceholders(templateStr, state);
     }
 
-    // @ts-expect-error match isn't working as expected
-    const out = templateStr.replace(/{{\w+}}/g, (match) => {
-        const key = match.replace(/{{|}}/g, "");
-        return state[key] ?? "";
-    });
-    return out;
+    if (invalidTemplates.has(templateStr)) {
+        return replacePlaceholders(templateStr, state);
+    }
+
+    try {
+        if (
+            !compiledTemplates.has(templateStr) &&
+            !isHandlebarsClean(templateStr)
+        ) {
+            invalidTemplates.add(templateStr);
+            return replacePlaceholders(templateStr, state);
+        }
+        return compileTemplate(templateStr)(state);
+    } catch (error) {
+        if (typeof templateStr !== "string") {
+            throw error;
+        }
+        elizaLogger.warn(
+            `Template is not valid Handlebars, using simple replacement: ${error instanceof Error ? error.message : String(error)}`
+        );
+        compiledTemplates.delete(templateStr);
+        invalidTemplates.add(templateStr);
+        return replacePlaceholders(templateStr, state);
+    }
+};
+
+interface TemplateReferences {
+    keys: Set<string>;
+    helpers: Set<string>;
+    partials: Set<string>;
+}
+
+const collectReferences = (
+    node: hbs.AST.Node | undefined,
+    references: TemplateReferences,
+    scoped: boolean
+) => {
+    if (!node) {
+        return;
+    }
+    switch (node.type) {
+        case "Program":
+            for (const statement of (node as hbs.AST.Program).body) {
+                collectReferences(statement, references, scoped);
+            }
+            break;
+        case "PathExpression": {
+            const path = node as hbs.AST.PathExpression;
+            // keys inside {{#each}} and {{#with}} belong to the current item, not the state
+            if (!scoped && !path.data && path.depth === 0 && path.parts.length) {
+                references.keys.add(path.parts[0]);
+            }
+            break;
+        }
+        case "MustacheStatement":
+        case "SubExpression": {
+            const { path, params, hash } = node as hbs.AST.MustacheStatement;
+            const name = (path as hbs.AST.PathExpression).original;
+            if (params.length || hash?.pairs.length || name in handlebars.helpers) {
+                references.helpers.add(name);
+            } else {
+                collectReferences(path, references, scoped);
+            }
+            for (const param of params) {
+                collectReferences(param, references, scoped);
+            }
+            for (const pair of hash?.pairs ?? []) {
+                collectReferences(pair.value, references, scoped);
+            }
+            break;
+        }
+        case "BlockStatement": {
+            const block = node as hbs.AST.BlockStatement;
+            const name = (block.path as hbs.AST.PathExpression).original;
+            references.helpers.add(name);
+            for (const param of block.params) {
+                collectReferences(param, references, scoped);
+            }
+            collectReferences(
+                block.program,
+                references,
+                scoped || CONTEXT_CHANGING_HELPERS.includes(name)
+            );
+            collectReferences(block.inverse, references, scoped);
+            break;
+        }
+        case "PartialStatement":
+        case "PartialBlockStatement": {
+            const partial = node as hbs.AST.PartialStatement;
+            references.partials.add(
+                (partial.name as hbs.AST.PathExpression).original
+            );
+            for (const param of partial.params) {
+                collectReferences(param, references, scoped);
+            }
+            break;
+        }
+    }
+};
+
+/**
+ * Checks a template for state keys, partials and helpers that do not exist.
+ *
+ * @param {string} name - The name of the template, used in the reported issues.
+ * @param {string} template - The template to check.
+ * @param {string[]} [knownKeys] - State keys the template may use (default: the keys of `composeState`).
+ * @returns {TemplateIssue[]} The problems found, empty when the template is valid.
+ */
+export const validateTemplate = (
+    name: string,
+    template: string,
+    knownKeys: string[] = composedStateKeys
+): TemplateIssue[] => {
+    const references: TemplateReferences = {
+        keys: new Set(),
+        helpers: new Set(),
+        partials: new Set(),
+    };
+    try {
+        collectReferences(handlebars.parse(template), references, false);
+    } catch (error) {
+        return [
+            {
+                template: name,
+                type: "syntaxError",
+                message: `${name} is not valid Handlebars: ${error instanceof Error ? error.message : String(error)}`,
+            },
+        ];
+    }
+
+    const issues: TemplateIssue[] = [];
+    for (const key of references.keys) {
+        if (!knownKeys.includes(key)) {
+            issues.push({
+                template: name,
+                type: "unknownKey",
+                name: key,
+                message: `${name} uses {{${key}}}, which is not a state key`,
+            });
+        }
+    }
+    for (const helper of references.helpers) {
+        if (!(helper in handlebars.helpers)) {
+            issues.push({
+                template: name,
+                type: "unknownHelper",
+                name: helper,
+                message: `${name} uses the unknown helper "${helper}"`,
+            });
+        }
+    }
+    for (const partial of references.partials) {
+        if (!(partial in handlebars.partials)) {
+            issues.push({
+                template: name,
+                type: "unknownPartial",
+                name: partial,
+                message: `${name} uses the unknown partial "${partial}"`,
+            });
+        }
+    }
+    return issues;
+};
+
+/**
+ * Checks every string template in `Character.templates`, see `validateTemplate`.
+ * Template functions are skipped since their output depends on the state.
+ *
+ * @param {Character} character - The character to check.
+ * @param {string[]} [additionalKeys] - State keys provided outside `composeState`, e.g. by clients.
+ * @returns {TemplateIssue[]} The problems found in all templates.
+ */
+export const validateCharacterTemplates = (
+    character: Character,
+    additionalKeys: string[] = []
+): TemplateIssue[] => {
+    const knownKeys = [...composedStateKeys, ...additionalKeys];
+    return Object.entries(character.templates ?? {}).flatMap(
+        ([name, template]) =>
+            typeof template === "string"
+                ? validateTemplate(name, template, knownKeys)
+                : []
+    );
 };
 
 /**
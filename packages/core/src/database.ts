@@ -9,10 +9,29 @@ import type {
     RAGKnowledgeItem,
     Participant,
     IDatabaseAdapter,
+    RetentionPolicy,
+    UserErasureOptions,
+    UserErasureReport,
 } from "./types.ts";
 import { CircuitBreaker } from "./database/CircuitBreaker";
 import { elizaLogger } from "./logger";
 
+/**
+ * Memory tables holding what users said, or what the agent learned about them
+ */
+export const USER_MEMORY_TABLES = [
+    "messages",
+    "descriptions",
+    "facts",
+    "summaries",
+    "relationship_contexts",
+];
+
+/**
+ * Text of memories anonymized by `eraseUser`
+ */
+export const ERASED_MEMORY_TEXT = "[removed]";
+
 /**
  * An abstract class representing a database adapter for managing various entities
  * like accounts, memories, actors, goals, and rooms.
@@ -96,6 +115,7 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
         roomIds: UUID[];
         tableName: string;
         limit?: number;
+        offset?: number;
     }): Promise<Memory[]>;
 
     abstract getMemoryById(id: UUID): Promise<Memory | null>;
@@ -366,12 +386,14 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
 
     /**
      * Creates a new relationship between two users.
-     * @param params An object containing the UUIDs of the two users (userA and userB).
+     * @param params An object containing the UUIDs of the two users (userA and userB), and optionally the owner of the relationship (userA by default) and its status.
      * @returns A Promise that resolves to a boolean indicating success or failure of the creation.
      */
     abstract createRelationship(params: {
         userA: UUID;
         userB: UUID;
+        userId?: UUID;
+        status?: string;
     }): Promise<boolean>;
 
     /**
@@ -402,6 +424,7 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        offset?: number;
         query?: string;
         conversationContext?: string;
     }): Promise<RAGKnowledgeItem[]>;
@@ -428,6 +451,19 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
      */
     abstract removeKnowledge(id: UUID): Promise<void>;
 
+    /**
+     * Removes the chunks of a knowledge document, leaving the document itself.
+     * Chunks are matched by their `originalId`, adapters storing knowledge must override it;
+     * the default implementation throws.
+     * @param originalId The ID of the knowledge document
+     * @returns Promise resolving when removal is complete
+     */
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        throw new Error(
+            `${this.constructor.name} cannot remove the chunks of knowledge ${originalId}`
+        );
+    }
+
     /**
      * Removes an agents full knowledge database and its associated chunks from the database.
      * @param agentId The Agent ID of the knowledge items to remove
@@ -435,6 +471,120 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
      */
     abstract clearKnowledge(agentId: UUID, shared?: boolean): Promise<void>;
 
+    /**
+     * Replaces the embedding and content of a stored memory.
+     * The default implementation removes and re-creates the memory, restoring the original
+     * if the new one cannot be stored. Adapters that can update rows in place should override it.
+     * @param memory The memory with its new embedding
+     * @param tableName The table the memory is stored in
+     * @returns Promise resolving when the update is complete
+     */
+    async updateMemoryEmbedding(
+        memory: Memory,
+        tableName: string
+    ): Promise<void> {
+        const original = await this.getMemoryById(memory.id);
+        await this.removeMemory(memory.id, tableName);
+        try {
+            await this.createMemory(memory, tableName, memory.unique);
+        } catch (error) {
+            if (original) {
+                await this.createMemory(original, tableName, original.unique);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Updates the embedding and content of a stored knowledge item in place.
+     * The item keeps its id and creation date, and the chunks of a document are left untouched.
+     * Knowledge cannot be re-created without losing its chunks, so adapters storing knowledge
+     * must override it; the default implementation throws.
+     * @param knowledge The knowledge item with its new embedding
+     * @returns Promise resolving when the update is complete
+     */
+    async updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void> {
+        throw new Error(
+            `${this.constructor.name} cannot update knowledge ${knowledge.id} in place`
+        );
+    }
+
+    /**
+     * Prepares the storage of memories and knowledge for vectors of a new dimension, before they
+     * are re-embedded. Vectors of another dimension are cleared so they are embedded again.
+     * The default implementation does nothing, for adapters storing vectors of any length;
+     * adapters with fixed size vector columns must override it.
+     * @param dimensions The dimension of the new vectors
+     * @returns Promise resolving when the storage accepts vectors of the new dimension
+     */
+    async resizeEmbeddings(_dimensions: number): Promise<void> {}
+
+    /**
+     * Deletes the entries of a table that fall outside a retention policy.
+     * The default implementation only supports memory tables, going through the rooms of the
+     * agent one by one, and throws for the others. Adapters that can delete with a query should
+     * override it.
+     * @param params The policy, the agent and whether to only count the entries
+     * @returns The number of entries deleted, or that would be deleted in a dry run
+     */
+    async applyRetention(
+        params: RetentionPolicy & { agentId: UUID; dryRun?: boolean }
+    ): Promise<number> {
+        if (["logs", "goals", "cache"].includes(params.tableName)) {
+            throw new Error(
+                `Retention of ${params.tableName} is not supported by ${this.constructor.name}`
+            );
+        }
+
+        const before = params.maxAge ? Date.now() - params.maxAge : undefined;
+        let deleted = 0;
+        for (const roomId of await this.getRoomsForParticipant(
+            params.agentId
+        )) {
+            // newest first
+            const memories = await this.getMemories({
+                roomId,
+                tableName: params.tableName,
+                agentId: params.agentId,
+                unique: false,
+            });
+            const expired = memories.filter(
+                (memory, index) =>
+                    index >=
+                        (params.maxCountPerRoom ?? Number.POSITIVE_INFINITY) ||
+                    (before !== undefined && memory.createdAt < before)
+            );
+            if (!params.dryRun) {
+                for (const memory of expired) {
+                    await this.removeMemory(memory.id, params.tableName);
+                }
+            }
+            deleted += expired.length;
+        }
+        return deleted;
+    }
+
+    /**
+     * Removes or anonymizes the data tied to an account.
+     *
+     * Direct conversations, rooms of the user and the agent whose memories they hold that nobody
+     * else wrote in, are removed entirely and listed in the report.
+     * In shared rooms the user's memories are deleted or anonymized, and their goals, logs,
+     * participations, relationships, cache entries and account are removed. Erasing only part of
+     * this data would leave the user behind, so the default implementation throws.
+     * @param userId The account to erase
+     * @param options Dry run and handling of messages in shared rooms
+     * @returns What was erased, or would be erased in a dry run
+     */
+    async eraseUser(
+        userId: UUID,
+        _options: UserErasureOptions = {}
+    ): Promise<UserErasureReport> {
+        throw new Error(
+            `Erasing user ${userId} is not supported by ${this.constructor.name}`
+        );
+    }
+
     /**
      * Executes an operation with circuit breaker protection.
      * @param operation A function that returns a Promise to be executed with circuit breaker protection
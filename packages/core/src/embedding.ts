@@ -1,5 +1,10 @@
 import { getEmbeddingModelSettings, getEndpoint } from "./models.ts";
-import { type IAgentRuntime, ModelProviderName } from "./types.ts";
+import {
+    type EmbeddingTag,
+    type IAgentRuntime,
+    ModelClass,
+    ModelProviderName,
+} from "./types.ts";
 import settings from "./settings.ts";
 import elizaLogger from "./logger.ts";
 import LocalEmbeddingModelManager from "./localembeddingManager.ts";
@@ -12,6 +17,7 @@ interface EmbeddingOptions {
     isOllama?: boolean;
     dimensions?: number;
     provider?: string;
+    runtime?: IAgentRuntime;
 }
 
 export const EmbeddingProvider = {
@@ -66,6 +72,18 @@ export const getEmbeddingConfig = (): EmbeddingConfig => ({
                   : "BGE",
 });
 
+/**
+ * Returns the tag stored with new vectors, identifying the configured embedding model.
+ */
+export function getEmbeddingTag(): EmbeddingTag {
+    const config = getEmbeddingConfig();
+    return {
+        provider: config.provider,
+        model: config.model,
+        dimensions: config.dimensions,
+    };
+}
+
 async function getRemoteEmbedding(
     input: string,
     options: EmbeddingOptions
@@ -110,9 +128,17 @@ async function getRemoteEmbedding(
 
         interface EmbeddingResponse {
             data: Array<{ embedding: number[] }>;
+            usage?: { prompt_tokens?: number };
         }
 
         const data: EmbeddingResponse = await response.json();
+        await options.runtime?.usageLedger?.record({
+            provider: options.provider,
+            model: options.model,
+            modelClass: ModelClass.EMBEDDING,
+            caller: "embed",
+            promptTokens: data?.usage?.prompt_tokens,
+        });
         return data?.data?.[0].embedding;
     } catch (e) {
         elizaLogger.error("Full error details:", e);
@@ -214,6 +240,8 @@ export async function embed(runtime: IAgentRuntime, input: string) {
             endpoint: settings.OPENAI_API_URL || "https://api.openai.com/v1",
             apiKey: settings.OPENAI_API_KEY,
             dimensions: config.dimensions,
+            provider: ModelProviderName.OPENAI,
+            runtime,
         });
     }
 
@@ -225,6 +253,8 @@ export async function embed(runtime: IAgentRuntime, input: string) {
                 getEndpoint(ModelProviderName.OLLAMA),
             isOllama: true,
             dimensions: config.dimensions,
+            provider: ModelProviderName.OLLAMA,
+            runtime,
         });
     }
 
@@ -239,6 +269,8 @@ export async function embed(runtime: IAgentRuntime, input: string) {
                 settings.LARGE_GAIANET_SERVER_URL,
             apiKey: settings.GAIANET_API_KEY || runtime.token,
             dimensions: config.dimensions,
+            provider: ModelProviderName.GAIANET,
+            runtime,
         });
     }
 
@@ -248,6 +280,8 @@ export async function embed(runtime: IAgentRuntime, input: string) {
             endpoint: getEndpoint(ModelProviderName.HEURIST),
             apiKey: runtime.token,
             dimensions: config.dimensions,
+            provider: ModelProviderName.HEURIST,
+            runtime,
         });
     }
 
@@ -271,6 +305,8 @@ export async function embed(runtime: IAgentRuntime, input: string) {
             getEndpoint(runtime.character.modelProvider),
         apiKey: runtime.token,
         dimensions: config.dimensions,
+        provider: runtime.character.modelProvider,
+        runtime,
     });
 
     async function getLocalEmbedding(input: string): Promise<number[]> {
@@ -0,0 +1,333 @@
+import { embed, getEmbeddingTag } from "./embedding.ts";
+import elizaLogger from "./logger.ts";
+import type {
+    EmbeddingMismatchReport,
+    EmbeddingTag,
+    IAgentRuntime,
+    Memory,
+    RAGKnowledgeItem,
+    ReembeddingOptions,
+    ReembeddingProgress,
+    UUID,
+} from "./types.ts";
+
+/** Table name standing for the RAG knowledge table */
+const KNOWLEDGE_TABLE = "knowledge";
+
+const DEFAULT_TABLES = [
+    "messages",
+    "descriptions",
+    "lore",
+    "documents",
+    "fragments",
+    KNOWLEDGE_TABLE,
+];
+
+const DEFAULT_BATCH_SIZE = 20;
+
+const getProgressKey = (agentId: UUID) => `embedding-migration/${agentId}`;
+
+const isSameTag = (a: EmbeddingTag, b: EmbeddingTag) =>
+    a.provider === b.provider &&
+    a.model === b.model &&
+    a.dimensions === b.dimensions;
+
+const isZeroVector = (embedding: ArrayLike<number>) =>
+    Array.prototype.every.call(embedding, (value: number) => value === 0);
+
+/**
+ * Whether a stored vector was produced by the given embedding model.
+ *
+ * Vectors stored before tagging was introduced are only compared by dimension.
+ */
+export function isEmbeddingCompatible(
+    embedding: ArrayLike<number> | undefined,
+    tag: EmbeddingTag | undefined,
+    current: EmbeddingTag
+): boolean {
+    if (!embedding || embedding.length === 0) {
+        return true;
+    }
+    if (tag) {
+        return isSameTag(tag, current);
+    }
+    return embedding.length === current.dimensions;
+}
+
+/**
+ * Compares a sample of the agent's stored vectors with the current embedding configuration.
+ *
+ * @param runtime - The agent runtime.
+ * @param sampleSize - Number of knowledge items and memories to sample.
+ * @returns The mismatch report, `mismatched` is 0 when every sampled vector is compatible.
+ */
+export async function detectEmbeddingMismatch(
+    runtime: IAgentRuntime,
+    sampleSize = 50
+): Promise<EmbeddingMismatchReport> {
+    const current = getEmbeddingTag();
+    const report: EmbeddingMismatchReport = {
+        current,
+        sampled: 0,
+        mismatched: 0,
+        storedTags: [],
+    };
+
+    const check = (
+        embedding: ArrayLike<number> | undefined,
+        tag: EmbeddingTag | undefined
+    ) => {
+        if (!embedding || isZeroVector(embedding)) {
+            return;
+        }
+        report.sampled++;
+        if (isEmbeddingCompatible(embedding, tag, current)) {
+            return;
+        }
+        report.mismatched++;
+        const stored = tag ?? {
+            provider: "unknown",
+            model: "unknown",
+            dimensions: embedding.length,
+        };
+        if (!report.storedTags.some((known) => isSameTag(known, stored))) {
+            report.storedTags.push(stored);
+        }
+    };
+
+    const knowledge = await runtime.databaseAdapter.getKnowledge({
+        agentId: runtime.agentId,
+        limit: sampleSize,
+    });
+    for (const item of knowledge) {
+        check(item.embedding, item.content.metadata?.embeddingTag);
+    }
+
+    const roomIds = await getAgentRoomIds(runtime);
+    if (roomIds.length > 0) {
+        for (const tableName of ["messages", "fragments"]) {
+            const memories =
+                await runtime.databaseAdapter.getMemoriesByRoomIds({
+                    tableName,
+                    agentId: runtime.agentId,
+                    roomIds,
+                    limit: sampleSize,
+                });
+            for (const memory of memories) {
+                check(memory.embedding, memory.content.embeddingTag);
+            }
+        }
+    }
+
+    return report;
+}
+
+/**
+ * Returns the progress of the last re-embedding job of the agent, if any.
+ */
+export async function getReembeddingProgress(
+    runtime: IAgentRuntime
+): Promise<ReembeddingProgress | undefined> {
+    return runtime.cacheManager.get<ReembeddingProgress>(
+        getProgressKey(runtime.agentId)
+    );
+}
+
+/**
+ * Re-embeds the agent's memories and knowledge with the current embedding model.
+ *
+ * The storage is first resized to the dimension of the current model, clearing the vectors of
+ * another dimension. Tables are then read one page of `batchSize` items at a time, items are updated
+ * in place through the database adapter and the progress is kept in the cache after every page.
+ * Items already tagged with the current model are skipped, so an interrupted job resumes where it
+ * stopped when called again.
+ *
+ * @param runtime - The agent runtime.
+ * @param options - Tables, batch size and progress callback.
+ * @returns The final progress of the job.
+ */
+export async function reembedMemories(
+    runtime: IAgentRuntime,
+    options: ReembeddingOptions = {}
+): Promise<ReembeddingProgress> {
+    const tables = options.tables ?? DEFAULT_TABLES;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const target = getEmbeddingTag();
+    const key = getProgressKey(runtime.agentId);
+
+    const previous = await runtime.cacheManager.get<ReembeddingProgress>(key);
+    const resumed =
+        previous && !previous.done && isSameTag(previous.target, target);
+    const progress: ReembeddingProgress = resumed
+        ? previous
+        : {
+              target,
+              completedTables: [],
+              processed: 0,
+              updated: 0,
+              failed: 0,
+              done: false,
+              startedAt: Date.now(),
+              updatedAt: Date.now(),
+          };
+
+    if (resumed) {
+        elizaLogger.info(
+            `Resuming re-embedding with ${target.provider}/${target.model}, ${progress.processed} items already processed`
+        );
+    }
+
+    // fixed size vector columns reject vectors of the new model until they are resized
+    await runtime.databaseAdapter.resizeEmbeddings(target.dimensions);
+
+    const saveProgress = async () => {
+        progress.updatedAt = Date.now();
+        await runtime.cacheManager.set(key, progress);
+        options.onProgress?.({ ...progress });
+    };
+
+    const needsEmbedding = (
+        embedding: ArrayLike<number> | undefined,
+        tag: EmbeddingTag | undefined
+    ) =>
+        options.force ||
+        !embedding ||
+        isZeroVector(embedding) ||
+        !tag ||
+        !isSameTag(tag, target);
+
+    const run = async <T>(
+        loadPage: (offset: number) => Promise<T[]>,
+        isOutdated: (item: T) => boolean,
+        reembed: (item: T) => Promise<void>
+    ) => {
+        for (let offset = 0; ; offset += batchSize) {
+            const page = await loadPage(offset);
+            for (const item of page.filter(isOutdated)) {
+                progress.processed++;
+                try {
+                    await reembed(item);
+                    progress.updated++;
+                } catch (error) {
+                    progress.failed++;
+                    elizaLogger.error(
+                        `Failed to re-embed item of ${progress.currentTable}:`,
+                        error
+                    );
+                }
+            }
+            await saveProgress();
+            elizaLogger.info(
+                `Re-embedding ${progress.currentTable}: ${offset + page.length} items checked`
+            );
+            if (page.length < batchSize) {
+                return;
+            }
+        }
+    };
+
+    for (const tableName of tables) {
+        if (progress.completedTables.includes(tableName)) {
+            continue;
+        }
+        progress.currentTable = tableName;
+        await saveProgress();
+
+        if (tableName === KNOWLEDGE_TABLE) {
+            await run(
+                (offset) =>
+                    runtime.databaseAdapter.getKnowledge({
+                        agentId: runtime.agentId,
+                        limit: batchSize,
+                        offset,
+                    }),
+                (item) =>
+                    item.agentId === runtime.agentId &&
+                    needsEmbedding(
+                        item.embedding,
+                        item.content.metadata?.embeddingTag
+                    ),
+                (item) => reembedKnowledge(runtime, item)
+            );
+        } else {
+            const roomIds = await getAgentRoomIds(runtime);
+            if (roomIds.length > 0) {
+                await run(
+                    (offset) =>
+                        runtime.databaseAdapter.getMemoriesByRoomIds({
+                            tableName,
+                            agentId: runtime.agentId,
+                            roomIds,
+                            limit: batchSize,
+                            offset,
+                        }),
+                    (memory) =>
+                        Boolean(memory.content.text) &&
+                        needsEmbedding(
+                            memory.embedding,
+                            memory.content.embeddingTag
+                        ),
+                    (memory) => reembedMemory(runtime, memory, tableName)
+                );
+            }
+        }
+
+        progress.completedTables.push(tableName);
+    }
+
+    progress.currentTable = undefined;
+    progress.done = true;
+    await saveProgress();
+    elizaLogger.success(
+        `Re-embedded ${progress.updated} of ${progress.processed} items with ${target.provider}/${target.model} (${progress.failed} failed)`
+    );
+    return progress;
+}
+
+async function getAgentRoomIds(runtime: IAgentRuntime): Promise<UUID[]> {
+    const roomIds = await runtime.databaseAdapter.getRoomsForParticipant(
+        runtime.agentId
+    );
+    // knowledge memories are stored in the agent's own room
+    return roomIds.includes(runtime.agentId)
+        ? roomIds
+        : [...roomIds, runtime.agentId];
+}
+
+async function reembedMemory(
+    runtime: IAgentRuntime,
+    memory: Memory,
+    tableName: string
+): Promise<void> {
+    const embedding = await embed(runtime, memory.content.text);
+    await runtime.databaseAdapter.updateMemoryEmbedding(
+        {
+            ...memory,
+            embedding,
+            content: { ...memory.content, embeddingTag: getEmbeddingTag() },
+        },
+        tableName
+    );
+}
+
+async function reembedKnowledge(
+    runtime: IAgentRuntime,
+    item: RAGKnowledgeItem
+): Promise<void> {
+    // main documents are embedded from their preprocessed text, like on creation
+    const text = item.content.metadata?.isChunk
+        ? item.content.text
+        : runtime.ragKnowledgeManager.preprocess(item.content.text);
+    const embedding = await embed(runtime, text);
+    await runtime.databaseAdapter.updateKnowledgeEmbedding({
+        ...item,
+        embedding: new Float32Array(embedding),
+        content: {
+            ...item.content,
+            metadata: {
+                ...item.content.metadata,
+                embeddingTag: getEmbeddingTag(),
+            },
+        },
+    });
+}
@@ -1,6 +1,7 @@
 import { names, uniqueNamesGenerator } from "unique-names-generator";
 import type { ActionExample, Evaluator } from "./types.ts";
 import { stringArrayFooter } from "./parsing.ts";
+import { normalizeActionName } from "./actions.ts";
 
 /**
  * Template used for the evaluation generateText.
@@ -119,3 +120,39 @@ export function formatEvaluatorExampleDescriptions(evaluators: Evaluator[]) {
         )
         .join("\n\n");
 }
+
+/**
+ * Matches evaluator names returned by the model against a set of evaluators.
+ * Names are compared with casing and separators normalized, against both the evaluator name and its similes.
+ * @param evaluators - The evaluators that may be selected.
+ * @param names - The names returned by the model.
+ * @returns The selected evaluators, in registration order, and the names that matched none of them.
+ */
+export function matchEvaluatorNames(evaluators: Evaluator[], names: unknown[]) {
+    const matched = new Set<Evaluator>();
+    const unmatched: string[] = [];
+
+    for (const name of names) {
+        const normalized =
+            typeof name === "string" ? normalizeActionName(name) : "";
+        const evaluator = normalized
+            ? evaluators.find((candidate) =>
+                  [candidate.name, ...(candidate.similes ?? [])].some(
+                      (candidateName) =>
+                          normalizeActionName(candidateName) === normalized
+                  )
+              )
+            : undefined;
+
+        if (evaluator) {
+            matched.add(evaluator);
+        } else {
+            unmatched.push(String(name));
+        }
+    }
+
+    return {
+        matched: evaluators.filter((evaluator) => matched.has(evaluator)),
+        unmatched,
+    };
+}
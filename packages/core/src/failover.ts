@@ -0,0 +1,276 @@
+import { elizaLogger } from "./index.ts";
+import { getModelSettings } from "./models.ts";
+import type {
+    IAgentRuntime,
+    ModelClass,
+    ModelFallbackProvider,
+    ProviderAttempt,
+    ProviderCallReport,
+} from "./types.ts";
+
+const DEFAULT_RETRIES = 1;
+const DEFAULT_INITIAL_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+/** Runtimes created for a single provider of a fallback chain */
+const providerRuntimes = new WeakSet<IAgentRuntime>();
+
+const RETRYABLE_ERROR_CODES = [
+    "ETIMEDOUT",
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "EAI_AGAIN",
+    "UND_ERR_CONNECT_TIMEOUT",
+    "UND_ERR_HEADERS_TIMEOUT",
+    "UND_ERR_SOCKET",
+];
+
+/**
+ * Reads the HTTP status code from a provider error, if it has one.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+    if (!error || typeof error !== "object") {
+        return undefined;
+    }
+    const { statusCode, status, response } = error as {
+        statusCode?: unknown;
+        status?: unknown;
+        response?: { status?: unknown };
+    };
+    const value = statusCode ?? status ?? response?.status;
+    return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Determines whether a provider error is worth retrying or failing over:
+ * rate limits (429), request timeouts (408), server errors (5xx), timeouts and dropped connections.
+ */
+export function isRetryableProviderError(error: unknown): boolean {
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    if (!error || typeof error !== "object") {
+        return false;
+    }
+
+    const { name, code, cause } = error as {
+        name?: string;
+        code?: string;
+        cause?: unknown;
+    };
+    if (name === "TimeoutError" || RETRYABLE_ERROR_CODES.includes(code)) {
+        return true;
+    }
+    return cause !== undefined && isRetryableProviderError(cause);
+}
+
+/**
+ * Lists the providers of the character's fallback chain, starting with its own model provider.
+ * @param runtime - The agent runtime.
+ * @returns The providers in the order they are tried.
+ */
+export function getProviderChain(
+    runtime: IAgentRuntime
+): ModelFallbackProvider[] {
+    const options = runtime.character.settings?.modelFallback;
+    const chain: ModelFallbackProvider[] = [
+        {
+            provider: runtime.modelProvider,
+            models: options?.models,
+            endpoint: runtime.character.modelEndpointOverride,
+        },
+    ];
+
+    for (const entry of options?.providers ?? []) {
+        chain.push(typeof entry === "string" ? { provider: entry } : entry);
+    }
+    return chain;
+}
+
+/**
+ * Creates a view of the runtime that talks to a single provider of the fallback chain.
+ * The view shares everything else with the runtime it was created from.
+ */
+function createProviderRuntime(
+    runtime: IAgentRuntime,
+    entry: ModelFallbackProvider
+): IAgentRuntime {
+    const isPrimary = entry.provider === runtime.modelProvider;
+    const providerRuntime = Object.create(runtime) as IAgentRuntime;
+
+    providerRuntime.modelProvider = entry.provider;
+    providerRuntime.token = isPrimary
+        ? runtime.token
+        : (runtime.getSetting(
+              entry.apiKeySetting ??
+                  `${entry.provider.toUpperCase()}_API_KEY`
+          ) ?? "");
+    providerRuntime.character = {
+        ...runtime.character,
+        modelProvider: entry.provider,
+        modelEndpointOverride: entry.endpoint,
+        settings: {
+            ...runtime.character.settings,
+            modelFallback: { models: entry.models },
+        },
+    };
+
+    providerRuntimes.add(providerRuntime);
+    return providerRuntime;
+}
+
+/**
+ * Whether generation calls for this runtime should go through the fallback chain.
+ * Runtimes created for a single provider of the chain never fail over again.
+ */
+export function usesProviderFailover(runtime: IAgentRuntime): boolean {
+    return (
+        !!runtime.character?.settings?.modelFallback &&
+        !providerRuntimes.has(runtime)
+    );
+}
+
+/**
+ * Returns the model name override for a class from the character's fallback settings.
+ */
+export function getModelOverride(
+    runtime: IAgentRuntime,
+    modelClass: ModelClass
+): string | undefined {
+    return runtime.character?.settings?.modelFallback?.models?.[modelClass];
+}
+
+/**
+ * Runs a provider call with a signal that is aborted when the timeout fires, so the request stops
+ * rather than running on after the chain has moved to the next provider.
+ */
+function withTimeout<T>(
+    run: (abortSignal: AbortSignal) => Promise<T>,
+    timeoutMs?: number
+): Promise<T> {
+    const controller = new AbortController();
+    if (!timeoutMs) {
+        return run(controller.signal);
+    }
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new Error(`Provider timed out after ${timeoutMs}ms`);
+            error.name = "TimeoutError";
+            controller.abort(error);
+            reject(error);
+        }, timeoutMs);
+    });
+    return Promise.race([run(controller.signal), timeout]).finally(() =>
+        clearTimeout(timer)
+    );
+}
+
+/**
+ * Runs a generation call against the character's provider chain.
+ *
+ * Each provider is retried on retryable errors with exponential backoff, then the next provider
+ * in `settings.modelFallback.providers` is tried. Errors that are not retryable are thrown at once.
+ * Every call is reported through `databaseAdapter.log` with type "model_provider".
+ *
+ * @param runtime - The agent runtime.
+ * @param modelClass - The model class of the call.
+ * @param caller - Name of the generation function, used in telemetry.
+ * @param generate - Performs the call with a runtime bound to one provider, passing the signal
+ * aborted on `settings.modelFallback.timeoutMs` to the request.
+ * @returns The result of the first successful call.
+ */
+export async function withProviderFailover<T>(
+    runtime: IAgentRuntime,
+    modelClass: ModelClass,
+    caller: string,
+    generate: (
+        providerRuntime: IAgentRuntime,
+        abortSignal: AbortSignal
+    ) => Promise<T>
+): Promise<T> {
+    const options = runtime.character.settings?.modelFallback ?? {};
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    let delayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+
+    const report: ProviderCallReport = { caller, modelClass, attempts: [] };
+    let lastError: unknown;
+
+    try {
+        for (const entry of getProviderChain(runtime)) {
+            const providerRuntime = createProviderRuntime(runtime, entry);
+            const model =
+                entry.models?.[modelClass] ??
+                getModelSettings(entry.provider, modelClass)?.name;
+
+            for (let attempt = 0; attempt <= retries; attempt++) {
+                if (report.attempts.length > 0) {
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, delayMs)
+                    );
+                    delayMs = Math.min(delayMs * 2, maxDelayMs);
+                }
+
+                const startedAt = Date.now();
+                try {
+                    const result = await withTimeout(
+                        (abortSignal) => generate(providerRuntime, abortSignal),
+                        options.timeoutMs
+                    );
+                    report.attempts.push({
+                        provider: entry.provider,
+                        model,
+                        durationMs: Date.now() - startedAt,
+                    });
+                    report.servedBy = entry.provider;
+                    report.model = model;
+
+                    if (entry.provider !== runtime.modelProvider) {
+                        elizaLogger.info(
+                            `${caller} served by fallback provider ${entry.provider} (${model})`
+                        );
+                    }
+                    return result;
+                } catch (error) {
+                    lastError = error;
+                    const retryable = isRetryableProviderError(error);
+                    report.attempts.push({
+                        provider: entry.provider,
+                        model,
+                        durationMs: Date.now() - startedAt,
+                        status: getErrorStatus(error),
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                        retryable,
+                    });
+                    elizaLogger.warn(
+                        `${caller} failed on ${entry.provider} (${model}): ${error instanceof Error ? error.message : String(error)}`
+                    );
+
+                    if (!retryable) {
+                        throw error;
+                    }
+                }
+            }
+        }
+
+        throw lastError;
+    } finally {
+        try {
+            await runtime.databaseAdapter?.log({
+                body: { ...report },
+                userId: runtime.agentId,
+                roomId: runtime.agentId,
+                type: "model_provider",
+            });
+        } catch (error) {
+            elizaLogger.error(
+                `Failed to log provider telemetry: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+}
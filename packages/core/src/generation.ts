@@ -8,8 +8,12 @@ import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import {
     generateObject as aiGenerateObject,
     generateText as aiGenerateText,
+    streamText as aiStreamText,
+    NoObjectGeneratedError,
     type CoreTool,
     type GenerateObjectResult,
+    type LanguageModelUsage,
+    type LanguageModelV1,
     type StepResult as AIStepResult,
 } from "ai";
 import { Buffer } from "buffer";
@@ -19,6 +23,7 @@ import { encodingForModel, type TiktokenModel } from "js-tiktoken";
 import { AutoTokenizer } from "@huggingface/transformers";
 import Together from "together-ai";
 import type { ZodSchema } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 import { elizaLogger } from "./index.ts";
 import {
     models,
@@ -33,7 +38,28 @@ import {
     parseShouldRespondFromText,
     parseActionResponseFromText,
 } from "./parsing.ts";
+import {
+    getModelOverride,
+    usesProviderFailover,
+    withProviderFailover,
+} from "./failover.ts";
+import {
+    getCachedResponse,
+    getResponseCacheKey,
+    isResponseCacheEnabled,
+    setCachedResponse,
+} from "./responseCache.ts";
 import settings from "./settings.ts";
+import { UsageBudgetExceededError } from "./usage.ts";
+import {
+    buildRepairContext,
+    getStructuredOutputInstructions,
+    parseStructuredOutput,
+    StructuredOutputError,
+    StructuredOutputParseError,
+    StructuredOutputValidationError,
+    supportsNativeStructuredOutput,
+} from "./structuredOutput.ts";
 import {
     type Content,
     type IAgentRuntime,
@@ -49,6 +75,8 @@ import {
     //VerifiableInferenceProvider,
     type TelemetrySettings,
     TokenizerType,
+    type UsageTags,
+    type StructuredOutputAttempt,
 } from "./types.ts";
 import { fal } from "@fal-ai/client";
 
@@ -325,6 +353,378 @@ function getCloudflareGatewayBaseURL(
     return baseURL;
 }
 
+/**
+ * Resolves the model name for a model class, letting runtime settings override the defaults.
+ * @param runtime The agent runtime.
+ * @param modelClass The model class to resolve.
+ * @returns The model name.
+ */
+function getModelName(runtime: IAgentRuntime, modelClass: ModelClass): string {
+    const override = getModelOverride(runtime, modelClass);
+    if (override) {
+        return override;
+    }
+
+    const provider = runtime.modelProvider;
+    let model = getModelSettings(provider, modelClass).name;
+
+    // allow character.json settings => secrets to override models
+    // FIXME: add MODEL_MEDIUM support
+    switch (provider) {
+        // if runtime.getSetting("LLAMACLOUD_MODEL_LARGE") is true and modelProvider is LLAMACLOUD, then use the large model
+        case ModelProviderName.LLAMACLOUD:
+            {
+                switch (modelClass) {
+                    case ModelClass.LARGE:
+                        {
+                            model =
+                                runtime.getSetting("LLAMACLOUD_MODEL_LARGE") ||
+                                model;
+                        }
+                        break;
+                    case ModelClass.SMALL:
+                        {
+                            model =
+                                runtime.getSetting("LLAMACLOUD_MODEL_SMALL") ||
+                                model;
+                        }
+                        break;
+                }
+            }
+            break;
+        case ModelProviderName.TOGETHER:
+            {
+                switch (modelClass) {
+                    case ModelClass.LARGE:
+                        {
+                            model =
+                                runtime.getSetting("TOGETHER_MODEL_LARGE") ||
+                                model;
+                        }
+                        break;
+                    case ModelClass.SMALL:
+                        {
+                            model =
+                                runtime.getSetting("TOGETHER_MODEL_SMALL") ||
+                                model;
+                        }
+                        break;
+                }
+            }
+            break;
+        case ModelProviderName.OPENROUTER:
+            {
+                switch (modelClass) {
+                    case ModelClass.LARGE:
+                        {
+                            model =
+                                runtime.getSetting("LARGE_OPENROUTER_MODEL") ||
+                                model;
+                        }
+                        break;
+                    case ModelClass.SMALL:
+                        {
+                            model =
+                                runtime.getSetting("SMALL_OPENROUTER_MODEL") ||
+                                model;
+                        }
+                        break;
+                }
+            }
+            break;
+    }
+
+    return model;
+}
+
+/**
+ * Creates the AI SDK language model of the runtime's provider, shared by `generateText` and
+ * `streamText` so both resolve providers the same way.
+ * @param runtime The agent runtime.
+ * @param modelClass The model class, used by providers with a server per class.
+ * @param model The model name, see `getModelName`.
+ * @returns The language model, or undefined for providers called without the AI SDK (local Llama, Livepeer).
+ */
+function getLanguageModel(
+    runtime: IAgentRuntime,
+    modelClass: ModelClass,
+    model: string
+): LanguageModelV1 | undefined {
+    const provider = runtime.modelProvider;
+    const apiKey = runtime.token;
+    const endpoint =
+        runtime.character.modelEndpointOverride || getEndpoint(provider);
+
+    switch (provider) {
+        // OPENAI & LLAMACLOUD shared same structure.
+        case ModelProviderName.OPENAI:
+        case ModelProviderName.ALI_BAILIAN:
+        case ModelProviderName.VOLENGINE:
+        case ModelProviderName.LLAMACLOUD:
+        case ModelProviderName.NANOGPT:
+        case ModelProviderName.HYPERBOLIC:
+        case ModelProviderName.TOGETHER:
+        case ModelProviderName.NINETEEN_AI:
+        case ModelProviderName.AKASH_CHAT_API:
+        case ModelProviderName.LMSTUDIO: {
+            elizaLogger.debug(
+                "Initializing OpenAI model with Cloudflare check"
+            );
+            const baseURL =
+                getCloudflareGatewayBaseURL(runtime, "openai") || endpoint;
+            return createOpenAI({
+                apiKey,
+                baseURL,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.ETERNALAI: {
+            elizaLogger.debug("Initializing EternalAI model.");
+            return createOpenAI({
+                apiKey,
+                baseURL: endpoint,
+                fetch: async (
+                    input: RequestInfo | URL,
+                    init?: RequestInit
+                ): Promise<Response> => {
+                    const url =
+                        typeof input === "string" ? input : input.toString();
+                    const chain_id =
+                        runtime.getSetting("ETERNALAI_CHAIN_ID") || "45762";
+
+                    const options: RequestInit = { ...init };
+                    if (options?.body) {
+                        const body = JSON.parse(options.body as string);
+                        body.chain_id = chain_id;
+                        options.body = JSON.stringify(body);
+                    }
+
+                    const fetching = await runtime.fetch(url, options);
+
+                    if (
+                        parseBooleanFromText(runtime.getSetting("ETERNALAI_LOG"))
+                    ) {
+                        elizaLogger.info(
+                            "Request data: ",
+                            JSON.stringify(options, null, 2)
+                        );
+                        const clonedResponse = fetching.clone();
+                        try {
+                            clonedResponse.json().then((data) => {
+                                elizaLogger.info(
+                                    "Response data: ",
+                                    JSON.stringify(data, null, 2)
+                                );
+                            });
+                        } catch (e) {
+                            elizaLogger.debug(e);
+                        }
+                    }
+                    return fetching;
+                },
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.GOOGLE:
+            return createGoogleGenerativeAI({
+                apiKey,
+                fetch: runtime.fetch,
+            })(model);
+
+        case ModelProviderName.MISTRAL:
+            return createMistral()(model);
+
+        case ModelProviderName.ANTHROPIC: {
+            elizaLogger.debug(
+                "Initializing Anthropic model with Cloudflare check"
+            );
+            const baseURL =
+                getCloudflareGatewayBaseURL(runtime, "anthropic") ||
+                "https://api.anthropic.com/v1";
+            elizaLogger.debug("Anthropic baseURL result:", { baseURL });
+            return createAnthropic({
+                apiKey,
+                baseURL,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.CLAUDE_VERTEX:
+            elizaLogger.debug("Initializing Claude Vertex model.");
+            return createAnthropic({
+                apiKey,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+
+        case ModelProviderName.GROK:
+            elizaLogger.debug("Initializing Grok model.");
+            return createOpenAI({
+                apiKey,
+                baseURL: endpoint,
+                fetch: runtime.fetch,
+            }).languageModel(model, {
+                parallelToolCalls: false,
+            });
+
+        case ModelProviderName.GROQ: {
+            elizaLogger.debug("Initializing Groq model with Cloudflare check");
+            const baseURL = getCloudflareGatewayBaseURL(runtime, "groq");
+            elizaLogger.debug("Groq baseURL result:", { baseURL });
+            return createGroq({
+                apiKey,
+                fetch: runtime.fetch,
+                baseURL,
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.REDPILL:
+        case ModelProviderName.OPENROUTER:
+            elizaLogger.debug(`Initializing ${provider} model.`);
+            return createOpenAI({
+                apiKey,
+                baseURL: getEndpoint(provider),
+                fetch: runtime.fetch,
+            }).languageModel(model);
+
+        case ModelProviderName.OLLAMA:
+            elizaLogger.debug("Initializing Ollama model.");
+            elizaLogger.debug("****** MODEL\n", model);
+            return createOllama({
+                baseURL: getEndpoint(provider) + "/api",
+                fetch: runtime.fetch,
+            })(model);
+
+        case ModelProviderName.GAIANET: {
+            elizaLogger.debug("Initializing GAIANET model.");
+
+            let baseURL = getEndpoint(provider);
+            if (!baseURL) {
+                switch (modelClass) {
+                    case ModelClass.SMALL:
+                        baseURL =
+                            settings.SMALL_GAIANET_SERVER_URL ||
+                            "https://llama3b.gaia.domains/v1";
+                        break;
+                    case ModelClass.MEDIUM:
+                        baseURL =
+                            settings.MEDIUM_GAIANET_SERVER_URL ||
+                            "https://llama8b.gaia.domains/v1";
+                        break;
+                    case ModelClass.LARGE:
+                        baseURL =
+                            settings.LARGE_GAIANET_SERVER_URL ||
+                            "https://qwen72b.gaia.domains/v1";
+                        break;
+                }
+            }
+
+            elizaLogger.debug("Using GAIANET model with baseURL:", baseURL);
+
+            return createOpenAI({
+                apiKey,
+                baseURL: endpoint,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.HEURIST:
+        case ModelProviderName.ATOMA:
+            elizaLogger.debug(`Initializing ${provider} model.`);
+            return createOpenAI({
+                apiKey,
+                baseURL: endpoint,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+
+        case ModelProviderName.GALADRIEL: {
+            elizaLogger.debug("Initializing Galadriel model.");
+            const headers = {};
+            const fineTuneApiKey = runtime.getSetting(
+                "GALADRIEL_FINE_TUNE_API_KEY"
+            );
+            if (fineTuneApiKey) {
+                headers["Fine-Tune-Authentication"] = fineTuneApiKey;
+            }
+            return createOpenAI({
+                headers,
+                apiKey: apiKey,
+                baseURL: endpoint,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.INFERA: {
+            elizaLogger.debug("Initializing Infera model.");
+            const inferaApiKey = settings.INFERA_API_KEY || apiKey;
+            return createOpenAI({
+                apiKey: inferaApiKey,
+                baseURL: endpoint,
+                headers: {
+                    api_key: inferaApiKey,
+                    "Content-Type": "application/json",
+                },
+            }).languageModel(model);
+        }
+
+        case ModelProviderName.VENICE:
+        case ModelProviderName.NVIDIA:
+            elizaLogger.debug(`Initializing ${provider} model.`);
+            return createOpenAI({
+                apiKey: apiKey,
+                baseURL: endpoint,
+            }).languageModel(model);
+
+        case ModelProviderName.DEEPSEEK:
+            elizaLogger.debug("Initializing Deepseek model.");
+            return createOpenAI({
+                apiKey,
+                baseURL: models[provider].endpoint,
+                fetch: runtime.fetch,
+            }).languageModel(model);
+
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Builds the response cache key of a text completion. `generateText` and `streamText` share it,
+ * so a streamed completion is served from the same entry as a generated one.
+ */
+function getTextResponseCacheKey(
+    runtime: IAgentRuntime,
+    modelClass: ModelClass,
+    context: string,
+    stop?: string[],
+    customSystemPrompt?: string
+): string {
+    const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
+    const modelConfiguration = runtime.character?.settings?.modelConfig;
+    return getResponseCacheKey({
+        kind: "text",
+        provider: runtime.modelProvider,
+        model: getModelName(runtime, modelClass),
+        context,
+        system:
+            customSystemPrompt ??
+            runtime.character.system ??
+            settings.SYSTEM_PROMPT,
+        temperature:
+            modelConfiguration?.temperature || modelSettings.temperature,
+        stop: stop || modelSettings.stop,
+        maxTokens:
+            modelConfiguration?.maxOutputTokens ||
+            modelSettings.maxOutputTokens,
+        frequencyPenalty:
+            modelConfiguration?.frequency_penalty ||
+            modelSettings.frequency_penalty,
+        presencePenalty:
+            modelConfiguration?.presence_penalty ||
+            modelSettings.presence_penalty,
+    });
+}
+
 /**
  * Send a message to the model for a text generateText - receive a string back and parse how you'd like
  * @param opts - The options for the generateText request.
@@ -335,6 +735,7 @@ function getCloudflareGatewayBaseURL(
  * @param opts.presence_penalty The presence penalty to apply to the generateText.
  * @param opts.temperature The temperature to apply to the generateText.
  * @param opts.max_context_length The maximum length of the context to apply to the generateText.
+ * @param opts.abortSignal A signal to cancel the request, also aborted when a provider of the fallback chain times out.
  * @returns The completed message.
  */
 
@@ -349,6 +750,10 @@ export async function generateText({
     customSystemPrompt,
     verifiableInference = process.env.VERIFIABLE_INFERENCE_ENABLED === "true",
     verifiableInferenceOptions,
+    maxRetries,
+    abortSignal,
+    bypassCache,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
@@ -361,6 +766,10 @@ export async function generateText({
     verifiableInference?: boolean;
     verifiableInferenceAdapter?: IVerifiableInferenceAdapter;
     verifiableInferenceOptions?: VerifiableInferenceOptions;
+    maxRetries?: number;
+    abortSignal?: AbortSignal;
+    bypassCache?: boolean;
+    usageTags?: UsageTags;
 }): Promise<string> {
     if (!context) {
         console.error("generateText context is empty");
@@ -403,6 +812,74 @@ export async function generateText({
         }
     }
 
+    // tool calls have side effects, so only plain completions are cached
+    if (
+        isResponseCacheEnabled(runtime, bypassCache) &&
+        Object.keys(tools).length === 0 &&
+        !onStepFinish
+    ) {
+        const cacheKey = getTextResponseCacheKey(
+            runtime,
+            modelClass,
+            context,
+            stop,
+            customSystemPrompt
+        );
+
+        const cached = await getCachedResponse<string>(runtime, cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const response = await generateText({
+            runtime,
+            context,
+            modelClass,
+            stop,
+            customSystemPrompt,
+            verifiableInference,
+            verifiableInferenceOptions,
+            maxRetries,
+            abortSignal,
+            bypassCache: true,
+            usageTags,
+        });
+        if (response) {
+            await setCachedResponse(runtime, cacheKey, response);
+        }
+        return response;
+    }
+
+    if (usesProviderFailover(runtime)) {
+        // the fallback chain retries with its own backoff
+        return await withProviderFailover(
+            runtime,
+            modelClass,
+            "generateText",
+            (providerRuntime, timeoutSignal) =>
+                generateText({
+                    runtime: providerRuntime,
+                    context,
+                    modelClass,
+                    tools,
+                    onStepFinish,
+                    maxSteps,
+                    stop,
+                    customSystemPrompt,
+                    verifiableInference,
+                    verifiableInferenceOptions,
+                    maxRetries: 0,
+                    abortSignal: abortSignal
+                        ? AbortSignal.any([abortSignal, timeoutSignal])
+                        : timeoutSignal,
+                    bypassCache: true,
+                    usageTags,
+                })
+        );
+    }
+
+    await runtime.usageLedger?.assertWithinBudget();
+
     const provider = runtime.modelProvider;
     elizaLogger.debug("Provider settings:", {
         provider,
@@ -421,73 +898,7 @@ export async function generateText({
     const endpoint =
         runtime.character.modelEndpointOverride || getEndpoint(provider);
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
-    let model = modelSettings.name;
-
-    // allow character.json settings => secrets to override models
-    // FIXME: add MODEL_MEDIUM support
-    switch (provider) {
-        // if runtime.getSetting("LLAMACLOUD_MODEL_LARGE") is true and modelProvider is LLAMACLOUD, then use the large model
-        case ModelProviderName.LLAMACLOUD:
-            {
-                switch (modelClass) {
-                    case ModelClass.LARGE:
-                        {
-                            model =
-                                runtime.getSetting("LLAMACLOUD_MODEL_LARGE") ||
-                                model;
-                        }
-                        break;
-                    case ModelClass.SMALL:
-                        {
-                            model =
-                                runtime.getSetting("LLAMACLOUD_MODEL_SMALL") ||
-                                model;
-                        }
-                        break;
-                }
-            }
-            break;
-        case ModelProviderName.TOGETHER:
-            {
-                switch (modelClass) {
-                    case ModelClass.LARGE:
-                        {
-                            model =
-                                runtime.getSetting("TOGETHER_MODEL_LARGE") ||
-                                model;
-                        }
-                        break;
-                    case ModelClass.SMALL:
-                        {
-                            model =
-                                runtime.getSetting("TOGETHER_MODEL_SMALL") ||
-                                model;
-                        }
-                        break;
-                }
-            }
-            break;
-        case ModelProviderName.OPENROUTER:
-            {
-                switch (modelClass) {
-                    case ModelClass.LARGE:
-                        {
-                            model =
-                                runtime.getSetting("LARGE_OPENROUTER_MODEL") ||
-                                model;
-                        }
-                        break;
-                    case ModelClass.SMALL:
-                        {
-                            model =
-                                runtime.getSetting("SMALL_OPENROUTER_MODEL") ||
-                                model;
-                        }
-                        break;
-                }
-            }
-            break;
-    }
+    const model = getModelName(runtime, modelClass);
 
     elizaLogger.info("Selected model:", model);
 
@@ -508,9 +919,9 @@ export async function generateText({
         modelConfiguration?.experimental_telemetry ||
         modelSettings.experimental_telemetry;
 
-    const apiKey = runtime.token;
-
     try {
+        const languageModel = getLanguageModel(runtime, modelClass, model);
+
         elizaLogger.debug(
             `Trimming context to max length of ${max_context_length} tokens.`
         );
@@ -518,6 +929,7 @@ export async function generateText({
         context = await trimTokens(context, max_context_length, runtime);
 
         let response: string;
+        let usage: LanguageModelUsage | undefined;
 
         const _stop = stop || modelSettings.stop;
         elizaLogger.debug(
@@ -536,35 +948,26 @@ export async function generateText({
             case ModelProviderName.NINETEEN_AI:
             case ModelProviderName.AKASH_CHAT_API:
             case ModelProviderName.LMSTUDIO: {
-                elizaLogger.debug(
-                    "Initializing OpenAI model with Cloudflare check"
-                );
-                const baseURL =
-                    getCloudflareGatewayBaseURL(runtime, "openai") || endpoint;
-
-                //elizaLogger.debug("OpenAI baseURL result:", { baseURL });
-                const openai = createOpenAI({
-                    apiKey,
-                    baseURL,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: openaiResponse } = await aiGenerateText({
-                    model: openai.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: openaiResponse, usage: openaiUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = openaiUsage;
 
                 response = openaiResponse;
                 console.log("Received response from OpenAI model.");
@@ -572,55 +975,6 @@ export async function generateText({
             }
 
             case ModelProviderName.ETERNALAI: {
-                elizaLogger.debug("Initializing EternalAI model.");
-                const openai = createOpenAI({
-                    apiKey,
-                    baseURL: endpoint,
-                    fetch: async (
-                        input: RequestInfo | URL,
-                        init?: RequestInit
-                    ): Promise<Response> => {
-                        const url =
-                            typeof input === "string"
-                                ? input
-                                : input.toString();
-                        const chain_id =
-                            runtime.getSetting("ETERNALAI_CHAIN_ID") || "45762";
-
-                        const options: RequestInit = { ...init };
-                        if (options?.body) {
-                            const body = JSON.parse(options.body as string);
-                            body.chain_id = chain_id;
-                            options.body = JSON.stringify(body);
-                        }
-
-                        const fetching = await runtime.fetch(url, options);
-
-                        if (
-                            parseBooleanFromText(
-                                runtime.getSetting("ETERNALAI_LOG")
-                            )
-                        ) {
-                            elizaLogger.info(
-                                "Request data: ",
-                                JSON.stringify(options, null, 2)
-                            );
-                            const clonedResponse = fetching.clone();
-                            try {
-                                clonedResponse.json().then((data) => {
-                                    elizaLogger.info(
-                                        "Response data: ",
-                                        JSON.stringify(data, null, 2)
-                                    );
-                                });
-                            } catch (e) {
-                                elizaLogger.debug(e);
-                            }
-                        }
-                        return fetching;
-                    },
-                });
-
                 let system_prompt =
                     runtime.character.system ??
                     settings.SYSTEM_PROMPT ??
@@ -643,15 +997,19 @@ export async function generateText({
                     elizaLogger.error(e);
                 }
 
-                const { text: openaiResponse } = await aiGenerateText({
-                    model: openai.languageModel(model),
-                    prompt: context,
-                    system: system_prompt,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                });
+                const { text: openaiResponse, usage: openaiUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system: system_prompt,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                    });
+                usage = openaiUsage;
 
                 response = openaiResponse;
                 elizaLogger.debug("Received response from EternalAI model.");
@@ -659,27 +1017,26 @@ export async function generateText({
             }
 
             case ModelProviderName.GOOGLE: {
-                const google = createGoogleGenerativeAI({
-                    apiKey,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: googleResponse } = await aiGenerateText({
-                    model: google(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: googleResponse, usage: googleUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = googleUsage;
 
                 response = googleResponse;
                 elizaLogger.debug("Received response from Google model.");
@@ -687,20 +1044,22 @@ export async function generateText({
             }
 
             case ModelProviderName.MISTRAL: {
-                const mistral = createMistral();
-
-                const { text: mistralResponse } = await aiGenerateText({
-                    model: mistral(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                });
+                const { text: mistralResponse, usage: mistralUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                    });
+                usage = mistralUsage;
 
                 response = mistralResponse;
                 elizaLogger.debug("Received response from Mistral model.");
@@ -708,35 +1067,26 @@ export async function generateText({
             }
 
             case ModelProviderName.ANTHROPIC: {
-                elizaLogger.debug(
-                    "Initializing Anthropic model with Cloudflare check"
-                );
-                const baseURL =
-                    getCloudflareGatewayBaseURL(runtime, "anthropic") ||
-                    "https://api.anthropic.com/v1";
-                elizaLogger.debug("Anthropic baseURL result:", { baseURL });
-
-                const anthropic = createAnthropic({
-                    apiKey,
-                    baseURL,
-                    fetch: runtime.fetch,
-                });
-                const { text: anthropicResponse } = await aiGenerateText({
-                    model: anthropic.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: anthropicResponse, usage: anthropicUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = anthropicUsage;
 
                 response = anthropicResponse;
                 elizaLogger.debug("Received response from Anthropic model.");
@@ -744,29 +1094,26 @@ export async function generateText({
             }
 
             case ModelProviderName.CLAUDE_VERTEX: {
-                elizaLogger.debug("Initializing Claude Vertex model.");
-
-                const anthropic = createAnthropic({
-                    apiKey,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: anthropicResponse } = await aiGenerateText({
-                    model: anthropic.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: anthropicResponse, usage: anthropicUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = anthropicUsage;
 
                 response = anthropicResponse;
                 elizaLogger.debug(
@@ -776,31 +1123,26 @@ export async function generateText({
             }
 
             case ModelProviderName.GROK: {
-                elizaLogger.debug("Initializing Grok model.");
-                const grok = createOpenAI({
-                    apiKey,
-                    baseURL: endpoint,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: grokResponse } = await aiGenerateText({
-                    model: grok.languageModel(model, {
-                        parallelToolCalls: false,
-                    }),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: grokResponse, usage: grokUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = grokUsage;
 
                 response = grokResponse;
                 elizaLogger.debug("Received response from Grok model.");
@@ -808,33 +1150,26 @@ export async function generateText({
             }
 
             case ModelProviderName.GROQ: {
-                elizaLogger.debug(
-                    "Initializing Groq model with Cloudflare check"
-                );
-                const baseURL = getCloudflareGatewayBaseURL(runtime, "groq");
-                elizaLogger.debug("Groq baseURL result:", { baseURL });
-                const groq = createGroq({
-                    apiKey,
-                    fetch: runtime.fetch,
-                    baseURL,
-                });
-
-                const { text: groqResponse } = await aiGenerateText({
-                    model: groq.languageModel(model),
-                    prompt: context,
-                    temperature,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry,
-                });
+                const { text: groqResponse, usage: groqUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        temperature,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry,
+                    });
+                usage = groqUsage;
 
                 response = groqResponse;
                 elizaLogger.debug("Received response from Groq model.");
@@ -867,30 +1202,26 @@ export async function generateText({
             }
 
             case ModelProviderName.REDPILL: {
-                elizaLogger.debug("Initializing RedPill model.");
-                const serverUrl = getEndpoint(provider);
-                const openai = createOpenAI({
-                    apiKey,
-                    baseURL: serverUrl,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: redpillResponse } = await aiGenerateText({
-                    model: openai.languageModel(model),
-                    prompt: context,
-                    temperature: temperature,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: redpillResponse, usage: redpillUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        temperature: temperature,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = redpillUsage;
 
                 response = redpillResponse;
                 elizaLogger.debug("Received response from redpill model.");
@@ -898,30 +1229,26 @@ export async function generateText({
             }
 
             case ModelProviderName.OPENROUTER: {
-                elizaLogger.debug("Initializing OpenRouter model.");
-                const serverUrl = getEndpoint(provider);
-                const openrouter = createOpenAI({
-                    apiKey,
-                    baseURL: serverUrl,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: openrouterResponse } = await aiGenerateText({
-                    model: openrouter.languageModel(model),
-                    prompt: context,
-                    temperature: temperature,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: openrouterResponse, usage: openrouterUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        temperature: temperature,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = openrouterUsage;
 
                 response = openrouterResponse;
                 elizaLogger.debug("Received response from OpenRouter model.");
@@ -930,112 +1257,76 @@ export async function generateText({
 
             case ModelProviderName.OLLAMA:
                 {
-                    elizaLogger.debug("Initializing Ollama model.");
+                    const { text: ollamaResponse, usage: ollamaUsage } =
+                        await aiGenerateText({
+                            model: languageModel,
+                            prompt: context,
+                            abortSignal,
+                            maxRetries,
+                            tools: tools,
+                            onStepFinish: onStepFinish,
+                            temperature: temperature,
+                            maxSteps: maxSteps,
+                            maxTokens: max_response_length,
+                            frequencyPenalty: frequency_penalty,
+                            presencePenalty: presence_penalty,
+                            experimental_telemetry: experimental_telemetry,
+                        });
+                    usage = ollamaUsage;
 
-                    const ollamaProvider = createOllama({
-                        baseURL: getEndpoint(provider) + "/api",
-                        fetch: runtime.fetch,
-                    });
-                    const ollama = ollamaProvider(model);
-
-                    elizaLogger.debug("****** MODEL\n", model);
+                    response = ollamaResponse;
+                }
+                elizaLogger.debug("Received response from Ollama model.");
+                break;
 
-                    const { text: ollamaResponse } = await aiGenerateText({
-                        model: ollama,
+            case ModelProviderName.HEURIST: {
+                const { text: heuristResponse, usage: heuristUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
                         prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            customSystemPrompt ??
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
                         tools: tools,
                         onStepFinish: onStepFinish,
                         temperature: temperature,
-                        maxSteps: maxSteps,
                         maxTokens: max_response_length,
+                        maxSteps: maxSteps,
                         frequencyPenalty: frequency_penalty,
                         presencePenalty: presence_penalty,
                         experimental_telemetry: experimental_telemetry,
                     });
-
-                    response = ollamaResponse;
-                }
-                elizaLogger.debug("Received response from Ollama model.");
-                break;
-
-            case ModelProviderName.HEURIST: {
-                elizaLogger.debug("Initializing Heurist model.");
-                const heurist = createOpenAI({
-                    apiKey: apiKey,
-                    baseURL: endpoint,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: heuristResponse } = await aiGenerateText({
-                    model: heurist.languageModel(model),
-                    prompt: context,
-                    system:
-                        customSystemPrompt ??
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    maxSteps: maxSteps,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                usage = heuristUsage;
 
                 response = heuristResponse;
                 elizaLogger.debug("Received response from Heurist model.");
                 break;
             }
             case ModelProviderName.GAIANET: {
-                elizaLogger.debug("Initializing GAIANET model.");
-
-                var baseURL = getEndpoint(provider);
-                if (!baseURL) {
-                    switch (modelClass) {
-                        case ModelClass.SMALL:
-                            baseURL =
-                                settings.SMALL_GAIANET_SERVER_URL ||
-                                "https://llama3b.gaia.domains/v1";
-                            break;
-                        case ModelClass.MEDIUM:
-                            baseURL =
-                                settings.MEDIUM_GAIANET_SERVER_URL ||
-                                "https://llama8b.gaia.domains/v1";
-                            break;
-                        case ModelClass.LARGE:
-                            baseURL =
-                                settings.LARGE_GAIANET_SERVER_URL ||
-                                "https://qwen72b.gaia.domains/v1";
-                            break;
-                    }
-                }
-
-                elizaLogger.debug("Using GAIANET model with baseURL:", baseURL);
-
-                const openai = createOpenAI({
-                    apiKey,
-                    baseURL: endpoint,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: openaiResponse } = await aiGenerateText({
-                    model: openai.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: openaiResponse, usage: openaiUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = openaiUsage;
 
                 response = openaiResponse;
                 elizaLogger.debug("Received response from GAIANET model.");
@@ -1043,29 +1334,26 @@ export async function generateText({
             }
 
             case ModelProviderName.ATOMA: {
-                elizaLogger.debug("Initializing Atoma model.");
-                const atoma = createOpenAI({
-                    apiKey,
-                    baseURL: endpoint,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: atomaResponse } = await aiGenerateText({
-                    model: atoma.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: atomaResponse, usage: atomaUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = atomaUsage;
 
                 response = atomaResponse;
                 elizaLogger.debug("Received response from Atoma model.");
@@ -1073,37 +1361,26 @@ export async function generateText({
             }
 
             case ModelProviderName.GALADRIEL: {
-                elizaLogger.debug("Initializing Galadriel model.");
-                const headers = {};
-                const fineTuneApiKey = runtime.getSetting(
-                    "GALADRIEL_FINE_TUNE_API_KEY"
-                );
-                if (fineTuneApiKey) {
-                    headers["Fine-Tune-Authentication"] = fineTuneApiKey;
-                }
-                const galadriel = createOpenAI({
-                    headers,
-                    apiKey: apiKey,
-                    baseURL: endpoint,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: galadrielResponse } = await aiGenerateText({
-                    model: galadriel.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: galadrielResponse, usage: galadrielUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = galadrielUsage;
 
                 response = galadrielResponse;
                 elizaLogger.debug("Received response from Galadriel model.");
@@ -1111,56 +1388,45 @@ export async function generateText({
             }
 
             case ModelProviderName.INFERA: {
-                elizaLogger.debug("Initializing Infera model.");
-
-                const apiKey = settings.INFERA_API_KEY || runtime.token;
-
-                const infera = createOpenAI({
-                    apiKey,
-                    baseURL: endpoint,
-                    headers: {
-                        api_key: apiKey,
-                        "Content-Type": "application/json",
-                    },
-                });
-
-                const { text: inferaResponse } = await aiGenerateText({
-                    model: infera.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    temperature: temperature,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                });
+                const { text: inferaResponse, usage: inferaUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        temperature: temperature,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                    });
+                usage = inferaUsage;
                 response = inferaResponse;
                 elizaLogger.debug("Received response from Infera model.");
                 break;
             }
 
             case ModelProviderName.VENICE: {
-                elizaLogger.debug("Initializing Venice model.");
-                const venice = createOpenAI({
-                    apiKey: apiKey,
-                    baseURL: endpoint,
-                });
-
-                const { text: veniceResponse } = await aiGenerateText({
-                    model: venice.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    temperature: temperature,
-                    maxSteps: maxSteps,
-                    maxTokens: max_response_length,
-                });
+                const { text: veniceResponse, usage: veniceUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        temperature: temperature,
+                        maxSteps: maxSteps,
+                        maxTokens: max_response_length,
+                    });
+                usage = veniceUsage;
 
                 // console.warn("veniceResponse:")
                 // console.warn(veniceResponse)
@@ -1175,25 +1441,23 @@ export async function generateText({
             }
 
             case ModelProviderName.NVIDIA: {
-                elizaLogger.debug("Initializing NVIDIA model.");
-                const nvidia = createOpenAI({
-                    apiKey: apiKey,
-                    baseURL: endpoint,
-                });
-
-                const { text: nvidiaResponse } = await aiGenerateText({
-                    model: nvidia.languageModel(model),
-                    prompt: context,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    temperature: temperature,
-                    maxSteps: maxSteps,
-                    maxTokens: max_response_length,
-                });
+                const { text: nvidiaResponse, usage: nvidiaUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        temperature: temperature,
+                        maxSteps: maxSteps,
+                        maxTokens: max_response_length,
+                    });
+                usage = nvidiaUsage;
 
                 response = nvidiaResponse;
                 elizaLogger.debug("Received response from NVIDIA model.");
@@ -1201,30 +1465,26 @@ export async function generateText({
             }
 
             case ModelProviderName.DEEPSEEK: {
-                elizaLogger.debug("Initializing Deepseek model.");
-                const serverUrl = models[provider].endpoint;
-                const deepseek = createOpenAI({
-                    apiKey,
-                    baseURL: serverUrl,
-                    fetch: runtime.fetch,
-                });
-
-                const { text: deepseekResponse } = await aiGenerateText({
-                    model: deepseek.languageModel(model),
-                    prompt: context,
-                    temperature: temperature,
-                    system:
-                        runtime.character.system ??
-                        settings.SYSTEM_PROMPT ??
-                        undefined,
-                    tools: tools,
-                    onStepFinish: onStepFinish,
-                    maxSteps: maxSteps,
-                    maxTokens: max_response_length,
-                    frequencyPenalty: frequency_penalty,
-                    presencePenalty: presence_penalty,
-                    experimental_telemetry: experimental_telemetry,
-                });
+                const { text: deepseekResponse, usage: deepseekUsage } =
+                    await aiGenerateText({
+                        model: languageModel,
+                        prompt: context,
+                        abortSignal,
+                        maxRetries,
+                        temperature: temperature,
+                        system:
+                            runtime.character.system ??
+                            settings.SYSTEM_PROMPT ??
+                            undefined,
+                        tools: tools,
+                        onStepFinish: onStepFinish,
+                        maxSteps: maxSteps,
+                        maxTokens: max_response_length,
+                        frequencyPenalty: frequency_penalty,
+                        presencePenalty: presence_penalty,
+                        experimental_telemetry: experimental_telemetry,
+                    });
+                usage = deepseekUsage;
 
                 response = deepseekResponse;
                 elizaLogger.debug("Received response from Deepseek model.");
@@ -1265,6 +1525,7 @@ export async function generateText({
                         Authorization: "Bearer eliza-app-llm",
                     },
                     body: JSON.stringify(requestBody),
+                    signal: abortSignal,
                 });
 
                 if (!fetchResponse.ok) {
@@ -1284,6 +1545,11 @@ export async function generateText({
                     /<\|start_header_id\|>assistant<\|end_header_id\|>\n\n/,
                     ""
                 );
+                usage = json.usage && {
+                    promptTokens: json.usage.prompt_tokens,
+                    completionTokens: json.usage.completion_tokens,
+                    totalTokens: json.usage.total_tokens,
+                };
                 elizaLogger.debug(
                     "Successfully received response from Livepeer model"
                 );
@@ -1297,6 +1563,16 @@ export async function generateText({
             }
         }
 
+        await runtime.usageLedger?.record({
+            ...usageTags,
+            caller: usageTags?.caller ?? "generateText",
+            provider,
+            model,
+            modelClass,
+            promptTokens: usage?.promptTokens,
+            completionTokens: usage?.completionTokens,
+        });
+
         return response;
     } catch (error) {
         elizaLogger.error("Error in generateText:", error);
@@ -1304,6 +1580,217 @@ export async function generateText({
     }
 }
 
+/**
+ * Streams a text completion from the model, yielding chunks of text as they arrive.
+ * Providers without a streaming model (such as local Llama or Livepeer) and verifiable inference
+ * fall back to `generateText` and yield the full completion as a single chunk.
+ * Completions go through the response cache and the provider fallback chain like `generateText`:
+ * a cached completion is yielded as a single chunk, and the chain only moves on to the next
+ * provider while no chunk has been yielded yet.
+ * @param opts - The options for the streamText request.
+ * @param opts.context The context of the message to be completed.
+ * @param opts.modelClass The model class to use.
+ * @param opts.stop A list of strings to stop the completion at.
+ * @param opts.customSystemPrompt A system prompt to use instead of the character's.
+ * @param opts.abortSignal A signal to cancel the request, also aborted when a provider of the fallback chain times out.
+ * @param opts.maxRetries The number of retries of the initial request, as in `generateText`.
+ * @param opts.bypassCache Skips the response cache for this call.
+ * @returns An async iterable of text chunks.
+ */
+export async function* streamText({
+    runtime,
+    context,
+    modelClass,
+    stop,
+    customSystemPrompt,
+    abortSignal,
+    verifiableInference = process.env.VERIFIABLE_INFERENCE_ENABLED === "true",
+    verifiableInferenceOptions,
+    maxRetries,
+    bypassCache,
+    usageTags,
+}: {
+    runtime: IAgentRuntime;
+    context: string;
+    modelClass: ModelClass;
+    stop?: string[];
+    customSystemPrompt?: string;
+    abortSignal?: AbortSignal;
+    verifiableInference?: boolean;
+    verifiableInferenceOptions?: VerifiableInferenceOptions;
+    maxRetries?: number;
+    bypassCache?: boolean;
+    usageTags?: UsageTags;
+}): AsyncGenerator<string, void, undefined> {
+    if (!context) {
+        elizaLogger.error("streamText context is empty");
+        return;
+    }
+
+    if (
+        isResponseCacheEnabled(runtime, bypassCache) &&
+        !(verifiableInference && runtime.verifiableInferenceAdapter)
+    ) {
+        const cacheKey = getTextResponseCacheKey(
+            runtime,
+            modelClass,
+            context,
+            stop,
+            customSystemPrompt
+        );
+
+        const cached = await getCachedResponse<string>(runtime, cacheKey);
+        if (cached !== undefined) {
+            yield cached;
+            return;
+        }
+
+        let response = "";
+        for await (const chunk of streamText({
+            runtime,
+            context,
+            modelClass,
+            stop,
+            customSystemPrompt,
+            abortSignal,
+            verifiableInference,
+            verifiableInferenceOptions,
+            maxRetries,
+            bypassCache: true,
+            usageTags,
+        })) {
+            response += chunk;
+            yield chunk;
+        }
+        // a stream cancelled by the caller is incomplete
+        if (response && !abortSignal?.aborted) {
+            await setCachedResponse(runtime, cacheKey, response);
+        }
+        return;
+    }
+
+    if (usesProviderFailover(runtime)) {
+        // a provider counts as serving the call once it yields its first chunk
+        const { stream, first } = await withProviderFailover(
+            runtime,
+            modelClass,
+            "streamText",
+            async (providerRuntime, timeoutSignal) => {
+                const stream = streamText({
+                    runtime: providerRuntime,
+                    context,
+                    modelClass,
+                    stop,
+                    customSystemPrompt,
+                    abortSignal: abortSignal
+                        ? AbortSignal.any([abortSignal, timeoutSignal])
+                        : timeoutSignal,
+                    verifiableInference,
+                    verifiableInferenceOptions,
+                    maxRetries: 0,
+                    bypassCache: true,
+                    usageTags,
+                });
+                return { stream, first: await stream.next() };
+            }
+        );
+        if (first.done === true) {
+            return;
+        }
+        yield first.value;
+        yield* stream;
+        return;
+    }
+
+    const model = getModelName(runtime, modelClass);
+    // Venice responses hold reasoning in <think> tags that generateText strips from the full text
+    const languageModel =
+        (verifiableInference && runtime.verifiableInferenceAdapter) ||
+        runtime.modelProvider === ModelProviderName.VENICE
+            ? undefined
+            : getLanguageModel(runtime, modelClass, model);
+
+    if (!languageModel) {
+        elizaLogger.debug(
+            `Streaming is not available for ${runtime.modelProvider}, generating the full text`
+        );
+        yield await generateText({
+            runtime,
+            context,
+            modelClass,
+            stop,
+            customSystemPrompt,
+            verifiableInference,
+            verifiableInferenceOptions,
+            maxRetries,
+            abortSignal,
+            bypassCache: true,
+            usageTags: {
+                ...usageTags,
+                caller: usageTags?.caller ?? "streamText",
+            },
+        });
+        return;
+    }
+
+    await runtime.usageLedger?.assertWithinBudget();
+
+    const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
+    const modelConfiguration = runtime.character?.settings?.modelConfig;
+    const max_context_length =
+        modelConfiguration?.maxInputTokens || modelSettings.maxInputTokens;
+
+    elizaLogger.debug(
+        `Streaming text with provider: ${runtime.modelProvider}, model: ${model}`
+    );
+
+    const { fullStream } = aiStreamText({
+        model: languageModel,
+        prompt: await trimTokens(context, max_context_length, runtime),
+        system:
+            customSystemPrompt ??
+            runtime.character.system ??
+            settings.SYSTEM_PROMPT ??
+            undefined,
+        temperature:
+            modelConfiguration?.temperature || modelSettings.temperature,
+        maxTokens:
+            modelConfiguration?.maxOutputTokens ||
+            modelSettings.maxOutputTokens,
+        frequencyPenalty:
+            modelConfiguration?.frequency_penalty ||
+            modelSettings.frequency_penalty,
+        presencePenalty:
+            modelConfiguration?.presence_penalty ||
+            modelSettings.presence_penalty,
+        stopSequences: stop || modelSettings.stop,
+        experimental_telemetry:
+            modelConfiguration?.experimental_telemetry ||
+            modelSettings.experimental_telemetry,
+        maxRetries,
+        abortSignal,
+    });
+
+    for await (const part of fullStream) {
+        if (part.type === "text-delta") {
+            yield part.textDelta;
+        } else if (part.type === "finish") {
+            await runtime.usageLedger?.record({
+                ...usageTags,
+                caller: usageTags?.caller ?? "streamText",
+                provider: runtime.modelProvider,
+                model,
+                modelClass,
+                promptTokens: part.usage?.promptTokens,
+                completionTokens: part.usage?.completionTokens,
+            });
+        } else if (part.type === "error") {
+            elizaLogger.error("Error in streamText:", part.error);
+            throw part.error;
+        }
+    }
+}
+
 /**
  * Sends a message to the model to determine if it should respond to the given context.
  * @param opts - The options for the generateText request
@@ -1322,10 +1809,12 @@ export async function generateShouldRespond({
     runtime,
     context,
     modelClass,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    usageTags?: UsageTags;
 }): Promise<"RESPOND" | "IGNORE" | "STOP" | null> {
     let retryDelay = 1000;
     while (true) {
@@ -1338,6 +1827,10 @@ export async function generateShouldRespond({
                 runtime,
                 context,
                 modelClass,
+                usageTags: {
+                    ...usageTags,
+                    caller: usageTags?.caller ?? "generateShouldRespond",
+                },
             });
 
             elizaLogger.debug("Received response from generateText:", response);
@@ -1414,10 +1907,12 @@ export async function generateTrueOrFalse({
     runtime,
     context = "",
     modelClass,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    usageTags?: UsageTags;
 }): Promise<boolean> {
     let retryDelay = 1000;
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
@@ -1432,6 +1927,10 @@ export async function generateTrueOrFalse({
                 runtime,
                 context,
                 modelClass,
+                usageTags: {
+                    ...usageTags,
+                    caller: usageTags?.caller ?? "generateTrueOrFalse",
+                },
             });
 
             const parsedResponse = parseBooleanFromText(response.trim());
@@ -1466,10 +1965,12 @@ export async function generateTextArray({
     runtime,
     context,
     modelClass,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    usageTags?: UsageTags;
 }): Promise<string[]> {
     if (!context) {
         elizaLogger.error("generateTextArray context is empty");
@@ -1483,6 +1984,10 @@ export async function generateTextArray({
                 runtime,
                 context,
                 modelClass,
+                usageTags: {
+                    ...usageTags,
+                    caller: usageTags?.caller ?? "generateTextArray",
+                },
             });
 
             const parsedResponse = parseJsonArrayFromText(response);
@@ -1498,14 +2003,20 @@ export async function generateTextArray({
     }
 }
 
+/**
+ * @deprecated Use `generateStructuredObject`, which validates the output against a schema
+ * and reports malformed output as a typed error.
+ */
 export async function generateObjectDeprecated({
     runtime,
     context,
     modelClass,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    usageTags?: UsageTags;
 }): Promise<any> {
     if (!context) {
         elizaLogger.error("generateObjectDeprecated context is empty");
@@ -1520,6 +2031,10 @@ export async function generateObjectDeprecated({
                 runtime,
                 context,
                 modelClass,
+                usageTags: {
+                    ...usageTags,
+                    caller: usageTags?.caller ?? "generateObjectDeprecated",
+                },
             });
             const parsedResponse = parseJSONObjectFromText(response);
             if (parsedResponse) {
@@ -1538,10 +2053,12 @@ export async function generateObjectArray({
     runtime,
     context,
     modelClass,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    usageTags?: UsageTags;
 }): Promise<any[]> {
     if (!context) {
         elizaLogger.error("generateObjectArray context is empty");
@@ -1555,6 +2072,10 @@ export async function generateObjectArray({
                 runtime,
                 context,
                 modelClass,
+                usageTags: {
+                    ...usageTags,
+                    caller: usageTags?.caller ?? "generateObjectArray",
+                },
             });
 
             const parsedResponse = parseJsonArrayFromText(response);
@@ -1586,10 +2107,12 @@ export async function generateMessageResponse({
     runtime,
     context,
     modelClass,
+    usageTags,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    usageTags?: UsageTags;
 }): Promise<Content> {
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
     const max_context_length = modelSettings.maxInputTokens;
@@ -1605,6 +2128,10 @@ export async function generateMessageResponse({
                 runtime,
                 context,
                 modelClass,
+                usageTags: {
+                    ...usageTags,
+                    caller: usageTags?.caller ?? "generateMessageResponse",
+                },
             });
 
             // try parsing the response as JSON, if null then try again
@@ -1616,6 +2143,9 @@ export async function generateMessageResponse({
 
             return parsedContent;
         } catch (error) {
+            if (error instanceof UsageBudgetExceededError) {
+                throw error;
+            }
             elizaLogger.error("ERROR:", error);
             // wait for 2 seconds
             retryLength *= 2;
@@ -1689,7 +2219,18 @@ export const generateImage = async (
                           );
                   }
               })();
+
+    const recordImages = (images: string[]) =>
+        runtime.usageLedger?.record({
+            provider: runtime.imageModelProvider,
+            model,
+            modelClass: ModelClass.IMAGE,
+            caller: "generateImage",
+            images: images.length,
+        });
+
     try {
+        await runtime.usageLedger?.assertWithinBudget();
         if (runtime.imageModelProvider === ModelProviderName.HEURIST) {
             const response = await fetch(
                 "http://sequencer.heurist.xyz/submit_job",
@@ -1726,6 +2267,7 @@ export const generateImage = async (
             }
 
             const imageURL = await response.json();
+            await recordImages([imageURL]);
             return { success: true, data: [imageURL] };
         } else if (
             runtime.imageModelProvider === ModelProviderName.TOGETHER ||
@@ -1784,6 +2326,7 @@ export const generateImage = async (
             }
 
             elizaLogger.debug(`Generated ${base64s.length} images`);
+            await recordImages(base64s);
             return { success: true, data: base64s };
         } else if (runtime.imageModelProvider === ModelProviderName.FAL) {
             fal.config({
@@ -1837,6 +2380,7 @@ export const generateImage = async (
             });
 
             const base64s = await Promise.all(base64Promises);
+            await recordImages(base64s);
             return { success: true, data: base64s };
         } else if (runtime.imageModelProvider === ModelProviderName.VENICE) {
             const response = await fetch(
@@ -1878,6 +2422,7 @@ export const generateImage = async (
                 return `data:image/png;base64,${base64String}`;
             });
 
+            await recordImages(base64s);
             return { success: true, data: base64s };
         } else if (
             runtime.imageModelProvider === ModelProviderName.NINETEEN_AI
@@ -1917,6 +2462,7 @@ export const generateImage = async (
                 return `data:image/png;base64,${base64String}`;
             });
 
+            await recordImages(base64s);
             return { success: true, data: base64s };
         } else if (runtime.imageModelProvider === ModelProviderName.LIVEPEER) {
             if (!apiKey) {
@@ -1971,6 +2517,7 @@ export const generateImage = async (
                         return `data:image/jpeg;base64,${base64}`;
                     })
                 );
+                await recordImages(base64Images);
                 return {
                     success: true,
                     data: base64Images,
@@ -2005,6 +2552,7 @@ export const generateImage = async (
             const base64s = response.data.map(
                 (image) => `data:image/png;base64,${image.b64_json}`
             );
+            await recordImages(base64s);
             return { success: true, data: base64s };
         }
     } catch (error) {
@@ -2053,6 +2601,28 @@ export interface GenerationOptions {
     verifiableInference?: boolean;
     verifiableInferenceAdapter?: IVerifiableInferenceAdapter;
     verifiableInferenceOptions?: VerifiableInferenceOptions;
+    maxRetries?: number;
+    abortSignal?: AbortSignal;
+    bypassCache?: boolean;
+    usageTags?: UsageTags;
+}
+
+/**
+ * Options of `generateStructuredObject`.
+ */
+export interface StructuredGenerationOptions<T> {
+    runtime: IAgentRuntime;
+    context: string;
+    modelClass: ModelClass;
+    schema: ZodSchema<T>;
+    schemaName?: string;
+    schemaDescription?: string;
+    stop?: string[];
+    mode?: "auto" | "json" | "tool";
+
+    /** Number of times the model is re-prompted with the errors of its last output, 2 by default */
+    maxRepairAttempts?: number;
+    usageTags?: UsageTags;
 }
 
 /**
@@ -2066,6 +2636,8 @@ interface ModelSettings {
     presencePenalty: number;
     stop?: string[];
     experimental_telemetry?: TelemetrySettings;
+    maxRetries?: number;
+    abortSignal?: AbortSignal;
 }
 
 /**
@@ -2087,6 +2659,10 @@ export const generateObject = async ({
     verifiableInference = false,
     verifiableInferenceAdapter,
     verifiableInferenceOptions,
+    maxRetries,
+    abortSignal,
+    bypassCache,
+    usageTags,
 }: GenerationOptions): Promise<GenerateObjectResult<unknown>> => {
     if (!context) {
         const errorMessage = "generateObject context is empty";
@@ -2094,9 +2670,101 @@ export const generateObject = async ({
         throw new Error(errorMessage);
     }
 
+    if (isResponseCacheEnabled(runtime, bypassCache)) {
+        const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
+        const cacheKey = getResponseCacheKey({
+            kind: "object",
+            provider: runtime.modelProvider,
+            model:
+                getModelOverride(runtime, modelClass) ?? modelSettings.name,
+            context,
+            temperature: modelSettings.temperature,
+            stop: stop || modelSettings.stop,
+            maxTokens: modelSettings.maxOutputTokens,
+            frequencyPenalty: modelSettings.frequency_penalty,
+            presencePenalty: modelSettings.presence_penalty,
+            // calls sharing a schema name may still differ in their schema
+            schema: JSON.stringify([
+                schemaName,
+                schemaDescription,
+                mode,
+                schema ? zodToJsonSchema(schema) : null,
+            ]),
+        });
+
+        // only the serializable part of the result is cached
+        const cached = await getCachedResponse<GenerateObjectResult<unknown>>(
+            runtime,
+            cacheKey
+        );
+        if (cached !== undefined) {
+            const parsed = schema?.safeParse(cached.object);
+            if (!parsed || parsed.success) {
+                return parsed ? { ...cached, object: parsed.data } : cached;
+            }
+            elizaLogger.debug(
+                `Cached object no longer matches its schema, regenerating: ${cacheKey}`
+            );
+        }
+
+        const result = await generateObject({
+            runtime,
+            context,
+            modelClass,
+            schema,
+            schemaName,
+            schemaDescription,
+            stop,
+            mode,
+            verifiableInference,
+            verifiableInferenceAdapter,
+            verifiableInferenceOptions,
+            maxRetries,
+            abortSignal,
+            bypassCache: true,
+            usageTags,
+        });
+        await setCachedResponse(runtime, cacheKey, {
+            object: result.object,
+            finishReason: result.finishReason,
+            usage: result.usage,
+        });
+        return result;
+    }
+
+    if (usesProviderFailover(runtime)) {
+        return await withProviderFailover(
+            runtime,
+            modelClass,
+            "generateObject",
+            (providerRuntime, timeoutSignal) =>
+                generateObject({
+                    runtime: providerRuntime,
+                    context,
+                    modelClass,
+                    schema,
+                    schemaName,
+                    schemaDescription,
+                    stop,
+                    mode,
+                    verifiableInference,
+                    verifiableInferenceAdapter,
+                    verifiableInferenceOptions,
+                    maxRetries: 0,
+                    abortSignal: abortSignal
+                        ? AbortSignal.any([abortSignal, timeoutSignal])
+                        : timeoutSignal,
+                    bypassCache: true,
+                    usageTags,
+                })
+        );
+    }
+
+    await runtime.usageLedger?.assertWithinBudget();
+
     const provider = runtime.modelProvider;
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
-    const model = modelSettings.name;
+    const model = getModelOverride(runtime, modelClass) ?? modelSettings.name;
     const temperature = modelSettings.temperature;
     const frequency_penalty = modelSettings.frequency_penalty;
     const presence_penalty = modelSettings.presence_penalty;
@@ -2116,6 +2784,8 @@ export const generateObject = async ({
             presencePenalty: presence_penalty,
             stop: stop || modelSettings.stop,
             experimental_telemetry: experimental_telemetry,
+            maxRetries,
+            abortSignal,
         };
 
         const response = await handleProvider({
@@ -2135,6 +2805,16 @@ export const generateObject = async ({
             verifiableInferenceOptions,
         });
 
+        await runtime.usageLedger?.record({
+            ...usageTags,
+            caller: usageTags?.caller ?? "generateObject",
+            provider,
+            model,
+            modelClass,
+            promptTokens: response.usage?.promptTokens,
+            completionTokens: response.usage?.completionTokens,
+        });
+
         return response;
     } catch (error) {
         console.error("Error in generateObject:", error);
@@ -2142,6 +2822,116 @@ export const generateObject = async ({
     }
 };
 
+/**
+ * Generates a value that matches a Zod schema.
+ *
+ * Providers with native structured output are called through `generateObject` in JSON/tool mode,
+ * other providers through `generateText` with the JSON parsed from the response. Output that is
+ * malformed or fails validation is sent back to the model with the errors, up to
+ * `maxRepairAttempts` times.
+ *
+ * @param {StructuredGenerationOptions<T>} options - The schema and generation options.
+ * @returns {Promise<T>} The validated value.
+ * @throws {StructuredOutputParseError} When the last output contained no valid JSON.
+ * @throws {StructuredOutputValidationError} When the last output did not match the schema.
+ */
+export async function generateStructuredObject<T>({
+    runtime,
+    context,
+    modelClass,
+    schema,
+    schemaName,
+    schemaDescription,
+    stop,
+    mode,
+    maxRepairAttempts = 2,
+    usageTags,
+}: StructuredGenerationOptions<T>): Promise<T> {
+    if (!context) {
+        throw new Error("generateStructuredObject context is empty");
+    }
+
+    const native = supportsNativeStructuredOutput(runtime.modelProvider);
+    const tags = {
+        ...usageTags,
+        caller: usageTags?.caller ?? "generateStructuredObject",
+    };
+    const attempts: StructuredOutputAttempt[] = [];
+    let attemptContext = context;
+    let lastError: StructuredOutputError;
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+        let output: string | undefined;
+        try {
+            let value: unknown;
+            if (native) {
+                try {
+                    const result = await generateObject({
+                        runtime,
+                        context: attemptContext,
+                        modelClass,
+                        schema,
+                        schemaName,
+                        schemaDescription,
+                        stop,
+                        mode,
+                        usageTags: tags,
+                    });
+                    value = result.object;
+                } catch (error) {
+                    // the SDK rejects output it cannot parse or validate, repair it like text output
+                    if (!NoObjectGeneratedError.isInstance(error)) {
+                        throw error;
+                    }
+                    output = error.text ?? "";
+                    value = parseStructuredOutput(output);
+                }
+            } else {
+                output = await generateText({
+                    runtime,
+                    context:
+                        attemptContext +
+                        getStructuredOutputInstructions(
+                            schemaName,
+                            schemaDescription
+                        ),
+                    modelClass,
+                    stop,
+                    usageTags: tags,
+                });
+                value = parseStructuredOutput(output);
+            }
+
+            const parsed = schema.safeParse(value);
+            if (parsed.success) {
+                return parsed.data;
+            }
+            lastError = new StructuredOutputValidationError(
+                parsed.error.issues,
+                output ?? JSON.stringify(value)
+            );
+        } catch (error) {
+            if (!(error instanceof StructuredOutputParseError)) {
+                throw error;
+            }
+            lastError = error;
+        }
+
+        attempts.push({
+            mode: native ? "native" : "text",
+            output: lastError.output,
+            error: lastError.message,
+        });
+        elizaLogger.warn(
+            `generateStructuredObject attempt ${attempt + 1} failed: ${lastError.message}`
+        );
+        attemptContext = buildRepairContext(context, lastError);
+    }
+
+    lastError.attempts = attempts;
+    throw lastError;
+}
+
 /**
  * Interface for provider-specific generation options.
  */
@@ -1,25 +1,44 @@
 import "./config.ts"; // Add this line first
 
 export * from "./actions.ts";
+export * from "./adapterConformance.ts";
+export * from "./approval.ts";
+export * from "./bundle.ts";
+export * from "./chunking.ts";
+export * from "./citations.ts";
+export * from "./commands.ts";
+export * from "./consolidation.ts";
 export * from "./context.ts";
 export * from "./database.ts";
 export * from "./defaultCharacter.ts";
 export * from "./embedding.ts";
+export * from "./embeddingMigration.ts";
 export * from "./evaluators.ts";
+export * from "./failover.ts";
 export * from "./generation.ts";
 export * from "./goals.ts";
+export * from "./knowledgeSync.ts";
 export * from "./memory.ts";
 export * from "./messages.ts";
+export * from "./migrations.ts";
 export * from "./models.ts";
+export * from "./outbound.ts";
 export * from "./posts.ts";
 export * from "./providers.ts";
 export * from "./relationships.ts";
+export * from "./responseCache.ts";
+export * from "./retention.ts";
+export * from "./retrieval.ts";
 export * from "./runtime.ts";
 export * from "./settings.ts";
+export * from "./stateBudget.ts";
+export * from "./structuredOutput.ts";
+export * from "./teams.ts";
 export * from "./types.ts";
 export * from "./logger.ts";
 export * from "./parsing.ts";
 export * from "./uuid.ts";
+export * from "./usage.ts";
 export * from "./environment.ts";
 export * from "./cache.ts";
 export { default as knowledge } from "./knowledge.ts";
@@ -64,6 +64,27 @@ async function get(
         .map((memory) => ({ id: memory.id, content: memory.content }));
 }
 
+/**
+ * Searches the knowledge of the agent for a query, in the RAG knowledge when the character
+ * enables it, e.g. for the knowledge commands and inline queries of the chat clients.
+ */
+async function search(
+    runtime: AgentRuntime,
+    query: string,
+    limit = 5
+): Promise<KnowledgeItem[]> {
+    if (runtime.character.settings?.ragKnowledge) {
+        return runtime.ragKnowledgeManager.getKnowledge({ query, limit });
+    }
+    const items = await get(runtime, {
+        agentId: runtime.agentId,
+        userId: runtime.agentId,
+        roomId: runtime.agentId,
+        content: { text: query },
+    });
+    return items.slice(0, limit);
+}
+
 async function set(
     runtime: AgentRuntime,
     item: KnowledgeItem,
@@ -149,6 +170,7 @@ export function preprocess(content: string): string {
 
 export default {
     get,
+    search,
     set,
     preprocess,
 };
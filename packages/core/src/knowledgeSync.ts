@@ -0,0 +1,430 @@
+import { createHash } from "crypto";
+import { existsSync, type FSWatcher, watch } from "fs";
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { glob } from "glob";
+import { dirname, join, normalize, relative } from "path";
+import { getKnowledgeFileTypes } from "./chunking.ts";
+import elizaLogger from "./logger.ts";
+import {
+    type IAgentRuntime,
+    type IKnowledgeSync,
+    type IPdfService,
+    type KnowledgeDocumentStatus,
+    type KnowledgeSyncResult,
+    ServiceType,
+    type UUID,
+} from "./types.ts";
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/**
+ * Returns the hash stored with ingested knowledge to detect changed files.
+ */
+export function getContentHash(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Returns the extension of a knowledge file if it has a chunker, undefined otherwise.
+ */
+function getFileType(
+    path: string,
+    includeCode: boolean
+): string | undefined {
+    const extension = path.split(".").pop()?.toLowerCase();
+    return extension &&
+        getKnowledgeFileTypes({ includeCode }).includes(extension)
+        ? extension
+        : undefined;
+}
+
+/**
+ * Syncs the knowledge files under the knowledge root with the stored knowledge.
+ *
+ * Files are only re-embedded when their content hash changed, and the knowledge of deleted
+ * files is removed. Operations on the same file run one after the other.
+ */
+export class KnowledgeSync implements IKnowledgeSync {
+    private runtime: IAgentRuntime;
+    private knowledgeRoot: string;
+    private debounceMs: number;
+    private includeCode: boolean;
+    private statuses = new Map<UUID, KnowledgeDocumentStatus>();
+    private operations = new Map<UUID, Promise<KnowledgeSyncResult>>();
+    private watchers = new Map<string, FSWatcher>();
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(opts: {
+        runtime: IAgentRuntime;
+        knowledgeRoot: string;
+        debounceMs?: number;
+    }) {
+        this.runtime = opts.runtime;
+        this.knowledgeRoot = opts.knowledgeRoot;
+        this.debounceMs =
+            opts.debounceMs ??
+            opts.runtime.character?.settings?.knowledgeSync?.debounceMs ??
+            DEFAULT_DEBOUNCE_MS;
+        this.includeCode =
+            opts.runtime.character?.settings?.knowledgeSync?.includeCode ??
+            false;
+    }
+
+    /**
+     * Normalizes a path relative to the knowledge root, rejecting paths outside of it.
+     */
+    private resolvePath(path: string): string {
+        const relativePath = normalize(path).replace(/^[/\\]+/, "");
+        if (relativePath.startsWith("..")) {
+            throw new Error(`Path is outside of the knowledge root: ${path}`);
+        }
+        return relativePath;
+    }
+
+    /**
+     * Reads the text of a knowledge file, PDF files are converted by the PDF service.
+     */
+    private async readText(path: string, type: string): Promise<string> {
+        const fullPath = join(this.knowledgeRoot, path);
+        if (type !== "pdf") {
+            return readFile(fullPath, "utf8");
+        }
+        const pdfService = this.runtime.getService<IPdfService>(
+            ServiceType.PDF
+        );
+        if (!pdfService) {
+            throw new Error("Ingesting PDF files requires the PDF service");
+        }
+        return pdfService.convertPdfToText(await readFile(fullPath));
+    }
+
+    private setStatus(
+        path: string,
+        shared: boolean,
+        update: Partial<KnowledgeDocumentStatus>
+    ): KnowledgeDocumentStatus {
+        const id = this.runtime.ragKnowledgeManager.generateScopedId(
+            path,
+            shared
+        );
+        const status: KnowledgeDocumentStatus = {
+            ...this.statuses.get(id),
+            id,
+            path,
+            shared,
+            status: "pending",
+            error: undefined,
+            ...update,
+            updatedAt: Date.now(),
+        };
+        this.statuses.set(id, status);
+        return status;
+    }
+
+    /**
+     * Runs an operation once the previous operation on the same file is done.
+     */
+    private enqueue(
+        path: string,
+        shared: boolean,
+        operation: () => Promise<KnowledgeSyncResult>
+    ): Promise<KnowledgeSyncResult> {
+        const id = this.runtime.ragKnowledgeManager.generateScopedId(
+            path,
+            shared
+        );
+        const previous = this.operations.get(id) ?? Promise.resolve(undefined);
+        const next = previous.catch(() => undefined).then(operation);
+        this.operations.set(id, next);
+        next.finally(() => {
+            if (this.operations.get(id) === next) {
+                this.operations.delete(id);
+            }
+        }).catch(() => undefined);
+        return next;
+    }
+
+    private async removeStoredKnowledge(id: UUID): Promise<void> {
+        // chunks first, they reference the document
+        await this.runtime.ragKnowledgeManager.removeKnowledgeChunks(id);
+        await this.runtime.ragKnowledgeManager.removeKnowledge(id);
+    }
+
+    async syncFile(path: string, shared = false): Promise<KnowledgeSyncResult> {
+        const relativePath = this.resolvePath(path);
+        this.setStatus(relativePath, shared, { status: "pending" });
+        return this.enqueue(relativePath, shared, () =>
+            this.ingest(relativePath, shared)
+        );
+    }
+
+    private async ingest(
+        path: string,
+        shared: boolean
+    ): Promise<KnowledgeSyncResult> {
+        const manager = this.runtime.ragKnowledgeManager;
+        const type = getFileType(path, this.includeCode);
+        if (!type) {
+            return {
+                ...this.setStatus(path, shared, {
+                    status: "failed",
+                    error: `Unsupported knowledge file type: ${path}`,
+                }),
+                change: "failed",
+            };
+        }
+
+        this.setStatus(path, shared, { status: "processing" });
+        try {
+            const content = await this.readText(path, type);
+            if (!content) {
+                throw new Error("File is empty");
+            }
+            const contentHash = getContentHash(content);
+            const id = manager.generateScopedId(path, shared);
+            const [existing] = await manager.getKnowledge({
+                id,
+                agentId: this.runtime.agentId,
+            });
+
+            // knowledge ingested before hashes were stored is compared by content
+            const existingHash =
+                existing?.content.metadata?.contentHash ??
+                (existing ? getContentHash(existing.content.text) : undefined);
+            if (existingHash === contentHash) {
+                elizaLogger.debug(
+                    `[Knowledge Sync] ${path} unchanged, skipping`
+                );
+                return {
+                    ...this.setStatus(path, shared, {
+                        status: "ready",
+                        contentHash,
+                    }),
+                    change: "unchanged",
+                };
+            }
+
+            if (existing) {
+                elizaLogger.info(`[Knowledge Sync] ${path} changed, updating`);
+                await this.removeStoredKnowledge(id);
+            } else {
+                elizaLogger.info(`[Knowledge Sync] Ingesting ${path}`);
+            }
+            await manager.processFile({
+                path,
+                content,
+                type,
+                isShared: shared,
+            });
+            return {
+                ...this.setStatus(path, shared, {
+                    status: "ready",
+                    contentHash,
+                }),
+                change: existing ? "updated" : "ingested",
+            };
+        } catch (error) {
+            elizaLogger.error(
+                `[Knowledge Sync] Failed to ingest ${path}:`,
+                error?.message ?? error
+            );
+            return {
+                ...this.setStatus(path, shared, {
+                    status: "failed",
+                    error: error?.message ?? String(error),
+                }),
+                change: "failed",
+            };
+        }
+    }
+
+    async removeFile(
+        path: string,
+        shared = false
+    ): Promise<KnowledgeSyncResult> {
+        const relativePath = this.resolvePath(path);
+        return this.enqueue(relativePath, shared, async () => {
+            const id = this.runtime.ragKnowledgeManager.generateScopedId(
+                relativePath,
+                shared
+            );
+            try {
+                await this.removeStoredKnowledge(id);
+                elizaLogger.info(
+                    `[Knowledge Sync] Removed knowledge of ${relativePath}`
+                );
+                return {
+                    ...this.setStatus(relativePath, shared, {
+                        status: "deleted",
+                        contentHash: undefined,
+                    }),
+                    change: "deleted",
+                };
+            } catch (error) {
+                elizaLogger.error(
+                    `[Knowledge Sync] Failed to remove ${relativePath}:`,
+                    error?.message ?? error
+                );
+                return {
+                    ...this.setStatus(relativePath, shared, {
+                        status: "failed",
+                        error: error?.message ?? String(error),
+                    }),
+                    change: "failed",
+                };
+            }
+        });
+    }
+
+    async addFile(
+        path: string,
+        content: string | Buffer,
+        shared = false
+    ): Promise<KnowledgeSyncResult> {
+        const relativePath = this.resolvePath(path);
+        if (!getFileType(relativePath, this.includeCode)) {
+            throw new Error(`Unsupported knowledge file type: ${path}`);
+        }
+        const fullPath = join(this.knowledgeRoot, relativePath);
+        await mkdir(dirname(fullPath), { recursive: true });
+        await writeFile(fullPath, content);
+        return this.syncFile(relativePath, shared);
+    }
+
+    async deleteFile(
+        path: string,
+        shared = false
+    ): Promise<KnowledgeSyncResult> {
+        const relativePath = this.resolvePath(path);
+        await rm(join(this.knowledgeRoot, relativePath), { force: true });
+        return this.removeFile(relativePath, shared);
+    }
+
+    async syncDirectory(
+        directory: string,
+        shared = false
+    ): Promise<KnowledgeSyncResult[]> {
+        const relativeDir = this.resolvePath(directory);
+        const types = getKnowledgeFileTypes({
+            includeCode: this.includeCode,
+        });
+        const files = await glob(`**/*.{${types.join(",")}}`, {
+            cwd: join(this.knowledgeRoot, relativeDir),
+            nodir: true,
+            absolute: false,
+        });
+        const paths = new Set(files.map((file) => join(relativeDir, file)));
+
+        elizaLogger.info(
+            `[Knowledge Sync] Found ${paths.size} files in ${relativeDir}`
+        );
+
+        // Process files in batches to avoid memory issues
+        const BATCH_SIZE = 5;
+        const results: KnowledgeSyncResult[] = [];
+        const queue = [...paths];
+        for (let i = 0; i < queue.length; i += BATCH_SIZE) {
+            results.push(
+                ...(await Promise.all(
+                    queue
+                        .slice(i, i + BATCH_SIZE)
+                        .map((path) => this.syncFile(path, shared))
+                ))
+            );
+        }
+
+        // remove the knowledge of files deleted while the agent was not running
+        const stored = await this.runtime.ragKnowledgeManager.listAllKnowledge(
+            this.runtime.agentId
+        );
+        for (const item of stored) {
+            const metadata = item.content.metadata;
+            const source = metadata?.source as string | undefined;
+            if (
+                !source ||
+                metadata.isChunk ||
+                !!metadata.isShared !== shared ||
+                paths.has(source) ||
+                relative(relativeDir, source).startsWith("..")
+            ) {
+                continue;
+            }
+            results.push(await this.removeFile(source, shared));
+        }
+
+        return results;
+    }
+
+    watch(directory: string, shared = false): void {
+        const relativeDir = this.resolvePath(directory);
+        const key = `${shared}:${relativeDir}`;
+        if (this.watchers.has(key)) {
+            return;
+        }
+
+        const watcher = watch(
+            join(this.knowledgeRoot, relativeDir),
+            { recursive: true },
+            (_event, filename) => {
+                if (!filename) {
+                    return;
+                }
+                const path = join(relativeDir, filename.toString());
+                if (getFileType(path, this.includeCode)) {
+                    this.schedule(path, shared);
+                }
+            }
+        );
+        watcher.on("error", (error) =>
+            elizaLogger.error(
+                `[Knowledge Sync] Watcher of ${relativeDir} failed:`,
+                error
+            )
+        );
+        this.watchers.set(key, watcher);
+        elizaLogger.info(`[Knowledge Sync] Watching ${relativeDir}`);
+    }
+
+    /**
+     * Syncs a changed file once it stopped changing for `debounceMs`.
+     */
+    private schedule(path: string, shared: boolean) {
+        const key = `${shared}:${path}`;
+        clearTimeout(this.timers.get(key));
+        this.setStatus(path, shared, { status: "pending" });
+        this.timers.set(
+            key,
+            setTimeout(async () => {
+                this.timers.delete(key);
+                const fullPath = join(this.knowledgeRoot, path);
+                try {
+                    if (!existsSync(fullPath)) {
+                        await this.removeFile(path, shared);
+                    } else if ((await stat(fullPath)).isFile()) {
+                        await this.syncFile(path, shared);
+                    }
+                } catch (error) {
+                    elizaLogger.error(
+                        `[Knowledge Sync] Failed to sync ${path}:`,
+                        error
+                    );
+                }
+            }, this.debounceMs)
+        );
+    }
+
+    stop(): void {
+        for (const watcher of this.watchers.values()) {
+            watcher.close();
+        }
+        this.watchers.clear();
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    getStatus(): KnowledgeDocumentStatus[] {
+        return [...this.statuses.values()];
+    }
+}
@@ -1,4 +1,8 @@
-import { embed, getEmbeddingZeroVector } from "./embedding.ts";
+import {
+    embed,
+    getEmbeddingTag,
+    getEmbeddingZeroVector,
+} from "./embedding.ts";
 import elizaLogger from "./logger.ts";
 import type {
     IAgentRuntime,
@@ -182,6 +186,17 @@ export class MemoryManager implements IMemoryManager {
 
         elizaLogger.log("Creating Memory", memory.id, memory.content.text);
 
+        // tag real vectors with their model so they can be re-embedded when it changes
+        if (
+            memory.embedding?.some((value) => value !== 0) &&
+            !memory.content.embeddingTag
+        ) {
+            memory = {
+                ...memory,
+                content: { ...memory.content, embeddingTag: getEmbeddingTag() },
+            };
+        }
+
         await this.runtime.databaseAdapter.createMemory(
             memory,
             this.tableName,
@@ -0,0 +1,103 @@
+import elizaLogger from "./logger.ts";
+import type {
+    SchemaMigration,
+    SchemaMigrationOptions,
+    SchemaMigrationResult,
+    SchemaMigrationStore,
+} from "./types.ts";
+
+/** Table recording the applied migrations of SQL adapters */
+export const SCHEMA_VERSION_TABLE = "schema_version";
+
+/**
+ * Thrown when a database was migrated by a newer version of its adapter.
+ */
+export class SchemaVersionError extends Error {
+    constructor(
+        message: string,
+        readonly databaseVersion: number,
+        readonly codeVersion: number
+    ) {
+        super(message);
+        this.name = "SchemaVersionError";
+    }
+}
+
+/**
+ * Returns the schema version the migrations lead to.
+ */
+export function getLatestSchemaVersion(migrations: SchemaMigration[]): number {
+    return migrations.length > 0
+        ? migrations[migrations.length - 1].version
+        : 0;
+}
+
+function validateMigrations(migrations: SchemaMigration[]): void {
+    migrations.forEach((migration, index) => {
+        if (migration.version !== index + 1) {
+            throw new Error(
+                `Migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`
+            );
+        }
+    });
+}
+
+/**
+ * Brings the schema of a database to the latest migration.
+ *
+ * Migrations are applied in order, each one recorded in the schema_version table by the store,
+ * so an interrupted run resumes with the first migration that did not complete. Databases
+ * created before migrations existed are at version 0: the first migration of each adapter is
+ * its original schema, which only creates what is missing.
+ *
+ * @param store - Reads and records the schema version of the database.
+ * @param migrations - The migrations of the adapter, ordered by version.
+ * @param options - The adapter name used in messages, and dry run.
+ * @returns The migrations applied, or pending in a dry run.
+ * @throws SchemaVersionError when the database is newer than the migrations.
+ */
+export async function runSchemaMigrations(
+    store: SchemaMigrationStore,
+    migrations: SchemaMigration[],
+    options: SchemaMigrationOptions & { adapter: string }
+): Promise<SchemaMigrationResult> {
+    validateMigrations(migrations);
+    const dryRun = !!options.dryRun;
+    const latest = getLatestSchemaVersion(migrations);
+    const fromVersion = await store.getSchemaVersion();
+
+    if (fromVersion > latest) {
+        throw new SchemaVersionError(
+            `The ${options.adapter} database is at schema version ${fromVersion}, but this version of the adapter only knows migrations up to ${latest}. Upgrade the agent before starting it.`,
+            fromVersion,
+            latest
+        );
+    }
+
+    const pending = migrations.filter(
+        (migration) => migration.version > fromVersion
+    );
+    const result: SchemaMigrationResult = {
+        adapter: options.adapter,
+        dryRun,
+        fromVersion,
+        toVersion: fromVersion,
+        migrations: [],
+    };
+
+    for (const migration of pending) {
+        if (dryRun) {
+            elizaLogger.info(
+                `[Migrations] Would apply ${options.adapter} migration ${migration.version} (${migration.name}):\n${migration.up.trim()}`
+            );
+        } else {
+            elizaLogger.info(
+                `[Migrations] Applying ${options.adapter} migration ${migration.version} (${migration.name})`
+            );
+            await store.applyMigration(migration);
+        }
+        result.migrations.push(migration);
+        result.toVersion = migration.version;
+    }
+    return result;
+}
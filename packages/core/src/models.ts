@@ -3,6 +3,7 @@ import {
     type EmbeddingModelSettings,
     type ImageModelSettings,
     ModelClass,
+    type ModelPricing,
     ModelProviderName,
     type Models,
     type ModelSettings,
@@ -1153,6 +1154,23 @@ export const models: Models = {
     },
 };
 
+/**
+ * Prices of known models, keyed by model name so that a model selected through a setting
+ * such as SMALL_OPENAI_MODEL is priced as that model whatever its class
+ */
+export const modelPricing: { [model: string]: ModelPricing } = {
+    "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+    "text-embedding-3-small": { inputPerMillion: 0.02 },
+    "dall-e-3": { perImage: 0.04 },
+    "claude-3-haiku-20240307": { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+    "claude-3-5-sonnet-20241022": { inputPerMillion: 3, outputPerMillion: 15 },
+};
+
+export function getModelPricing(model: string): ModelPricing | undefined {
+    return modelPricing[model];
+}
+
 export function getModelSettings(
     provider: ModelProviderName,
     type: ModelClass
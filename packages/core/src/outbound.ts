@@ -0,0 +1,452 @@
+import { getErrorStatus } from "./failover.ts";
+import elizaLogger from "./logger.ts";
+import {
+    type IAgentRuntime,
+    type IOutboundQueue,
+    type OutboundMetrics,
+    type OutboundPlatformOptions,
+    type OutboundQueueOptions,
+    type OutboundTask,
+    type RateLimit,
+    SendPriority,
+} from "./types.ts";
+
+/** Documented limits of the platforms the clients send to, overridden by `settings.outbound` */
+export const DEFAULT_OUTBOUND_LIMITS: Record<string, OutboundPlatformOptions> =
+    {
+        // 50 requests per second per bot, 5 messages per 5 seconds per channel
+        discord: {
+            global: { tokens: 50, intervalMs: 1000 },
+            channel: { tokens: 5, intervalMs: 5000 },
+        },
+        // 30 messages per second per bot, 20 messages per minute per group
+        telegram: {
+            global: { tokens: 30, intervalMs: 1000 },
+            channel: { tokens: 20, intervalMs: 60 * 1000 },
+        },
+        // about one message per second per channel
+        slack: {
+            channel: { tokens: 1, intervalMs: 1000 },
+        },
+        // the scraper has no documented limits, requests are spaced out and retried on errors
+        twitter: {
+            global: { tokens: 1, intervalMs: 2000 },
+            retryErrors: true,
+        },
+    };
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+const DEFAULT_RETRY_AFTER_MS = 1000;
+const BACKOFF_BASE_MS = 1000;
+
+const PRIORITY_ORDER = [
+    SendPriority.REPLY,
+    SendPriority.DEFAULT,
+    SendPriority.AUTOPOST,
+];
+
+/**
+ * Thrown when a platform has too many sends waiting, see `maxQueueSize`.
+ */
+export class OutboundQueueFullError extends Error {
+    constructor(
+        message: string,
+        readonly platform: string
+    ) {
+        super(message);
+        this.name = "OutboundQueueFullError";
+    }
+}
+
+/**
+ * Reads how long a rate limited platform asks to wait before sending again, from the errors of
+ * the Discord, Telegram and Slack clients and from HTTP 429 responses.
+ * @returns The wait in milliseconds, or undefined when the error is not a rate limit.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+    if (!error || typeof error !== "object") {
+        return undefined;
+    }
+    const { name, code, retryAfter, retry_after, headers, response } =
+        error as {
+            name?: string;
+            code?: unknown;
+            retryAfter?: unknown;
+            retry_after?: unknown;
+            headers?: Record<string, unknown>;
+            response?: {
+                parameters?: { retry_after?: unknown };
+                headers?: Record<string, unknown>;
+            };
+        };
+
+    // Telegraf: TelegramError with the seconds to wait in its parameters
+    if (typeof response?.parameters?.retry_after === "number") {
+        return response.parameters.retry_after * 1000;
+    }
+    // Slack web API: rate limited error with the seconds to wait
+    if (code === "slack_webapi_rate_limited_error") {
+        return typeof retryAfter === "number"
+            ? retryAfter * 1000
+            : DEFAULT_RETRY_AFTER_MS;
+    }
+    // discord.js: RateLimitError with the milliseconds to wait
+    if (name === "RateLimitError" && typeof retryAfter === "number") {
+        return retryAfter;
+    }
+
+    if (getErrorStatus(error) !== 429 && code !== 429) {
+        return undefined;
+    }
+    // HTTP: Retry-After header, or the body of a Discord 429, in seconds
+    const seconds = Number(
+        headers?.["retry-after"] ??
+            response?.headers?.["retry-after"] ??
+            retryAfter ??
+            retry_after
+    );
+    return Number.isFinite(seconds) && seconds >= 0
+        ? seconds * 1000
+        : DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * Sends through the outbound queue of the runtime, or right away when it has none.
+ */
+export function sendOutbound<T>(
+    runtime: IAgentRuntime | undefined,
+    task: OutboundTask<T>
+): Promise<T> {
+    return runtime?.outboundQueue
+        ? runtime.outboundQueue.send(task)
+        : task.run();
+}
+
+class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+    private blockedUntil = 0;
+
+    constructor(private limit: RateLimit) {
+        this.tokens = limit.tokens;
+        this.updatedAt = Date.now();
+    }
+
+    /** Time until a token is available, 0 when one is */
+    waitTime(now: number): number {
+        this.refill(now);
+        const refillWait =
+            this.tokens >= 1
+                ? 0
+                : ((1 - this.tokens) * this.limit.intervalMs) /
+                  this.limit.tokens;
+        return Math.max(this.blockedUntil - now, Math.ceil(refillWait), 0);
+    }
+
+    take(now: number): void {
+        this.refill(now);
+        this.tokens -= 1;
+    }
+
+    /** Stops handing out tokens until the platform accepts sends again */
+    block(until: number): void {
+        this.blockedUntil = Math.max(this.blockedUntil, until);
+    }
+
+    private refill(now: number): void {
+        this.tokens = Math.min(
+            this.limit.tokens,
+            this.tokens +
+                ((now - this.updatedAt) * this.limit.tokens) /
+                    this.limit.intervalMs
+        );
+        this.updatedAt = now;
+    }
+}
+
+interface QueuedSend {
+    task: OutboundTask<unknown>;
+    priority: SendPriority;
+    seq: number;
+    enqueuedAt: number;
+    attempts: number;
+    notBefore: number;
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+}
+
+interface PlatformQueue {
+    options: OutboundPlatformOptions;
+    global?: TokenBucket;
+    channels: Map<string, TokenBucket>;
+    waiting: QueuedSend[];
+    busyChannels: Set<string>;
+    timer?: NodeJS.Timeout;
+    inFlight: number;
+    sent: number;
+    failed: number;
+    retried: number;
+    dropped: number;
+    rateLimited: number;
+    dispatched: number;
+    totalWaitMs: number;
+    maxWaitMs: number;
+}
+
+/**
+ * Paces the messages the clients send to chat platforms, so bots stay within the rate limits of
+ * each platform instead of collecting 429s and temporary bans.
+ *
+ * Each platform has a token bucket for the whole bot and one per channel. Waiting sends go out
+ * by priority, replies before autoposts, and in order within a channel, one at a time. When a
+ * platform reports a rate limit, the channel (or the whole bot for global limits) is paused for
+ * the time the platform asks and the send is retried.
+ */
+export class OutboundQueue implements IOutboundQueue {
+    private options: OutboundQueueOptions;
+    private platforms = new Map<string, PlatformQueue>();
+    private seq = 0;
+
+    constructor(options: OutboundQueueOptions = {}) {
+        this.options = options;
+    }
+
+    send<T>(task: OutboundTask<T>): Promise<T> {
+        const queue = this.getPlatform(task.platform);
+        const priority = task.priority ?? SendPriority.DEFAULT;
+
+        return new Promise<T>((resolve, reject) => {
+            const maxQueueSize =
+                queue.options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+            if (queue.waiting.length >= maxQueueSize) {
+                // make room by dropping the newest of the lowest priority sends, if it ranks lower
+                const lowest = [...queue.waiting].sort(
+                    (a, b) =>
+                        PRIORITY_ORDER.indexOf(b.priority) -
+                            PRIORITY_ORDER.indexOf(a.priority) || b.seq - a.seq
+                )[0];
+                const full = new OutboundQueueFullError(
+                    `${maxQueueSize} sends are already waiting for ${task.platform}`,
+                    task.platform
+                );
+                queue.dropped++;
+                if (
+                    PRIORITY_ORDER.indexOf(lowest.priority) <=
+                    PRIORITY_ORDER.indexOf(priority)
+                ) {
+                    reject(full);
+                    return;
+                }
+                queue.waiting.splice(queue.waiting.indexOf(lowest), 1);
+                lowest.reject(full);
+            }
+
+            const now = Date.now();
+            queue.waiting.push({
+                task,
+                priority,
+                seq: this.seq++,
+                enqueuedAt: now,
+                attempts: 0,
+                notBefore: now,
+                resolve,
+                reject,
+            });
+            this.pump(task.platform);
+        });
+    }
+
+    getMetrics(platform?: string): OutboundMetrics[] {
+        return [...this.platforms.entries()]
+            .filter(([name]) => !platform || name === platform)
+            .map(([name, queue]) => ({
+                platform: name,
+                queued: Object.fromEntries(
+                    PRIORITY_ORDER.map((priority) => [
+                        priority,
+                        queue.waiting.filter(
+                            (send) => send.priority === priority
+                        ).length,
+                    ])
+                ) as Record<SendPriority, number>,
+                inFlight: queue.inFlight,
+                sent: queue.sent,
+                failed: queue.failed,
+                retried: queue.retried,
+                dropped: queue.dropped,
+                rateLimited: queue.rateLimited,
+                averageWaitMs: queue.dispatched
+                    ? Math.round(queue.totalWaitMs / queue.dispatched)
+                    : 0,
+                maxWaitMs: queue.maxWaitMs,
+            }));
+    }
+
+    private getPlatform(platform: string): PlatformQueue {
+        let queue = this.platforms.get(platform);
+        if (!queue) {
+            const options = {
+                ...DEFAULT_OUTBOUND_LIMITS[platform],
+                ...this.options.platforms?.[platform],
+            };
+            queue = {
+                options,
+                global: options.global && new TokenBucket(options.global),
+                channels: new Map(),
+                waiting: [],
+                busyChannels: new Set(),
+                inFlight: 0,
+                sent: 0,
+                failed: 0,
+                retried: 0,
+                dropped: 0,
+                rateLimited: 0,
+                dispatched: 0,
+                totalWaitMs: 0,
+                maxWaitMs: 0,
+            };
+            this.platforms.set(platform, queue);
+        }
+        return queue;
+    }
+
+    private getChannel(
+        queue: PlatformQueue,
+        channelId: string
+    ): TokenBucket | undefined {
+        if (!queue.options.channel) {
+            return undefined;
+        }
+        let bucket = queue.channels.get(channelId);
+        if (!bucket) {
+            bucket = new TokenBucket(queue.options.channel);
+            queue.channels.set(channelId, bucket);
+        }
+        return bucket;
+    }
+
+    /** Starts every send allowed by the buckets, then waits for the next token */
+    private pump(platform: string): void {
+        const queue = this.getPlatform(platform);
+        clearTimeout(queue.timer);
+        queue.timer = undefined;
+
+        let nextWait = Number.POSITIVE_INFINITY;
+        while (queue.waiting.length > 0) {
+            const now = Date.now();
+            const globalWait = queue.global?.waitTime(now) ?? 0;
+            if (globalWait > 0) {
+                nextWait = globalWait;
+                break;
+            }
+
+            const ordered = [...queue.waiting].sort(
+                (a, b) =>
+                    PRIORITY_ORDER.indexOf(a.priority) -
+                        PRIORITY_ORDER.indexOf(b.priority) || a.seq - b.seq
+            );
+            const seen = new Set<string>();
+            let next: QueuedSend | undefined;
+            for (const send of ordered) {
+                const { channelId } = send.task;
+                // only the first send of a channel may go, so a channel keeps its order
+                if (seen.has(channelId) || queue.busyChannels.has(channelId)) {
+                    seen.add(channelId);
+                    continue;
+                }
+                seen.add(channelId);
+
+                const wait = Math.max(
+                    send.notBefore - now,
+                    this.getChannel(queue, channelId)?.waitTime(now) ?? 0
+                );
+                if (wait > 0) {
+                    nextWait = Math.min(nextWait, wait);
+                    continue;
+                }
+                next = send;
+                break;
+            }
+            if (!next) {
+                break;
+            }
+            this.dispatch(platform, queue, next);
+        }
+
+        if (queue.waiting.length > 0 && Number.isFinite(nextWait)) {
+            queue.timer = setTimeout(() => this.pump(platform), nextWait);
+        }
+    }
+
+    private dispatch(
+        platform: string,
+        queue: PlatformQueue,
+        send: QueuedSend
+    ): void {
+        const now = Date.now();
+        const { channelId } = send.task;
+        queue.waiting.splice(queue.waiting.indexOf(send), 1);
+        queue.global?.take(now);
+        this.getChannel(queue, channelId)?.take(now);
+        queue.busyChannels.add(channelId);
+        queue.inFlight++;
+        if (send.attempts === 0) {
+            const waited = now - send.enqueuedAt;
+            queue.dispatched++;
+            queue.totalWaitMs += waited;
+            queue.maxWaitMs = Math.max(queue.maxWaitMs, waited);
+        }
+
+        send.task
+            .run()
+            .then(
+                (result) => {
+                    queue.sent++;
+                    send.resolve(result);
+                },
+                (error) => this.handleError(platform, queue, send, error)
+            )
+            .finally(() => {
+                queue.inFlight--;
+                queue.busyChannels.delete(channelId);
+                this.pump(platform);
+            });
+    }
+
+    private handleError(
+        platform: string,
+        queue: PlatformQueue,
+        send: QueuedSend,
+        error: unknown
+    ): void {
+        const now = Date.now();
+        const retryAfter = getRetryAfterMs(error);
+        if (retryAfter !== undefined) {
+            queue.rateLimited++;
+            const until = now + retryAfter;
+            this.getChannel(queue, send.task.channelId)?.block(until);
+            if ((error as { global?: boolean }).global) {
+                queue.global?.block(until);
+            }
+            elizaLogger.warn(
+                `[Outbound] ${platform} rate limited sends to ${send.task.channelId}, retrying in ${retryAfter}ms`
+            );
+        }
+
+        const maxRetries = queue.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+        const retryable =
+            retryAfter !== undefined || !!queue.options.retryErrors;
+        if (!retryable || send.attempts >= maxRetries) {
+            queue.failed++;
+            send.reject(error);
+            return;
+        }
+
+        send.attempts++;
+        send.notBefore =
+            now + (retryAfter ?? BACKOFF_BASE_MS * 2 ** (send.attempts - 1));
+        queue.retried++;
+        queue.waiting.push(send);
+    }
+}
@@ -7,6 +7,7 @@ export const messageCompletionFooter = `\nResponse format should be formatted in
 \`\`\`
 
 The “action” field should be one of the options in [Available Actions] and the "text" field should be the response you want to send.
+To perform several actions in order, use an "actions" array of action names instead of the "action" field.
 `;
 
 export const shouldRespondFooter = `The available options are [RESPOND], [IGNORE], or [STOP]. Choose the most appropriate option.
@@ -219,6 +220,62 @@ export function extractAttributes(
     return Object.entries(attributes).length > 0 ? attributes : null;
 }
 
+/**
+ * Extracts the value of a string attribute from a JSON response that may still be streaming.
+ * Unlike `extractAttributes`, escape sequences are decoded and an unterminated value is returned as far as it goes.
+ * @param response - The (possibly incomplete) JSON response.
+ * @param attribute - The attribute name to extract.
+ * @returns The decoded value so far, or null if the attribute has not started yet.
+ */
+export function extractPartialStringAttribute(
+    response: string,
+    attribute: string
+): string | null {
+    const match = new RegExp(`"${attribute}"\\s*:\\s*"`).exec(response);
+    if (!match) {
+        return null;
+    }
+
+    const escapes: { [key: string]: string } = {
+        n: "\n",
+        r: "\r",
+        t: "\t",
+        b: "\b",
+        f: "\f",
+    };
+    let value = "";
+
+    for (let i = match.index + match[0].length; i < response.length; i++) {
+        const char = response[i];
+        if (char === '"') {
+            break;
+        }
+        if (char !== "\\") {
+            value += char;
+            continue;
+        }
+
+        const next = response[i + 1];
+        if (next === undefined) {
+            // escape sequence cut off by the stream
+            break;
+        }
+        if (next === "u") {
+            const code = response.slice(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(code)) {
+                break;
+            }
+            value += String.fromCharCode(Number.parseInt(code, 16));
+            i += 5;
+        } else {
+            value += escapes[next] ?? next;
+            i += 1;
+        }
+    }
+
+    return value;
+}
+
 /**
  * Normalizes a JSON-like string by correcting formatting issues:
  * - Removes extra spaces after '{' and before '}'.
@@ -1,9 +1,20 @@
-import { embed } from "./embedding.ts";
+import { embed, getEmbeddingTag } from "./embedding.ts";
+import { chunkDocument } from "./chunking.ts";
 import { splitChunks } from "./generation.ts";
+import { getContentHash } from "./knowledgeSync.ts";
 import elizaLogger from "./logger.ts";
+import {
+    BM25Index,
+    createLLMReranker,
+    getQueryTerms,
+    reciprocalRankFusion,
+    tokenize,
+} from "./retrieval.ts";
 import {
     type IAgentRuntime,
     type IRAGKnowledgeManager,
+    type KnowledgeReranker,
+    type KnowledgeSearchResult,
     type RAGKnowledgeItem,
     type UUID,
     KnowledgeScope,
@@ -31,86 +42,41 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
      */
     knowledgeRoot: string;
 
+    /**
+     * Reranker applied by `hybridSearch`, overrides `settings.ragRetrieval.reranker`
+     */
+    reranker?: KnowledgeReranker;
+
+    /**
+     * Lexical index of the knowledge of each agent, rebuilt after local writes
+     */
+    private lexicalCorpora = new Map<
+        UUID,
+        Promise<{ index: BM25Index; items: Map<string, RAGKnowledgeItem> }>
+    >();
+
     /**
      * Constructs a new KnowledgeManager instance.
      * @param opts Options for the manager.
      * @param opts.tableName The name of the table this manager will operate on.
      * @param opts.runtime The AgentRuntime instance associated with this manager.
+     * @param opts.reranker Optional reranker applied to the hybrid search results.
      */
     constructor(opts: {
         tableName: string;
         runtime: IAgentRuntime;
         knowledgeRoot: string;
+        reranker?: KnowledgeReranker;
     }) {
         this.runtime = opts.runtime;
         this.tableName = opts.tableName;
         this.knowledgeRoot = opts.knowledgeRoot;
+        this.reranker = opts.reranker;
     }
 
     private readonly defaultRAGMatchThreshold = 0.85;
     private readonly defaultRAGMatchCount = 8;
-
-    /**
-     * Common English stop words to filter out from query analysis
-     */
-    private readonly stopWords = new Set([
-        "a",
-        "an",
-        "and",
-        "are",
-        "as",
-        "at",
-        "be",
-        "by",
-        "does",
-        "for",
-        "from",
-        "had",
-        "has",
-        "have",
-        "he",
-        "her",
-        "his",
-        "how",
-        "hey",
-        "i",
-        "in",
-        "is",
-        "it",
-        "its",
-        "of",
-        "on",
-        "or",
-        "that",
-        "the",
-        "this",
-        "to",
-        "was",
-        "what",
-        "when",
-        "where",
-        "which",
-        "who",
-        "will",
-        "with",
-        "would",
-        "there",
-        "their",
-        "they",
-        "your",
-        "you",
-    ]);
-
-    /**
-     * Filters out stop words and returns meaningful terms
-     */
-    private getQueryTerms(query: string): string[] {
-        return query
-            .toLowerCase()
-            .split(" ")
-            .filter((term) => term.length > 2) // Filter very short words
-            .filter((term) => !this.stopWords.has(term)); // Filter stop words
-    }
+    private readonly defaultRerankCount = 20;
 
     /**
      * Preprocesses text content for better RAG performance.
@@ -118,7 +84,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
      * @returns The preprocessed text.
      */
 
-    private preprocess(content: string): string {
+    preprocess(content: string): string {
         if (!content || typeof content !== "string") {
             elizaLogger.warn("Invalid input for preprocessing");
             return "";
@@ -145,38 +111,6 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
         );
     }
 
-    private hasProximityMatch(text: string, terms: string[]): boolean {
-        if (!text || !terms.length) {
-            return false;
-        }
-    
-        const words = text.toLowerCase().split(" ").filter(w => w.length > 0);
-        
-        // Find all positions for each term (not just first occurrence)
-        const allPositions = terms.flatMap(term => 
-            words.reduce((positions, word, idx) => {
-                if (word.includes(term)) positions.push(idx);
-                return positions;
-            }, [] as number[])
-        ).sort((a, b) => a - b);
-    
-        if (allPositions.length < 2) return false;
-    
-        // Check proximity
-        for (let i = 0; i < allPositions.length - 1; i++) {
-            if (Math.abs(allPositions[i] - allPositions[i + 1]) <= 5) {
-                elizaLogger.debug("[Proximity Match]", {
-                    terms,
-                    positions: allPositions,
-                    matchFound: `${allPositions[i]} - ${allPositions[i + 1]}`
-                });
-                return true;
-            }
-        }
-    
-        return false;
-    }
-
     async getKnowledge(params: {
         query?: string;
         id?: UUID;
@@ -199,83 +133,15 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
             }
         }
 
-        // If no id or no direct results, perform semantic search
+        // If no id or no direct results, perform hybrid search
         if (params.query) {
             try {
-                const processedQuery = this.preprocess(params.query);
-
-                // Build search text with optional context
-                let searchText = processedQuery;
-                if (params.conversationContext) {
-                    const relevantContext = this.preprocess(
-                        params.conversationContext
-                    );
-                    searchText = `${relevantContext} ${processedQuery}`;
-                }
-
-                const embeddingArray = await embed(this.runtime, searchText);
-
-                const embedding = new Float32Array(embeddingArray);
-
-                // Get results with single query
-                const results =
-                    await this.runtime.databaseAdapter.searchKnowledge({
-                        agentId: this.runtime.agentId,
-                        embedding: embedding,
-                        match_threshold: this.defaultRAGMatchThreshold,
-                        match_count:
-                            (params.limit || this.defaultRAGMatchCount) * 2,
-                        searchText: processedQuery,
-                    });
-
-                // Enhanced reranking with sophisticated scoring
-                const rerankedResults = results
-                    .map((result) => {
-                        let score = result.similarity;
-
-                        // Check for direct query term matches
-                        const queryTerms = this.getQueryTerms(processedQuery);
-
-                        const matchingTerms = queryTerms.filter((term) =>
-                            result.content.text.toLowerCase().includes(term)
-                        );
-
-                        if (matchingTerms.length > 0) {
-                            // Much stronger boost for matches
-                            score *=
-                                1 +
-                                (matchingTerms.length / queryTerms.length) * 2; // Double the boost
-
-                            if (
-                                this.hasProximityMatch(
-                                    result.content.text,
-                                    matchingTerms
-                                )
-                            ) {
-                                score *= 1.5; // Stronger proximity boost
-                            }
-                        } else {
-                            // More aggressive penalty
-                            if (!params.conversationContext) {
-                                score *= 0.3; // Stronger penalty
-                            }
-                        }
-
-                        return {
-                            ...result,
-                            score,
-                            matchedTerms: matchingTerms, // Add for debugging
-                        };
-                    })
-                    .sort((a, b) => b.score - a.score);
-
-                // Filter and return results
-                return rerankedResults
-                    .filter(
-                        (result) =>
-                            result.score >= this.defaultRAGMatchThreshold
-                    )
-                    .slice(0, params.limit || this.defaultRAGMatchCount);
+                return await this.hybridSearch({
+                    query: params.query,
+                    conversationContext: params.conversationContext,
+                    limit: params.limit,
+                    agentId,
+                });
             } catch (error) {
                 console.log(`[RAG Search Error] ${error}`);
                 return [];
@@ -311,6 +177,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
                     metadata: {
                         ...item.content.metadata,
                         isMain: true,
+                        embeddingTag: getEmbeddingTag(),
                     },
                 },
                 embedding: mainEmbedding,
@@ -335,6 +202,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
                             isChunk: true,
                             originalId: item.id,
                             chunkIndex: index,
+                            embeddingTag: getEmbeddingTag(),
                         },
                     },
                     embedding: chunkEmbedding,
@@ -344,6 +212,8 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
         } catch (error) {
             elizaLogger.error(`Error processing knowledge ${item.id}:`, error);
             throw error;
+        } finally {
+            this.invalidateLexicalCorpora();
         }
     }
 
@@ -374,8 +244,189 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
         });
     }
 
+    /**
+     * Searches knowledge with both vector similarity and BM25, fuses the two rankings with
+     * reciprocal rank fusion and reorders the best candidates with the reranker, if any.
+     *
+     * The lexical search finds exact terms such as error codes or SKUs that embeddings miss.
+     *
+     * @param params.query The query.
+     * @param params.conversationContext Recent conversation, only used for the vector search.
+     * @param params.reranker Reranker to use instead of the configured one, `null` disables it.
+     * @returns The results, best first, with their scores and match explanations.
+     */
+    async hybridSearch(params: {
+        query: string;
+        conversationContext?: string;
+        limit?: number;
+        agentId?: UUID;
+        reranker?: KnowledgeReranker | null;
+    }): Promise<KnowledgeSearchResult[]> {
+        const options = this.runtime.character?.settings?.ragRetrieval ?? {};
+        const agentId = params.agentId || this.runtime.agentId;
+        const limit = params.limit || this.defaultRAGMatchCount;
+        const candidateCount = options.candidateCount ?? limit * 4;
+
+        const processedQuery = this.preprocess(params.query);
+        const searchText = params.conversationContext
+            ? `${this.preprocess(params.conversationContext)} ${processedQuery}`
+            : processedQuery;
+
+        const [vectorResults, corpus] = await Promise.all([
+            embed(this.runtime, searchText).then((embedding) =>
+                this.runtime.databaseAdapter.searchKnowledge({
+                    agentId,
+                    embedding: new Float32Array(embedding),
+                    match_threshold: this.defaultRAGMatchThreshold,
+                    match_count: candidateCount,
+                    searchText: processedQuery,
+                })
+            ),
+            this.getLexicalCorpus(agentId),
+        ]);
+        // the raw query keeps the code spans and identifiers preprocessing strips
+        const lexicalResults = corpus.index.search(
+            params.query,
+            candidateCount
+        );
+
+        const fused = reciprocalRankFusion(
+            [
+                {
+                    ids: vectorResults.map((item) => item.id),
+                    weight: options.vectorWeight,
+                },
+                {
+                    ids: lexicalResults.map((match) => match.id),
+                    weight: options.lexicalWeight,
+                },
+            ],
+            options.rrfK
+        );
+
+        const queryTerms = getQueryTerms(params.query);
+        const vectorItems = new Map(
+            vectorResults.map((item, index) => [item.id, { item, index }])
+        );
+        const lexicalMatches = new Map(
+            lexicalResults.map((match, index) => [match.id, { match, index }])
+        );
+
+        let results: KnowledgeSearchResult[] = [...fused.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([id, fusedScore]) => {
+                const vector = vectorItems.get(id as UUID);
+                const lexical = lexicalMatches.get(id);
+                const item = vector?.item ?? corpus.items.get(id);
+                const terms = new Set(tokenize(item.content.text));
+                return {
+                    ...item,
+                    score: fusedScore,
+                    explanation: {
+                        vector: vector && {
+                            rank: vector.index + 1,
+                            similarity:
+                                vector.item.similarity ??
+                                vector.item.score ??
+                                0,
+                        },
+                        lexical: lexical && {
+                            rank: lexical.index + 1,
+                            score: lexical.match.score,
+                        },
+                        matchedTerms: queryTerms.filter((term) =>
+                            terms.has(term)
+                        ),
+                        fusedScore,
+                    },
+                };
+            });
+
+        const reranker =
+            params.reranker === undefined
+                ? this.getReranker()
+                : params.reranker;
+        if (reranker && results.length > 0) {
+            const candidates = results.slice(
+                0,
+                Math.max(limit, options.rerankCount ?? this.defaultRerankCount)
+            );
+            try {
+                const scores = await reranker.rerank(
+                    params.query,
+                    candidates,
+                    this.runtime
+                );
+                results = candidates
+                    .map((result, index) => ({
+                        ...result,
+                        score: scores[index],
+                        explanation: {
+                            ...result.explanation,
+                            rerank: {
+                                reranker: reranker.name,
+                                score: scores[index],
+                            },
+                        },
+                    }))
+                    .sort((a, b) => b.score - a.score);
+            } catch (error) {
+                elizaLogger.warn(
+                    `[RAG Search] Reranker ${reranker.name} failed, keeping the fused order:`,
+                    error
+                );
+            }
+        }
+
+        return results.slice(0, limit);
+    }
+
+    private getReranker(): KnowledgeReranker | undefined {
+        if (this.reranker) {
+            return this.reranker;
+        }
+        const options = this.runtime.character?.settings?.ragRetrieval;
+        if (options?.reranker === "llm") {
+            this.reranker = createLLMReranker();
+            return this.reranker;
+        }
+        return undefined;
+    }
+
+    private getLexicalCorpus(agentId: UUID) {
+        let corpus = this.lexicalCorpora.get(agentId);
+        if (!corpus) {
+            corpus = this.runtime.databaseAdapter
+                .getKnowledge({ agentId })
+                .then((knowledge) => {
+                    const index = new BM25Index();
+                    const items = new Map<string, RAGKnowledgeItem>();
+                    for (const item of knowledge) {
+                        if (item.content.text) {
+                            index.add(item.id, item.content.text);
+                            items.set(item.id, item);
+                        }
+                    }
+                    return { index, items };
+                });
+            corpus.catch(() => this.lexicalCorpora.delete(agentId));
+            this.lexicalCorpora.set(agentId, corpus);
+        }
+        return corpus;
+    }
+
+    private invalidateLexicalCorpora() {
+        this.lexicalCorpora.clear();
+    }
+
     async removeKnowledge(id: UUID): Promise<void> {
         await this.runtime.databaseAdapter.removeKnowledge(id);
+        this.invalidateLexicalCorpora();
+    }
+
+    async removeKnowledgeChunks(originalId: UUID): Promise<void> {
+        await this.runtime.databaseAdapter.removeKnowledgeChunks(originalId);
+        this.invalidateLexicalCorpora();
     }
 
     async clearKnowledge(shared?: boolean): Promise<void> {
@@ -383,6 +434,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
             this.runtime.agentId,
             shared ? shared : false
         );
+        this.invalidateLexicalCorpora();
     }
 
     /**
@@ -459,7 +511,8 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
                     );
 
                     try {
-                        // Just remove the parent document - this will cascade to chunks
+                        // chunks first, they reference the parent document
+                        await this.removeKnowledgeChunks(idToRemove);
                         await this.removeKnowledge(idToRemove);
 
                         // // Clean up the cache
@@ -508,7 +561,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
     async processFile(file: {
         path: string;
         content: string;
-        type: "pdf" | "md" | "txt";
+        type: string;
         isShared?: boolean;
     }): Promise<void> {
         const timeMarker = (label: string) => {
@@ -554,6 +607,8 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
                         source: file.path,
                         type: file.type,
                         isShared: file.isShared || false,
+                        contentHash: getContentHash(content),
+                        embeddingTag: getEmbeddingTag(),
                     },
                 },
                 embedding: mainEmbedding,
@@ -561,8 +616,11 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
             });
             timeMarker("Main document storage");
 
-            // Step 4: Generate chunks
-            const chunks = await splitChunks(processedContent, 512, 20);
+            // Step 4: Generate chunks along the structure of the file
+            const chunks = await chunkDocument(content, {
+                type: file.type,
+                path: file.path,
+            });
             const totalChunks = chunks.length;
             elizaLogger.info(`Generated ${totalChunks} chunks`);
             timeMarker("Chunk generation");
@@ -580,7 +638,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
 
                 // Process embeddings in parallel
                 const embeddings = await Promise.all(
-                    batch.map((chunk) => embed(this.runtime, chunk))
+                    batch.map((chunk) => embed(this.runtime, chunk.text))
                 );
 
                 // Batch database operations
@@ -594,8 +652,9 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
                             id: chunkId,
                             agentId: this.runtime.agentId,
                             content: {
-                                text: batch[index],
+                                text: batch[index].text,
                                 metadata: {
+                                    ...batch[index].metadata,
                                     source: file.path,
                                     type: file.type,
                                     isShared: file.isShared || false,
@@ -603,6 +662,7 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
                                     originalId: scopedId,
                                     chunkIndex: i + index,
                                     originalPath: file.path,
+                                    embeddingTag: getEmbeddingTag(),
                                 },
                             },
                             embedding: chunkEmbedding,
@@ -634,6 +694,8 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
             }
             elizaLogger.error(`Error processing file ${file.path}:`, error);
             throw error;
+        } finally {
+            this.invalidateLexicalCorpora();
         }
     }
 }
@@ -0,0 +1,88 @@
+import { createHash } from "crypto";
+import { elizaLogger } from "./index.ts";
+import type { IAgentRuntime, ResponseCacheKeyParts } from "./types.ts";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether model responses of this runtime may be read from and written to the cache.
+ * The cache is opt-in through `settings.responseCache.enabled` and needs a cache manager.
+ * @param runtime - The agent runtime.
+ * @param bypassCache - Skips the cache for a single call.
+ */
+export function isResponseCacheEnabled(
+    runtime: IAgentRuntime,
+    bypassCache?: boolean
+): boolean {
+    return (
+        !bypassCache &&
+        !!runtime.cacheManager &&
+        runtime.character?.settings?.responseCache?.enabled === true
+    );
+}
+
+/**
+ * Builds the cache key of a model call from everything that affects its output.
+ * @param parts - Provider, model, context and sampling settings of the call.
+ * @returns A cache key under the `llm-response` namespace.
+ */
+export function getResponseCacheKey(parts: ResponseCacheKeyParts): string {
+    const hash = createHash("sha256")
+        .update(
+            JSON.stringify([
+                parts.kind,
+                parts.provider,
+                parts.model,
+                parts.context,
+                parts.system ?? null,
+                parts.temperature ?? null,
+                parts.stop ?? [],
+                parts.maxTokens ?? null,
+                parts.frequencyPenalty ?? null,
+                parts.presencePenalty ?? null,
+                parts.schema ?? null,
+            ])
+        )
+        .digest("hex");
+    return `llm-response/${parts.provider}/${hash}`;
+}
+
+/**
+ * Reads a cached model response.
+ * Cache failures are logged and treated as a miss.
+ */
+export async function getCachedResponse<T>(
+    runtime: IAgentRuntime,
+    key: string
+): Promise<T | undefined> {
+    try {
+        const value = await runtime.cacheManager.get<T>(key);
+        if (value !== undefined) {
+            elizaLogger.debug(`Response cache hit: ${key}`);
+        }
+        return value;
+    } catch (error) {
+        elizaLogger.warn(`Failed to read response cache: ${error}`);
+        return undefined;
+    }
+}
+
+/**
+ * Stores a model response for `settings.responseCache.ttlMs` (one day by default).
+ * Cache failures are logged and do not fail the call.
+ */
+export async function setCachedResponse<T>(
+    runtime: IAgentRuntime,
+    key: string,
+    value: T
+): Promise<void> {
+    const ttlMs =
+        runtime.character.settings?.responseCache?.ttlMs ?? DEFAULT_TTL_MS;
+    try {
+        await runtime.cacheManager.set(key, value, {
+            expires: ttlMs > 0 ? Date.now() + ttlMs : 0,
+        });
+    } catch (error) {
+        elizaLogger.warn(`Failed to write response cache: ${error}`);
+    }
+}
@@ -0,0 +1,147 @@
+import elizaLogger from "./logger.ts";
+import type {
+    IAgentRuntime,
+    IRetentionJanitor,
+    RetentionOptions,
+    RetentionResult,
+    UserErasureOptions,
+    UserErasureReport,
+    UUID,
+} from "./types.ts";
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Applies the retention policies of `settings.retention` to the agent's data.
+ *
+ * Each policy deletes the entries of a table older than `maxAge`, and the entries of a room
+ * beyond the newest `maxCountPerRoom`. Deleting is idempotent, so runs need no bookkeeping.
+ */
+export class RetentionJanitor implements IRetentionJanitor {
+    runtime: IAgentRuntime;
+    private options: RetentionOptions;
+    private timer?: NodeJS.Timeout;
+    private running?: Promise<RetentionResult[]>;
+
+    constructor(
+        runtime: IAgentRuntime,
+        options: RetentionOptions = runtime.character?.settings?.retention ?? {}
+    ) {
+        this.runtime = runtime;
+        this.options = options;
+    }
+
+    async run(options: { dryRun?: boolean } = {}): Promise<RetentionResult[]> {
+        const dryRun = !!options.dryRun;
+        const results: RetentionResult[] = [];
+
+        for (const policy of this.options.policies ?? []) {
+            try {
+                const deleted =
+                    await this.runtime.databaseAdapter.applyRetention({
+                        ...policy,
+                        agentId: this.runtime.agentId,
+                        dryRun,
+                    });
+                results.push({ tableName: policy.tableName, deleted, dryRun });
+            } catch (error) {
+                elizaLogger.error(
+                    `[Retention] Failed to apply the policy of ${policy.tableName}:`,
+                    error
+                );
+                results.push({
+                    tableName: policy.tableName,
+                    deleted: 0,
+                    dryRun,
+                    error: error?.message ?? String(error),
+                });
+            }
+        }
+
+        const deleted = results.filter((result) => result.deleted > 0);
+        if (deleted.length > 0) {
+            elizaLogger.info(
+                `[Retention] ${dryRun ? "Would delete" : "Deleted"} ${deleted
+                    .map((result) => `${result.deleted} ${result.tableName}`)
+                    .join(", ")}`
+            );
+        }
+        return results;
+    }
+
+    start(): void {
+        if (this.timer || !this.options.policies?.length) {
+            return;
+        }
+        const run = () => {
+            // skip a tick while the previous run is still going
+            if (this.running) {
+                return;
+            }
+            this.running = this.run().finally(() => {
+                this.running = undefined;
+            });
+        };
+        this.timer = setInterval(
+            run,
+            this.options.intervalMs ?? DEFAULT_INTERVAL_MS
+        );
+        run();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+}
+
+/**
+ * Removes or anonymizes everything tied to an account, e.g. to honor a deletion request.
+ *
+ * The database adapter erases the account, its memories, goals, logs, relationships and
+ * direct conversations. The summaries of the rooms the user shared with others are removed as
+ * well, so that consolidation rebuilds them from the remaining messages.
+ *
+ * @param runtime - The agent runtime.
+ * @param userId - The account to erase.
+ * @param options - Dry run and handling of messages in shared rooms.
+ * @returns What was erased, or would be erased in a dry run.
+ */
+export async function eraseUser(
+    runtime: IAgentRuntime,
+    userId: UUID,
+    options: UserErasureOptions = {}
+): Promise<UserErasureReport> {
+    const adapter = runtime.databaseAdapter;
+    // rooms are read first, erasing removes the user's participations. Direct conversations
+    // are erased with their summaries by the adapter.
+    const roomIds = await adapter.getRoomsForParticipant(userId);
+
+    const report = await adapter.eraseUser(userId, options);
+    const sharedRoomIds = roomIds.filter(
+        (roomId) => !report.directRoomIds.includes(roomId)
+    );
+
+    let summaries = 0;
+    for (const roomId of sharedRoomIds) {
+        const count = await adapter.countMemories(roomId, false, "summaries");
+        if (count > 0 && !options.dryRun) {
+            await adapter.removeAllMemories(roomId, "summaries");
+        }
+        summaries += count;
+    }
+    if (summaries > 0) {
+        report.deleted.summaries = summaries + (report.deleted.summaries ?? 0);
+    }
+
+    elizaLogger.info(
+        `[Retention] ${options.dryRun ? "Would erase" : "Erased"} user ${userId}:`,
+        { deleted: report.deleted, anonymized: report.anonymized }
+    );
+    if (report.unsupported.length > 0) {
+        elizaLogger.warn(
+            `[Retention] The database adapter cannot erase ${report.unsupported.join(", ")} of user ${userId}`
+        );
+    }
+    return report;
+}
@@ -0,0 +1,288 @@
+import { z } from "zod";
+import { generateStructuredObject } from "./generation.ts";
+import {
+    type IAgentRuntime,
+    type KnowledgeReranker,
+    type KnowledgeSearchResult,
+    ModelClass,
+} from "./types.ts";
+
+/**
+ * Common English stop words, ignored in lexical queries
+ */
+const STOP_WORDS = new Set([
+    "a",
+    "an",
+    "and",
+    "are",
+    "as",
+    "at",
+    "be",
+    "by",
+    "does",
+    "for",
+    "from",
+    "had",
+    "has",
+    "have",
+    "he",
+    "her",
+    "his",
+    "how",
+    "hey",
+    "i",
+    "in",
+    "is",
+    "it",
+    "its",
+    "of",
+    "on",
+    "or",
+    "that",
+    "the",
+    "this",
+    "to",
+    "was",
+    "what",
+    "when",
+    "where",
+    "which",
+    "who",
+    "will",
+    "with",
+    "would",
+    "there",
+    "their",
+    "they",
+    "your",
+    "you",
+]);
+
+/**
+ * Splits text into lowercase terms.
+ *
+ * Identifiers such as `ERR_CONN-504`, `v2.1.0` or `SKU-1042` are kept whole so they can be
+ * matched exactly.
+ */
+export function tokenize(text: string): string[] {
+    return (
+        text
+            .toLowerCase()
+            .match(/[\p{L}\p{N}](?:[\p{L}\p{N}_.-]*[\p{L}\p{N}])?/gu) ?? []
+    );
+}
+
+/**
+ * Returns the distinct terms of a query, without stop words.
+ */
+export function getQueryTerms(query: string): string[] {
+    return [...new Set(tokenize(query))].filter(
+        (term) => !STOP_WORDS.has(term)
+    );
+}
+
+/**
+ * A document matched by the lexical index
+ */
+export interface LexicalMatch {
+    id: string;
+    score: number;
+    matchedTerms: string[];
+}
+
+/**
+ * In-memory Okapi BM25 index.
+ */
+export class BM25Index {
+    private documents = new Map<
+        string,
+        { length: number; termFrequencies: Map<string, number> }
+    >();
+    private documentFrequencies = new Map<string, number>();
+    private totalLength = 0;
+
+    constructor(
+        private readonly k1 = 1.2,
+        private readonly b = 0.75
+    ) {}
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    add(id: string, text: string): void {
+        this.remove(id);
+
+        const terms = tokenize(text);
+        const termFrequencies = new Map<string, number>();
+        for (const term of terms) {
+            termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+        }
+        for (const term of termFrequencies.keys()) {
+            this.documentFrequencies.set(
+                term,
+                (this.documentFrequencies.get(term) ?? 0) + 1
+            );
+        }
+        this.documents.set(id, { length: terms.length, termFrequencies });
+        this.totalLength += terms.length;
+    }
+
+    remove(id: string): void {
+        const document = this.documents.get(id);
+        if (!document) {
+            return;
+        }
+        for (const term of document.termFrequencies.keys()) {
+            const frequency = this.documentFrequencies.get(term) - 1;
+            if (frequency > 0) {
+                this.documentFrequencies.set(term, frequency);
+            } else {
+                this.documentFrequencies.delete(term);
+            }
+        }
+        this.documents.delete(id);
+        this.totalLength -= document.length;
+    }
+
+    /**
+     * Returns the documents containing at least one query term, best match first.
+     */
+    search(query: string, limit = 10): LexicalMatch[] {
+        const terms = getQueryTerms(query);
+        if (terms.length === 0 || this.documents.size === 0) {
+            return [];
+        }
+
+        const averageLength = this.totalLength / this.documents.size;
+        const matches: LexicalMatch[] = [];
+        for (const [id, document] of this.documents) {
+            let score = 0;
+            const matchedTerms: string[] = [];
+            for (const term of terms) {
+                const frequency = document.termFrequencies.get(term);
+                if (!frequency) {
+                    continue;
+                }
+                const documentFrequency = this.documentFrequencies.get(term);
+                const idf = Math.log(
+                    1 +
+                        (this.documents.size - documentFrequency + 0.5) /
+                            (documentFrequency + 0.5)
+                );
+                score +=
+                    (idf * frequency * (this.k1 + 1)) /
+                    (frequency +
+                        this.k1 *
+                            (1 -
+                                this.b +
+                                (this.b * document.length) / averageLength));
+                matchedTerms.push(term);
+            }
+            if (score > 0) {
+                matches.push({ id, score, matchedTerms });
+            }
+        }
+
+        return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+}
+
+/**
+ * Fuses ranked lists with weighted reciprocal rank fusion.
+ *
+ * @param rankings - Ranked lists of ids, best first, with their weight (1 by default).
+ * @param k - Smoothing constant, 60 as in the original paper.
+ * @returns The fused score of every id.
+ */
+export function reciprocalRankFusion(
+    rankings: { ids: string[]; weight?: number }[],
+    k = 60
+): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const { ids, weight = 1 } of rankings) {
+        ids.forEach((id, index) => {
+            scores.set(id, (scores.get(id) ?? 0) + weight / (k + index + 1));
+        });
+    }
+    return scores;
+}
+
+/**
+ * Creates a reranker backed by a cross-encoder, e.g. a local transformers.js or ONNX model.
+ *
+ * @param options.score - Scores every passage against the query, higher is more relevant.
+ */
+export function createCrossEncoderReranker(options: {
+    name?: string;
+    score: (query: string, passages: string[]) => Promise<number[]>;
+}): KnowledgeReranker {
+    return {
+        name: options.name ?? "cross-encoder",
+        rerank: (query, candidates) =>
+            options.score(
+                query,
+                candidates.map((candidate) => candidate.content.text)
+            ),
+    };
+}
+
+const llmRerankSchema = z.object({
+    scores: z.array(
+        z.object({
+            passage: z.number().int(),
+            score: z.number().min(0).max(10),
+        })
+    ),
+});
+
+/**
+ * Creates a reranker that asks the model to grade every passage from 0 to 10.
+ *
+ * @param options.modelClass - Model class used for grading, small by default.
+ * @param options.maxPassageLength - Characters of each passage shown to the model.
+ */
+export function createLLMReranker(
+    options: { modelClass?: ModelClass; maxPassageLength?: number } = {}
+): KnowledgeReranker {
+    const { modelClass = ModelClass.SMALL, maxPassageLength = 1000 } = options;
+
+    return {
+        name: "llm",
+        async rerank(
+            query: string,
+            candidates: KnowledgeSearchResult[],
+            runtime: IAgentRuntime
+        ) {
+            const passages = candidates
+                .map(
+                    (candidate, index) =>
+                        `[${index}] ${candidate.content.text.slice(0, maxPassageLength)}`
+                )
+                .join("\n\n");
+            const context = `Grade how well each passage answers the query, from 0 (unrelated) to 10 (answers it exactly). Exact matches of codes, identifiers and product names matter most.
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Return { "scores": [{ "passage": <number>, "score": <0-10> }] } with one entry per passage.`;
+
+            const { scores } = await generateStructuredObject({
+                runtime,
+                context,
+                modelClass,
+                schema: llmRerankSchema,
+                schemaName: "PassageScores",
+                usageTags: { caller: "rerank" },
+            });
+
+            const byPassage = new Map(
+                scores.map((entry) => [entry.passage, entry.score / 10])
+            );
+            // passages the model skipped rank after the graded ones
+            return candidates.map((_, index) => byPassage.get(index) ?? -1);
+        },
+    };
+}
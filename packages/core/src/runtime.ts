@@ -1,4 +1,3 @@
-import { readFile } from "fs/promises";
 import { join } from "path";
 import { names, uniqueNamesGenerator } from "unique-names-generator";
 import { v4 as uuidv4 } from "uuid";
@@ -6,35 +5,77 @@ import {
     composeActionExamples,
     formatActionNames,
     formatActions,
+    getActionCalls,
+    resolveAction,
 } from "./actions.ts";
-import { addHeader, composeContext } from "./context.ts";
+import { ACTION_APPROVAL_KIND, ApprovalQueue } from "./approval.ts";
+import { getKnowledgeFileTypes } from "./chunking.ts";
+import {
+    formatKnowledgeWithCitations,
+    getKnowledgeCitations,
+} from "./citations.ts";
+import { getSummaryRange, MemoryConsolidator } from "./consolidation.ts";
+import {
+    addHeader,
+    composeContext,
+    validateCharacterTemplates,
+} from "./context.ts";
 import { defaultCharacter } from "./defaultCharacter.ts";
+import {
+    detectEmbeddingMismatch,
+    reembedMemories,
+} from "./embeddingMigration.ts";
 import {
     evaluationTemplate,
     formatEvaluatorExamples,
     formatEvaluatorNames,
     formatEvaluators,
+    matchEvaluatorNames,
 } from "./evaluators.ts";
 import { generateText } from "./generation.ts";
 import { formatGoalsAsString, getGoals } from "./goals.ts";
 import { elizaLogger } from "./index.ts";
 import knowledge from "./knowledge.ts";
+import { KnowledgeSync } from "./knowledgeSync.ts";
 import { MemoryManager } from "./memory.ts";
 import { formatActors, formatMessages, getActorDetails } from "./messages.ts";
+import { OutboundQueue } from "./outbound.ts";
 import { parseJsonArrayFromText } from "./parsing.ts";
 import { formatPosts } from "./posts.ts";
 import { getProviders } from "./providers.ts";
 import { RAGKnowledgeManager } from "./ragknowledge.ts";
+import { RetentionJanitor } from "./retention.ts";
 import settings from "./settings.ts";
 import {
+    applyStateBudget,
+    defaultStateSectionBudgets,
+    getStateTokenBudget,
+} from "./stateBudget.ts";
+import {
+    type ActionResolution,
+    ActionResolutionStatus,
+    type ActionStepResult,
+    ActionStepStatus,
+    type ApprovalRequest,
     type Character,
+    type EmbeddingMismatchReport,
+    type EvaluationReport,
+    type EvaluatorReport,
+    type EvaluatorSelectionMode,
+    EvaluatorStatus,
     type Goal,
     type HandlerCallback,
     type IAgentRuntime,
+    type IApprovalQueue,
     type ICacheManager,
     type IDatabaseAdapter,
+    type IKnowledgeSync,
+    type IMemoryConsolidator,
     type IMemoryManager,
+    type IOutboundQueue,
     type IRAGKnowledgeManager,
+    type IRetentionJanitor,
+    type IUsageLedger,
     type IVerifiableInferenceAdapter,
     type KnowledgeItem,
     // RAGKnowledgeItem,
@@ -53,9 +94,14 @@ import {
     type Memory,
     type DirectoryItem,
 } from "./types.ts";
+import { UsageLedger } from "./usage.ts";
 import { stringToUuid } from "./uuid.ts";
-import { glob } from "glob";
 import { existsSync } from "fs";
+/**
+ * Default maximum number of actions run for a single response.
+ */
+const DEFAULT_MAX_ACTION_CHAIN_LENGTH = 5;
+
 /**
  * Represents the runtime environment for an agent, handling message processing,
  * action registration, and interaction with external services like OpenAI and Supabase.
@@ -170,8 +216,17 @@ export class AgentRuntime implements IAgentRuntime {
     services: Map<ServiceType, Service> = new Map();
     memoryManagers: Map<string, IMemoryManager> = new Map();
     cacheManager: ICacheManager;
+    usageLedger: IUsageLedger;
+    knowledgeSync: IKnowledgeSync;
+    memoryConsolidator: IMemoryConsolidator;
+    retentionJanitor: IRetentionJanitor;
+    approvalQueue: IApprovalQueue;
+    outboundQueue: IOutboundQueue;
     clients: Record<string, any>;
 
+    /** Callbacks of the actions waiting for approval, by approval request */
+    private approvalCallbacks = new Map<UUID, HandlerCallback>();
+
     verifiableInferenceAdapter?: IVerifiableInferenceAdapter;
 
     registerMemoryManager(manager: IMemoryManager): void {
@@ -311,6 +366,7 @@ export class AgentRuntime implements IAgentRuntime {
         this.fetch = (opts.fetch as typeof fetch) ?? this.fetch;
 
         this.cacheManager = opts.cacheManager;
+        this.usageLedger = new UsageLedger(this);
 
         this.messageManager = new MemoryManager({
             runtime: this,
@@ -343,6 +399,25 @@ export class AgentRuntime implements IAgentRuntime {
             knowledgeRoot: this.knowledgeRoot,
         });
 
+        this.knowledgeSync = new KnowledgeSync({
+            runtime: this,
+            knowledgeRoot: this.knowledgeRoot,
+        });
+
+        this.memoryConsolidator = new MemoryConsolidator(this);
+        this.retentionJanitor = new RetentionJanitor(this);
+        this.approvalQueue = new ApprovalQueue(this);
+        this.approvalQueue.registerHandler(ACTION_APPROVAL_KIND, (request) =>
+            this.runApprovedAction(request),
+        );
+        // callbacks are kept until their request is resolved, however it ends
+        this.approvalQueue.onResolved((request) =>
+            this.approvalCallbacks.delete(request.id),
+        );
+        this.outboundQueue = new OutboundQueue(
+            this.character.settings?.outbound,
+        );
+
         (opts.managers ?? []).forEach((manager: IMemoryManager) => {
             this.registerMemoryManager(manager);
         });
@@ -444,6 +519,22 @@ export class AgentRuntime implements IAgentRuntime {
     }
 
     async initialize() {
+        const templateValidation = this.character.settings?.templateValidation;
+        if (templateValidation) {
+            const issues = validateCharacterTemplates(
+                this.character,
+                templateValidation.additionalKeys
+            );
+            for (const issue of issues) {
+                elizaLogger.warn(`${this.character.name} - ${issue.message}`);
+            }
+            if (templateValidation.mode === "error" && issues.length > 0) {
+                throw new Error(
+                    `${this.character.name} has ${issues.length} template issue(s)`
+                );
+            }
+        }
+
         for (const [serviceType, service] of this.services.entries()) {
             try {
                 await service.initialize(this);
@@ -460,6 +551,23 @@ export class AgentRuntime implements IAgentRuntime {
             }
         }
 
+        await this.checkEmbeddingModel();
+
+        if (this.character.settings?.memoryConsolidation?.enabled) {
+            this.memoryConsolidator.start();
+        }
+
+        if (this.character.settings?.retention?.enabled) {
+            this.retentionJanitor.start();
+        }
+
+        if (
+            this.character.settings?.approval ||
+            this.actions.some((action) => action.requiresApproval)
+        ) {
+            this.approvalQueue.start();
+        }
+
         // should already be initiailized
         /*
         for (const plugin of this.plugins) {
@@ -530,6 +638,15 @@ export class AgentRuntime implements IAgentRuntime {
                         );
                         await this.processCharacterRAGDirectory(dir);
                     }
+
+                    if (this.character.settings?.knowledgeSync?.watch) {
+                        for (const dir of directoryKnowledge) {
+                            this.knowledgeSync.watch(
+                                dir.directory.replace(/\.\./g, ""),
+                                dir.shared,
+                            );
+                        }
+                    }
                 }
 
                 if (pathKnowledge.length > 0) {
@@ -562,6 +679,48 @@ export class AgentRuntime implements IAgentRuntime {
         }
     }
 
+    /**
+     * Warns when stored vectors were produced by another embedding model, and re-embeds them in
+     * the background when `settings.embeddingMigration.autoReembed` is set.
+     */
+    private async checkEmbeddingModel() {
+        let report: EmbeddingMismatchReport;
+        try {
+            report = await detectEmbeddingMismatch(this);
+        } catch (error) {
+            elizaLogger.warn(
+                `${this.character.name} - Could not check stored embeddings:`,
+                error
+            );
+            return;
+        }
+        if (report.mismatched === 0) {
+            return;
+        }
+
+        const stored = report.storedTags
+            .map((tag) => `${tag.provider}/${tag.model} (${tag.dimensions})`)
+            .join(", ");
+        elizaLogger.warn(
+            `${this.character.name} - ${report.mismatched} of ${report.sampled} sampled vectors were embedded with ${stored}, not ${report.current.provider}/${report.current.model} (${report.current.dimensions})`
+        );
+
+        const migration = this.character.settings?.embeddingMigration;
+        if (!migration?.autoReembed) {
+            elizaLogger.warn(
+                `${this.character.name} - Similarity search will be unreliable until the memories are re-embedded with reembedMemories()`
+            );
+            return;
+        }
+        reembedMemories(this, { batchSize: migration.batchSize }).catch(
+            (error) =>
+                elizaLogger.error(
+                    `${this.character.name} - Re-embedding failed:`,
+                    error
+                )
+        );
+    }
+
     async stop() {
         elizaLogger.debug("runtime::stop - character", this.character.name);
         // stop services, they don't have a stop function
@@ -582,8 +741,11 @@ export class AgentRuntime implements IAgentRuntime {
             );
             c.stop();
         }
+        this.knowledgeSync.stop();
+        this.memoryConsolidator.stop();
+        this.retentionJanitor.stop();
+        this.approvalQueue.stop();
         // we don't need to unregister with directClient
-        // don't need to worry about knowledge
     }
 
     /**
@@ -654,120 +816,20 @@ export class AgentRuntime implements IAgentRuntime {
                     .pop()
                     ?.toLowerCase();
 
-                // Check if it's a file or direct knowledge
+                // Check if it's a file or direct knowledge, code files are
+                // rejected by the sync unless code ingestion is enabled
                 if (
                     fileExtension &&
-                    ["md", "txt", "pdf"].includes(fileExtension)
+                    getKnowledgeFileTypes({ includeCode: true }).includes(
+                        fileExtension,
+                    )
                 ) {
-                    try {
-                        const filePath = join(this.knowledgeRoot, contentItem);
-                        // Get existing knowledge first with more detailed logging
-                        elizaLogger.debug("[RAG Query]", {
-                            knowledgeId,
-                            agentId: this.agentId,
-                            relativePath: contentItem,
-                            fullPath: filePath,
-                            isShared,
-                            knowledgeRoot: this.knowledgeRoot,
-                        });
-
-                        // Get existing knowledge first
-                        const existingKnowledge =
-                            await this.ragKnowledgeManager.getKnowledge({
-                                id: knowledgeId,
-                                agentId: this.agentId, // Keep agentId as it's used in OR query
-                            });
-
-                        elizaLogger.debug("[RAG Query Result]", {
-                            relativePath: contentItem,
-                            fullPath: filePath,
-                            knowledgeId,
-                            isShared,
-                            exists: existingKnowledge.length > 0,
-                            knowledgeCount: existingKnowledge.length,
-                            firstResult: existingKnowledge[0]
-                                ? {
-                                      id: existingKnowledge[0].id,
-                                      agentId: existingKnowledge[0].agentId,
-                                      contentLength:
-                                          existingKnowledge[0].content.text
-                                              .length,
-                                  }
-                                : null,
-                            results: existingKnowledge.map((k) => ({
-                                id: k.id,
-                                agentId: k.agentId,
-                                isBaseKnowledge: !k.id.includes("chunk"),
-                            })),
-                        });
-
-                        // Read file content
-                        const content: string = await readFile(
-                            filePath,
-                            "utf8",
-                        );
-                        if (!content) {
-                            hasError = true;
-                            continue;
-                        }
-
-                        if (existingKnowledge.length > 0) {
-                            const existingContent =
-                                existingKnowledge[0].content.text;
-
-                            elizaLogger.debug("[RAG Compare]", {
-                                path: contentItem,
-                                knowledgeId,
-                                isShared,
-                                existingContentLength: existingContent.length,
-                                newContentLength: content.length,
-                                contentSample: content.slice(0, 100),
-                                existingContentSample: existingContent.slice(
-                                    0,
-                                    100,
-                                ),
-                                matches: existingContent === content,
-                            });
-
-                            if (existingContent === content) {
-                                elizaLogger.info(
-                                    `${isShared ? "Shared knowledge" : "Knowledge"} ${contentItem} unchanged, skipping`,
-                                );
-                                continue;
-                            }
-
-                            // Content changed, remove old knowledge before adding new
-                            elizaLogger.info(
-                                `${isShared ? "Shared knowledge" : "Knowledge"} ${contentItem} changed, updating...`,
-                            );
-                            await this.ragKnowledgeManager.removeKnowledge(
-                                knowledgeId,
-                            );
-                            await this.ragKnowledgeManager.removeKnowledge(
-                                `${knowledgeId}-chunk-*` as UUID,
-                            );
-                        }
-
-                        elizaLogger.info(
-                            `Processing ${fileExtension.toUpperCase()} file content for`,
-                            this.character.name,
-                            "-",
-                            contentItem,
-                        );
-
-                        await this.ragKnowledgeManager.processFile({
-                            path: contentItem,
-                            content: content,
-                            type: fileExtension as "pdf" | "md" | "txt",
-                            isShared: isShared,
-                        });
-                    } catch (error: any) {
+                    const result = await this.knowledgeSync.syncFile(
+                        contentItem,
+                        isShared,
+                    );
+                    if (result.status === "failed") {
                         hasError = true;
-                        elizaLogger.error(
-                            `Failed to read knowledge file ${contentItem}. Error details:`,
-                            error?.message || error || "Unknown error",
-                        );
-                        continue;
                     }
                 } else {
                     // Handle direct knowledge string
@@ -847,66 +909,26 @@ export class AgentRuntime implements IAgentRuntime {
             }
 
             elizaLogger.debug(`[RAG Directory] Searching in: ${dirPath}`);
-            // Use glob to find all matching files in directory
-            const files = await glob("**/*.{md,txt,pdf}", {
-                cwd: dirPath,
-                nodir: true,
-                absolute: false,
-            });
+            const results = await this.knowledgeSync.syncDirectory(
+                sanitizedDir,
+                dirConfig.shared,
+            );
 
-            if (files.length === 0) {
+            if (results.length === 0) {
                 elizaLogger.warn(
                     `No matching files found in directory: ${dirConfig.directory}`,
                 );
                 return;
             }
 
-            elizaLogger.info(
-                `[RAG Directory] Found ${files.length} files in ${dirConfig.directory}`,
+            const failed = results.filter(
+                (result) => result.change === "failed",
             );
-
-            // Process files in batches to avoid memory issues
-            const BATCH_SIZE = 5;
-            for (let i = 0; i < files.length; i += BATCH_SIZE) {
-                const batch = files.slice(i, i + BATCH_SIZE);
-
-                await Promise.all(
-                    batch.map(async (file) => {
-                        try {
-                            const relativePath = join(sanitizedDir, file);
-
-                            elizaLogger.debug(
-                                `[RAG Directory] Processing file ${i + 1}/${files.length}:`,
-                                {
-                                    file,
-                                    relativePath,
-                                    shared: dirConfig.shared,
-                                },
-                            );
-
-                            await this.processCharacterRAGKnowledge([
-                                {
-                                    path: relativePath,
-                                    shared: dirConfig.shared,
-                                },
-                            ]);
-                        } catch (error) {
-                            elizaLogger.error(
-                                `[RAG Directory] Failed to process file: ${file}`,
-                                error instanceof Error
-                                    ? {
-                                          name: error.name,
-                                          message: error.message,
-                                          stack: error.stack,
-                                      }
-                                    : error,
-                            );
-                        }
-                    }),
-                );
-
-                elizaLogger.debug(
-                    `[RAG Directory] Completed batch ${Math.min(i + BATCH_SIZE, files.length)}/${files.length} files`,
+            if (failed.length > 0) {
+                elizaLogger.warn(
+                    `[RAG Directory] ${failed.length} files failed to process: ${failed
+                        .map((result) => result.path)
+                        .join(", ")}`,
                 );
             }
 
@@ -981,156 +1003,410 @@ export class AgentRuntime implements IAgentRuntime {
 
     /**
      * Process the actions of a message.
+     * Each response may request a single action or an ordered chain of actions. Every requested
+     * action (a name or a structured `{ name, params }` call) is resolved with `resolveAction`
+     * and run in order; the results of earlier steps are passed to later steps through
+     * `state.actionResults`. Chains are capped by `settings.actionChain.maxLength` and, unless
+     * `abortOnFailure` is disabled, the remaining steps are skipped once a step fails. Actions
+     * that need approval are queued in the approval queue instead of running, which also skips
+     * the remaining steps.
      * @param message The message to process.
-     * @param content The content of the message to process actions from.
+     * @param responses The responses whose actions should be run.
+     * @param state The current state, passed to the action handlers.
+     * @param callback The handler callback.
+     * @returns One result per requested action, in order.
      */
     async processActions(
         message: Memory,
         responses: Memory[],
         state?: State,
         callback?: HandlerCallback,
-    ): Promise<void> {
+    ): Promise<ActionStepResult[]> {
+        const {
+            maxLength = DEFAULT_MAX_ACTION_CHAIN_LENGTH,
+            abortOnFailure = true,
+        } = this.character.settings?.actionChain ?? {};
+        const results: ActionStepResult[] = [];
+
         for (const response of responses) {
-            if (!response.content?.action) {
+            const calls = getActionCalls(response.content);
+            if (calls.length === 0) {
                 elizaLogger.warn("No action found in the response content.");
                 continue;
             }
 
-            const normalizedAction = response.content.action
-                .toLowerCase()
-                .replace("_", "");
-
-            elizaLogger.success(`Normalized action: ${normalizedAction}`);
-
-            let action = this.actions.find(
-                (a: { name: string }) =>
-                    a.name
-                        .toLowerCase()
-                        .replace("_", "")
-                        .includes(normalizedAction) ||
-                    normalizedAction.includes(
-                        a.name.toLowerCase().replace("_", ""),
-                    ),
-            );
+            if (calls.length > maxLength) {
+                elizaLogger.warn(
+                    `Action chain has ${calls.length} steps, only the first ${maxLength} will run.`,
+                );
+            }
 
-            if (!action) {
-                elizaLogger.info("Attempting to find action in similes.");
-                for (const _action of this.actions) {
-                    const simileAction = _action.similes.find(
-                        (simile) =>
-                            simile
-                                .toLowerCase()
-                                .replace("_", "")
-                                .includes(normalizedAction) ||
-                            normalizedAction.includes(
-                                simile.toLowerCase().replace("_", ""),
-                            ),
-                    );
-                    if (simileAction) {
-                        action = _action;
-                        elizaLogger.success(
-                            `Action found in similes: ${action.name}`,
+            // later steps read earlier results from the state, so make sure there is one
+            if (calls.length > 1 && !state) {
+                state = await this.composeState(message);
+            }
+
+            const chainResults: ActionStepResult[] = [];
+            let aborted = false;
+
+            for (const [step, call] of calls.entries()) {
+                const resolution = resolveAction(
+                    this.actions,
+                    call,
+                    this.character.settings?.actionResolution,
+                );
+
+                if (aborted || step >= maxLength) {
+                    chainResults.push({
+                        step,
+                        resolution,
+                        status: ActionStepStatus.SKIPPED,
+                    });
+                    continue;
+                }
+
+                const stepResult = await this.runActionStep(
+                    step,
+                    resolution,
+                    message,
+                    state && { ...state, actionResults: [...chainResults] },
+                    callback,
+                );
+                chainResults.push(stepResult);
+
+                if (stepResult.status === ActionStepStatus.PENDING_APPROVAL) {
+                    aborted = true;
+                    if (step < calls.length - 1) {
+                        elizaLogger.warn(
+                            `Skipping the rest of the action chain while step ${step + 1} waits for approval.`,
+                        );
+                    }
+                } else if (
+                    stepResult.status === ActionStepStatus.FAILED &&
+                    abortOnFailure
+                ) {
+                    aborted = true;
+                    if (step < calls.length - 1) {
+                        elizaLogger.warn(
+                            `Aborting action chain after step ${step + 1} failed.`,
                         );
-                        break;
                     }
                 }
             }
 
-            if (!action) {
-                elizaLogger.error(
-                    "No action found for",
-                    response.content.action,
+            results.push(...chainResults);
+        }
+
+        return results;
+    }
+
+    /**
+     * Runs the handler of a single resolved action.
+     * A handler that throws or returns `false` fails the step.
+     */
+    private async runActionStep(
+        step: number,
+        resolution: ActionResolution,
+        message: Memory,
+        state: State | undefined,
+        callback?: HandlerCallback,
+    ): Promise<ActionStepResult> {
+        const fail = (error: string, result?: unknown): ActionStepResult => {
+            elizaLogger.error(error);
+            return {
+                step,
+                resolution,
+                status: ActionStepStatus.FAILED,
+                result,
+                error,
+            };
+        };
+
+        switch (resolution.status) {
+            case ActionResolutionStatus.NOT_FOUND:
+                return fail(
+                    `No action found for ${resolution.requested}, closest candidates: ${resolution.candidates
+                        .map(
+                            (candidate) =>
+                                `${candidate.name} (${candidate.score.toFixed(2)})`,
+                        )
+                        .join(", ")}`,
                 );
-                continue;
-            }
+            case ActionResolutionStatus.AMBIGUOUS:
+                return fail(
+                    `Action ${resolution.requested} is ambiguous, matching: ${resolution.candidates
+                        .map((candidate) => candidate.name)
+                        .join(", ")}`,
+                );
+            case ActionResolutionStatus.INVALID_PARAMS:
+                return fail(
+                    `Invalid params for action ${resolution.action.name}: ${resolution.errors.join("; ")}`,
+                );
+        }
 
-            if (!action.handler) {
-                elizaLogger.error(`Action ${action.name} has no handler.`);
-                continue;
-            }
+        const action = resolution.action;
+        elizaLogger.success(
+            `Resolved action ${resolution.requested} to ${action.name} (${resolution.matchType}, score ${resolution.score.toFixed(2)})`,
+        );
+
+        if (!action.handler) {
+            return fail(`Action ${action.name} has no handler.`);
+        }
 
+        if (
+            action.requiresApproval ||
+            this.character.settings?.approval?.actions?.includes(action.name)
+        ) {
             try {
+                const request = await this.approvalQueue.request({
+                    kind: ACTION_APPROVAL_KIND,
+                    title: `Run ${action.name}`,
+                    content: { text: message.content.text, action: action.name },
+                    payload: {
+                        action: action.name,
+                        params: resolution.params,
+                        // embeddings are recomputed if needed, no need to store them
+                        message: { ...message, embedding: undefined },
+                    },
+                });
+                if (callback) {
+                    this.approvalCallbacks.set(request.id, callback);
+                }
                 elizaLogger.info(
-                    `Executing handler for action: ${action.name}`,
+                    `Action ${action.name} is waiting for approval request ${request.id}`,
                 );
-                await action.handler(this, message, state, {}, callback);
+                return {
+                    step,
+                    resolution,
+                    status: ActionStepStatus.PENDING_APPROVAL,
+                    result: { approvalRequestId: request.id },
+                };
             } catch (error) {
-                elizaLogger.error(error);
+                return fail(
+                    `Failed to queue action ${action.name} for approval: ${getErrorMessage(error)}`,
+                );
+            }
+        }
+
+        try {
+            elizaLogger.info(`Executing handler for action: ${action.name}`);
+            const result = await action.handler(
+                this,
+                message,
+                state,
+                resolution.params ? { params: resolution.params } : {},
+                callback,
+            );
+
+            if (result === false) {
+                return fail(`Action ${action.name} reported failure.`, result);
             }
+
+            return { step, resolution, status: ActionStepStatus.SUCCEEDED, result };
+        } catch (error) {
+            elizaLogger.error(error);
+            return {
+                step,
+                resolution,
+                status: ActionStepStatus.FAILED,
+                error: getErrorMessage(error),
+            };
+        }
+    }
+
+    /**
+     * Runs an action once its approval request was approved, with a state composed at that
+     * time. The callback of the original message is only known until the agent restarts.
+     */
+    private async runApprovedAction(request: ApprovalRequest): Promise<void> {
+        const { action: name, params, message } = request.payload as {
+            action: string;
+            params?: Record<string, unknown>;
+            message: Memory;
+        };
+        const action = this.actions.find((action) => action.name === name);
+        if (!action) {
+            throw new Error(`Action ${name} is not registered.`);
+        }
+
+        elizaLogger.info(`Executing approved handler for action: ${name}`);
+        const state = await this.composeState(message);
+        const result = await action.handler(
+            this,
+            message,
+            state,
+            params ? { params } : {},
+            this.approvalCallbacks.get(request.id),
+        );
+        if (result === false) {
+            throw new Error(`Action ${name} reported failure.`);
         }
     }
 
     /**
      * Evaluate the message and state using the registered evaluators.
+     * Every registered evaluator gets an entry in the returned report. Validated evaluators are
+     * selected by asking the SMALL model, or all of them run when `settings.evaluation.selection`
+     * is `"all"`. The report is persisted through `databaseAdapter.log` with type `"evaluation"`.
      * @param message The message to evaluate.
      * @param state The state of the agent.
-     * @param didRespond Whether the agent responded to the message.~
+     * @param didRespond Whether the agent responded to the message.
      * @param callback The handler callback
-     * @returns The results of the evaluation.
+     * @returns The evaluation report.
      */
     async evaluate(
         message: Memory,
         state: State,
         didRespond?: boolean,
         callback?: HandlerCallback,
-    ) {
-        const evaluatorPromises = this.evaluators.map(
-            async (evaluator: Evaluator) => {
-                elizaLogger.log("Evaluating", evaluator.name);
-                if (!evaluator.handler) {
-                    return null;
-                }
-                if (!didRespond && !evaluator.alwaysRun) {
-                    return null;
-                }
-                const result = await evaluator.validate(this, message, state);
-                if (result) {
-                    return evaluator;
-                }
-                return null;
-            },
+    ): Promise<EvaluationReport> {
+        const selection: EvaluatorSelectionMode =
+            this.character.settings?.evaluation?.selection ?? "model";
+
+        const entries = await Promise.all(
+            this.evaluators.map(
+                async (evaluator: Evaluator): Promise<EvaluatorReport> => {
+                    elizaLogger.log("Evaluating", evaluator.name);
+                    const entry: EvaluatorReport = {
+                        name: evaluator.name,
+                        validated: false,
+                        selected: false,
+                        status: EvaluatorStatus.SKIPPED,
+                    };
+                    if (!evaluator.handler) {
+                        return { ...entry, reason: "Evaluator has no handler" };
+                    }
+                    if (!didRespond && !evaluator.alwaysRun) {
+                        return {
+                            ...entry,
+                            reason: "Agent did not respond and the evaluator does not always run",
+                        };
+                    }
+                    try {
+                        const isValid = await evaluator.validate(
+                            this,
+                            message,
+                            state,
+                        );
+                        return isValid
+                            ? { ...entry, validated: true }
+                            : { ...entry, reason: "Validation returned false" };
+                    } catch (error) {
+                        elizaLogger.error(
+                            `Validation of evaluator ${evaluator.name} failed:`,
+                            error,
+                        );
+                        return {
+                            ...entry,
+                            status: EvaluatorStatus.FAILED,
+                            error: getErrorMessage(error),
+                        };
+                    }
+                },
+            ),
         );
 
-        const resolvedEvaluators = await Promise.all(evaluatorPromises);
-        const evaluatorsData = resolvedEvaluators.filter(
-            (evaluator): evaluator is Evaluator => evaluator !== null,
+        const report: EvaluationReport = {
+            selection,
+            evaluators: entries,
+            unmatchedSelections: [],
+        };
+
+        const evaluatorsData = this.evaluators.filter(
+            (_evaluator, index) => entries[index].validated,
         );
 
-        // if there are no evaluators this frame, return
-        if (!evaluatorsData || evaluatorsData.length === 0) {
-            return [];
-        }
+        if (evaluatorsData.length > 0) {
+            let selected = evaluatorsData;
+
+            if (selection === "model") {
+                try {
+                    const context = composeContext({
+                        state: {
+                            ...state,
+                            evaluators: formatEvaluators(evaluatorsData),
+                            evaluatorNames:
+                                formatEvaluatorNames(evaluatorsData),
+                        },
+                        template:
+                            this.character.templates?.evaluationTemplate ||
+                            evaluationTemplate,
+                    });
 
-        const context = composeContext({
-            state: {
-                ...state,
-                evaluators: formatEvaluators(evaluatorsData),
-                evaluatorNames: formatEvaluatorNames(evaluatorsData),
-            },
-            template:
-                this.character.templates?.evaluationTemplate ||
-                evaluationTemplate,
-        });
+                    const result = await generateText({
+                        runtime: this,
+                        context,
+                        modelClass: ModelClass.SMALL,
+                        verifiableInferenceAdapter:
+                            this.verifiableInferenceAdapter,
+                        usageTags: {
+                            roomId: message.roomId,
+                            caller: "evaluate",
+                        },
+                    });
 
-        const result = await generateText({
-            runtime: this,
-            context,
-            modelClass: ModelClass.SMALL,
-            verifiableInferenceAdapter: this.verifiableInferenceAdapter,
-        });
+                    const { matched, unmatched } = matchEvaluatorNames(
+                        evaluatorsData,
+                        parseJsonArrayFromText(result) ?? [],
+                    );
+                    selected = matched;
+                    report.unmatchedSelections = unmatched;
 
-        const evaluators = parseJsonArrayFromText(
-            result,
-        ) as unknown as string[];
+                    if (unmatched.length > 0) {
+                        elizaLogger.warn(
+                            `Model selected unknown evaluators: ${unmatched.join(", ")}`,
+                        );
+                    }
+                } catch (error) {
+                    elizaLogger.error("Error selecting evaluators:", error);
+                    selected = [];
+                    report.selectionError = getErrorMessage(error);
+                }
+            }
 
-        for (const evaluator of this.evaluators) {
-            if (!evaluators?.includes(evaluator.name)) continue;
+            for (const evaluator of evaluatorsData) {
+                const entry = entries[this.evaluators.indexOf(evaluator)];
 
-            if (evaluator.handler)
-                await evaluator.handler(this, message, state, {}, callback);
+                if (!selected.includes(evaluator)) {
+                    entry.reason = report.selectionError
+                        ? "Evaluator selection failed"
+                        : "Not selected by the model";
+                    continue;
+                }
+
+                entry.selected = true;
+                try {
+                    entry.output = await evaluator.handler(
+                        this,
+                        message,
+                        state,
+                        {},
+                        callback,
+                    );
+                    entry.status = EvaluatorStatus.SUCCEEDED;
+                } catch (error) {
+                    elizaLogger.error(
+                        `Evaluator ${evaluator.name} failed:`,
+                        error,
+                    );
+                    entry.status = EvaluatorStatus.FAILED;
+                    entry.error = getErrorMessage(error);
+                }
+            }
+        }
+
+        try {
+            await this.databaseAdapter.log({
+                body: { messageId: message.id, ...report },
+                userId: message.userId,
+                roomId: message.roomId,
+                type: "evaluation",
+            });
+        } catch (error) {
+            elizaLogger.error("Failed to log evaluation report:", error);
         }
 
-        return evaluators;
+        return report;
     }
 
     /**
@@ -1248,10 +1524,11 @@ export class AgentRuntime implements IAgentRuntime {
 
         const conversationLength = this.getConversationLength();
 
-        const [actorsData, recentMessagesData, goalsData]: [
+        const [actorsData, recentMessagesData, goalsData, summaryData]: [
             Actor[],
             Memory[],
             Goal[],
+            Memory | null,
         ] = await Promise.all([
             getActorDetails({ runtime: this, roomId }),
             this.messageManager.getMemories({
@@ -1265,6 +1542,7 @@ export class AgentRuntime implements IAgentRuntime {
                 onlyInProgress: false,
                 roomId,
             }),
+            this.memoryConsolidator.getConversationSummary(roomId),
         ]);
 
         const goals = formatGoalsAsString({ goals: goalsData });
@@ -1282,6 +1560,8 @@ export class AgentRuntime implements IAgentRuntime {
             conversationHeader: false,
         });
 
+        const conversationSummary = formatConversationSummary(summaryData);
+
         // const lore = formatLore(loreData);
 
         const senderName = actorsData?.find(
@@ -1458,7 +1738,6 @@ Text: ${attachment.text}
         }
 
         let knowledgeData = [];
-        let formattedKnowledge = "";
 
         if (this.character.settings?.ragKnowledge) {
             const recentContext = recentMessagesData
@@ -1473,14 +1752,21 @@ Text: ${attachment.text}
                 conversationContext: recentContext,
                 limit: 8,
             });
-
-            formattedKnowledge = formatKnowledge(knowledgeData);
         } else {
             knowledgeData = await knowledge.get(this, message);
-
-            formattedKnowledge = formatKnowledge(knowledgeData);
         }
 
+        // cite entries by key so the sources of the response can be recorded,
+        // opt-in as the keys are only resolved by clients calling resolveCitations
+        const citeKnowledge =
+            this.character.settings?.knowledgeCitations === true;
+        const knowledgeCitations = citeKnowledge
+            ? getKnowledgeCitations(knowledgeData)
+            : [];
+        const formattedKnowledge = citeKnowledge
+            ? formatKnowledgeWithCitations(knowledgeData)
+            : formatKnowledge(knowledgeData);
+
         const initialState = {
             agentId: this.agentId,
             agentName,
@@ -1498,6 +1784,7 @@ Text: ${attachment.text}
             knowledge: formattedKnowledge,
             knowledgeData: knowledgeData,
             ragKnowledgeData: knowledgeData,
+            knowledgeCitations,
             // Recent interactions between the sender and receiver, formatted as messages
             recentMessageInteractions: formattedMessageInteractions,
             // Recent interactions between the sender and receiver, formatted as posts
@@ -1610,6 +1897,7 @@ Text: ${attachment.text}
                       )
                     : "",
             goalsData,
+            conversationSummary,
             recentMessages:
                 recentMessages && recentMessages.length > 0
                     ? addHeader("# Conversation Messages", recentMessages)
@@ -1694,7 +1982,35 @@ Text: ${attachment.text}
             ),
         };
 
-        return { ...initialState, ...actionState } as State;
+        const state = { ...initialState, ...actionState } as State;
+
+        const budget = getStateTokenBudget(this);
+        if (!budget) {
+            return state;
+        }
+
+        const budgetedState = applyStateBudget(
+            state,
+            budget,
+            {
+                ...defaultStateSectionBudgets,
+                ...this.character.settings?.stateBudget?.sections,
+            },
+            this,
+        );
+
+        if (budgetedState.truncatedSections.length > 0) {
+            elizaLogger.debug(
+                `State truncated to fit ${budget} tokens: ${budgetedState.truncatedSections
+                    .map(
+                        ({ key, originalTokens, tokens }) =>
+                            `${key} (${originalTokens} -> ${tokens})`,
+                    )
+                    .join(", ")}`,
+            );
+        }
+
+        return budgetedState;
     }
 
     async updateRecentMessageState(state: State): Promise<State> {
@@ -1771,6 +2087,19 @@ Text: ${attachment.text}
     }
 }
 
+/**
+ * Formats the rolling summary of the messages before the recent ones, empty without a summary.
+ */
+const formatConversationSummary = (summary: Memory | null) => {
+    const text = summary?.content.conversationSoFar as string | undefined;
+    if (!text) {
+        return "";
+    }
+    const range = getSummaryRange(summary);
+    const until = range ? ` (until ${new Date(range.end).toISOString()})` : "";
+    return addHeader(`# Conversation So Far${until}`, text);
+};
+
 const formatKnowledge = (knowledge: KnowledgeItem[]) => {
     // Group related content in a more natural way
     return knowledge.map(item => {
@@ -1785,3 +2114,6 @@ const formatKnowledge = (knowledge: KnowledgeItem[]) => {
         return cleanedText;
     }).join('\n\n'); // Separate distinct pieces with double newlines
 };
+
+const getErrorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
@@ -0,0 +1,221 @@
+import { encodingForModel, type Tiktoken, type TiktokenModel } from "js-tiktoken";
+import { getModelSettings } from "./models.ts";
+import {
+    type IAgentRuntime,
+    ModelClass,
+    type State,
+    type StateBudgetOptions,
+    type StateSectionBudget,
+    type StateSectionTruncation,
+    TokenizerType,
+} from "./types.ts";
+
+/**
+ * Share of the model's `maxInputTokens` that composed state sections may use by default.
+ * The rest is left for the template text around them.
+ */
+const DEFAULT_BUDGET_RATIO = 0.8;
+
+/**
+ * Default budgets for the formatted sections of a composed state.
+ * Sections with a lower priority are shrunk first, so lore and examples give way long before
+ * the recent conversation does.
+ */
+export const defaultStateSectionBudgets: Record<string, StateSectionBudget> = {
+    recentMessages: { priority: 100, minShare: 0.25, keep: "end" },
+    recentPosts: { priority: 95, minShare: 0.1, keep: "end" },
+    bio: { priority: 90 },
+    messageDirections: { priority: 90 },
+    postDirections: { priority: 90 },
+    conversationSummary: { priority: 85 },
+    actors: { priority: 85 },
+    goals: { priority: 80 },
+    attachments: { priority: 75, keep: "end" },
+    knowledge: { priority: 70 },
+    actions: { priority: 65 },
+    providers: { priority: 60 },
+    recentMessageInteractions: { priority: 50, keep: "end" },
+    recentPostInteractions: { priority: 50, keep: "end" },
+    topics: { priority: 30 },
+    actionExamples: { priority: 20, maxShare: 0.1 },
+    characterMessageExamples: { priority: 20, maxShare: 0.1 },
+    characterPostExamples: { priority: 15, maxShare: 0.1 },
+    lore: { priority: 10, maxShare: 0.05 },
+};
+
+const encoders = new Map<string, Tiktoken>();
+
+function getEncoder(runtime?: IAgentRuntime): Tiktoken {
+    const tokenizerType = runtime?.getSetting("TOKENIZER_TYPE");
+    const tokenizerModel = runtime?.getSetting("TOKENIZER_MODEL");
+    // Auto tokenizers are loaded from the hub; budgets only need an estimate, so use TikToken
+    const model = (
+        tokenizerType === TokenizerType.TikToken && tokenizerModel
+            ? tokenizerModel
+            : "gpt-4o"
+    ) as TiktokenModel;
+
+    if (!encoders.has(model)) {
+        encoders.set(model, encodingForModel(model));
+    }
+    return encoders.get(model);
+}
+
+/**
+ * Counts the tokens of a text with the runtime's TikToken tokenizer (gpt-4o by default).
+ * @param text - The text to count.
+ * @param runtime - Optional runtime providing TOKENIZER_TYPE and TOKENIZER_MODEL settings.
+ * @returns The number of tokens.
+ */
+export function countTokens(text: string, runtime?: IAgentRuntime): number {
+    return text ? getEncoder(runtime).encode(text).length : 0;
+}
+
+/**
+ * Truncates a section to a number of tokens, keeping its start or its end.
+ * A leading markdown header line is preserved, and the cut is moved to a line boundary when possible.
+ */
+function truncateSection(
+    text: string,
+    maxTokens: number,
+    keep: "start" | "end",
+    encoder: Tiktoken
+): string {
+    if (maxTokens <= 0) {
+        return "";
+    }
+
+    const headerMatch = text.match(/^#[^\n]*\n/);
+    const header = headerMatch ? headerMatch[0] : "";
+    const body = text.slice(header.length);
+    const bodyTokens = encoder.encode(body);
+    const available = maxTokens - encoder.encode(header).length;
+
+    if (available <= 0) {
+        return "";
+    }
+    if (bodyTokens.length <= available) {
+        return text;
+    }
+
+    let truncated =
+        keep === "end"
+            ? encoder.decode(bodyTokens.slice(-available))
+            : encoder.decode(bodyTokens.slice(0, available));
+
+    const lines = truncated.split("\n");
+    if (lines.length > 1) {
+        truncated =
+            keep === "end"
+                ? lines.slice(1).join("\n")
+                : lines.slice(0, -1).join("\n");
+    }
+
+    return truncated.trim() ? header + truncated : "";
+}
+
+/**
+ * Resolves the total token budget for composed state sections.
+ * Uses `settings.stateBudget.maxTokens` when set, otherwise a share of the `maxInputTokens`
+ * of the configured model class (from `settings.modelConfig` or `models.ts`).
+ * @param runtime - The agent runtime.
+ * @returns The token budget, or undefined when budgeting is disabled or unknown.
+ */
+export function getStateTokenBudget(runtime: IAgentRuntime): number | undefined {
+    const options: StateBudgetOptions =
+        runtime.character.settings?.stateBudget ?? {};
+    if (options.enabled === false) {
+        return undefined;
+    }
+    if (options.maxTokens) {
+        return options.maxTokens;
+    }
+
+    const maxInputTokens =
+        runtime.character.settings?.modelConfig?.maxInputTokens ??
+        getModelSettings(
+            runtime.modelProvider,
+            options.modelClass ?? ModelClass.LARGE
+        )?.maxInputTokens;
+
+    return maxInputTokens
+        ? Math.floor(maxInputTokens * (options.ratio ?? DEFAULT_BUDGET_RATIO))
+        : undefined;
+}
+
+/**
+ * Fits the formatted sections of a state into a token budget.
+ *
+ * Each section listed in `sections` is first capped at its `maxShare` of the budget. If the
+ * sections still exceed the budget, they are shrunk in ascending priority order, each down to
+ * its `minShare` of the budget, until the total fits. Sections not listed are left untouched.
+ *
+ * @param state - The composed state.
+ * @param budget - The total token budget for the listed sections.
+ * @param sections - Budgets per state key (defaults to `defaultStateSectionBudgets`).
+ * @param runtime - Optional runtime used to pick the tokenizer.
+ * @returns The budgeted state, with the truncated sections recorded in `truncatedSections`.
+ */
+export function applyStateBudget(
+    state: State,
+    budget: number,
+    sections: Record<string, StateSectionBudget> = defaultStateSectionBudgets,
+    runtime?: IAgentRuntime
+): State {
+    const encoder = getEncoder(runtime);
+    const entries = Object.entries(sections)
+        .filter(([key]) => typeof state[key] === "string" && state[key])
+        .map(([key, section]) => {
+            const text = state[key] as string;
+            const originalTokens = encoder.encode(text).length;
+            return { key, section, text, originalTokens, tokens: originalTokens };
+        });
+
+    const shrink = (entry: (typeof entries)[number], maxTokens: number) => {
+        if (entry.tokens <= maxTokens) return;
+        entry.text = truncateSection(
+            entry.text,
+            maxTokens,
+            entry.section.keep ?? "start",
+            encoder
+        );
+        entry.tokens = encoder.encode(entry.text).length;
+    };
+
+    for (const entry of entries) {
+        if (entry.section.maxShare !== undefined) {
+            shrink(entry, Math.floor(budget * entry.section.maxShare));
+        }
+    }
+
+    const byPriority = [...entries].sort(
+        (a, b) => a.section.priority - b.section.priority
+    );
+    let total = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+
+    for (const entry of byPriority) {
+        if (total <= budget) break;
+        const floor = Math.floor(budget * (entry.section.minShare ?? 0));
+        const before = entry.tokens;
+        shrink(entry, Math.max(floor, entry.tokens - (total - budget)));
+        total -= before - entry.tokens;
+    }
+
+    const truncatedSections: StateSectionTruncation[] = entries
+        .filter((entry) => entry.tokens < entry.originalTokens)
+        .map(({ key, originalTokens, tokens }) => ({
+            key,
+            originalTokens,
+            tokens,
+        }));
+
+    return {
+        ...state,
+        ...Object.fromEntries(
+            entries
+                .filter((entry) => entry.tokens < entry.originalTokens)
+                .map((entry) => [entry.key, entry.text])
+        ),
+        truncatedSections,
+    };
+}
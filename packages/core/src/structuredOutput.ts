@@ -0,0 +1,156 @@
+import type { ZodIssue } from "zod";
+import { normalizeJsonString } from "./parsing.ts";
+import {
+    ModelProviderName,
+    type StructuredOutputAttempt,
+} from "./types.ts";
+
+/** Providers whose `generateObject` handler uses the SDK's native JSON/tool modes */
+const NATIVE_STRUCTURED_OUTPUT_PROVIDERS: ModelProviderName[] = [
+    ModelProviderName.OPENAI,
+    ModelProviderName.ETERNALAI,
+    ModelProviderName.ALI_BAILIAN,
+    ModelProviderName.VOLENGINE,
+    ModelProviderName.LLAMACLOUD,
+    ModelProviderName.TOGETHER,
+    ModelProviderName.NANOGPT,
+    ModelProviderName.AKASH_CHAT_API,
+    ModelProviderName.LMSTUDIO,
+    ModelProviderName.ANTHROPIC,
+    ModelProviderName.CLAUDE_VERTEX,
+    ModelProviderName.GROK,
+    ModelProviderName.GROQ,
+    ModelProviderName.GOOGLE,
+    ModelProviderName.MISTRAL,
+    ModelProviderName.REDPILL,
+    ModelProviderName.OPENROUTER,
+    ModelProviderName.OLLAMA,
+    ModelProviderName.DEEPSEEK,
+    ModelProviderName.LIVEPEER,
+];
+
+/**
+ * Base class of the errors thrown by `generateStructuredObject`.
+ */
+export class StructuredOutputError extends Error {
+    /** Every failed attempt, set once the repair attempts are exhausted */
+    attempts: StructuredOutputAttempt[] = [];
+
+    constructor(
+        message: string,
+        readonly output?: string
+    ) {
+        super(message);
+        this.name = "StructuredOutputError";
+    }
+}
+
+/**
+ * Thrown when the model output does not contain valid JSON.
+ */
+export class StructuredOutputParseError extends StructuredOutputError {
+    constructor(message: string, output?: string) {
+        super(message, output);
+        this.name = "StructuredOutputParseError";
+    }
+}
+
+/**
+ * Thrown when the model output is valid JSON but does not match the schema.
+ */
+export class StructuredOutputValidationError extends StructuredOutputError {
+    constructor(
+        readonly issues: ZodIssue[],
+        output?: string
+    ) {
+        super(
+            `Output does not match the schema: ${formatValidationIssues(issues)}`,
+            output
+        );
+        this.name = "StructuredOutputValidationError";
+    }
+}
+
+/**
+ * Whether the provider can be asked for schema constrained output directly.
+ */
+export function supportsNativeStructuredOutput(
+    provider: ModelProviderName
+): boolean {
+    return NATIVE_STRUCTURED_OUTPUT_PROVIDERS.includes(provider);
+}
+
+/**
+ * Formats validation issues as a `path: message` list, one issue per entry.
+ */
+export function formatValidationIssues(issues: ZodIssue[]): string {
+    return issues
+        .map(
+            (issue) =>
+                `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`
+        )
+        .join("; ");
+}
+
+/**
+ * Extracts the JSON value of a model response.
+ *
+ * Accepts a fenced code block or bare JSON surrounded by prose. Unlike `parseJSONObjectFromText`
+ * this never falls back to attribute extraction, so malformed output is reported instead of
+ * coming back half parsed.
+ *
+ * @param text - The model response.
+ * @returns The parsed value.
+ * @throws {StructuredOutputParseError} When no valid JSON is found.
+ */
+export function parseStructuredOutput(text: string): unknown {
+    const source = (text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1] ?? text)
+        .trim();
+    const start = source.search(/[{[]/);
+    const end = Math.max(source.lastIndexOf("}"), source.lastIndexOf("]"));
+    if (start === -1 || end < start) {
+        throw new StructuredOutputParseError(
+            "Output does not contain a JSON value",
+            text
+        );
+    }
+
+    const json = source.slice(start, end + 1);
+    try {
+        return JSON.parse(json);
+    } catch (error) {
+        try {
+            return JSON.parse(normalizeJsonString(json));
+        } catch {
+            throw new StructuredOutputParseError(
+                `Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+                text
+            );
+        }
+    }
+}
+
+/**
+ * Instructions appended to the context when the provider has no native structured output.
+ */
+export function getStructuredOutputInstructions(
+    schemaName?: string,
+    schemaDescription?: string
+): string {
+    const target = schemaName ? ` for ${schemaName}` : "";
+    const description = schemaDescription ? `\n${schemaDescription}` : "";
+    return `\n\nRespond only with a single JSON value${target} in a \`\`\`json code block.${description}`;
+}
+
+/**
+ * Builds the context of a repair attempt from the original context and the last error.
+ */
+export function buildRepairContext(
+    context: string,
+    error: StructuredOutputError
+): string {
+    const output = error.output
+        ? `\n\nYour previous response was:\n${error.output}`
+        : "";
+    return `${context}${output}\n\nIt could not be used: ${error.message}\nRespond again with corrected JSON that fixes these errors.`;
+}
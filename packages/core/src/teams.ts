@@ -0,0 +1,508 @@
+import type {
+    Memory,
+    TeamConfig,
+    TeamMessage,
+    TeamTimings,
+    TeamTurnDecision,
+} from "./types.ts";
+
+/** Messages every member of a team answers, e.g. "gm team" */
+export const TEAM_COORDINATION_KEYWORDS = [
+    "team",
+    "all agents",
+    "team update",
+    "gm team",
+    "hello team",
+    "hey team",
+    "hi team",
+    "morning team",
+    "evening team",
+    "night team",
+    "update team",
+];
+
+export const DEFAULT_TEAM_TIMINGS: TeamTimings = {
+    leaderDelayMin: 2000,
+    leaderDelayMax: 4000,
+    memberDelayMin: 1000,
+    memberDelayMax: 3000,
+    handlerTimeout: 5 * 60 * 1000,
+};
+
+/**
+ * Word frequency cosine similarity of two texts. With a third text, each word counts with the
+ * most similar pair of texts it appears in.
+ */
+export function cosineSimilarity(
+    text1: string,
+    text2: string,
+    text3?: string
+): number {
+    const preprocessText = (text: string) =>
+        text
+            .toLowerCase()
+            .replace(/[^\w\s'_-]/g, " ")
+            .replace(/\s+/g, " ")
+            .trim();
+
+    const getWords = (text: string) => {
+        return text.split(" ").filter((word) => word.length > 1);
+    };
+
+    const words1 = getWords(preprocessText(text1));
+    const words2 = getWords(preprocessText(text2));
+    const words3 = text3 ? getWords(preprocessText(text3)) : [];
+
+    const getFrequencies = (words: string[]) => {
+        const freq: { [key: string]: number } = {};
+        for (const word of words) {
+            freq[word] = (freq[word] || 0) + 1;
+        }
+        return freq;
+    };
+
+    const freq1 = getFrequencies(words1);
+    const freq2 = getFrequencies(words2);
+    const freq3 = getFrequencies(words3);
+
+    const uniqueWords = new Set([
+        ...Object.keys(freq1),
+        ...Object.keys(freq2),
+        ...(words3.length ? Object.keys(freq3) : []),
+    ]);
+
+    let dotProduct = 0;
+    let magnitude1 = 0;
+    let magnitude2 = 0;
+    let magnitude3 = 0;
+
+    for (const word of uniqueWords) {
+        const val1 = freq1[word] || 0;
+        const val2 = freq2[word] || 0;
+        const val3 = freq3[word] || 0;
+
+        if (words3.length) {
+            // For three-way, calculate pairwise similarities
+            const sim12 = val1 * val2;
+            const sim23 = val2 * val3;
+            const sim13 = val1 * val3;
+
+            // Take maximum similarity between any pair
+            dotProduct += Math.max(sim12, sim23, sim13);
+        } else {
+            dotProduct += val1 * val2;
+        }
+
+        magnitude1 += val1 * val1;
+        magnitude2 += val2 * val2;
+        if (words3.length) {
+            magnitude3 += val3 * val3;
+        }
+    }
+
+    magnitude1 = Math.sqrt(magnitude1);
+    magnitude2 = Math.sqrt(magnitude2);
+    magnitude3 = words3.length ? Math.sqrt(magnitude3) : 1;
+
+    if (
+        magnitude1 === 0 ||
+        magnitude2 === 0 ||
+        (words3.length && magnitude3 === 0)
+    )
+        return 0;
+
+    // For two texts, use original calculation
+    if (!words3.length) {
+        return dotProduct / (magnitude1 * magnitude2);
+    }
+
+    // For three texts, use max magnitude pair to maintain scale
+    const maxMagnitude = Math.max(
+        magnitude1 * magnitude2,
+        magnitude2 * magnitude3,
+        magnitude1 * magnitude3
+    );
+
+    return dotProduct / maxMagnitude;
+}
+
+/**
+ * Decides which agent of a team answers a message in a shared chat room.
+ *
+ * Every agent of the team runs its own coordinator, configured with the same team, and sees the
+ * same messages; the rules only depend on what all of them see, so the agents agree on whose
+ * turn it is without talking to each other:
+ * - messages addressing an agent directly are answered by that agent;
+ * - team coordination requests ("gm team") are answered by everyone, the leader first;
+ * - messages matching the interests of a member are answered by that member, and left to it by
+ *   the others, even by the agent handling the room;
+ * - once an agent answers in a room it handles the room until another member takes over or
+ *   the room goes quiet;
+ * - the leader picks up the messages nobody handles, unless a member answers first;
+ * - messages of team members are never answered unless they address the agent, so agents do
+ *   not answer each other in a loop.
+ *
+ * Chat clients translate their messages into `TeamMessage`s, report every message of the room
+ * with `observe` and ask `takeTurn` whether to answer.
+ */
+export class TeamCoordinator {
+    readonly selfId: string;
+    private config: TeamConfig;
+    private timings: TeamTimings;
+    private keywords: string[];
+    private followUpThreshold: number;
+    private normalize: (id: string | number) => string;
+    private rooms = new Map<
+        string,
+        { handlerId?: string; lastMessageAt: number; lastTeamReplyAt: number }
+    >();
+
+    constructor(
+        selfId: string | number,
+        config: TeamConfig = {},
+        options: {
+            timings?: Partial<TeamTimings>;
+            coordinationKeywords?: string[];
+            /** Similarity to its last message above which the leader keeps a conversation */
+            followUpThreshold?: number;
+            /** Maps the ids of the chat client to comparable ids, e.g. strips "<@...>" */
+            normalizeId?: (id: string | number) => string;
+        } = {}
+    ) {
+        this.normalize =
+            options.normalizeId ??
+            ((id) =>
+                id
+                    .toString()
+                    .replace(/^<@!?(.*)>$/, "$1")
+                    .trim()
+                    .toLowerCase());
+        this.selfId = this.normalize(selfId);
+        this.config = config;
+        this.timings = { ...DEFAULT_TEAM_TIMINGS, ...options.timings };
+        this.keywords =
+            options.coordinationKeywords ?? TEAM_COORDINATION_KEYWORDS;
+        this.followUpThreshold = options.followUpThreshold ?? 0.3;
+    }
+
+    isEnabled(): boolean {
+        return !!this.config.isPartOfTeam;
+    }
+
+    isTeamMember(userId: string | number): boolean {
+        if (!this.config.isPartOfTeam || !this.config.teamAgentIds) {
+            return false;
+        }
+        const normalizedUserId = this.normalize(userId);
+        return this.config.teamAgentIds.some(
+            (teamId) => this.normalize(teamId) === normalizedUserId
+        );
+    }
+
+    /**
+     * The configured leader, or else the member with the lowest id, so that every member elects
+     * the same leader from the same team.
+     */
+    getLeaderId(): string | undefined {
+        if (!this.config.isPartOfTeam) {
+            return undefined;
+        }
+        if (this.config.teamLeaderId) {
+            return this.normalize(this.config.teamLeaderId);
+        }
+        const members = [
+            ...new Set([
+                ...(this.config.teamAgentIds ?? []).map(this.normalize),
+                this.selfId,
+            ]),
+        ].sort();
+        return members[0];
+    }
+
+    isTeamLeader(): boolean {
+        return this.getLeaderId() === this.selfId;
+    }
+
+    isCoordinationRequest(content: string): boolean {
+        const contentLower = content.toLowerCase();
+        return this.keywords.some((keyword) =>
+            contentLower.includes(keyword.toLowerCase())
+        );
+    }
+
+    /**
+     * Whether a message is for this agent rather than the rest of the team: for the leader, a
+     * follow up of its last message; for the members, a message about their interests.
+     */
+    isRelevantToMember(
+        content: string,
+        lastAgentMemory: Memory | null = null
+    ): boolean {
+        if (this.isTeamLeader() && lastAgentMemory?.content.text) {
+            const timeSinceLastMessage = Date.now() - lastAgentMemory.createdAt;
+            if (timeSinceLastMessage > this.timings.handlerTimeout) {
+                return false; // Memory too old, not relevant
+            }
+
+            const similarity = cosineSimilarity(
+                content.toLowerCase(),
+                lastAgentMemory.content.text.toLowerCase()
+            );
+            return similarity >= this.followUpThreshold;
+        }
+
+        // If no keywords defined, only leader maintains conversation
+        return this.matchesInterests(content);
+    }
+
+    /**
+     * Similarity of a message to the previous message of the conversation and the last message of
+     * the agent, weighted down as the previous message gets older.
+     */
+    analyzeContextSimilarity(
+        currentMessage: string,
+        previousContext?: { content: string; timestamp: number },
+        agentLastMessage?: string
+    ): number {
+        if (!previousContext) return 1; // No previous context to compare against
+
+        const timeDiff = Date.now() - previousContext.timestamp;
+        const timeWeight = Math.max(
+            0,
+            1 - timeDiff / this.timings.handlerTimeout
+        );
+
+        const similarity = cosineSimilarity(
+            currentMessage.toLowerCase(),
+            previousContext.content.toLowerCase(),
+            agentLastMessage?.toLowerCase()
+        );
+        return similarity * timeWeight;
+    }
+
+    /** The member handling a room, if it is still active */
+    getHandler(roomId: string): string | undefined {
+        const room = this.rooms.get(roomId);
+        if (
+            !room?.handlerId ||
+            Date.now() - room.lastMessageAt > this.timings.handlerTimeout
+        ) {
+            return undefined;
+        }
+        return room.handlerId;
+    }
+
+    /** Makes this agent the handler of a room */
+    claim(roomId: string): void {
+        this.room(roomId).handlerId = this.selfId;
+    }
+
+    /** Gives up a room this agent handles */
+    release(roomId: string): void {
+        const room = this.rooms.get(roomId);
+        if (room?.handlerId === this.selfId) {
+            room.handlerId = undefined;
+        }
+    }
+
+    /**
+     * Records a message of a room, including those of this agent and of the other members, which
+     * then handle the room.
+     */
+    observe(message: TeamMessage): void {
+        const room = this.room(message.roomId);
+        const createdAt = message.createdAt ?? Date.now();
+        room.lastMessageAt = Math.max(room.lastMessageAt, createdAt);
+
+        const authorId = this.normalize(message.authorId);
+        if (authorId === this.selfId || this.isTeamMember(authorId)) {
+            room.handlerId = authorId;
+            if (authorId !== this.selfId) {
+                room.lastTeamReplyAt = Math.max(
+                    room.lastTeamReplyAt,
+                    createdAt
+                );
+            }
+        }
+    }
+
+    /**
+     * Applies the turn-taking rules to a message, without waiting.
+     */
+    decideTurn(message: TeamMessage): TeamTurnDecision {
+        const decision = (
+            respond: boolean,
+            reason: string,
+            delayMs = 0,
+            yieldToTeam = false
+        ): TeamTurnDecision => ({ respond, delayMs, yieldToTeam, reason });
+
+        if (!this.isEnabled()) {
+            return decision(true, "not part of a team");
+        }
+
+        const authorId = this.normalize(message.authorId);
+        if (authorId === this.selfId) {
+            return decision(false, "own message");
+        }
+
+        if (this.isForMe(message)) {
+            return decision(true, "addressed directly");
+        }
+        if (this.mentionsOtherMember(message)) {
+            return decision(false, "addressed to another team member");
+        }
+        if (this.isTeamMember(authorId)) {
+            return decision(false, "message of a team member");
+        }
+
+        const isLeader = this.isTeamLeader();
+        if (this.isCoordinationRequest(message.text)) {
+            return isLeader
+                ? decision(true, "team coordination request")
+                : decision(
+                      true,
+                      "team coordination request",
+                      this.delay("member")
+                  );
+        }
+
+        if (!isLeader && this.matchesInterests(message.text)) {
+            return decision(true, "matches interests", this.delay("member"));
+        }
+        if (this.matchesOtherInterests(message.text)) {
+            // decided before waiting, the interested member may answer later than the others wait
+            return decision(false, "left to the members interested");
+        }
+
+        const handlerId = this.getHandler(message.roomId);
+        if (handlerId === this.selfId) {
+            // waiting as long as the leader lets the members interested in the message take over
+            return decision(
+                true,
+                "handling the room",
+                this.delay("leader"),
+                true
+            );
+        }
+        if (handlerId) {
+            return decision(false, `room handled by ${handlerId}`);
+        }
+
+        if (!isLeader) {
+            return decision(false, "left to the team leader");
+        }
+        return decision(
+            true,
+            "unhandled message picked up by the leader",
+            this.delay("leader"),
+            true
+        );
+    }
+
+    /**
+     * Decides whether to answer a message, waits for the turn of the agent, and claims the room
+     * when answering.
+     */
+    async takeTurn(message: TeamMessage): Promise<boolean> {
+        const createdAt = message.createdAt ?? Date.now();
+        const turn = this.decideTurn(message);
+
+        if (!turn.respond) {
+            if (this.mentionsOtherMember(message)) {
+                this.release(message.roomId);
+            }
+            return false;
+        }
+        if (turn.delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, turn.delayMs));
+        }
+        if (
+            turn.yieldToTeam &&
+            (this.rooms.get(message.roomId)?.lastTeamReplyAt ?? 0) >= createdAt
+        ) {
+            return false;
+        }
+        if (this.isEnabled()) {
+            this.claim(message.roomId);
+        }
+        return true;
+    }
+
+    private isForMe(message: TeamMessage): boolean {
+        return (
+            !!message.isForMe ||
+            (message.mentionedIds ?? []).some(
+                (id) => this.normalize(id) === this.selfId
+            )
+        );
+    }
+
+    private mentionsOtherMember(message: TeamMessage): boolean {
+        return (
+            !this.isForMe(message) &&
+            (message.mentionedIds ?? []).some((id) => this.isTeamMember(id))
+        );
+    }
+
+    private matchesKeywords(content: string, keywords: string[]): boolean {
+        return keywords.some((keyword) =>
+            content.toLowerCase().includes(keyword.toLowerCase())
+        );
+    }
+
+    /** Interests of a member shared with the team */
+    private getSharedInterests(memberId: string): string[] {
+        return Object.entries(this.config.teamMemberInterests ?? {})
+            .filter(([id]) => this.normalize(id) === memberId)
+            .flatMap(([, keywords]) => keywords);
+    }
+
+    private matchesInterests(content: string): boolean {
+        const own = this.isTeamLeader()
+            ? []
+            : (this.config.teamMemberInterestKeywords ?? []);
+        return this.matchesKeywords(content, [
+            ...own,
+            ...this.getSharedInterests(this.selfId),
+        ]);
+    }
+
+    /** Whether a message is about the interests of another member */
+    private matchesOtherInterests(content: string): boolean {
+        // the keywords of the leader are the interests of the other members
+        if (
+            this.isTeamLeader() &&
+            this.matchesKeywords(
+                content,
+                this.config.teamMemberInterestKeywords ?? []
+            )
+        ) {
+            return true;
+        }
+        return Object.keys(this.config.teamMemberInterests ?? {})
+            .map(this.normalize)
+            .some(
+                (id) =>
+                    id !== this.selfId &&
+                    this.matchesKeywords(content, this.getSharedInterests(id))
+            );
+    }
+
+    private delay(role: "leader" | "member"): number {
+        const [min, max] =
+            role === "leader"
+                ? [this.timings.leaderDelayMin, this.timings.leaderDelayMax]
+                : [this.timings.memberDelayMin, this.timings.memberDelayMax];
+        return Math.floor(Math.random() * (max - min)) + min;
+    }
+
+    private room(roomId: string) {
+        let room = this.rooms.get(roomId);
+        if (!room) {
+            room = { lastMessageAt: 0, lastTeamReplyAt: 0 };
+            this.rooms.set(roomId, room);
+        }
+        return room;
+    }
+}
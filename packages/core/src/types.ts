@@ -1,4 +1,5 @@
 import type { Readable } from "stream";
+import type { ZodSchema } from "zod";
 
 /**
  * Represents a UUID string in the format "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
@@ -12,8 +13,11 @@ export interface Content {
     /** The main text content */
     text: string;
 
-    /** Optional action associated with the message */
-    action?: string;
+    /** Optional action associated with the message, either a name or a structured call */
+    action?: string | ActionCall;
+
+    /** Optional ordered list of actions to run in sequence, used instead of `action` */
+    actions?: (string | ActionCall)[];
 
     /** Optional source/origin of the content */
     source?: string;
@@ -27,10 +31,27 @@ export interface Content {
     /** Array of media attachments */
     attachments?: Media[];
 
+    /** Embedding model that produced the memory's embedding */
+    embeddingTag?: EmbeddingTag;
+
+    /** Knowledge entries the text refers to, numbered as in the text */
+    citations?: KnowledgeCitation[];
+
     /** Additional dynamic properties */
     [key: string]: unknown;
 }
 
+/**
+ * Structured action invocation emitted by the model
+ */
+export interface ActionCall {
+    /** Name (or simile) of the action to run */
+    name: string;
+
+    /** Optional parameters, validated against the action's parameter schema */
+    params?: { [key: string]: unknown };
+}
+
 /**
  * Example content with associated user for demonstration purposes
  */
@@ -180,6 +201,18 @@ export type EmbeddingModelSettings = {
     dimensions?: number;
 };
 
+/** Model prices in USD, see `modelPricing` */
+export type ModelPricing = {
+    /** Price per million prompt tokens */
+    inputPerMillion?: number;
+
+    /** Price per million completion tokens */
+    outputPerMillion?: number;
+
+    /** Price per generated image */
+    perImage?: number;
+};
+
 /**
  * Configuration for an AI model
  */
@@ -335,6 +368,9 @@ export interface State {
     /** Optional action examples */
     actionExamples?: string;
 
+    /** Results of the steps already run in the current action chain */
+    actionResults?: ActionStepResult[];
+
     /** Optional provider descriptions */
     providers?: string;
 
@@ -357,10 +393,70 @@ export interface State {
     /** Optional knowledge data */
     ragKnowledgeData?: RAGKnowledgeItem[];
 
+    /** Knowledge entries shown to the model with their citation keys */
+    knowledgeCitations?: KnowledgeCitation[];
+
+    /** Summary of the messages older than the recent ones, shown before `recentMessages` by templates */
+    conversationSummary?: string;
+
+    /** Sections shrunk to fit the state token budget */
+    truncatedSections?: StateSectionTruncation[];
+
     /** Additional dynamic properties */
     [key: string]: unknown;
 }
 
+/**
+ * Budget of a formatted state section
+ */
+export interface StateSectionBudget {
+    /** Sections with lower priority are shrunk first */
+    priority: number;
+
+    /** Maximum share of the total budget, applied even when the state fits */
+    maxShare?: number;
+
+    /** Share of the total budget the section keeps when shrinking */
+    minShare?: number;
+
+    /** Which part of the section to keep when truncating, defaults to "start" */
+    keep?: "start" | "end";
+}
+
+/**
+ * Options for fitting composed state into the model's input window
+ */
+export interface StateBudgetOptions {
+    /** Set to false to disable state budgeting */
+    enabled?: boolean;
+
+    /** Explicit token budget, overrides the model based one */
+    maxTokens?: number;
+
+    /** Share of the model's maxInputTokens given to state sections */
+    ratio?: number;
+
+    /** Model class whose maxInputTokens is used, defaults to large */
+    modelClass?: ModelClass;
+
+    /** Per section overrides of the default budgets */
+    sections?: Record<string, StateSectionBudget>;
+}
+
+/**
+ * Record of a state section shrunk to fit the budget
+ */
+export interface StateSectionTruncation {
+    /** State key of the section */
+    key: string;
+
+    /** Token count before truncation */
+    originalTokens: number;
+
+    /** Token count after truncation */
+    tokens: number;
+}
+
 /**
  * Represents a stored memory/message
  */
@@ -456,6 +552,172 @@ export interface Action {
 
     /** Whether to suppress the initial message when this action is used */
     suppressInitialMessage?: boolean;
+
+    /** Optional schema for the params of a structured action call */
+    parameters?: ZodSchema;
+
+    /** Whether the handler waits for a reviewer to approve it in the approval queue */
+    requiresApproval?: boolean;
+
+    /** Exposes the action as a chat command, actions without it have none, see `getActionCommands` */
+    command?: ActionCommandOptions;
+}
+
+export interface ActionCommandOptions {
+    /** Command name, the lowercased action name by default */
+    name?: string;
+
+    /** Ask the user to confirm before running the action */
+    confirm?: boolean;
+}
+
+/**
+ * Option of a chat command, read from the parameter schema of its action
+ */
+export interface CommandOption {
+    name: string;
+    description: string;
+    type: "string" | "integer" | "number" | "boolean";
+    required: boolean;
+
+    /** Allowed values, for enum parameters */
+    choices?: string[];
+}
+
+/**
+ * Chat command running a registered action, for the slash commands of the chat clients
+ */
+export interface ActionCommand {
+    /** Command name, lowercase letters, digits and underscores */
+    name: string;
+    description: string;
+
+    /** Name of the action run by the command */
+    action: string;
+
+    /** Whether the user confirms before the action runs */
+    confirm: boolean;
+    options: CommandOption[];
+}
+
+/**
+ * How an action was matched during resolution
+ */
+export enum ActionMatchType {
+    EXACT = "exact",
+    SIMILE = "simile",
+    FUZZY = "fuzzy",
+}
+
+/**
+ * Outcome of resolving a requested action against the registered actions
+ */
+export enum ActionResolutionStatus {
+    RESOLVED = "resolved",
+    AMBIGUOUS = "ambiguous",
+    NOT_FOUND = "not_found",
+    INVALID_PARAMS = "invalid_params",
+}
+
+/**
+ * An action considered while resolving a requested action name
+ */
+export interface ActionCandidate {
+    /** Name of the candidate action */
+    name: string;
+
+    /** Action name or simile that produced the match */
+    matchedOn: string;
+
+    /** How the candidate was matched */
+    matchType: ActionMatchType;
+
+    /** Similarity score between 0 and 1 */
+    score: number;
+}
+
+/**
+ * Options controlling action resolution
+ */
+export interface ActionResolutionOptions {
+    /** Whether to fall back to fuzzy matching (default: true) */
+    fuzzyMatching?: boolean;
+
+    /** Minimum fuzzy score required for a match (default: 0.75) */
+    fuzzyThreshold?: number;
+
+    /** Candidates scoring within this margin of the best are ambiguous (default: 0.05) */
+    ambiguityMargin?: number;
+}
+
+/**
+ * Options controlling how chains of actions are run
+ */
+export interface ActionChainOptions {
+    /** Maximum number of actions run for a single response (default: 5) */
+    maxLength?: number;
+
+    /** Whether to skip the remaining actions after a failed step (default: true) */
+    abortOnFailure?: boolean;
+}
+
+/**
+ * Outcome of a single step in an action chain
+ */
+export enum ActionStepStatus {
+    SUCCEEDED = "succeeded",
+    FAILED = "failed",
+    SKIPPED = "skipped",
+    PENDING_APPROVAL = "pending_approval",
+}
+
+/**
+ * Result of running one action of a response
+ */
+export interface ActionStepResult {
+    /** Position of the step in its chain */
+    step: number;
+
+    /** How the requested action was resolved */
+    resolution: ActionResolution;
+
+    /** Step outcome */
+    status: ActionStepStatus;
+
+    /** Value returned by the action handler */
+    result?: unknown;
+
+    /** Error message when the step failed */
+    error?: string;
+}
+
+/**
+ * Result of resolving an action name or structured action call
+ */
+export interface ActionResolution {
+    /** Resolution outcome */
+    status: ActionResolutionStatus;
+
+    /** Action name as requested by the model */
+    requested: string;
+
+    /** Resolved action, if any */
+    action?: Action;
+
+    /** How the action was matched */
+    matchType?: ActionMatchType;
+
+    /** Score of the winning candidate */
+    score?: number;
+
+    /** Params of the call, parsed by the action's schema when it has one */
+    params?: { [key: string]: unknown };
+
+    /** Candidates considered, best first */
+    candidates: ActionCandidate[];
+
+    /** Parameter validation errors */
+    errors?: string[];
 }
 
 /**
@@ -498,6 +760,63 @@ export interface Evaluator {
     validate: Validator;
 }
 
+/**
+ * Outcome of an evaluator during an evaluation pass
+ */
+export enum EvaluatorStatus {
+    SKIPPED = "skipped",
+    SUCCEEDED = "succeeded",
+    FAILED = "failed",
+}
+
+/**
+ * How evaluators are selected after validation: by asking the model, or by running all of them
+ */
+export type EvaluatorSelectionMode = "model" | "all";
+
+/**
+ * Report entry for a single evaluator
+ */
+export interface EvaluatorReport {
+    /** Evaluator name */
+    name: string;
+
+    /** Whether the evaluator passed validation */
+    validated: boolean;
+
+    /** Whether the evaluator was selected to run */
+    selected: boolean;
+
+    /** Evaluator outcome */
+    status: EvaluatorStatus;
+
+    /** Why the evaluator was skipped */
+    reason?: string;
+
+    /** Value returned by the evaluator handler */
+    output?: unknown;
+
+    /** Error message when validation or the handler failed */
+    error?: string;
+}
+
+/**
+ * Structured report of an evaluation pass
+ */
+export interface EvaluationReport {
+    /** How validated evaluators were selected */
+    selection: EvaluatorSelectionMode;
+
+    /** One entry per registered evaluator */
+    evaluators: EvaluatorReport[];
+
+    /** Names returned by the selection model that matched no validated evaluator */
+    unmatchedSelections: string[];
+
+    /** Error message when the selection model call failed */
+    selectionError?: string;
+}
+
 /**
  * Provider for external data/services
  */
@@ -703,8 +1022,294 @@ export interface ModelConfiguration {
     experimental_telemetry?: TelemetrySettings;
 }
 
+/**
+ * Provider in a model fallback chain
+ */
+export interface ModelFallbackProvider {
+    /** Provider to call */
+    provider: ModelProviderName;
+
+    /** Model names per class, overriding the provider defaults in models.ts */
+    models?: { [modelClass in ModelClass]?: string };
+
+    /** Endpoint overriding the provider default */
+    endpoint?: string;
+
+    /** Setting holding the API key, defaults to `<PROVIDER>_API_KEY` */
+    apiKeySetting?: string;
+}
+
+/**
+ * Failover options for text and object generation
+ */
+export interface ModelFallbackOptions {
+    /** Providers tried in order after the character's own model provider */
+    providers?: (ModelProviderName | ModelFallbackProvider)[];
+
+    /** Model names per class for the character's own model provider */
+    models?: { [modelClass in ModelClass]?: string };
+
+    /** Retries per provider on retryable errors, defaults to 1 */
+    retries?: number;
+
+    /** Delay before the first retry, doubled on each further attempt */
+    initialDelayMs?: number;
+
+    /** Upper bound of the retry delay */
+    maxDelayMs?: number;
+
+    /** Time after which an attempt is abandoned and counted as retryable */
+    timeoutMs?: number;
+}
+
+/**
+ * Outcome of a single call to a provider
+ */
+export interface ProviderAttempt {
+    provider: ModelProviderName;
+    model: string;
+    durationMs: number;
+    status?: number;
+    error?: string;
+    retryable?: boolean;
+}
+
+/**
+ * Telemetry of a generation call that went through the fallback chain
+ */
+export interface ProviderCallReport {
+    caller: string;
+    modelClass: ModelClass;
+
+    /** Provider that produced the result, undefined if every attempt failed */
+    servedBy?: ModelProviderName;
+    model?: string;
+    attempts: ProviderAttempt[];
+}
+
+/**
+ * Options for caching model responses
+ */
+export interface ResponseCacheOptions {
+    /** Serve byte-identical model calls from the cache manager */
+    enabled?: boolean;
+
+    /** Lifetime of cached responses, 0 keeps them forever; defaults to one day */
+    ttlMs?: number;
+}
+
+/**
+ * Inputs of a model call that make up its response cache key
+ */
+export interface ResponseCacheKeyParts {
+    kind: "text" | "object";
+    provider: ModelProviderName;
+    model: string;
+    context: string;
+    system?: string;
+    temperature?: number;
+    stop?: string[];
+    maxTokens?: number;
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+
+    /** Identifies the schema of object generation */
+    schema?: string;
+}
+
+/**
+ * Tags attributing a model call in the usage ledger
+ */
+export interface UsageTags {
+    /** Room the call was made for */
+    roomId?: UUID;
+
+    /** Component that made the call, such as an action or evaluator name */
+    caller?: string;
+}
+
+/**
+ * Model call to record in the usage ledger
+ */
+export interface UsageRecord extends UsageTags {
+    provider: string;
+    model: string;
+    modelClass: ModelClass;
+    promptTokens?: number;
+    completionTokens?: number;
+    images?: number;
+}
+
+/**
+ * Recorded model call with its cost
+ */
+export interface UsageEntry extends UsageRecord {
+    agentId: UUID;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+
+    /** Cost in USD, 0 when the model has no pricing */
+    cost: number;
+    createdAt: number;
+}
+
+/**
+ * Aggregated usage of model calls
+ */
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    images: number;
+    cost: number;
+}
+
+/**
+ * Usage of an agent for one day, broken down by model class, model, caller and room
+ */
+export interface UsageSummary extends UsageTotals {
+    /** Day in YYYY-MM-DD format (UTC) */
+    date: string;
+    byModelClass: { [modelClass: string]: UsageTotals };
+    byModel: { [model: string]: UsageTotals };
+    byCaller: { [caller: string]: UsageTotals };
+    byRoom: { [roomId: string]: UsageTotals };
+}
+
+/**
+ * Daily usage caps of an agent
+ */
+export interface UsageBudget {
+    /** Maximum tokens per day */
+    dailyTokens?: number;
+
+    /** Maximum cost in USD per day */
+    dailyCost?: number;
+}
+
+/**
+ * Records the token usage and cost of model calls
+ */
+export interface IUsageLedger {
+    /** Records a model call and returns the stored entry */
+    record(record: UsageRecord): Promise<UsageEntry>;
+
+    /** Returns the usage of a day, today by default */
+    getSummary(date?: string): Promise<UsageSummary>;
+
+    /** Returns the recent entries kept in memory, newest last */
+    getEntries(filter?: {
+        roomId?: UUID;
+        caller?: string;
+        since?: number;
+    }): UsageEntry[];
+
+    /** Throws when the daily budget of the agent is exhausted */
+    assertWithinBudget(): Promise<void>;
+}
+
+/**
+ * Identifies the embedding model a stored vector was produced with
+ */
+export interface EmbeddingTag {
+    provider: string;
+    model: string;
+    dimensions: number;
+}
+
+/**
+ * Result of comparing a sample of stored vectors with the embedding configuration
+ */
+export interface EmbeddingMismatchReport {
+    current: EmbeddingTag;
+    sampled: number;
+
+    /** Vectors tagged with another model, or untagged vectors of another dimension */
+    mismatched: number;
+
+    /** Distinct tags of the mismatched vectors */
+    storedTags: EmbeddingTag[];
+}
+
+/**
+ * Options of the re-embedding job
+ */
+export interface ReembeddingOptions {
+    /** Memory tables to re-embed, "knowledge" stands for the RAG knowledge table */
+    tables?: string[];
+
+    /** Number of items read per page and checked before each progress update, 20 by default */
+    batchSize?: number;
+
+    /** Re-embed vectors that already match the current embedding model */
+    force?: boolean;
+    onProgress?: (progress: ReembeddingProgress) => void;
+}
+
+/**
+ * Progress of the re-embedding job, kept in the cache so the job can resume
+ */
+export interface ReembeddingProgress {
+    target: EmbeddingTag;
+    completedTables: string[];
+    currentTable?: string;
+    processed: number;
+    updated: number;
+    failed: number;
+    done: boolean;
+    startedAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Embedding migration settings of a character
+ */
+export interface EmbeddingMigrationOptions {
+    /** Start the re-embedding job when a mismatch is detected at startup */
+    autoReembed?: boolean;
+    batchSize?: number;
+}
+
+/**
+ * A failed attempt of a structured output call
+ */
+export interface StructuredOutputAttempt {
+    /** Whether the provider's native JSON/tool mode or plain text was used */
+    mode: "native" | "text";
+
+    /** Raw model output, if any */
+    output?: string;
+    error: string;
+}
+
 export type TemplateType = string | ((options: { state: State }) => string);
 
+/**
+ * Options for checking the character's templates when the runtime initializes
+ */
+export interface TemplateValidationOptions {
+    /** Log the problems found, or fail initialization */
+    mode: "warn" | "error";
+
+    /** State keys provided outside `composeState`, e.g. by clients */
+    additionalKeys?: string[];
+}
+
+/**
+ * A problem found in a template
+ */
+export interface TemplateIssue {
+    /** Name of the template in `Character.templates` */
+    template: string;
+    type: "unknownKey" | "unknownPartial" | "unknownHelper" | "syntaxError";
+
+    /** The key, partial or helper that is not known */
+    name?: string;
+    message: string;
+}
+
 /**
  * Configuration for an agent character
  */
@@ -848,19 +1453,37 @@ export type Character = {
         };
         transcription?: TranscriptionProvider;
         ragKnowledge?: boolean;
+        ragRetrieval?: KnowledgeRetrievalOptions;
+        /**
+         * Show knowledge with citation keys and record the cited entries, false by default.
+         * Only enable it for clients that resolve the keys with `resolveCitations`, like the direct client.
+         */
+        knowledgeCitations?: boolean;
+        knowledgeSync?: KnowledgeSyncOptions;
+        memoryConsolidation?: MemoryConsolidationOptions;
+        retention?: RetentionOptions;
+        approval?: ApprovalOptions;
+        outbound?: OutboundQueueOptions;
+        actionResolution?: ActionResolutionOptions;
+        actionChain?: ActionChainOptions;
+        evaluation?: {
+            selection?: EvaluatorSelectionMode;
+        };
+        stateBudget?: StateBudgetOptions;
+        modelFallback?: ModelFallbackOptions;
+        responseCache?: ResponseCacheOptions;
+        usageBudget?: UsageBudget;
+        templateValidation?: TemplateValidationOptions;
+        embeddingMigration?: EmbeddingMigrationOptions;
     };
 
     /** Optional client-specific config */
     clientConfig?: {
-        discord?: {
+        discord?: TeamConfig & {
             shouldIgnoreBotMessages?: boolean;
             shouldIgnoreDirectMessages?: boolean;
             shouldRespondOnlyToMentions?: boolean;
             messageSimilarityThreshold?: number;
-            isPartOfTeam?: boolean;
-            teamAgentIds?: string[];
-            teamLeaderId?: string;
-            teamMemberInterestKeywords?: string[];
             allowedChannelIds?: string[];
             autoPost?: {
                 enabled?: boolean;
@@ -871,17 +1494,13 @@ export type Character = {
                 minTimeBetweenPosts?: number;
             };
         };
-        telegram?: {
+        telegram?: TeamConfig & {
             shouldIgnoreBotMessages?: boolean;
             shouldIgnoreDirectMessages?: boolean;
             shouldRespondOnlyToMentions?: boolean;
             shouldOnlyJoinInAllowedGroups?: boolean;
             allowedGroupIds?: string[];
             messageSimilarityThreshold?: number;
-            isPartOfTeam?: boolean;
-            teamAgentIds?: string[];
-            teamLeaderId?: string;
-            teamMemberInterestKeywords?: string[];
             autoPost?: {
                 enabled?: boolean;
                 monitorTime?: number;
@@ -890,11 +1509,25 @@ export type Character = {
                 pinnedMessagesGroups?: string[];
                 minTimeBetweenPosts?: number;
             };
+
+            /** Answers to inline queries, `@bot query` in any chat, from the knowledge of the agent */
+            inlineQueries?: {
+                enabled?: boolean;
+
+                /** Telegram user ids allowed to query, everyone when unset */
+                allowedUserIds?: string[];
+
+                /** Shorter queries are not searched, 3 characters by default */
+                minQueryLength?: number;
+            };
         };
-        slack?: {
-            shouldIgnoreBotMessages?: boolean;
-            shouldIgnoreDirectMessages?: boolean;
-        };
+        slack?: TeamConfig & {
+            shouldIgnoreBotMessages?: boolean;
+            shouldIgnoreDirectMessages?: boolean;
+        };
+
+        /** Team of the agents of the direct client, `teamAgentIds` being agent ids */
+        direct?: TeamConfig;
         gitbook?: {
             keywords?: {
                 projectTerms?: string[];
@@ -1002,6 +1635,8 @@ export interface IDatabaseAdapter {
         agentId: UUID;
         roomIds: UUID[];
         limit?: number;
+        /** Number of memories to skip, to page through a room with `limit` */
+        offset?: number;
     }): Promise<Memory[]>;
 
     getCachedEmbeddings(params: {
@@ -1110,7 +1745,13 @@ export interface IDatabaseAdapter {
         state: "FOLLOWED" | "MUTED" | null,
     ): Promise<void>;
 
-    createRelationship(params: { userA: UUID; userB: UUID }): Promise<boolean>;
+    /** Creates a relationship, owned by `userA` and without status unless they are given */
+    createRelationship(params: {
+        userA: UUID;
+        userB: UUID;
+        userId?: UUID;
+        status?: string;
+    }): Promise<boolean>;
 
     getRelationship(params: {
         userA: UUID;
@@ -1123,6 +1764,8 @@ export interface IDatabaseAdapter {
         id?: UUID;
         agentId: UUID;
         limit?: number;
+        /** Number of items to skip, to page through the knowledge with `limit` */
+        offset?: number;
         query?: string;
         conversationContext?: string;
     }): Promise<RAGKnowledgeItem[]>;
@@ -1137,7 +1780,33 @@ export interface IDatabaseAdapter {
 
     createKnowledge(knowledge: RAGKnowledgeItem): Promise<void>;
     removeKnowledge(id: UUID): Promise<void>;
+
+    /** Removes the chunks of a knowledge document, i.e. the items whose `originalId` is the document */
+    removeKnowledgeChunks(originalId: UUID): Promise<void>;
     clearKnowledge(agentId: UUID, shared?: boolean): Promise<void>;
+
+    /** Replaces the embedding and content of a stored memory */
+    updateMemoryEmbedding(memory: Memory, tableName: string): Promise<void>;
+
+    /** Updates the embedding and content of a stored knowledge item in place, leaving its chunks untouched */
+    updateKnowledgeEmbedding(knowledge: RAGKnowledgeItem): Promise<void>;
+
+    /** Changes the stored vectors to the given dimension, clearing the vectors of other dimensions */
+    resizeEmbeddings(dimensions: number): Promise<void>;
+
+    /** Deletes the entries of a table that fall outside a retention policy, returns their number */
+    applyRetention(
+        params: RetentionPolicy & { agentId: UUID; dryRun?: boolean }
+    ): Promise<number>;
+
+    /** Removes or anonymizes the data tied to an account */
+    eraseUser(
+        userId: UUID,
+        options?: UserErasureOptions
+    ): Promise<UserErasureReport>;
+
+    /** Applies the pending schema migrations of SQL adapters, run by `init` */
+    migrate?(options?: SchemaMigrationOptions): Promise<SchemaMigrationResult>;
 }
 
 export interface IDatabaseCacheAdapter {
@@ -1153,6 +1822,11 @@ export interface IDatabaseCacheAdapter {
     }): Promise<boolean>;
 
     deleteCache(params: { agentId: UUID; key: string }): Promise<boolean>;
+
+    /** Lists the cache entries of an agent, used to export its state */
+    getCacheEntries?(params: {
+        agentId: UUID;
+    }): Promise<{ key: string; value: string }[]>;
 }
 
 export interface IMemoryManager {
@@ -1202,6 +1876,9 @@ export interface IRAGKnowledgeManager {
     runtime: IAgentRuntime;
     tableName: string;
 
+    /** Reranker applied by `hybridSearch`, overrides `settings.ragRetrieval.reranker` */
+    reranker?: KnowledgeReranker;
+
     getKnowledge(params: {
         query?: string;
         id?: UUID;
@@ -1211,6 +1888,7 @@ export interface IRAGKnowledgeManager {
     }): Promise<RAGKnowledgeItem[]>;
     createKnowledge(item: RAGKnowledgeItem): Promise<void>;
     removeKnowledge(id: UUID): Promise<void>;
+    removeKnowledgeChunks(originalId: UUID): Promise<void>;
     searchKnowledge(params: {
         agentId: UUID;
         embedding: Float32Array | number[];
@@ -1218,15 +1896,26 @@ export interface IRAGKnowledgeManager {
         match_count?: number;
         searchText?: string;
     }): Promise<RAGKnowledgeItem[]>;
+    hybridSearch(params: {
+        query: string;
+        conversationContext?: string;
+        limit?: number;
+        agentId?: UUID;
+        reranker?: KnowledgeReranker | null;
+    }): Promise<KnowledgeSearchResult[]>;
     clearKnowledge(shared?: boolean): Promise<void>;
     processFile(file: {
         path: string;
         content: string;
-        type: "pdf" | "md" | "txt";
+
+        /** File extension, selects the chunker */
+        type: string;
         isShared: boolean;
     }): Promise<void>;
     cleanupDeletedKnowledgeFiles(): Promise<void>;
     generateScopedId(path: string, isShared: boolean): UUID;
+    preprocess(content: string): string;
+    listAllKnowledge(agentId: UUID): Promise<RAGKnowledgeItem[]>;
 }
 
 export type CacheOptions = {
@@ -1293,6 +1982,18 @@ export interface IAgentRuntime {
 
     cacheManager: ICacheManager;
 
+    usageLedger?: IUsageLedger;
+
+    knowledgeSync?: IKnowledgeSync;
+
+    memoryConsolidator?: IMemoryConsolidator;
+
+    retentionJanitor?: IRetentionJanitor;
+
+    approvalQueue?: IApprovalQueue;
+
+    outboundQueue?: IOutboundQueue;
+
     services: Map<ServiceType, Service>;
     // any could be EventEmitter
     // but I think the real solution is forthcoming as a base client interface
@@ -1320,14 +2021,14 @@ export interface IAgentRuntime {
         responses: Memory[],
         state?: State,
         callback?: HandlerCallback,
-    ): Promise<void>;
+    ): Promise<ActionStepResult[]>;
 
     evaluate(
         message: Memory,
         state?: State,
         didRespond?: boolean,
         callback?: HandlerCallback,
-    ): Promise<string[] | null>;
+    ): Promise<EvaluationReport>;
 
     ensureParticipantExists(userId: UUID, roomId: UUID): Promise<void>;
 
@@ -1550,6 +2251,10 @@ export interface RAGKnowledgeItem {
             source?: string;
             type?: string;
             isShared?: boolean;
+            embeddingTag?: EmbeddingTag;
+
+            /** Hash of the source file content, set on main entries */
+            contentHash?: string;
             [key: string]: unknown;
         };
     };
@@ -1559,6 +2264,766 @@ export interface RAGKnowledgeItem {
     score?: number;
 }
 
+/**
+ * How a knowledge search result was matched
+ */
+export interface KnowledgeMatchExplanation {
+    /** 1-based rank and similarity in the vector search, if it returned the item */
+    vector?: { rank: number; similarity: number };
+
+    /** 1-based rank and BM25 score in the lexical search, if it returned the item */
+    lexical?: { rank: number; score: number };
+
+    /** Query terms found in the text */
+    matchedTerms: string[];
+
+    /** Reciprocal rank fusion score of the two searches */
+    fusedScore: number;
+    rerank?: { reranker: string; score: number };
+}
+
+/**
+ * Knowledge item returned by the hybrid search
+ */
+export interface KnowledgeSearchResult extends RAGKnowledgeItem {
+    /** Rerank score when a reranker ran, fused score otherwise */
+    score: number;
+    explanation: KnowledgeMatchExplanation;
+}
+
+/**
+ * Reorders the fused candidates of a knowledge search
+ */
+export interface KnowledgeReranker {
+    name: string;
+
+    /** Returns the score of each candidate, higher is more relevant */
+    rerank(
+        query: string,
+        candidates: KnowledgeSearchResult[],
+        runtime: IAgentRuntime
+    ): Promise<number[]>;
+}
+
+/**
+ * Knowledge retrieval settings of a character
+ */
+export interface KnowledgeRetrievalOptions {
+    /** Candidates taken from each search, 4 times the limit by default */
+    candidateCount?: number;
+
+    /** Reciprocal rank fusion constant, 60 by default */
+    rrfK?: number;
+    vectorWeight?: number;
+    lexicalWeight?: number;
+
+    /** Built-in reranker, used when no reranker is set on the knowledge manager */
+    reranker?: "llm" | "none";
+
+    /** Fused candidates passed to the reranker, 20 by default */
+    rerankCount?: number;
+}
+
+/**
+ * Location of a chunk in its source document, stored in the chunk's `content.metadata`
+ */
+export interface KnowledgeChunkMetadata {
+    /** Heading, symbol or page the chunk belongs to */
+    section?: string;
+
+    /** Headings from the top of a markdown document down to the chunk's section */
+    breadcrumbs?: string[];
+    headingLevel?: number;
+
+    /** Top-level code symbol and its kind (function, class, ...) */
+    symbol?: string;
+    symbolKind?: string;
+    language?: string;
+
+    /** 1-based page of a PDF */
+    page?: number;
+
+    /** 1-based line range of the section in the source file */
+    startLine?: number;
+    endLine?: number;
+}
+
+/**
+ * A piece of a knowledge document
+ */
+export interface KnowledgeChunk {
+    text: string;
+    metadata?: KnowledgeChunkMetadata;
+}
+
+export interface KnowledgeChunkerOptions {
+    /** Path of the source file */
+    path: string;
+
+    /** Maximum chunk length in characters */
+    chunkSize: number;
+
+    /** Characters shared by consecutive chunks when text has to be split */
+    bleed: number;
+}
+
+/**
+ * Splits a knowledge document of a given file type into chunks
+ */
+export type KnowledgeChunker = (
+    content: string,
+    options: KnowledgeChunkerOptions
+) => Promise<KnowledgeChunk[]>;
+
+/**
+ * Reference from a response to the knowledge entry it used
+ */
+export interface KnowledgeCitation {
+    /** Key the model cites, derived from the knowledge id so it is stable across turns */
+    key: string;
+
+    /** Number of the citation in the response text, set once the response is resolved */
+    index?: number;
+    knowledgeId: UUID;
+
+    /** Source file of the entry */
+    source?: string;
+    section?: string;
+    page?: number;
+    snippet: string;
+}
+
+/**
+ * Ingestion state of a knowledge file
+ */
+export interface KnowledgeDocumentStatus {
+    /** Scoped id of the main knowledge entry */
+    id: UUID;
+
+    /** Path relative to the knowledge root */
+    path: string;
+    shared: boolean;
+    status: "pending" | "processing" | "ready" | "failed" | "deleted";
+
+    /** Hash of the ingested content */
+    contentHash?: string;
+    error?: string;
+    updatedAt: number;
+}
+
+/**
+ * Outcome of syncing one knowledge file
+ */
+export type KnowledgeSyncResult = KnowledgeDocumentStatus & {
+    change: "unchanged" | "ingested" | "updated" | "deleted" | "failed";
+};
+
+export interface KnowledgeSyncOptions {
+    /** Watch the knowledge directories and ingest changes while the agent runs */
+    watch?: boolean;
+
+    /** Delay before a changed file is ingested, in milliseconds */
+    debounceMs?: number;
+
+    /** Ingest source code files found in the knowledge directories, false by default */
+    includeCode?: boolean;
+}
+
+/**
+ * Keeps the stored knowledge in sync with the files under the knowledge root
+ */
+export interface IKnowledgeSync {
+    /** Ingests a file if its content hash changed since the last ingestion */
+    syncFile(path: string, shared?: boolean): Promise<KnowledgeSyncResult>;
+
+    /** Removes the knowledge of a file and its chunks */
+    removeFile(path: string, shared?: boolean): Promise<KnowledgeSyncResult>;
+
+    /** Writes a file under the knowledge root and ingests it */
+    addFile(
+        path: string,
+        content: string | Buffer,
+        shared?: boolean
+    ): Promise<KnowledgeSyncResult>;
+
+    /** Deletes a file under the knowledge root and removes its knowledge */
+    deleteFile(path: string, shared?: boolean): Promise<KnowledgeSyncResult>;
+
+    /** Syncs every file of a directory and removes the knowledge of deleted files */
+    syncDirectory(
+        directory: string,
+        shared?: boolean
+    ): Promise<KnowledgeSyncResult[]>;
+
+    /** Watches a directory until `stop` is called */
+    watch(directory: string, shared?: boolean): void;
+    stop(): void;
+
+    /** Returns the ingestion state of the files synced since the agent started */
+    getStatus(): KnowledgeDocumentStatus[];
+}
+
+/**
+ * Retention of the entries of one table
+ */
+export interface RetentionPolicy {
+    /** Memory table, e.g. "messages", or one of "logs", "goals" and "cache" */
+    tableName: string;
+
+    /** Maximum age of the entries, in milliseconds */
+    maxAge?: number;
+
+    /** Number of most recent entries kept per room, for memory tables, goals and logs */
+    maxCountPerRoom?: number;
+}
+
+export interface RetentionOptions {
+    /** Run the janitor periodically, false by default */
+    enabled?: boolean;
+
+    /** Time between janitor runs, in milliseconds */
+    intervalMs?: number;
+    policies?: RetentionPolicy[];
+}
+
+/**
+ * Outcome of applying a retention policy
+ */
+export interface RetentionResult {
+    tableName: string;
+
+    /** Entries deleted, or that would be deleted in a dry run */
+    deleted: number;
+    dryRun: boolean;
+    error?: string;
+}
+
+/**
+ * Applies the retention policies of an agent
+ */
+export interface IRetentionJanitor {
+    /** Applies every policy once */
+    run(options?: { dryRun?: boolean }): Promise<RetentionResult[]>;
+
+    /** Runs the janitor periodically until `stop` is called */
+    start(): void;
+    stop(): void;
+}
+
+export interface UserErasureOptions {
+    /** Report what would be erased without changing anything */
+    dryRun?: boolean;
+
+    /**
+     * What happens to the user's messages in rooms shared with other people: "delete" removes
+     * them, "anonymize" keeps them as placeholders so threads stay intact. Defaults to "delete".
+     */
+    sharedRoomMessages?: "delete" | "anonymize";
+}
+
+/**
+ * What erasing a user removed
+ */
+export interface UserErasureReport {
+    userId: UUID;
+    dryRun: boolean;
+
+    /** Entries deleted, or that would be deleted in a dry run, by table */
+    deleted: Record<string, number>;
+
+    /** Entries kept with the user's data removed, by table */
+    anonymized: Record<string, number>;
+
+    /** Tables the adapter cannot erase from, they still hold data of the user */
+    unsupported: string[];
+
+    /** Direct conversations of the user with an agent, erased entirely */
+    directRoomIds: UUID[];
+}
+
+/**
+ * Span of room messages covered by a summary memory
+ */
+export interface ConversationSummaryRange {
+    /** Creation time of the first summarized message */
+    start: number;
+
+    /** Creation time of the last summarized message */
+    end: number;
+    messageCount: number;
+    firstMessageId: UUID;
+    lastMessageId: UUID;
+}
+
+export interface MemoryConsolidationOptions {
+    /** Summarize older messages in the background, false by default */
+    enabled?: boolean;
+
+    /** Time between consolidation runs, in milliseconds */
+    intervalMs?: number;
+
+    /** Number of messages summarized together */
+    spanSize?: number;
+
+    /** Maximum number of spans summarized per room and run */
+    maxSpansPerRun?: number;
+    modelClass?: ModelClass;
+}
+
+/**
+ * Outcome of consolidating the messages of a room
+ */
+export interface ConsolidationResult {
+    roomId: UUID;
+    summariesCreated: number;
+
+    /** Creation time of the last summarized message */
+    consolidatedUntil?: number;
+}
+
+/**
+ * Summarizes the messages of a room that fell out of the recent conversation window
+ */
+export interface IMemoryConsolidator {
+    /** Summary memories, one per span of messages */
+    summaryManager: IMemoryManager;
+
+    /** Summarizes the full spans of messages older than the recent window */
+    consolidateRoom(roomId: UUID): Promise<ConsolidationResult>;
+
+    /** Consolidates every room the agent participates in */
+    consolidateAll(): Promise<ConsolidationResult[]>;
+
+    /** Returns the latest summary of a room, null if none */
+    getConversationSummary(roomId: UUID): Promise<Memory | null>;
+
+    /** Runs `consolidateAll` periodically until `stop` is called */
+    start(): void;
+    stop(): void;
+}
+
+/**
+ * Manifest of an agent state bundle, written next to its records
+ */
+export interface AgentBundleManifest {
+    /** Always "elizaos-agent-bundle" */
+    format: string;
+
+    /** Version of the bundle format */
+    version: number;
+    agentId: UUID;
+    agentName?: string;
+
+    /** Export time, as an ISO string */
+    createdAt: string;
+
+    /** Embedding model of the exported vectors */
+    embedding: EmbeddingTag;
+
+    /** Records written, by kind */
+    counts: Record<string, number>;
+
+    /** Data the source adapter could not export */
+    skipped: string[];
+}
+
+/**
+ * One line of the records of an agent state bundle
+ */
+export type AgentBundleRecord =
+    | { kind: "account"; data: Account }
+    | {
+          kind: "room";
+          data: { id: UUID };
+      }
+    | {
+          kind: "participant";
+          data: {
+              roomId: UUID;
+              userId: UUID;
+              userState: "FOLLOWED" | "MUTED" | null;
+          };
+      }
+    | { kind: "memory"; tableName: string; data: Memory }
+    | { kind: "goal"; data: Goal }
+    | { kind: "relationship"; data: Relationship }
+    | { kind: "knowledge"; data: RAGKnowledgeItem }
+    | { kind: "cache"; data: { key: string; value: string } };
+
+export interface AgentBundleImportOptions {
+    /** Agent receiving the state, defaults to the agent of the bundle */
+    agentId?: UUID;
+
+    /** Report what would be imported without writing anything */
+    dryRun?: boolean;
+}
+
+/**
+ * Outcome of importing an agent state bundle
+ */
+export interface AgentBundleImportReport {
+    manifest: AgentBundleManifest;
+    agentId: UUID;
+    dryRun: boolean;
+
+    /** Records imported, or that would be imported in a dry run, by kind */
+    imported: Record<string, number>;
+
+    /** Records already present in the database, by kind */
+    existing: Record<string, number>;
+
+    /** Records that failed to import, by kind */
+    failed: Record<string, number>;
+}
+
+/**
+ * Outcome of a conformance check: "supported" when the adapter follows the contract,
+ * "unsupported" when it lacks the methods or reports them as not implemented, "failed" when
+ * they behave differently from the contract.
+ */
+export type AdapterCapabilityStatus = "supported" | "unsupported" | "failed";
+
+export interface AdapterConformanceResult {
+    /** Capability checked, e.g. "memories.ordering" */
+    capability: string;
+
+    /** Adapter methods the check calls */
+    methods: string[];
+    status: AdapterCapabilityStatus;
+
+    /** Why the check did not pass */
+    error?: string;
+}
+
+/**
+ * Capabilities of one database adapter, as measured by the conformance suite
+ */
+export interface AdapterConformanceReport {
+    adapter: string;
+    results: AdapterConformanceResult[];
+}
+
+/**
+ * A versioned change of a SQL adapter's schema
+ */
+export interface SchemaMigration {
+    /** Position of the migration, starting at 1 and increasing by one */
+    version: number;
+    name: string;
+
+    /** SQL statements applying the change, without transaction statements */
+    up: string;
+}
+
+/**
+ * Reads and records the schema version of a database, implemented by each SQL adapter
+ */
+export interface SchemaMigrationStore {
+    /** Returns the version of the latest applied migration, 0 when none was */
+    getSchemaVersion(): Promise<number>;
+
+    /** Runs a migration and records its version in the schema_version table */
+    applyMigration(migration: SchemaMigration): Promise<void>;
+}
+
+export interface SchemaMigrationOptions {
+    /** Report the pending migrations without applying them */
+    dryRun?: boolean;
+}
+
+/**
+ * Outcome of migrating a database
+ */
+export interface SchemaMigrationResult {
+    adapter: string;
+    dryRun: boolean;
+
+    /** Schema version before migrating */
+    fromVersion: number;
+
+    /** Schema version after migrating, or that migrating would reach in a dry run */
+    toVersion: number;
+
+    /** Migrations applied, or pending in a dry run */
+    migrations: SchemaMigration[];
+}
+
+export type ApprovalStatus =
+    | "pending"
+    | "approved"
+    | "rejected"
+    | "expired"
+    | "failed";
+
+/**
+ * Outbound content or action side effect held until a reviewer decides on it
+ */
+export interface ApprovalRequest {
+    id: UUID;
+    agentId: UUID;
+
+    /** What is being sent, e.g. "twitter.post", "farcaster.cast" or "action" */
+    kind: string;
+
+    /** Short description shown to reviewers */
+    title: string;
+
+    /** The content to review, e.g. the text of a post */
+    content: Content;
+
+    /** Data the handler of the kind needs to carry out the request */
+    payload?: Record<string, unknown>;
+    status: ApprovalStatus;
+    createdAt: number;
+    expiresAt: number;
+    decidedAt?: number;
+
+    /** Reviewer, as reported by the reviewer channel */
+    decidedBy?: string;
+    reason?: string;
+
+    /** Set once the handler of the kind ran for an approved request */
+    executedAt?: number;
+
+    /** Set while the handler runs, a request left with it after a restart fails */
+    executingAt?: number;
+
+    /** Number of times the handler was run */
+    attempts?: number;
+
+    /** Error of the handler, retried on the next poll until the request fails */
+    error?: string;
+
+    /** Reference of the review message of each reviewer channel, e.g. a Discord message id */
+    channelRefs?: Record<string, string>;
+}
+
+export interface ApprovalDecision {
+    status: "approved" | "rejected";
+    decidedBy?: string;
+    reason?: string;
+}
+
+/**
+ * Where reviewers see pending requests and decide on them, e.g. a Discord or Slack channel
+ */
+export interface IApprovalChannel {
+    name: string;
+
+    /** Kinds of requests shown in the channel, all kinds when unset */
+    kinds?: string[];
+
+    /** Shows a new request to reviewers, returns a reference to the review message */
+    notify(request: ApprovalRequest): Promise<string | undefined>;
+
+    /** Reads the decision of the reviewers, null while undecided */
+    poll?(request: ApprovalRequest): Promise<ApprovalDecision | null>;
+
+    /** Tells reviewers that a request was approved, rejected, expired, executed or failed */
+    resolved?(request: ApprovalRequest): Promise<void>;
+}
+
+/** Carries out an approved request */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<void>;
+
+export interface ApprovalOptions {
+    /** Kinds of outbound content that need approval, e.g. ["telegram.post", "farcaster.cast"] */
+    kinds?: string[];
+
+    /** Actions that need approval in addition to those declaring `requiresApproval` */
+    actions?: string[];
+
+    /** Time before undecided requests expire, in milliseconds, 24 hours by default */
+    expiresIn?: number;
+
+    /** Time between polls of the reviewer channels, in milliseconds */
+    pollIntervalMs?: number;
+
+    /** Times the handler of an approved request is run before the request fails, 3 by default */
+    maxAttempts?: number;
+}
+
+/**
+ * Persistent queue of the requests waiting for a human decision
+ */
+export interface IApprovalQueue {
+    /** Whether outbound content of a kind needs approval */
+    isRequired(kind: string): boolean;
+
+    registerChannel(channel: IApprovalChannel): void;
+
+    /** Sets the function carrying out the approved requests of a kind */
+    registerHandler(kind: string, handler: ApprovalHandler): void;
+
+    /**
+     * Adds a function called once a request is resolved: carried out, rejected, expired or
+     * failed for good
+     */
+    onResolved(listener: (request: ApprovalRequest) => void): void;
+
+    /** Queues a request and notifies the reviewer channels */
+    request(params: {
+        kind: string;
+        title: string;
+        content: Content;
+        payload?: Record<string, unknown>;
+        expiresIn?: number;
+    }): Promise<ApprovalRequest>;
+
+    /** Records a decision, and runs the handler of approved requests */
+    decide(id: UUID, decision: ApprovalDecision): Promise<ApprovalRequest>;
+    get(id: UUID): Promise<ApprovalRequest | null>;
+    list(options?: { status?: ApprovalStatus }): Promise<ApprovalRequest[]>;
+
+    /** Expires old requests, polls the reviewer channels and retries failed handlers */
+    poll(): Promise<void>;
+
+    /** Polls periodically until `stop` is called */
+    start(): void;
+    stop(): void;
+}
+
+/**
+ * Team membership of an agent in a chat client shared with other agents
+ */
+export interface TeamConfig {
+    isPartOfTeam?: boolean;
+
+    /** Ids of the agents of the team in the chat client, e.g. Discord user ids */
+    teamAgentIds?: string[];
+
+    /** Id of the leader, elected among `teamAgentIds` when not set */
+    teamLeaderId?: string;
+
+    /**
+     * Topics of the agent; for the leader, the topics it leaves to the other members
+     */
+    teamMemberInterestKeywords?: string[];
+
+    /**
+     * Topics of every member by id, shared by the whole team so that each agent knows which
+     * messages the others take
+     */
+    teamMemberInterests?: { [memberId: string]: string[] };
+}
+
+/**
+ * A chat message as seen by the team coordinator
+ */
+export interface TeamMessage {
+    roomId: string;
+    authorId: string;
+    text: string;
+
+    /** Users mentioned in the message, e.g. Discord or Slack user ids */
+    mentionedIds?: string[];
+
+    /** Whether the message addresses the agent directly: a mention, its name or a DM */
+    isForMe?: boolean;
+    createdAt?: number;
+}
+
+export interface TeamTurnDecision {
+    respond: boolean;
+
+    /** Time to wait before responding, so the leader and the members do not answer at once */
+    delayMs: number;
+
+    /** Whether to stay quiet if another member answered during the delay */
+    yieldToTeam: boolean;
+    reason: string;
+}
+
+export interface TeamTimings {
+    leaderDelayMin: number;
+    leaderDelayMax: number;
+    memberDelayMin: number;
+    memberDelayMax: number;
+
+    /** Time without messages after which the agent handling a room loses it */
+    handlerTimeout: number;
+}
+
+/**
+ * Order in which queued outbound messages of a platform are sent
+ */
+export enum SendPriority {
+    /** Answers to users */
+    REPLY = "reply",
+    DEFAULT = "default",
+    /** Unprompted posts, sent once nothing else waits */
+    AUTOPOST = "autopost",
+}
+
+/** Allows `tokens` sends per `intervalMs`, in bursts of up to `tokens` */
+export interface RateLimit {
+    tokens: number;
+    intervalMs: number;
+}
+
+export interface OutboundPlatformOptions {
+    /** Limit of the whole platform, e.g. the global limit of a bot */
+    global?: RateLimit;
+
+    /** Limit of each channel, chat or conversation */
+    channel?: RateLimit;
+
+    /** Retries of a send after a rate limit or, with `retryErrors`, an error; 3 by default */
+    maxRetries?: number;
+
+    /** Retry failed sends with exponential backoff, not only rate limited ones */
+    retryErrors?: boolean;
+
+    /** Sends waiting beyond which new sends are rejected, unless they outrank a waiting one */
+    maxQueueSize?: number;
+}
+
+export interface OutboundQueueOptions {
+    /** Limits by platform, e.g. "discord", merged with the defaults of known platforms */
+    platforms?: Record<string, OutboundPlatformOptions>;
+}
+
+export interface OutboundTask<T = unknown> {
+    platform: string;
+
+    /** The channel, chat or conversation sent to; sends to a channel keep their order */
+    channelId: string;
+    priority?: SendPriority;
+    run: () => Promise<T>;
+}
+
+export interface OutboundMetrics {
+    platform: string;
+
+    /** Sends waiting for their turn, by priority */
+    queued: Record<SendPriority, number>;
+    inFlight: number;
+    sent: number;
+    failed: number;
+    retried: number;
+
+    /** Sends rejected because the queue was full */
+    dropped: number;
+
+    /** Rate limit errors reported by the platform */
+    rateLimited: number;
+
+    /** Time sends waited in the queue */
+    averageWaitMs: number;
+    maxWaitMs: number;
+}
+
+/**
+ * Queue pacing the messages sent to chat platforms within their rate limits
+ */
+export interface IOutboundQueue {
+    /** Queues a send, resolving with its result once it was sent */
+    send<T>(task: OutboundTask<T>): Promise<T>;
+
+    /** Metrics of every platform, or of one */
+    getMetrics(platform?: string): OutboundMetrics[];
+}
+
 export interface ActionResponse {
     like: boolean;
     retweet: boolean;
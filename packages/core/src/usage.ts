@@ -0,0 +1,193 @@
+import { elizaLogger } from "./index.ts";
+import { getModelPricing } from "./models.ts";
+import type {
+    IAgentRuntime,
+    IUsageLedger,
+    ModelPricing,
+    UsageEntry,
+    UsageRecord,
+    UsageSummary,
+    UsageTotals,
+} from "./types.ts";
+
+/** Number of entries kept in memory for inspection */
+const MAX_RECENT_ENTRIES = 1000;
+
+const emptyTotals = (): UsageTotals => ({
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    images: 0,
+    cost: 0,
+});
+
+const addToTotals = (totals: UsageTotals, entry: UsageEntry) => {
+    totals.calls += 1;
+    totals.promptTokens += entry.promptTokens;
+    totals.completionTokens += entry.completionTokens;
+    totals.totalTokens += entry.totalTokens;
+    totals.images += entry.images ?? 0;
+    totals.cost += entry.cost;
+};
+
+/**
+ * Thrown when an agent has used up its daily usage budget.
+ */
+export class UsageBudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageBudgetExceededError";
+    }
+}
+
+/**
+ * Returns the UTC day of a timestamp in YYYY-MM-DD format.
+ */
+export function getUsageDate(timestamp: number = Date.now()): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Computes the cost in USD of a model call from its pricing.
+ * @param pricing - Prices of the model, if any.
+ * @param record - Token and image counts of the call.
+ * @returns The cost, 0 when the model has no pricing.
+ */
+export function getUsageCost(
+    pricing: ModelPricing | undefined,
+    record: Pick<UsageRecord, "promptTokens" | "completionTokens" | "images">
+): number {
+    if (!pricing) {
+        return 0;
+    }
+    return (
+        ((record.promptTokens ?? 0) * (pricing.inputPerMillion ?? 0)) /
+            1_000_000 +
+        ((record.completionTokens ?? 0) * (pricing.outputPerMillion ?? 0)) /
+            1_000_000 +
+        (record.images ?? 0) * (pricing.perImage ?? 0)
+    );
+}
+
+/**
+ * Usage ledger of an agent.
+ *
+ * Daily summaries are kept through the runtime's cache manager so budgets survive restarts,
+ * each entry is written to the database log with type "usage", and the most recent entries
+ * are kept in memory.
+ */
+export class UsageLedger implements IUsageLedger {
+    private entries: UsageEntry[] = [];
+    private summaries = new Map<string, UsageSummary>();
+
+    constructor(private runtime: IAgentRuntime) {}
+
+    private getCacheKey(date: string): string {
+        return `usage/${this.runtime.agentId}/${date}`;
+    }
+
+    async getSummary(date: string = getUsageDate()): Promise<UsageSummary> {
+        let summary = this.summaries.get(date);
+        if (!summary) {
+            summary = (await this.runtime.cacheManager
+                ?.get<UsageSummary>(this.getCacheKey(date))
+                .catch(() => undefined)) ?? {
+                date,
+                ...emptyTotals(),
+                byModelClass: {},
+                byModel: {},
+                byCaller: {},
+                byRoom: {},
+            };
+            // another call may have loaded the summary meanwhile
+            summary = this.summaries.get(date) ?? summary;
+            this.summaries.set(date, summary);
+        }
+        return summary;
+    }
+
+    async record(record: UsageRecord): Promise<UsageEntry> {
+        const promptTokens = record.promptTokens ?? 0;
+        const completionTokens = record.completionTokens ?? 0;
+        const entry: UsageEntry = {
+            ...record,
+            caller: record.caller ?? "unknown",
+            agentId: this.runtime.agentId,
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            cost: getUsageCost(getModelPricing(record.model), record),
+            createdAt: Date.now(),
+        };
+
+        this.entries.push(entry);
+        if (this.entries.length > MAX_RECENT_ENTRIES) {
+            this.entries.shift();
+        }
+
+        const summary = await this.getSummary(getUsageDate(entry.createdAt));
+        addToTotals(summary, entry);
+        const groups: [{ [key: string]: UsageTotals }, string | undefined][] = [
+            [summary.byModelClass, entry.modelClass],
+            [summary.byModel, `${entry.provider}/${entry.model}`],
+            [summary.byCaller, entry.caller],
+            [summary.byRoom, entry.roomId],
+        ];
+        for (const [group, key] of groups) {
+            if (key) {
+                group[key] ??= emptyTotals();
+                addToTotals(group[key], entry);
+            }
+        }
+
+        try {
+            await this.runtime.cacheManager?.set(
+                this.getCacheKey(summary.date),
+                summary
+            );
+            await this.runtime.databaseAdapter?.log({
+                body: { ...entry },
+                userId: this.runtime.agentId,
+                roomId: entry.roomId ?? this.runtime.agentId,
+                type: "usage",
+            });
+        } catch (error) {
+            elizaLogger.error(
+                `Failed to store usage: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        return entry;
+    }
+
+    getEntries(
+        filter: { roomId?: string; caller?: string; since?: number } = {}
+    ): UsageEntry[] {
+        return this.entries.filter(
+            (entry) =>
+                (!filter.roomId || entry.roomId === filter.roomId) &&
+                (!filter.caller || entry.caller === filter.caller) &&
+                (!filter.since || entry.createdAt >= filter.since)
+        );
+    }
+
+    async assertWithinBudget(): Promise<void> {
+        const budget = this.runtime.character.settings?.usageBudget;
+        if (!budget?.dailyTokens && !budget?.dailyCost) {
+            return;
+        }
+
+        const summary = await this.getSummary();
+        if (budget.dailyTokens && summary.totalTokens >= budget.dailyTokens) {
+            throw new UsageBudgetExceededError(
+                `Daily token budget of ${budget.dailyTokens} exceeded for agent ${this.runtime.character.name}`
+            );
+        }
+        if (budget.dailyCost && summary.cost >= budget.dailyCost) {
+            throw new UsageBudgetExceededError(
+                `Daily cost budget of $${budget.dailyCost} exceeded for agent ${this.runtime.character.name}`
+            );
+        }
+    }
+}
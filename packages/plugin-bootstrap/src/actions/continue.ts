@@ -169,6 +169,7 @@ export const continueAction: Action = {
                 context: shouldRespondContext,
                 modelClass: ModelClass.SMALL,
                 runtime,
+                usageTags: { roomId: message.roomId, caller: "CONTINUE" },
             });
 
             return response;
@@ -195,6 +196,7 @@ export const continueAction: Action = {
             runtime,
             context,
             modelClass: ModelClass.LARGE,
+            usageTags: { roomId, caller: "CONTINUE" },
         });
 
         response.inReplyTo = message.id;
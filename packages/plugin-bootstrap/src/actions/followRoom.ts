@@ -34,6 +34,7 @@ export const followRoomAction: Action = {
     ],
     description:
         "Start following this channel with great interest, chiming in without needing to be explicitly mentioned. Only do this if explicitly asked to.",
+    command: { name: "follow" },
     validate: async (runtime: IAgentRuntime, message: Memory) => {
         const keywords = [
             "follow",
@@ -57,7 +58,11 @@ export const followRoomAction: Action = {
         );
         return userState !== "FOLLOWED" && userState !== "MUTED";
     },
-    handler: async (runtime: IAgentRuntime, message: Memory) => {
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State
+    ) => {
         async function _shouldFollow(state: State): Promise<boolean> {
             const shouldFollowContext = composeContext({
                 state,
@@ -68,14 +73,17 @@ export const followRoomAction: Action = {
                 runtime,
                 context: shouldFollowContext,
                 modelClass: ModelClass.LARGE,
+                usageTags: { roomId: state.roomId, caller: "FOLLOW_ROOM" },
             });
 
             return response;
         }
 
-        const state = await runtime.composeState(message);
-
-        if (await _shouldFollow(state)) {
+        // a command is an explicit request, the model only decides in conversations
+        if (
+            state?.command ||
+            (await _shouldFollow(await runtime.composeState(message)))
+        ) {
             await runtime.databaseAdapter.setParticipantUserState(
                 message.roomId,
                 runtime.agentId,
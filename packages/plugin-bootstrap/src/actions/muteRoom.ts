@@ -36,6 +36,7 @@ export const muteRoomAction: Action = {
     ],
     description:
         "Mutes a room, ignoring all messages unless explicitly mentioned. Only do this if explicitly asked to, or if you're annoying people.",
+    command: { name: "mute" },
     validate: async (runtime: IAgentRuntime, message: Memory) => {
         const roomId = message.roomId;
         const userState = await runtime.databaseAdapter.getParticipantUserState(
@@ -44,7 +45,11 @@ export const muteRoomAction: Action = {
         );
         return userState !== "MUTED";
     },
-    handler: async (runtime: IAgentRuntime, message: Memory) => {
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State
+    ) => {
         async function _shouldMute(state: State): Promise<boolean> {
             const shouldMuteContext = composeContext({
                 state,
@@ -55,14 +60,17 @@ export const muteRoomAction: Action = {
                 runtime,
                 context: shouldMuteContext,
                 modelClass: ModelClass.LARGE,
+                usageTags: { roomId: state.roomId, caller: "MUTE_ROOM" },
             });
 
             return response;
         }
 
-        const state = await runtime.composeState(message);
-
-        if (await _shouldMute(state)) {
+        // a command is an explicit request, the model only decides in conversations
+        if (
+            state?.command ||
+            (await _shouldMute(await runtime.composeState(message)))
+        ) {
             await runtime.databaseAdapter.setParticipantUserState(
                 message.roomId,
                 runtime.agentId,
@@ -34,6 +34,7 @@ export const unfollowRoomAction: Action = {
     ],
     description:
         "Stop following this channel. You can still respond if explicitly mentioned, but you won't automatically chime in anymore. Unfollow if you're annoying people or have been asked to.",
+    command: { name: "unfollow" },
     validate: async (runtime: IAgentRuntime, message: Memory) => {
         const roomId = message.roomId;
         const userState = await runtime.databaseAdapter.getParticipantUserState(
@@ -42,7 +43,11 @@ export const unfollowRoomAction: Action = {
         );
         return userState === "FOLLOWED";
     },
-    handler: async (runtime: IAgentRuntime, message: Memory) => {
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State
+    ) => {
         async function _shouldUnfollow(state: State): Promise<boolean> {
             const shouldUnfollowContext = composeContext({
                 state,
@@ -53,14 +58,17 @@ export const unfollowRoomAction: Action = {
                 runtime,
                 context: shouldUnfollowContext,
                 modelClass: ModelClass.LARGE,
+                usageTags: { roomId: state.roomId, caller: "UNFOLLOW_ROOM" },
             });
 
             return response;
         }
 
-        const state = await runtime.composeState(message);
-
-        if (await _shouldUnfollow(state)) {
+        // a command is an explicit request, the model only decides in conversations
+        if (
+            state?.command ||
+            (await _shouldUnfollow(await runtime.composeState(message)))
+        ) {
             await runtime.databaseAdapter.setParticipantUserState(
                 message.roomId,
                 runtime.agentId,
@@ -34,6 +34,7 @@ export const unmuteRoomAction: Action = {
     ],
     description:
         "Unmutes a room, allowing the agent to consider responding to messages again.",
+    command: { name: "unmute" },
     validate: async (runtime: IAgentRuntime, message: Memory) => {
         const roomId = message.roomId;
         const userState = await runtime.databaseAdapter.getParticipantUserState(
@@ -42,7 +43,11 @@ export const unmuteRoomAction: Action = {
         );
         return userState === "MUTED";
     },
-    handler: async (runtime: IAgentRuntime, message: Memory) => {
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State
+    ) => {
         async function _shouldUnmute(state: State): Promise<boolean> {
             const shouldUnmuteContext = composeContext({
                 state,
@@ -53,14 +58,17 @@ export const unmuteRoomAction: Action = {
                 context: shouldUnmuteContext,
                 runtime,
                 modelClass: ModelClass.LARGE,
+                usageTags: { roomId: state.roomId, caller: "UNMUTE_ROOM" },
             });
 
             return response;
         }
 
-        const state = await runtime.composeState(message);
-
-        if (await _shouldUnmute(state)) {
+        // a command is an explicit request, the model only decides in conversations
+        if (
+            state?.command ||
+            (await _shouldUnmute(await runtime.composeState(message)))
+        ) {
             await runtime.databaseAdapter.setParticipantUserState(
                 message.roomId,
                 runtime.agentId,
@@ -65,6 +65,7 @@ async function handler(runtime: IAgentRuntime, message: Memory) {
         runtime,
         context,
         modelClass: ModelClass.LARGE,
+        usageTags: { roomId: message.roomId, caller: "GET_FACTS" },
     });
 
     const factsManager = new MemoryManager({
@@ -66,6 +66,7 @@ async function handler(
         runtime,
         context,
         modelClass: ModelClass.LARGE,
+        usageTags: { roomId: message.roomId, caller: "UPDATE_GOAL" },
     });
 
     // Parse the JSON response to extract goal updates